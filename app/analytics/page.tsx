@@ -0,0 +1,285 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import { useSession } from "../../components/use-session";
+import {
+  analyticsDimensions,
+  AnalyticsDimension,
+  AnalyticsGroup,
+  AnalyticsReport,
+  describeFailure,
+  dimensionLabels,
+  formatRate,
+  OutcomeStats
+} from "../../shared/analytics";
+
+export default function AnalyticsPage() {
+  const session = useSession();
+  const [range, setRange] = useState(() => ({ from: daysAgo(30), to: daysAgo(0) }));
+  const [dimension, setDimension] = useState<AnalyticsDimension>("scriptStyle");
+  const [report, setReport] = useState<AnalyticsReport>();
+  const [error, setError] = useState<string>();
+
+  const query = rangeQuery(range.from, range.to);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/analytics?${query}`, { cache: "no-store" });
+      const data = (await response.json()) as AnalyticsReport | { message: string };
+      if (!("totals" in data)) {
+        setError(data.message);
+        return;
+      }
+      setReport(data);
+      setError(undefined);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Analytics are unavailable right now.");
+    }
+  }, [query]);
+
+  useEffect(() => {
+    if (session) void load();
+  }, [session, load]);
+
+  if (session === null) {
+    return (
+      <main className="mx-auto w-full max-w-4xl px-6 py-12 text-sm text-slate-300">
+        <Link href="/" className={linkClass}>
+          Sign in on the dashboard
+        </Link>{" "}
+        to see analytics.
+      </main>
+    );
+  }
+
+  const totals = report?.totals;
+  const groups = report?.breakdowns[dimension] ?? [];
+
+  return (
+    <main className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-6 py-12">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <Link href="/" className={linkClass}>
+            ← Dashboard
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight">Analytics</h1>
+          <p className="text-sm text-slate-400">
+            Finished calls and retries. Hours and weekdays are in the callee&apos;s local time.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={event => setRange(prev => ({ ...prev, from: event.target.value }))}
+            className={filterClass}
+            aria-label="From"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={event => setRange(prev => ({ ...prev, to: event.target.value }))}
+            className={filterClass}
+            aria-label="To"
+          />
+          <a href={`/api/analytics/export?${query}`} download className={linkClass}>
+            Export CSV
+          </a>
+        </div>
+      </header>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {totals && (
+        <section className="grid gap-4 sm:grid-cols-4">
+          <Metric label="Finished calls" value={String(totals.calls)} />
+          <Metric
+            label="Connect rate"
+            value={formatRate(totals.connectRate)}
+            detail={`${totals.connected} of ${totals.dialed} dialed`}
+          />
+          <Metric
+            label="Human / machine"
+            value={`${totals.human} / ${totals.machine}`}
+            detail={
+              totals.connected ? `${formatRate(totals.human / totals.connected)} human` : undefined
+            }
+          />
+          <Metric label="Average duration" value={formatDuration(totals.averageDuration)} />
+        </section>
+      )}
+
+      <section className={panelClass}>
+        <div className="flex flex-wrap gap-2">
+          {analyticsDimensions.map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setDimension(item)}
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs transition",
+                item === dimension
+                  ? "border-sky-500 bg-sky-500/10 text-sky-200"
+                  : "border-slate-700 text-slate-300 hover:border-slate-500"
+              )}
+            >
+              {dimensionLabels[item]}
+            </button>
+          ))}
+        </div>
+
+        <OutcomeLegend />
+        <ul className="mt-3 space-y-3">
+          {groups.map(group => (
+            <GroupRow key={group.key} group={group} scale={maxCalls(groups)} />
+          ))}
+          {groups.length === 0 && (
+            <li className="text-sm text-slate-400">No finished calls in this range.</li>
+          )}
+        </ul>
+      </section>
+
+      {totals && Object.keys(totals.failures).length > 0 && (
+        <section className={panelClass}>
+          <h2 className="text-lg font-semibold">Failure reasons</h2>
+          <ul className="mt-3 space-y-2 text-sm">
+            {Object.entries(totals.failures)
+              .sort((a, b) => b[1] - a[1])
+              .map(([reason, count]) => (
+                <li key={reason} className="grid grid-cols-[10rem_1fr_3rem] items-center gap-3">
+                  <span className="truncate text-slate-300">{describeFailure(reason)}</span>
+                  <span className="h-2 rounded-full bg-slate-800">
+                    <span
+                      className="block h-2 rounded-full bg-rose-400/80"
+                      style={{ width: `${(count / totals.calls) * 100}%` }}
+                    />
+                  </span>
+                  <span className="text-right text-xs text-slate-400">{count}</span>
+                </li>
+              ))}
+          </ul>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function Metric({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className={clsx(panelClass, "space-y-1")}>
+      <p className="text-xs uppercase text-slate-400">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+      {detail && <p className="text-xs text-slate-400">{detail}</p>}
+    </div>
+  );
+}
+
+/** One bar per group, as wide as its call count and split by outcome. */
+function GroupRow({ group, scale }: { group: AnalyticsGroup; scale: number }) {
+  const { stats } = group;
+  const segments = outcomeSegments(stats);
+  const topFailure = Object.entries(stats.failures).sort((a, b) => b[1] - a[1])[0];
+
+  return (
+    <li className="text-sm">
+      <div className="flex items-baseline justify-between gap-3">
+        <span className="text-slate-200">{group.label}</span>
+        <span className="text-xs text-slate-400">
+          {[
+            `${stats.calls} calls`,
+            stats.dialed ? `${formatRate(stats.connectRate)} connected` : undefined,
+            stats.averageDuration !== undefined
+              ? `avg ${formatDuration(stats.averageDuration)}`
+              : undefined,
+            topFailure && `mostly ${describeFailure(topFailure[0])}`
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </span>
+      </div>
+      <div className="mt-1 h-3 rounded-full bg-slate-800/60">
+        <div
+          className="flex h-3 overflow-hidden rounded-full"
+          style={{ width: scale ? `${(stats.calls / scale) * 100}%` : 0 }}
+        >
+          {segments.map(segment => (
+            <span
+              key={segment.label}
+              className={segment.className}
+              style={{ width: `${(segment.count / (stats.calls || 1)) * 100}%` }}
+              title={`${segment.label}: ${segment.count}`}
+            />
+          ))}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+function OutcomeLegend() {
+  return (
+    <p className="mt-4 flex flex-wrap gap-4 text-xs text-slate-400">
+      {outcomeSegments().map(segment => (
+        <span key={segment.label} className="flex items-center gap-1.5">
+          <span className={clsx("inline-block h-2 w-2 rounded-full", segment.className)} />
+          {segment.label}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function outcomeSegments(stats?: OutcomeStats) {
+  const other = stats ? stats.connected - stats.human - stats.machine : 0;
+  return [
+    { label: "Human", count: stats?.human ?? 0, className: "bg-emerald-400/80" },
+    { label: "Machine", count: stats?.machine ?? 0, className: "bg-amber-400/80" },
+    { label: "Answered, unknown", count: other, className: "bg-sky-400/80" },
+    {
+      label: "Not connected",
+      count: stats ? stats.calls - stats.connected : 0,
+      className: "bg-rose-400/60"
+    }
+  ];
+}
+
+function maxCalls(groups: AnalyticsGroup[]) {
+  return Math.max(0, ...groups.map(group => group.stats.calls));
+}
+
+function formatDuration(seconds?: number) {
+  if (seconds === undefined) return "—";
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function daysAgo(days: number) {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0")
+  ].join("-");
+}
+
+/** Whole local days, so the `to` date is included up to its last millisecond. */
+function rangeQuery(from: string, to: string) {
+  const params = new URLSearchParams();
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+const panelClass = "rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl";
+
+const filterClass =
+  "rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
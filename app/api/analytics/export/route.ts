@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { analyticsRangeSchema } from "../../../../shared/analytics";
+import { authorize } from "../../../../server/auth";
+import { exportAnalyticsCsv } from "../../../../server/analytics";
+
+export const dynamic = "force-dynamic";
+
+/** The finished calls behind the report, one CSV row each. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const params = new URL(request.url).searchParams;
+  const parsed = analyticsRangeSchema.safeParse({
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid query"
+      },
+      { status: 400 }
+    );
+  }
+
+  const csv = await exportAnalyticsCsv({ ...parsed.data, teamId: auth.principal.teamId });
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="calls-${new Date().toISOString().slice(0, 10)}.csv"`
+    }
+  });
+}
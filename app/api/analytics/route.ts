@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { analyticsRangeSchema } from "../../../shared/analytics";
+import { authorize } from "../../../server/auth";
+import { buildAnalytics } from "../../../server/analytics";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const params = new URL(request.url).searchParams;
+  const parsed = analyticsRangeSchema.safeParse({
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid query"
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    await buildAnalytics({ ...parsed.data, teamId: auth.principal.teamId })
+  );
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { signInSchema } from "../../../../shared/auth";
+import { authenticate, describeSession, listTeamsForUser } from "../../../../server/accounts";
+import { setSessionCookie } from "../../../../server/auth";
+import { createSession } from "../../../../server/sessions";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => undefined);
+  const parsed = signInSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const user = await authenticate(parsed.data.email, parsed.data.password);
+
+  if (!user) {
+    return NextResponse.json(
+      { success: false, message: "Email or password is incorrect." },
+      { status: 401 }
+    );
+  }
+
+  const [team] = await listTeamsForUser(user.id);
+
+  if (!team) {
+    return NextResponse.json(
+      { success: false, message: "Your account is not a member of any workspace." },
+      { status: 403 }
+    );
+  }
+
+  const { token, session } = await createSession(user.id, team.id);
+  const response = NextResponse.json({
+    success: true,
+    session: await describeSession(user.id, team.id)
+  });
+  return setSessionCookie(response, token, session.expiresAt);
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie, readSessionToken } from "../../../../server/auth";
+import { deleteSession } from "../../../../server/sessions";
+
+export async function POST(request: Request) {
+  const token = readSessionToken(request);
+  if (token) await deleteSession(token);
+  return clearSessionCookie(NextResponse.json({ success: true }));
+}
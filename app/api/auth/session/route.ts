@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { describeSession, signUpAllowed } from "../../../../server/accounts";
+import { readSessionToken } from "../../../../server/auth";
+import { getSession } from "../../../../server/sessions";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const token = readSessionToken(request);
+  const session = token ? await getSession(token) : undefined;
+  const info = session ? await describeSession(session.userId, session.teamId) : undefined;
+
+  if (!info) {
+    return NextResponse.json(
+      { success: false, message: "Not signed in.", signUpAllowed: await signUpAllowed() },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ success: true, session: info });
+}
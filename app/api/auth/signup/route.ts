@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { signUpSchema } from "../../../../shared/auth";
+import { describeSession, signUp } from "../../../../server/accounts";
+import { setSessionCookie } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { createSession } from "../../../../server/sessions";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => undefined);
+  const parsed = signUpSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { user, team } = await signUp(parsed.data);
+    const { token, session } = await createSession(user.id, team.id);
+    const response = NextResponse.json(
+      { success: true, session: await describeSession(user.id, team.id) },
+      { status: 201 }
+    );
+    return setSessionCookie(response, token, session.expiresAt);
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { describeSession } from "../../../../server/accounts";
+import { readSessionToken } from "../../../../server/auth";
+import { getSession, switchSessionTeam } from "../../../../server/sessions";
+
+const switchSchema = z.object({ teamId: z.string().min(1) });
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => undefined);
+  const parsed = switchSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const token = readSessionToken(request);
+  const session = token ? await getSession(token) : undefined;
+
+  if (!token || !session) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 });
+  }
+
+  const info = await describeSession(session.userId, parsed.data.teamId);
+
+  if (!info) {
+    return NextResponse.json(
+      { success: false, message: "You are not a member of that workspace." },
+      { status: 403 }
+    );
+  }
+
+  await switchSessionTeam(token, parsed.data.teamId);
+  return NextResponse.json({ success: true, session: info });
+}
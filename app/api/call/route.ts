@@ -1,28 +1,75 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import twilio from "twilio";
-
-const requestSchema = z.object({
-  contactName: z.string().min(1),
-  phoneNumber: z.string().regex(/^\+?[1-9]\d{7,14}$/),
-  objective: z.string().min(1),
-  scriptStyle: z.enum(["friendly", "direct", "consultative"]),
-  scheduledAt: z.string().datetime().optional(),
-  notes: z.string().optional()
-});
-
-const styleSignOff: Record<"friendly" | "direct" | "consultative", string> = {
-  friendly:
-    "Thanks again for taking the time today. Looking forward to connecting soon!",
-  direct:
-    "Please confirm if we can proceed, or let me know the best decision maker to engage.",
-  consultative:
-    "I appreciate your insights. Let's align on the best path forward together."
-};
+import { scriptStyles } from "../../../shared/calls";
+import type { BlockReason } from "../../../shared/compliance";
+import { optionalPhoneNumberSchema, phoneNumberSchema } from "../../../shared/phone";
+import { isValidTimezone } from "../../../shared/phone-timezone";
+import { RetryPolicy, retryPolicySchema } from "../../../shared/retry-policy";
+import { checkSpeech, VoiceSettings, voiceSettingsSchema } from "../../../shared/speech";
+import { authorize, type Principal } from "../../../server/auth";
+import { budgetMessage, exceededBudget } from "../../../server/budgets";
+import { createCall } from "../../../server/call-repository";
+import { findContactByPhone, getContact } from "../../../server/contacts";
+import { alignToCallingWindow } from "../../../server/compliance";
+import { dialCall } from "../../../server/dialer";
+import { dryRunCall } from "../../../server/dry-run";
+import { serviceErrorResponse } from "../../../server/errors";
+import { withIdempotency } from "../../../server/idempotency";
+import {
+  consumeRateLimits,
+  rateLimitBlock,
+  rateLimitKeys
+} from "../../../server/rate-limits";
+import { scheduleCall } from "../../../server/scheduler";
+import { assertSequence } from "../../../server/sequences";
+import { getTeamSettings, recordingOptions } from "../../../server/settings";
+import { getTelephonyProvider } from "../../../server/telephony";
+import { pinTemplate } from "../../../server/templates";
+
+/** Numbers are normalized to E.164, reading local ones in the team's default country. */
+function requestSchemaFor(defaultCountry: string) {
+  return z.object({
+    contactName: z.string().min(1),
+    phoneNumber: phoneNumberSchema(defaultCountry),
+    objective: z.string().min(1).superRefine(checkSpeech),
+    scriptStyle: z.enum(scriptStyles),
+    voice: voiceSettingsSchema.optional(),
+    scheduledAt: z.string().datetime().optional(),
+    notes: z.string().optional().superRefine(checkSpeech),
+    voicemailScript: z.string().max(600).optional().superRefine(checkSpeech),
+    callbackNumber: optionalPhoneNumberSchema(defaultCountry),
+    templateId: z.string().optional(),
+    customFields: z.record(z.string().max(500)).optional(),
+    consentGranted: z.boolean().optional(),
+    consentSource: z.string().max(200).optional(),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+    record: z.boolean().optional(),
+    contactId: z.string().optional(),
+    retryPolicy: retryPolicySchema.optional(),
+    sequenceId: z.string().optional(),
+    dryRun: z.boolean().optional(),
+    replies: z.array(z.string().max(500)).max(10).optional()
+  });
+}
 
 export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
   const body = await request.json().catch(() => undefined);
-  const parsed = requestSchema.safeParse(body);
+  const { teamId, actor } = auth.principal;
+
+  // Dry runs change nothing, so there is nothing to deduplicate.
+  if (isDryRun(body)) return launchCall(body, auth.principal);
+
+  return withIdempotency(request, `${teamId}:${actor.id}`, body, () =>
+    launchCall(body, auth.principal)
+  );
+}
+
+async function launchCall(body: unknown, principal: Principal) {
+  const { defaultCountry } = await getTeamSettings(principal.teamId);
+  const parsed = requestSchemaFor(defaultCountry).safeParse(body);
 
   if (!parsed.success) {
     return NextResponse.json(
@@ -34,23 +81,63 @@ export async function POST(request: Request) {
     );
   }
 
-  const accountSid = process.env.TWILIO_ACCOUNT_SID;
-  const authToken = process.env.TWILIO_AUTH_TOKEN;
-  const fromNumber = process.env.TWILIO_FROM_NUMBER;
+  const unavailable = getTelephonyProvider().configurationError();
 
-  if (!accountSid || !authToken || !fromNumber) {
-    return NextResponse.json(
-      {
-        success: false,
-        message:
-          "Twilio credentials are missing. Set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and TWILIO_FROM_NUMBER."
-      },
-      { status: 500 }
-    );
+  // A dry run reports this among its checks instead.
+  if (unavailable && !parsed.data.dryRun) {
+    return NextResponse.json({ success: false, message: unavailable }, { status: 503 });
+  }
+
+  const {
+    scheduledAt,
+    templateId,
+    record,
+    retryPolicy,
+    voice,
+    contactId,
+    dryRun,
+    replies,
+    ...fields
+  } = parsed.data;
+  const { teamId, actor } = principal;
+  // Calls without an explicit contact are linked to the directory entry for their number.
+  const contact = contactId
+    ? await getContact(contactId, teamId)
+    : await findContactByPhone(teamId, fields.phoneNumber);
+
+  if (contactId && !contact) {
+    return NextResponse.json({ success: false, message: "Contact not found." }, { status: 400 });
+  }
+
+  const details = {
+    ...fields,
+    ...(await recordingOptions(teamId, record)),
+    teamId,
+    launchedBy: actor,
+    contactId: contact?.id
+  };
+  let pinned: {
+    templateId?: string;
+    templateVersion?: number;
+    retryPolicy?: RetryPolicy;
+    voice?: VoiceSettings;
+  } = {};
+
+  try {
+    if (templateId) pinned = await pinTemplate(templateId, teamId);
+    if (details.sequenceId) await assertSequence(details.sequenceId, teamId);
+  } catch (error) {
+    return serviceErrorResponse(error);
   }
 
-  const { contactName, objective, phoneNumber, scriptStyle, scheduledAt, notes } = parsed.data;
-  const now = Date.now();
+  // A policy or voice sent with the call wins over the template's default.
+  const launch = {
+    ...details,
+    ...pinned,
+    retryPolicy: retryPolicy ?? pinned.retryPolicy,
+    voice: voice ?? pinned.voice
+  };
+
   const scheduleTime = scheduledAt ? Date.parse(scheduledAt) : undefined;
 
   if (scheduleTime && Number.isNaN(scheduleTime)) {
@@ -60,79 +147,82 @@ export async function POST(request: Request) {
     );
   }
 
-  const delaySeconds =
-    scheduleTime && scheduleTime > now ? Math.floor((scheduleTime - now) / 1000) : 0;
+  const scheduledFor =
+    scheduleTime && scheduleTime > Date.now() ? new Date(scheduleTime) : undefined;
 
-  if (delaySeconds > 600) {
-    return NextResponse.json(
-      {
-        success: false,
-        message:
-          "Scheduling more than 10 minutes ahead is not supported by this serverless worker."
-      },
-      { status: 422 }
-    );
+  if (dryRun) {
+    const result = await dryRunCall(launch, {
+      scheduledFor,
+      replies,
+      rateLimitKeys: rateLimitKeys(actor.id, details.phoneNumber)
+    });
+    const message = result.wouldDial
+      ? "Dry run passed; nothing was dialed."
+      : "Dry run found problems; nothing was dialed.";
+    return NextResponse.json({ success: true, message, dryRun: result });
   }
 
-  const scriptSegments = [
-    `Hi ${contactName}, this is your automated outreach agent calling from our team.`,
-    `Objective for today: ${objective}.`,
-    notes ? `Notes from the team: ${notes}.` : undefined,
-    styleSignOff[scriptStyle]
-  ].filter(Boolean) as string[];
+  // Budgets are charged when a call is dialed, so only immediate calls are
+  // turned away here; scheduled ones are checked again when they come due.
+  const overBudget = scheduledFor ? undefined : await exceededBudget();
 
-  const twiml = buildTwiml(scriptSegments, delaySeconds);
-  const client = twilio(accountSid, authToken);
+  if (overBudget) {
+    return NextResponse.json(
+      { success: false, message: budgetMessage(overBudget), budget: overBudget },
+      { status: 402 }
+    );
+  }
 
+  // Only the per-user window is charged at launch; the global and per-number
+  // windows count dials. Immediate calls are checked against all of them
+  // here so a full window answers 429 without saving a blocked call.
+  const keys = rateLimitKeys(actor.id, details.phoneNumber);
   try {
-    const call = await client.calls.create({
-      to: phoneNumber,
-      from: fromNumber,
-      twiml,
-      machineDetection: "Enable",
-      statusCallbackEvent: ["initiated", "ringing", "answered", "completed"],
-      statusCallback: process.env.TWILIO_STATUS_WEBHOOK_URL
-    });
+    const limited = scheduledFor ? undefined : await rateLimitBlock(keys);
+    if (limited) throw limited;
+    await consumeRateLimits({ user: keys.user });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
 
-    return NextResponse.json({
-      success: true,
-      message: delaySeconds
-        ? `Call scheduled in ${delaySeconds} seconds.`
-        : "Call initiated successfully.",
-      callSid: call.sid,
-      status: delaySeconds ? "queued" : "in-progress"
+  if (scheduledFor) {
+    const runAt = alignToCallingWindow(details, scheduledFor).toISOString();
+    const message =
+      Date.parse(runAt) > scheduledFor.getTime()
+        ? `Requested time is outside calling hours; call scheduled for ${runAt}.`
+        : `Call scheduled for ${runAt}.`;
+    const call = await createCall({
+      ...launch,
+      scheduledAt: runAt,
+      status: "scheduled",
+      message
     });
-  } catch (error) {
-    console.error("[call-agent] Failed to create call", error);
-    return NextResponse.json(
-      {
-        success: false,
-        message:
-          error instanceof Error
-            ? `Twilio error: ${error.message}`
-            : "Unknown error while creating Twilio call."
-      },
-      { status: 502 }
-    );
+    const job = await scheduleCall(call.id, runAt);
+
+    return NextResponse.json({ success: true, message, status: call.status, call, job });
   }
-}
 
-function buildTwiml(lines: string[], delaySeconds: number) {
-  const voice = "Polly.Joanna";
-  const pause = delaySeconds
-    ? `<Pause length="${Math.min(delaySeconds, 600)}" />`
-    : "";
-  const sayBlocks = lines
-    .map(line => `<Say voice="${voice}">${escapeForTwiml(line)}</Say>`)
-    .join("");
+  const call = await createCall({ ...launch, status: "queued" });
+  const outcome = await dialCall(call);
+
+  return NextResponse.json(
+    {
+      success: outcome.success,
+      message: outcome.message,
+      callSid: outcome.call.callSid,
+      status: outcome.call.status,
+      reason: outcome.blocked,
+      call: outcome.call
+    },
+    { status: outcome.success ? 200 : outcome.blocked ? blockedStatus(outcome.blocked) : 502 }
+  );
+}
 
-  return `<Response>${pause}${sayBlocks}<Hangup/></Response>`;
+function isDryRun(body: unknown) {
+  return typeof body === "object" && body !== null && "dryRun" in body && body.dryRun === true;
 }
 
-function escapeForTwiml(value: string) {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;");
+function blockedStatus(reason: BlockReason) {
+  if (reason.code === "rate_limited") return 429;
+  return reason.code === "budget_exceeded" ? 402 : 422;
 }
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../server/auth";
+import { getStatusSnapshots } from "../../../../server/call-status-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const callSids = new URL(request.url).searchParams.getAll("sid").filter(Boolean);
+
+  if (callSids.length === 0) {
+    return NextResponse.json(
+      { success: false, message: "Provide at least one sid query parameter." },
+      { status: 400 }
+    );
+  }
+
+  const snapshots = await getStatusSnapshots(callSids.slice(0, 50), auth.principal.teamId);
+  return NextResponse.json({ success: true, calls: snapshots });
+}
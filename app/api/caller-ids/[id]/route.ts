@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { callerIdUpdateSchema } from "../../../../shared/caller-ids";
+import { authorize } from "../../../../server/auth";
+import { retireCallerId, updateCallerId } from "../../../../server/caller-ids";
+import { serviceErrorResponse } from "../../../../server/errors";
+
+/** Changes a number's label, daily cap or health. */
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = callerIdUpdateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const callerId = await updateCallerId(params.id, auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, callerId });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+/** Retires the number. It keeps its history and can be added back later. */
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const callerId = await retireCallerId(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true, callerId });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
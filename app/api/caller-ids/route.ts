@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { callerIdInputSchema } from "../../../shared/caller-ids";
+import { authorize } from "../../../server/auth";
+import { addCallerId, listCallerIdSummaries } from "../../../server/caller-ids";
+import { serviceErrorResponse } from "../../../server/errors";
+
+export const dynamic = "force-dynamic";
+
+/** The workspace's caller ID pool with per-number usage, retired numbers included. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const callerIds = await listCallerIdSummaries(auth.principal.teamId);
+    return NextResponse.json({ success: true, callerIds });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = callerIdInputSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const callerId = await addCallerId(auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, callerId }, { status: 201 });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
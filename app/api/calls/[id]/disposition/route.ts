@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { callDispositionSchema } from "../../../../../shared/dispositions";
+import { authorize } from "../../../../../server/auth";
+import { clearCallDisposition, setCallDisposition } from "../../../../../server/dispositions";
+import { serviceErrorResponse } from "../../../../../server/errors";
+
+/** Sets the call's disposition, notes and tasks, replacing what was there. */
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = callDispositionSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { teamId, actor } = auth.principal;
+  try {
+    const call = await setCallDisposition(params.id, teamId, actor, parsed.data);
+    return NextResponse.json({ success: true, call });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const call = await clearCallDisposition(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true, call });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../../server/auth";
+import { hangUpCall } from "../../../../../server/dialer";
+import { serviceErrorResponse } from "../../../../../server/errors";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const call = await hangUpCall(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true, message: "Hang-up requested.", call });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorize, inWorkspace } from "../../../../../server/auth";
+import { getCall } from "../../../../../server/call-repository";
+import { getTelephonyProvider } from "../../../../../server/telephony";
+
+export const dynamic = "force-dynamic";
+
+/** Streams recording audio so the browser never needs provider credentials. */
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const call = await getCall(params.id);
+  const mediaUrl = call?.recording?.mediaUrl;
+
+  if (!call || !mediaUrl || !inWorkspace(auth.principal, call)) {
+    return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 });
+  }
+
+  const audio = await getTelephonyProvider().fetchRecording(mediaUrl);
+
+  if (!audio?.ok || !audio.body) {
+    return NextResponse.json(
+      { success: false, message: "The recording could not be retrieved." },
+      { status: 502 }
+    );
+  }
+
+  return new NextResponse(audio.body, {
+    headers: {
+      "Content-Type": audio.headers.get("content-type") ?? "audio/mpeg",
+      "Cache-Control": "private, max-age=3600"
+    }
+  });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { authorize, inWorkspace } from "../../../../server/auth";
+import { getCall } from "../../../../server/call-repository";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const call = await getCall(params.id);
+
+  if (!call || !inWorkspace(auth.principal, call)) {
+    return NextResponse.json({ success: false, message: "Call not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, call });
+}
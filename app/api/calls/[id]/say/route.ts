@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { injectMessageSchema } from "../../../../../shared/live-calls";
+import { authorize } from "../../../../../server/auth";
+import { serviceErrorResponse } from "../../../../../server/errors";
+import { injectMessage } from "../../../../../server/live-calls";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const parsed = injectMessageSchema.safeParse(await request.json().catch(() => undefined));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: parsed.error.issues[0]?.message ?? "Invalid payload" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const call = await injectMessage(
+      params.id,
+      auth.principal.teamId,
+      parsed.data.text,
+      auth.principal.actor
+    );
+    return NextResponse.json({ success: true, message: "Message sent to the call.", call });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
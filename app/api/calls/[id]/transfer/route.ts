@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../../server/auth";
+import { serviceErrorResponse } from "../../../../../server/errors";
+import { transferCall } from "../../../../../server/live-calls";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const call = await transferCall(params.id, auth.principal.teamId, auth.principal.actor);
+    return NextResponse.json({ success: true, message: "Transferring to an agent.", call });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { callStatuses, isTerminalStatus } from "../../../../shared/call-status";
+import { scriptStyles } from "../../../../shared/calls";
+import { authorize } from "../../../../server/auth";
+import { importCalls } from "../../../../server/call-repository";
+
+// Shape of the entries previously kept under the `calling-agent:log` key.
+const legacyEntrySchema = z.object({
+  id: z.string().min(1),
+  contactName: z.string(),
+  phoneNumber: z.string(),
+  objective: z.string(),
+  scriptStyle: z.enum(scriptStyles),
+  scheduledAt: z.string().optional(),
+  notes: z.string().optional(),
+  status: z.enum(callStatuses).catch("queued"),
+  createdAt: z.string().datetime(),
+  message: z.string().optional(),
+  confirmationSid: z.string().optional(),
+  duration: z.number().optional(),
+  answeredBy: z.string().optional(),
+  errorCode: z.string().optional()
+});
+
+const requestSchema = z.object({
+  calls: z.array(legacyEntrySchema).max(500)
+});
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const imported = await importCalls(
+    parsed.data.calls.map(({ confirmationSid, ...entry }) => ({
+      ...entry,
+      ...finalStatus(entry),
+      callSid: confirmationSid,
+      teamId: auth.principal.teamId,
+      launchedBy: auth.principal.actor,
+      updatedAt: entry.createdAt
+    }))
+  );
+
+  return NextResponse.json({ success: true, imported });
+}
+
+/**
+ * No status callback will arrive for a legacy call, so one saved mid-flight
+ * is closed out rather than left looking live.
+ */
+function finalStatus(entry: z.infer<typeof legacyEntrySchema>) {
+  if (isTerminalStatus(entry.status)) return {};
+  return {
+    status: "canceled" as const,
+    message: `Imported while ${entry.status}; the final outcome is unknown.`
+  };
+}
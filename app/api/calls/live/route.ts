@@ -0,0 +1,17 @@
+import { authorize } from "../../../../server/auth";
+import { liveCallsStream } from "../../../../server/live-calls";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  return new Response(liveCallsStream(auth.principal.teamId, request.signal), {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { callStatuses } from "../../../shared/call-status";
+import { callDirections } from "../../../shared/calls";
+import { authorize } from "../../../server/auth";
+import { listAttempts, listCalls } from "../../../server/call-repository";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.array(z.enum(callStatuses)).optional(),
+  contact: z.string().optional(),
+  transcript: z.string().optional(),
+  direction: z.enum(callDirections).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  disposition: z.string().optional(),
+  openTasks: z.literal("true").optional()
+});
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const params = new URL(request.url).searchParams;
+  const statuses = params.getAll("status").filter(Boolean);
+  const parsed = querySchema.safeParse({
+    page: params.get("page") ?? undefined,
+    pageSize: params.get("pageSize") ?? undefined,
+    status: statuses.length ? statuses : undefined,
+    contact: params.get("contact") || undefined,
+    transcript: params.get("q") || undefined,
+    direction: params.get("direction") || undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    disposition: params.get("disposition") || undefined,
+    openTasks: params.get("openTasks") || undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid query"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { calls, total } = await listCalls({
+    ...parsed.data,
+    openTasks: Boolean(parsed.data.openTasks),
+    teamId: auth.principal.teamId,
+    rootsOnly: true
+  });
+  return NextResponse.json({
+    success: true,
+    calls,
+    page: parsed.data.page,
+    pageSize: parsed.data.pageSize,
+    total,
+    attempts: await listAttempts(calls.map(call => call.id))
+  });
+}
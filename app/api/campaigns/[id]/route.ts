@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  advanceCampaign,
+  changeCampaignStatus,
+  getCampaign,
+  summarizeCampaign
+} from "../../../../server/campaigns";
+import { authorize, inWorkspace } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { getTelephonyProvider } from "../../../../server/telephony";
+
+export const dynamic = "force-dynamic";
+
+const actionSchema = z.object({
+  action: z.enum(["start", "pause", "resume", "cancel"])
+});
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const campaign = await getCampaign(params.id);
+
+  if (!campaign || !inWorkspace(auth.principal, campaign)) {
+    return NextResponse.json({ success: false, message: "Campaign not found." }, { status: 404 });
+  }
+
+  const summary = await summarizeCampaign(campaign);
+  return NextResponse.json({ success: true, campaign: { ...summary, contacts: campaign.contacts } });
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = actionSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { action } = parsed.data;
+  const existing = await getCampaign(params.id);
+
+  if (!existing || !inWorkspace(auth.principal, existing)) {
+    return NextResponse.json({ success: false, message: "Campaign not found." }, { status: 404 });
+  }
+
+  const unavailable = getTelephonyProvider().configurationError();
+
+  if (unavailable && (action === "start" || action === "resume")) {
+    return NextResponse.json({ success: false, message: unavailable }, { status: 503 });
+  }
+
+  try {
+    const campaign = await changeCampaignStatus(params.id, action);
+    // Dial the first batch right away; the scheduler tick keeps it moving.
+    if (!unavailable && campaign.status === "running") {
+      await advanceCampaign(campaign.id);
+    }
+    const latest = (await getCampaign(campaign.id)) ?? campaign;
+    return NextResponse.json({ success: true, campaign: await summarizeCampaign(latest) });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
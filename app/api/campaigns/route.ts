@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  campaignRowSchemaFor,
+  campaignSettingsSchema,
+  RowError
+} from "../../../shared/campaigns";
+import { authorize } from "../../../server/auth";
+import { createCampaign, listCampaignSummaries } from "../../../server/campaigns";
+import { getTeamSettings } from "../../../server/settings";
+
+export const dynamic = "force-dynamic";
+
+const requestSchema = campaignSettingsSchema.extend({
+  rows: z.array(z.unknown()).min(1, "Upload at least one contact").max(5000)
+});
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const campaigns = await listCampaignSummaries(auth.principal.teamId);
+  return NextResponse.json({ success: true, campaigns });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { defaultCountry } = await getTeamSettings(auth.principal.teamId);
+  const rowSchema = campaignRowSchemaFor(defaultCountry);
+  const rowErrors: RowError[] = [];
+  const contacts = parsed.data.rows.flatMap((row, index) => {
+    const result = rowSchema.safeParse(row);
+    if (result.success) return [{ ...result.data, row: index + 1 }];
+    for (const issue of result.error.issues) {
+      rowErrors.push({
+        row: index + 1,
+        field: String(issue.path[0] ?? "row"),
+        message: issue.message
+      });
+    }
+    return [];
+  });
+
+  if (rowErrors.length) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `${rowErrors.length} row error(s) found. Fix them before launching.`,
+        rowErrors
+      },
+      { status: 400 }
+    );
+  }
+
+  const { rows: _rows, ...settings } = parsed.data;
+  const campaign = await createCampaign({
+    ...settings,
+    contacts,
+    teamId: auth.principal.teamId,
+    createdBy: auth.principal.actor
+  });
+  return NextResponse.json({ success: true, campaign }, { status: 201 });
+}
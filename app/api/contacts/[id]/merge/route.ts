@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize } from "../../../../../server/auth";
+import { mergeContacts } from "../../../../../server/contacts";
+import { serviceErrorResponse } from "../../../../../server/errors";
+
+const requestSchema = z.object({
+  sourceId: z.string().min(1, "Pick the contact to merge")
+});
+
+/** Folds another contact into this one and moves its calls over. */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const contact = await mergeContacts(params.id, parsed.data.sourceId, auth.principal.teamId);
+    return NextResponse.json({ success: true, contact });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { contactInputSchemaFor } from "../../../../shared/contacts";
+import { authorize } from "../../../../server/auth";
+import { listCallsForContact } from "../../../../server/call-repository";
+import { deleteContact, getContact, updateContact } from "../../../../server/contacts";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { getTeamSettings } from "../../../../server/settings";
+import { listMessagesForContact } from "../../../../server/sms";
+
+export const dynamic = "force-dynamic";
+
+/** The contact with its full call and text message timeline. */
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const contact = await getContact(params.id, auth.principal.teamId);
+
+  if (!contact) {
+    return NextResponse.json({ success: false, message: "Contact not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    contact,
+    calls: await listCallsForContact(contact),
+    messages: await listMessagesForContact(contact)
+  });
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const { defaultCountry } = await getTeamSettings(auth.principal.teamId);
+  const body = await request.json().catch(() => undefined);
+  const parsed = contactInputSchemaFor(defaultCountry).partial().safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const contact = await updateContact(params.id, auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, contact });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await deleteContact(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { parseContactsCsv } from "../../../../shared/contacts";
+import { authorize } from "../../../../server/auth";
+import { importContacts } from "../../../../server/contacts";
+
+const requestSchema = z.union([
+  z.object({ text: z.string().max(2_000_000) }),
+  z.object({ contacts: z.array(z.unknown()).max(10_000) })
+]);
+
+/**
+ * Imports contacts from a CSV export (`text`) or a JSON array (`contacts`).
+ * Numbers already in the directory are merged instead of duplicated.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, message: "Provide CSV text or a list of contacts." },
+      { status: 400 }
+    );
+  }
+
+  const rows = "text" in parsed.data ? parseContactsCsv(parsed.data.text) : parsed.data.contacts;
+  const summary = await importContacts(auth.principal.teamId, rows);
+  return NextResponse.json({ success: true, ...summary });
+}
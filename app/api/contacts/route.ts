@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { contactInputSchemaFor } from "../../../shared/contacts";
+import { authorize } from "../../../server/auth";
+import { listContacts, saveContact } from "../../../server/contacts";
+import { getTeamSettings } from "../../../server/settings";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const params = new URL(request.url).searchParams;
+  const contacts = await listContacts(auth.principal.teamId, {
+    q: params.get("q") ?? undefined,
+    tag: params.get("tag") ?? undefined
+  });
+  return NextResponse.json({ success: true, contacts });
+}
+
+/** Creates a contact; a number already in the directory is merged into that contact. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const { defaultCountry } = await getTeamSettings(auth.principal.teamId);
+  const body = await request.json().catch(() => undefined);
+  const parsed = contactInputSchemaFor(defaultCountry).safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { contact, merged } = await saveContact(auth.principal.teamId, parsed.data);
+  return NextResponse.json({ success: true, contact, merged }, { status: merged ? 200 : 201 });
+}
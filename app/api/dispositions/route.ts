@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { dispositionCodesSchema } from "../../../shared/dispositions";
+import { authorize } from "../../../server/auth";
+import {
+  listAssignees,
+  listDispositionCodes,
+  saveDispositionCodes
+} from "../../../server/dispositions";
+import { serviceErrorResponse } from "../../../server/errors";
+
+export const dynamic = "force-dynamic";
+
+const requestSchema = z.object({ codes: dispositionCodesSchema });
+
+/** The workspace's disposition codes and the people tasks can be assigned to. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { teamId } = auth.principal;
+  try {
+    return NextResponse.json({
+      success: true,
+      codes: await listDispositionCodes(teamId),
+      assignees: await listAssignees(teamId)
+    });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+/** Replaces the codes. Calls already marked keep the label they were saved with. */
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const codes = await saveDispositionCodes(auth.principal.teamId, parsed.data.codes);
+  return NextResponse.json({ success: true, codes });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../server/auth";
+import { removeDoNotCall } from "../../../../server/compliance";
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { phoneNumber: string } }
+) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const removed = await removeDoNotCall(decodeURIComponent(params.phoneNumber));
+
+  if (!removed) {
+    return NextResponse.json(
+      { success: false, message: "Number is not on the do-not-call list." },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
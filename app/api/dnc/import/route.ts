@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { parsePhoneNumber } from "../../../../shared/phone";
+import { authorize } from "../../../../server/auth";
+import { addDoNotCall } from "../../../../server/compliance";
+import { getTeamSettings } from "../../../../server/settings";
+
+const requestSchema = z.object({
+  text: z.string().max(500_000),
+  reason: z.string().max(200).optional()
+});
+
+/**
+ * Imports numbers from pasted text or a CSV export. Any token that parses
+ * as a phone number, in the team's default country when it has no country
+ * code, is added as E.164; everything else is reported back.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { defaultCountry } = await getTeamSettings(auth.principal.teamId);
+  const tokens = parsed.data.text
+    .split(/[\n,;\t]+/)
+    .map(token => token.trim().replace(/^"|"$/g, ""))
+    .filter(Boolean);
+  const numbers: string[] = [];
+  const rejected: string[] = [];
+  for (const token of tokens) {
+    const phone = parsePhoneNumber(token, defaultCountry);
+    if (phone) numbers.push(phone.e164);
+    else rejected.push(token);
+  }
+
+  const added = await addDoNotCall(
+    Array.from(new Set(numbers)).map(phoneNumber => ({
+      phoneNumber,
+      reason: parsed.data.reason,
+      source: "import"
+    }))
+  );
+
+  return NextResponse.json({ success: true, imported: added.length, rejected: rejected.slice(0, 50) });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { phoneNumberSchema } from "../../../shared/phone";
+import { authorize } from "../../../server/auth";
+import { addDoNotCall, listDoNotCall } from "../../../server/compliance";
+import { getTeamSettings } from "../../../server/settings";
+
+export const dynamic = "force-dynamic";
+
+function entrySchemaFor(defaultCountry: string) {
+  return z.object({
+    phoneNumber: phoneNumberSchema(defaultCountry),
+    reason: z.string().max(200).optional()
+  });
+}
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const entries = await listDoNotCall();
+  return NextResponse.json({ success: true, entries });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const { defaultCountry } = await getTeamSettings(auth.principal.teamId);
+  const body = await request.json().catch(() => undefined);
+  const parsed = entrySchemaFor(defaultCountry).safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const [entry] = await addDoNotCall([{ ...parsed.data, source: "manual" }]);
+  return NextResponse.json({ success: true, entry }, { status: 201 });
+}
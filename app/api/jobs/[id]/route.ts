@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorize } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { assertJobInTeam, cancelJob, rescheduleJob } from "../../../../server/scheduler";
+
+const rescheduleSchema = z.object({
+  runAt: z
+    .string()
+    .datetime()
+    .refine(value => Date.parse(value) > Date.now(), "runAt must be in the future")
+});
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = rescheduleSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await assertJobInTeam(params.id, auth.principal.teamId);
+    const job = await rescheduleJob(params.id, new Date(parsed.data.runAt).toISOString());
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await assertJobInTeam(params.id, auth.principal.teamId);
+    const job = await cancelJob(params.id);
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
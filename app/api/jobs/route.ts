@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { jobStatuses } from "../../../shared/jobs";
+import { authorize, inWorkspace } from "../../../server/auth";
+import { getCall } from "../../../server/call-repository";
+import { listJobs } from "../../../server/scheduler";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const statuses = new URL(request.url).searchParams.getAll("status").filter(Boolean);
+  const parsed = z.array(z.enum(jobStatuses)).safeParse(statuses);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid query"
+      },
+      { status: 400 }
+    );
+  }
+
+  const jobs = await listJobs(parsed.data.length ? parsed.data : ["pending"]);
+  const withCalls = await Promise.all(
+    jobs.map(async job => ({ ...job, call: await getCall(job.callId) }))
+  );
+  return NextResponse.json({
+    success: true,
+    jobs: withCalls.filter(job => job.call && inWorkspace(auth.principal, job.call))
+  });
+}
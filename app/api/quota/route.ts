@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import type { QuotaSnapshot } from "../../../shared/quota";
+import { authorize } from "../../../server/auth";
+import { budgetUsage } from "../../../server/budgets";
+import { rateLimitKeys, rateLimitUsage } from "../../../server/rate-limits";
+
+export const dynamic = "force-dynamic";
+
+/** Remaining spend budgets and rate-limit windows for the signed-in caller. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const phoneNumber = new URL(request.url).searchParams.get("phoneNumber")?.trim();
+  const snapshot: QuotaSnapshot = {
+    success: true,
+    budgets: await budgetUsage(),
+    rateLimits: await rateLimitUsage(
+      rateLimitKeys(auth.principal.actor.id, phoneNumber || undefined)
+    )
+  };
+  return NextResponse.json(snapshot);
+}
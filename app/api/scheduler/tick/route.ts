@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { advanceRunningCampaigns } from "../../../../server/campaigns";
+import { processDueFollowUps } from "../../../../server/follow-ups";
+import { retryDueDeliveries } from "../../../../server/outbound-webhooks";
+import { dispatchDueJobs } from "../../../../server/scheduler";
+import { getTelephonyProvider } from "../../../../server/telephony";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Dispatches due scheduled calls and the next batch of every running
+ * campaign, sends due follow-up texts and sequence steps, and retries webhook
+ * deliveries whose backoff has elapsed. Intended to be hit every minute by a
+ * cron (Vercel Cron sends `Authorization: Bearer $CRON_SECRET` on GET).
+ */
+async function tick(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, message: "Set CRON_SECRET to enable the scheduler tick endpoint." },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized." }, { status: 401 });
+  }
+
+  const unavailable = getTelephonyProvider().configurationError();
+
+  if (unavailable) {
+    return NextResponse.json({ success: false, message: unavailable }, { status: 503 });
+  }
+
+  const summary = await dispatchDueJobs();
+  const campaignCalls = await advanceRunningCampaigns();
+  const followUps = await processDueFollowUps();
+  const webhookRetries = await retryDueDeliveries();
+  return NextResponse.json({
+    success: true,
+    ...summary,
+    campaignCalls,
+    ...followUps,
+    webhookRetries
+  });
+}
+
+export const GET = tick;
+export const POST = tick;
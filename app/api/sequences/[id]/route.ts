@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { sequenceSchema } from "../../../../shared/sms";
+import { authorize } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { deleteSequence, updateSequence } from "../../../../server/sequences";
+
+export const dynamic = "force-dynamic";
+
+const updateSchema = sequenceSchema
+  .partial()
+  .refine(value => value.name || value.steps, "Provide a new name or steps");
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = updateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const sequence = await updateSequence(params.id, auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, sequence });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await deleteSequence(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
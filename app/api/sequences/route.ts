@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { sequenceSchema } from "../../../shared/sms";
+import { authorize } from "../../../server/auth";
+import { serviceErrorResponse } from "../../../server/errors";
+import { createSequence, listOpenRuns, listSequences } from "../../../server/sequences";
+
+export const dynamic = "force-dynamic";
+
+/** Follow-up sequences, with the runs still in progress. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { teamId } = auth.principal;
+  return NextResponse.json({
+    success: true,
+    sequences: await listSequences(teamId),
+    runs: await listOpenRuns(teamId)
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = sequenceSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const sequence = await createSequence(auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, sequence }, { status: 201 });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { teamSettingsSchema } from "../../../shared/recording";
+import { authorize } from "../../../server/auth";
+import { getTeamSettings, updateTeamSettings } from "../../../server/settings";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ success: true, settings: await getTeamSettings(auth.principal.teamId) });
+}
+
+export async function PUT(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = teamSettingsSchema.partial().safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ success: true, settings: await updateTeamSettings(auth.principal.teamId, parsed.data) });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { followUpOutcomes, smsTemplateSchema } from "../../../../shared/sms";
+import { authorize } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { deleteSmsTemplate, updateSmsTemplate } from "../../../../server/sms";
+
+export const dynamic = "force-dynamic";
+
+const updateSchema = smsTemplateSchema
+  .omit({ trigger: true })
+  .partial()
+  .extend({ trigger: z.enum(followUpOutcomes).nullable().optional() })
+  .refine(
+    value => value.name || value.body || value.trigger !== undefined,
+    "Provide a new name, message or trigger"
+  );
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = updateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const template = await updateSmsTemplate(params.id, auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await deleteSmsTemplate(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
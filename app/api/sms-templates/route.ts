@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { smsTemplateSchema } from "../../../shared/sms";
+import { authorize } from "../../../server/auth";
+import { createSmsTemplate, listSmsTemplates } from "../../../server/sms";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const templates = await listSmsTemplates(auth.principal.teamId);
+  return NextResponse.json({ success: true, templates });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = smsTemplateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const template = await createSmsTemplate(auth.principal.teamId, parsed.data);
+  return NextResponse.json({ success: true, template }, { status: 201 });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { revokeApiKey } from "../../../../../server/api-keys";
+import { authorize } from "../../../../../server/auth";
+import { serviceErrorResponse } from "../../../../../server/errors";
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await revokeApiKey(auth.principal.teamId, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
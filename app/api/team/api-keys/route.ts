@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { apiKeySchema } from "../../../../shared/auth";
+import { createApiKey, listApiKeys } from "../../../../server/api-keys";
+import { authorize } from "../../../../server/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ success: true, keys: await listApiKeys(auth.principal.teamId) });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = apiKeySchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { key, secret } = await createApiKey(
+    auth.principal.teamId,
+    parsed.data,
+    auth.principal.actor
+  );
+  return NextResponse.json({ success: true, key, secret }, { status: 201 });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { roles } from "../../../../../shared/auth";
+import { changeMemberRole, removeMember } from "../../../../../server/accounts";
+import { authorize } from "../../../../../server/auth";
+import { serviceErrorResponse } from "../../../../../server/errors";
+
+const roleSchema = z.object({ role: z.enum(roles) });
+
+export async function PATCH(request: Request, { params }: { params: { userId: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = roleSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const members = await changeMemberRole(auth.principal.teamId, params.userId, parsed.data.role);
+    return NextResponse.json({ success: true, members });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { userId: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const members = await removeMember(auth.principal.teamId, params.userId);
+    return NextResponse.json({ success: true, members });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { memberSchema } from "../../../../shared/auth";
+import { addMember, listMembers } from "../../../../server/accounts";
+import { authorize } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json({ success: true, members: await listMembers(auth.principal.teamId) });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = memberSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const members = await addMember(auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, members }, { status: 201 });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { retryPolicySchema } from "../../../../shared/retry-policy";
+import { templateBodySchema } from "../../../../shared/script-template";
+import { voiceSettingsSchema } from "../../../../shared/speech";
+import { authorize, inWorkspace } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { deleteTemplate, getTemplate, updateTemplate } from "../../../../server/templates";
+
+export const dynamic = "force-dynamic";
+
+const updateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name the template").optional(),
+    body: templateBodySchema.optional(),
+    retryPolicy: retryPolicySchema.nullable().optional(),
+    voice: voiceSettingsSchema.nullable().optional()
+  })
+  .refine(
+    value =>
+      value.name || value.body || value.retryPolicy !== undefined || value.voice !== undefined,
+    "Provide a new name, body, retry policy or voice"
+  );
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const template = await getTemplate(params.id);
+
+  if (!template || !inWorkspace(auth.principal, template)) {
+    return NextResponse.json({ success: false, message: "Template not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, template });
+}
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = updateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const template = await updateTemplate(params.id, auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await deleteTemplate(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
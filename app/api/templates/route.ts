@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { retryPolicySchema } from "../../../shared/retry-policy";
+import { templateBodySchema } from "../../../shared/script-template";
+import { voiceSettingsSchema } from "../../../shared/speech";
+import { authorize } from "../../../server/auth";
+import { createTemplate, listTemplates } from "../../../server/templates";
+
+export const dynamic = "force-dynamic";
+
+const requestSchema = z.object({
+  name: z.string().trim().min(1, "Name the template"),
+  body: templateBodySchema,
+  retryPolicy: retryPolicySchema.optional(),
+  voice: voiceSettingsSchema.optional()
+});
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const templates = await listTemplates(auth.principal.teamId);
+  return NextResponse.json({ success: true, templates });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "agent");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = requestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const template = await createTemplate(
+    auth.principal.teamId,
+    parsed.data.name,
+    parsed.data.body,
+    parsed.data.retryPolicy,
+    parsed.data.voice
+  );
+  return NextResponse.json({ success: true, template }, { status: 201 });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getCall } from "../../../../server/call-repository";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { handleMachineDetection } from "../../../../server/voicemail";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+export async function POST(request: Request) {
+  const webhook = await getTelephonyProvider().readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const callId = new URL(request.url).searchParams.get("callId");
+  const call = callId ? await getCall(callId) : undefined;
+  const { CallSid: callSid, AnsweredBy: answeredBy } = webhook.value;
+
+  if (!call || !callSid || !answeredBy) {
+    return NextResponse.json(
+      { success: false, message: "Unknown call or missing AnsweredBy." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await handleMachineDetection(call, callSid, answeredBy);
+  } catch (error) {
+    // The call may already have ended, in which case the provider rejects the update.
+    console.error("[call-agent] Failed to apply machine detection result", error);
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { recordStatusEvent } from "../../../../server/call-status-store";
+import { getTelephonyProvider } from "../../../../server/telephony";
+
+export async function POST(request: Request) {
+  const webhook = await getTelephonyProvider().parseStatusWebhook(request);
+  if (!webhook.ok) return webhook.response;
+
+  await recordStatusEvent(webhook.value);
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,67 @@
+import type { ConversationTurn } from "../../../../shared/calls";
+import { plainSpeech } from "../../../../shared/speech";
+import { appendTranscript, getCall } from "../../../../server/call-repository";
+import { buildTurn, hangupInstructions, transferNumber } from "../../../../server/call-flow";
+import { optOutNumber } from "../../../../server/follow-ups";
+import { startTransfer } from "../../../../server/live-calls";
+import { getResponder } from "../../../../server/responders";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { resolveCallScript } from "../../../../server/templates";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const callId = new URL(request.url).searchParams.get("callId");
+  const call = callId ? await getCall(callId) : undefined;
+
+  if (!call) {
+    return provider.renderInstructions(hangupInstructions());
+  }
+
+  const { SpeechResult: speech, Digits: digits, Confidence: confidence } = webhook.value;
+  const confidenceScore = confidence ? Number(confidence) : undefined;
+  const calleeTurn: ConversationTurn | undefined =
+    digits || speech?.trim()
+      ? {
+          speaker: "callee",
+          text: digits ? `Pressed ${digits}` : speech.trim(),
+          at: new Date().toISOString(),
+          channel: digits ? "dtmf" : "speech",
+          confidence: confidenceScore
+        }
+      : undefined;
+
+  const turns = [...(call.transcript ?? []), ...(calleeTurn ? [calleeTurn] : [])];
+
+  try {
+    const reply = await getResponder().respond({
+      call,
+      script: await resolveCallScript(call),
+      turns,
+      input: {
+        speech: speech || undefined,
+        digits: digits || undefined,
+        confidence: confidenceScore
+      },
+      transferAvailable: Boolean(transferNumber())
+    });
+
+    await appendTranscript(call.id, [
+      ...(calleeTurn ? [calleeTurn] : []),
+      { speaker: "agent", text: plainSpeech(reply.say), at: new Date().toISOString() }
+    ]);
+    if (reply.next === "transfer") await startTransfer(call, "callee");
+    if (reply.optOut) {
+      await optOutNumber(call.phoneNumber, "Asked to stop during a call", "call");
+    }
+
+    return provider.renderInstructions(buildTurn(call, reply));
+  } catch (error) {
+    console.error("[call-agent] Responder failed", error);
+    if (calleeTurn) await appendTranscript(call.id, [calleeTurn]);
+    return provider.renderInstructions(hangupInstructions());
+  }
+}
@@ -0,0 +1,22 @@
+import { hangupInstructions } from "../../../../../server/call-flow";
+import { handleMenuChoice } from "../../../../../server/inbound";
+import { getTelephonyProvider } from "../../../../../server/telephony";
+import { signedRequestUrl } from "../../../../../server/webhooks";
+
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const params = new URL(request.url).searchParams;
+  const callId = params.get("callId");
+  if (!callId) return provider.renderInstructions(hangupInstructions());
+
+  const { Digits: digits, SpeechResult: speech } = webhook.value;
+  const instructions = await handleMenuChoice(
+    callId,
+    { digits: digits || undefined, speech: speech || undefined },
+    Number(params.get("attempt")) || 1
+  );
+  return provider.renderInstructions(instructions);
+}
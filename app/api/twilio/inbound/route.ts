@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { answerInboundCall } from "../../../../server/inbound";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+/** Voice webhook of the caller ID number: answers people who call in or ring back. */
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const { CallSid: callSid, From: from, To: to } = webhook.value;
+  if (!callSid || !from) {
+    return NextResponse.json(
+      { success: false, message: "CallSid and From are required." },
+      { status: 400 }
+    );
+  }
+
+  return provider.renderInstructions(await answerInboundCall({ callSid, from, to }));
+}
@@ -0,0 +1,18 @@
+import { hangupInstructions } from "../../../../../server/call-flow";
+import { finishVoicemail } from "../../../../../server/inbound";
+import { getTelephonyProvider } from "../../../../../server/telephony";
+import { signedRequestUrl } from "../../../../../server/webhooks";
+
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const callId = new URL(request.url).searchParams.get("callId");
+  if (!callId) return provider.renderInstructions(hangupInstructions());
+
+  const duration = webhook.value.RecordingDuration;
+  return provider.renderInstructions(
+    await finishVoicemail(callId, duration ? Number(duration) : undefined)
+  );
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { recordRecordingEvent } from "../../../../server/recordings";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { recordingEventFromParams } from "../../../../server/telephony/webhook-params";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+export async function POST(request: Request) {
+  const webhook = await getTelephonyProvider().readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const callId = new URL(request.url).searchParams.get("callId");
+  const event = recordingEventFromParams(webhook.value);
+  if (!event.ok) return event.response;
+
+  const call = callId ? await recordRecordingEvent(callId, event.value) : undefined;
+
+  if (!call) {
+    return NextResponse.json({ success: false, message: "Unknown call." }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { receiveSms } from "../../../../server/follow-ups";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+/**
+ * Messaging webhook of the caller ID number. Replies are logged on the
+ * contact's timeline; the carrier sends its own opt-out confirmation, so
+ * nothing is texted back.
+ */
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const { From: from, To: to, Body: body, MessageSid: sid } = webhook.value;
+  if (!from || body === undefined) {
+    return NextResponse.json(
+      { success: false, message: "From and Body are required." },
+      { status: 400 }
+    );
+  }
+
+  await receiveSms({ from, to, body, sid });
+  return provider.renderInstructions([]);
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { recordSmsStatus } from "../../../../../server/sms";
+import { getTelephonyProvider } from "../../../../../server/telephony";
+import { signedRequestUrl } from "../../../../../server/webhooks";
+
+/** Delivery status callbacks for follow-up texts. */
+export async function POST(request: Request) {
+  const webhook = await getTelephonyProvider().readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const { MessageSid: sid, MessageStatus: status, ErrorCode: errorCode } = webhook.value;
+  if (!sid || !status) {
+    return NextResponse.json(
+      { success: false, message: "MessageSid and MessageStatus are required." },
+      { status: 400 }
+    );
+  }
+
+  await recordSmsStatus(sid, status, errorCode);
+  return new NextResponse(null, { status: 204 });
+}
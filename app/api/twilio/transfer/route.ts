@@ -0,0 +1,17 @@
+import { hangupInstructions } from "../../../../server/call-flow";
+import { recordTransferEnded } from "../../../../server/live-calls";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+/** Requested when the dialed agent leg ends; answers with what the callee hears next. */
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const callId = new URL(request.url).searchParams.get("callId");
+  if (!callId) return provider.renderInstructions(hangupInstructions());
+
+  const instructions = await recordTransferEnded(callId, webhook.value.DialCallStatus ?? "");
+  return provider.renderInstructions(instructions);
+}
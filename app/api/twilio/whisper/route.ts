@@ -0,0 +1,16 @@
+import { buildWhisper, hangupInstructions } from "../../../../server/call-flow";
+import { recordTransferAnswered } from "../../../../server/live-calls";
+import { getTelephonyProvider } from "../../../../server/telephony";
+import { signedRequestUrl } from "../../../../server/webhooks";
+
+/** Requested when the agent line picks up a transfer, before the callee is bridged. */
+export async function POST(request: Request) {
+  const provider = getTelephonyProvider();
+  const webhook = await provider.readWebhook(request, signedRequestUrl(request));
+  if (!webhook.ok) return webhook.response;
+
+  const callId = new URL(request.url).searchParams.get("callId");
+  const call = callId ? await recordTransferAnswered(callId) : undefined;
+
+  return provider.renderInstructions(call ? buildWhisper(call) : hangupInstructions());
+}
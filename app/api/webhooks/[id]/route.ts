@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { webhookEndpointPatchSchema } from "../../../../shared/webhooks";
+import { authorize } from "../../../../server/auth";
+import { serviceErrorResponse } from "../../../../server/errors";
+import { deleteEndpoint, updateEndpoint } from "../../../../server/outbound-webhooks";
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = webhookEndpointPatchSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const endpoint = await updateEndpoint(params.id, auth.principal.teamId, parsed.data);
+    return NextResponse.json({ success: true, endpoint });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    await deleteEndpoint(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
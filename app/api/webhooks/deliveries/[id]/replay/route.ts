@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../../../server/auth";
+import { serviceErrorResponse } from "../../../../../../server/errors";
+import { replayDelivery } from "../../../../../../server/outbound-webhooks";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const delivery = await replayDelivery(params.id, auth.principal.teamId);
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    return serviceErrorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../server/auth";
+import { listDeliveries } from "../../../../server/outbound-webhooks";
+
+export const dynamic = "force-dynamic";
+
+/** The 50 most recent deliveries, optionally for one `?endpointId=`. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const endpointId = new URL(request.url).searchParams.get("endpointId") ?? undefined;
+  const deliveries = await listDeliveries(auth.principal.teamId, endpointId);
+  return NextResponse.json({ success: true, deliveries });
+}
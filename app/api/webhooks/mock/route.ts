@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { authorize } from "../../../../server/auth";
+import {
+  listReceipts,
+  mockReceiverEnabled,
+  receiveWebhook
+} from "../../../../server/webhook-receiver";
+
+export const dynamic = "force-dynamic";
+
+const disabled = () =>
+  NextResponse.json(
+    { success: false, message: "Set WEBHOOK_MOCK_RECEIVER=true to enable the mock receiver." },
+    { status: 404 }
+  );
+
+/**
+ * Accepts deliveries like a real receiver would. `?status=503` answers with
+ * that status instead, to watch retries and the delivery log.
+ */
+export async function POST(request: Request) {
+  if (!mockReceiverEnabled()) return disabled();
+
+  const receipt = await receiveWebhook(request);
+  const status = Number(new URL(request.url).searchParams.get("status") ?? 200);
+  if (!receipt.verified) {
+    return NextResponse.json({ success: false, message: "Invalid signature." }, { status: 401 });
+  }
+  return NextResponse.json({ success: status < 300 }, { status });
+}
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+  if (!mockReceiverEnabled()) return disabled();
+
+  return NextResponse.json({ success: true, receipts: await listReceipts() });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { webhookEndpointSchema } from "../../../shared/webhooks";
+import { authorize } from "../../../server/auth";
+import { createEndpoint, listEndpoints } from "../../../server/outbound-webhooks";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const endpoints = await listEndpoints(auth.principal.teamId);
+  return NextResponse.json({ success: true, endpoints });
+}
+
+/** The response carries the signing secret; it is not returned again. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => undefined);
+  const parsed = webhookEndpointSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: parsed.error.issues[0]?.message ?? "Invalid payload"
+      },
+      { status: 400 }
+    );
+  }
+
+  const { endpoint, secret } = await createEndpoint(auth.principal.teamId, parsed.data);
+  return NextResponse.json({ success: true, endpoint, secret }, { status: 201 });
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import { StatusBadge } from "../../../components/call-history";
+import { ContactForm } from "../../../components/contact-form";
+import { ContactPicker } from "../../../components/contact-picker";
+import { useSession } from "../../../components/use-session";
+import { hasRole } from "../../../shared/auth";
+import type { CallRecord } from "../../../shared/calls";
+import type { Contact, ContactDetail, ContactInput } from "../../../shared/contacts";
+import type { SmsMessage, SmsStatus } from "../../../shared/sms";
+
+export default function ContactPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const session = useSession();
+  const [detail, setDetail] = useState<ContactDetail>();
+  const [error, setError] = useState<string>();
+  const [version, setVersion] = useState(0);
+  const canEdit = session ? hasRole(session.team.role, "agent") : false;
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/contacts/${params.id}`, { cache: "no-store" });
+      const data = (await response.json()) as ContactDetail | { message: string };
+      if (!("contact" in data)) {
+        setError(data.message);
+        return;
+      }
+      setDetail(data);
+      setError(undefined);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("This contact is unavailable right now.");
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    if (session) void load();
+  }, [session, load]);
+
+  const save = async (input: ContactInput) => {
+    const data = await send(`/api/contacts/${params.id}`, "PATCH", input);
+    if (!data.success) return data.message ?? "We could not save the contact.";
+    await load();
+    // Remount the form so it shows the normalized values.
+    setVersion(value => value + 1);
+    return undefined;
+  };
+
+  const remove = async () => {
+    if (!window.confirm("Delete this contact? Its calls stay in the history.")) return;
+    const data = await send(`/api/contacts/${params.id}`, "DELETE");
+    if (data.success) router.push("/contacts");
+    else setError(data.message ?? "We could not delete the contact.");
+  };
+
+  const merge = async (duplicate: Contact) => {
+    if (!window.confirm(`Merge ${duplicate.name} (${duplicate.phoneNumber}) into this contact?`)) {
+      return;
+    }
+    const data = await send(`/api/contacts/${params.id}/merge`, "POST", { sourceId: duplicate.id });
+    if (!data.success) setError(data.message ?? "We could not merge the contacts.");
+    await load();
+    setVersion(value => value + 1);
+  };
+
+  if (session === null) {
+    return (
+      <main className="mx-auto w-full max-w-4xl px-6 py-12 text-sm text-slate-300">
+        <Link href="/" className={linkClass}>
+          Sign in on the dashboard
+        </Link>{" "}
+        to see this contact.
+      </main>
+    );
+  }
+
+  const contact = detail?.contact;
+
+  return (
+    <main className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-6 py-12">
+      <header className="space-y-1">
+        <Link href="/contacts" className={linkClass}>
+          ← Contacts
+        </Link>
+        <h1 className="text-3xl font-semibold tracking-tight">{contact?.name ?? "Contact"}</h1>
+        {contact && (
+          <p className="text-sm text-slate-400">
+            {[contact.phoneNumber, contact.company, contact.timezone].filter(Boolean).join(" · ")}
+          </p>
+        )}
+      </header>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {contact && (
+        <section className="grid gap-6 lg:grid-cols-5">
+          <div className="space-y-6 lg:col-span-2">
+            {canEdit ? (
+              <div className={panelClass}>
+                <ContactForm
+                  key={`${contact.id}-${version}`}
+                  contact={contact}
+                  submitLabel="Save changes"
+                  onSubmit={save}
+                />
+              </div>
+            ) : (
+              <ContactFacts contact={contact} />
+            )}
+
+            {canEdit && (
+              <div className={panelClass}>
+                <h2 className="text-lg font-semibold">Merge a duplicate</h2>
+                <p className="mb-3 mt-1 text-xs text-slate-400">
+                  The duplicate&apos;s calls, tags and missing details move here, then it is
+                  deleted.
+                </p>
+                <ContactPicker
+                  label="Find the duplicate"
+                  excludeId={contact.id}
+                  onSelect={duplicate => void merge(duplicate)}
+                />
+                <button
+                  type="button"
+                  onClick={() => void remove()}
+                  className="mt-4 text-xs text-rose-300 underline decoration-dotted underline-offset-4 transition hover:text-rose-200"
+                >
+                  Delete contact
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className={clsx(panelClass, "lg:col-span-3")}>
+            <header className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Timeline</h2>
+              <span className="text-xs text-slate-400">
+                {detail.calls.length} calls · {detail.messages.length} texts
+              </span>
+            </header>
+            <ol className="mt-4 space-y-3 border-l border-slate-800 pl-4">
+              {timeline(detail).map(entry =>
+                "call" in entry ? (
+                  <TimelineEntry key={entry.call.id} call={entry.call} />
+                ) : (
+                  <MessageEntry key={entry.message.id} message={entry.message} />
+                )
+              )}
+              {detail.calls.length + detail.messages.length === 0 && (
+                <li className="text-sm text-slate-400">No calls or texts with this contact yet.</li>
+              )}
+            </ol>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
+
+function ContactFacts({ contact }: { contact: Contact }) {
+  const entries = Object.entries(contact.customFields);
+  return (
+    <dl className={clsx(panelClass, "space-y-2 text-sm")}>
+      {contact.tags.length > 0 && (
+        <div>
+          <dt className="text-xs uppercase text-slate-400">Tags</dt>
+          <dd>{contact.tags.join(", ")}</dd>
+        </div>
+      )}
+      {entries.map(([name, value]) => (
+        <div key={name}>
+          <dt className="text-xs uppercase text-slate-400">{name}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function TimelineEntry({ call }: { call: CallRecord }) {
+  return (
+    <li className="text-sm text-slate-200">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {new Date(call.scheduledAt ?? call.createdAt).toLocaleString()}
+          {call.direction === "inbound" && " · called in"}
+          {call.attempt && call.attempt > 1 && ` · attempt ${call.attempt}`}
+          {call.launchedBy && ` · ${call.launchedBy.name}`}
+        </span>
+        <StatusBadge status={call.status} />
+      </div>
+      <p className="mt-1">{call.objective}</p>
+      <p className="mt-1 text-xs text-slate-400">
+        {[
+          call.phoneNumber,
+          call.duration !== undefined ? `${call.duration}s` : undefined,
+          call.reached && `reached ${call.reached === "machine" ? "voicemail" : call.reached}`,
+          call.message
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </p>
+    </li>
+  );
+}
+
+function MessageEntry({ message }: { message: SmsMessage }) {
+  const inbound = message.direction === "inbound";
+  return (
+    <li className="text-sm text-slate-200">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {new Date(message.sendAt ?? message.createdAt).toLocaleString()}
+          {inbound ? " · text received" : " · text sent"}
+        </span>
+        <span
+          className={clsx(
+            "rounded-full border px-2 py-1 uppercase tracking-wide",
+            messagePalette[message.status]
+          )}
+        >
+          {message.status}
+        </span>
+      </div>
+      <p className={clsx("mt-1 whitespace-pre-wrap", inbound && "text-sky-200")}>{message.body}</p>
+      {message.error && <p className="mt-1 text-xs text-rose-300">{message.error}</p>}
+    </li>
+  );
+}
+
+const messagePalette: Record<SmsStatus, string> = {
+  scheduled: "bg-violet-500/10 text-violet-300 border-violet-500/40",
+  sent: "bg-sky-500/10 text-sky-300 border-sky-500/40",
+  delivered: "bg-emerald-500/10 text-emerald-300 border-emerald-500/40",
+  failed: "bg-rose-500/10 text-rose-300 border-rose-500/40",
+  canceled: "bg-slate-500/10 text-slate-300 border-slate-500/40",
+  received: "bg-amber-500/10 text-amber-300 border-amber-500/40"
+};
+
+/** Calls and texts together, newest first. */
+function timeline(detail: ContactDetail) {
+  const entries: ({ at: string; call: CallRecord } | { at: string; message: SmsMessage })[] = [
+    ...detail.calls.map(call => ({ at: call.scheduledAt ?? call.createdAt, call })),
+    ...detail.messages.map(message => ({ at: message.sendAt ?? message.createdAt, message }))
+  ];
+  return entries.sort((a, b) => b.at.localeCompare(a.at));
+}
+
+async function send(url: string, method: string, body?: unknown) {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body
+        ? {
+            "Content-Type": "application/json"
+          }
+        : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return (await response.json()) as { success: boolean; message?: string };
+  } catch (error) {
+    console.error(error);
+    return { success: false, message: "We could not reach the contacts service." };
+  }
+}
+
+const panelClass = "rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
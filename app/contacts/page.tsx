@@ -0,0 +1,232 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import { ContactForm } from "../../components/contact-form";
+import { useSession } from "../../components/use-session";
+import { hasRole } from "../../shared/auth";
+import type { Contact, ContactInput } from "../../shared/contacts";
+
+type ImportSummary = {
+  success: boolean;
+  message?: string;
+  created?: number;
+  merged?: number;
+  errors?: { row: number; message: string }[];
+};
+
+export default function ContactsPage() {
+  const session = useSession();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [query, setQuery] = useState("");
+  const [tag, setTag] = useState("");
+  const [importText, setImportText] = useState("");
+  const [notice, setNotice] = useState<{ tone: "success" | "error"; text: string }>();
+  const canEdit = session ? hasRole(session.team.role, "agent") : false;
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (query.trim()) params.set("q", query.trim());
+    if (tag) params.set("tag", tag);
+    try {
+      const response = await fetch(`/api/contacts?${params.toString()}`, { cache: "no-store" });
+      const data = (await response.json()) as { contacts?: Contact[] };
+      setContacts(data.contacts ?? []);
+    } catch (error) {
+      console.error(error);
+    }
+  }, [query, tag]);
+
+  useEffect(() => {
+    if (session) void load();
+  }, [session, load]);
+
+  const create = async (input: ContactInput) => {
+    try {
+      const response = await fetch("/api/contacts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(input)
+      });
+      const data = (await response.json()) as {
+        success: boolean;
+        message?: string;
+        contact?: Contact;
+        merged?: boolean;
+      };
+      if (!data.success || !data.contact) return data.message ?? "We could not save the contact.";
+      setNotice({
+        tone: "success",
+        text: data.merged
+          ? `${data.contact.phoneNumber} was already saved; merged into ${data.contact.name}.`
+          : `Added ${data.contact.name}.`
+      });
+      await load();
+      return undefined;
+    } catch (error) {
+      console.error(error);
+      return "We could not reach the contacts service.";
+    }
+  };
+
+  const importCsv = async () => {
+    setNotice(undefined);
+    try {
+      const response = await fetch("/api/contacts/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ text: importText })
+      });
+      const data = (await response.json()) as ImportSummary;
+      if (!data.success) {
+        setNotice({ tone: "error", text: data.message ?? "Import failed." });
+        return;
+      }
+      const errors = data.errors ?? [];
+      const skipped = errors.length
+        ? ` Skipped ${errors.length} rows (row ${errors[0].row}: ${errors[0].message}).`
+        : "";
+      setNotice({
+        tone: "success",
+        text: `Imported ${data.created} new and merged ${data.merged} existing contacts.${skipped}`
+      });
+      setImportText("");
+      await load();
+    } catch (error) {
+      console.error(error);
+      setNotice({ tone: "error", text: "We could not reach the contacts service." });
+    }
+  };
+
+  const tags = Array.from(new Set(contacts.flatMap(contact => contact.tags))).sort();
+
+  if (session === null) {
+    return (
+      <main className="mx-auto w-full max-w-4xl px-6 py-12 text-sm text-slate-300">
+        <Link href="/" className={linkClass}>
+          Sign in on the dashboard
+        </Link>{" "}
+        to see your contacts.
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-6 py-12">
+      <header className="flex items-end justify-between gap-4">
+        <div className="space-y-1">
+          <Link href="/" className={linkClass}>
+            ← Dashboard
+          </Link>
+          <h1 className="text-3xl font-semibold tracking-tight">Contacts</h1>
+        </div>
+        <span className="text-xs text-slate-400">{contacts.length} shown</span>
+      </header>
+
+      {notice && (
+        <p
+          className={clsx("text-sm", notice.tone === "success" ? "text-emerald-300" : "text-rose-300")}
+        >
+          {notice.text}
+        </p>
+      )}
+
+      <section className={panelClass}>
+        <div className="grid gap-2 sm:grid-cols-3">
+          <input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Search by name, company or number"
+            className={clsx(filterClass, "sm:col-span-2")}
+            aria-label="Search contacts"
+          />
+          <select
+            value={tag}
+            onChange={event => setTag(event.target.value)}
+            className={filterClass}
+            aria-label="Filter by tag"
+          >
+            <option value="">All tags</option>
+            {tags.map(item => (
+              <option key={item} value={item}>
+                {item}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <ul className="mt-4 divide-y divide-slate-800 text-sm">
+          {contacts.map(contact => (
+            <li key={contact.id} className="flex items-center justify-between gap-3 py-2">
+              <span>
+                <Link href={`/contacts/${contact.id}`} className="text-slate-100 hover:underline">
+                  {contact.name}
+                </Link>
+                {contact.company && (
+                  <span className="text-xs text-slate-400"> · {contact.company}</span>
+                )}
+                {contact.tags.map(item => (
+                  <span
+                    key={item}
+                    className="ml-2 rounded-full border border-slate-700 px-2 py-0.5 text-[10px] uppercase text-slate-400"
+                  >
+                    {item}
+                  </span>
+                ))}
+              </span>
+              <span className="text-xs text-slate-400">{contact.phoneNumber}</span>
+            </li>
+          ))}
+          {contacts.length === 0 && (
+            <li className="py-2 text-slate-400">
+              No contacts match. Add one below or import a CSV.
+            </li>
+          )}
+        </ul>
+      </section>
+
+      {canEdit && (
+        <section className="grid gap-6 lg:grid-cols-2">
+          <div className={panelClass}>
+            <h2 className="mb-3 text-lg font-semibold">Add a contact</h2>
+            <ContactForm submitLabel="Save contact" onSubmit={create} />
+          </div>
+          <div className={panelClass}>
+            <h2 className="mb-1 text-lg font-semibold">Import CSV</h2>
+            <p className="mb-3 text-xs text-slate-400">
+              Columns named name, phone, company, timezone and tags (separated by ;) are recognized.
+              Other columns become custom fields. Numbers already saved are merged.
+            </p>
+            <textarea
+              value={importText}
+              onChange={event => setImportText(event.target.value)}
+              placeholder={"name,phone,company,tags\nJane Smith,+14155550123,Acme,customer;vip"}
+              className={clsx(filterClass, "min-h-[140px] text-sm")}
+            />
+            <button
+              type="button"
+              disabled={!importText.trim()}
+              onClick={() => void importCsv()}
+              className="mt-3 rounded-xl bg-sky-500 px-4 py-1.5 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              Import
+            </button>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
+
+const panelClass = "rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl";
+
+const filterClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
@@ -1,54 +1,63 @@
 "use client";
 
-import { FormEvent, useEffect, useMemo, useState } from "react";
-import { z } from "zod";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { clsx } from "clsx";
-
-const callRequestSchema = z.object({
-  contactName: z.string().min(2, "Contact name is required"),
-  phoneNumber: z
-    .string()
-    .regex(
-      /^\+?[1-9]\d{7,14}$/,
-      "Provide a valid E.164 formatted number (e.g. +15551234567)"
-    ),
-  objective: z.string().min(3, "Share a brief objective for the call"),
-  scriptStyle: z.enum(["friendly", "direct", "consultative"]),
-  scheduledAt: z.string().optional(),
-  notes: z.string().optional()
-});
-
-type CallRequest = z.infer<typeof callRequestSchema>;
-
-type CallLog = CallRequest & {
-  id: string;
-  status: "queued" | "in-progress" | "completed" | "failed";
-  createdAt: string;
-  message?: string;
-  confirmationSid?: string;
-};
-
-const stylePresets: Record<
-  CallRequest["scriptStyle"],
-  { heading: string; tone: string; closing: string }
-> = {
+import { AccountBar } from "../components/account-bar";
+import { CallSimulator } from "../components/call-simulator";
+import { CallHistory } from "../components/call-history";
+import { CallerIdPanel } from "../components/caller-id-panel";
+import { CampaignPanel } from "../components/campaign-panel";
+import { ContactPicker } from "../components/contact-picker";
+import { DispositionCodesPanel } from "../components/disposition-codes-panel";
+import { DoNotCallPanel } from "../components/do-not-call-panel";
+import { FollowUpPanel } from "../components/follow-up-panel";
+import { LiveCalls } from "../components/live-calls";
+import { QuotaMeter } from "../components/quota-meter";
+import { RetryPolicyFields } from "../components/retry-policy-fields";
+import { ScheduledJobs } from "../components/scheduled-jobs";
+import { ScriptPreview } from "../components/script-preview";
+import { SignInPanel } from "../components/sign-in-panel";
+import { TeamPanel } from "../components/team-panel";
+import { TemplateManager } from "../components/template-manager";
+import { VoiceFields } from "../components/voice-fields";
+import { VoicemailEditor } from "../components/voicemail-editor";
+import { WebhookPanel } from "../components/webhook-panel";
+import { hasRole, SessionInfo } from "../shared/auth";
+import { CallRequest, callRequestSchemaFor } from "../shared/call-request";
+import type { CallRecord } from "../shared/calls";
+import type { Contact } from "../shared/contacts";
+import { consentSources } from "../shared/compliance";
+import type { DryRunResult } from "../shared/dry-run";
+import { describePhone, parsePhoneNumber, phoneCountries } from "../shared/phone";
+import {
+  defaultTeamSettings,
+  TeamSettings,
+  withRecordingDisclosure
+} from "../shared/recording";
+import {
+  customFieldNames,
+  defaultTemplates,
+  latestVersion,
+  renderScript,
+  ScriptTemplate
+} from "../shared/script-template";
+import type { Sequence } from "../shared/sms";
+import { defaultVoiceSettings } from "../shared/speech";
+import { defaultVoicemailScript } from "../shared/voicemail";
+
+const stylePresets: Record<CallRequest["scriptStyle"], { heading: string; tone: string }> = {
   friendly: {
     heading: "Warm introduction",
-    tone: "Conversational tone, emphasize rapport building and value.",
-    closing:
-      "Thank them for their time and confirm next steps with a positive note."
+    tone: "Conversational tone, emphasize rapport building and value."
   },
   direct: {
     heading: "Concise opener",
-    tone: "To-the-point delivery, focus on clear ROI and decision making.",
-    closing:
-      "Ask directly for commitment and provide a clear channel for follow-up."
+    tone: "To-the-point delivery, focus on clear ROI and decision making."
   },
   consultative: {
     heading: "Insight-led opening",
-    tone: "Empathetic, question-driven tone highlighting tailored insights.",
-    closing:
-      "Summarize diagnosed needs and recommend a collaborative next step."
+    tone: "Empathetic, question-driven tone highlighting tailored insights."
   }
 };
 
@@ -59,35 +68,186 @@ export default function HomePage() {
     objective: "",
     scriptStyle: "consultative",
     scheduledAt: "",
-    notes: ""
+    notes: "",
+    voicemailScript: "",
+    callbackNumber: "",
+    templateId: "",
+    sequenceId: "",
+    customFields: {},
+    consentGranted: false,
+    consentSource: consentSources[0],
+    timezone: "",
+    record: false
   });
   const [errors, setErrors] = useState<Partial<Record<keyof CallRequest, string>>>({});
-  const [script, setScript] = useState<string>("");
+  const [linkedContact, setLinkedContact] = useState<Contact>();
+  const [templates, setTemplates] = useState<ScriptTemplate[]>([]);
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [teamSettings, setTeamSettings] = useState<TeamSettings>(defaultTeamSettings);
   const [loading, setLoading] = useState(false);
-  const [callLog, setCallLog] = useState<CallLog[]>([]);
+  const [simulation, setSimulation] = useState<DryRunResult>();
+  const [simulating, setSimulating] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Reused when the same launch is retried after a network error so it is placed once.
+  const pendingLaunch = useRef<{ body: string; key: string }>();
   const [banner, setBanner] = useState<{ tone: "success" | "error"; message: string }>();
+  // undefined while loading, null when signed out
+  const [session, setSession] = useState<SessionInfo | null>();
+  const [signUpAllowed, setSignUpAllowed] = useState(false);
+  const teamId = session?.team.id;
+  const canLaunch = session ? hasRole(session.team.role, "agent") : false;
+  const isAdmin = session ? hasRole(session.team.role, "admin") : false;
 
   useEffect(() => {
-    const saved = window.localStorage.getItem("calling-agent:log");
-    if (saved) {
+    const loadSession = async () => {
       try {
-        const parsed = JSON.parse(saved) as CallLog[];
-        setCallLog(parsed);
-      } catch {
-        window.localStorage.removeItem("calling-agent:log");
+        const response = await fetch("/api/auth/session", { cache: "no-store" });
+        const data = (await response.json()) as { session?: SessionInfo; signUpAllowed?: boolean };
+        setSignUpAllowed(Boolean(data.signUpAllowed));
+        setSession(data.session ?? null);
+      } catch (error) {
+        console.error(error);
+        setSession(null);
       }
-    }
+    };
+
+    void loadSession();
   }, []);
 
+  const switchTeam = async (nextTeamId: string) => {
+    try {
+      const response = await fetch("/api/auth/switch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ teamId: nextTeamId })
+      });
+      const data = (await response.json()) as { session?: SessionInfo };
+      if (!data.session) return;
+      setSession(data.session);
+      unlinkContact();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+    setSession(null);
+    setBanner(undefined);
+  };
+
+  const loadTemplates = useCallback(async () => {
+    if (!teamId) return;
+    try {
+      const response = await fetch("/api/templates", { cache: "no-store" });
+      const data = (await response.json()) as { templates?: ScriptTemplate[] };
+      setTemplates(data.templates ?? []);
+    } catch (error) {
+      console.error(error);
+    }
+  }, [teamId]);
+
   useEffect(() => {
-    if (callLog.length) {
-      window.localStorage.setItem("calling-agent:log", JSON.stringify(callLog));
+    void loadTemplates();
+  }, [loadTemplates]);
+
+  const loadSequences = useCallback(async () => {
+    if (!teamId) return;
+    try {
+      const response = await fetch("/api/sequences", { cache: "no-store" });
+      const data = (await response.json()) as { sequences?: Sequence[] };
+      setSequences(data.sequences ?? []);
+    } catch (error) {
+      console.error(error);
     }
-  }, [callLog]);
+  }, [teamId]);
+
+  useEffect(() => {
+    void loadSequences();
+  }, [loadSequences]);
 
   useEffect(() => {
-    setScript(generateScript(form));
-  }, [form]);
+    if (!teamId) return;
+
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/settings", { cache: "no-store" });
+        const data = (await response.json()) as { settings?: TeamSettings };
+        if (!data.settings) return;
+        const { recordCallsByDefault } = data.settings;
+        setTeamSettings(data.settings);
+        setForm(prev => ({ ...prev, record: recordCallsByDefault }));
+      } catch (error) {
+        console.error(error);
+      }
+    };
+
+    void loadSettings();
+  }, [teamId]);
+
+  const saveTeamSettings = async (patch: Partial<TeamSettings>) => {
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(patch)
+      });
+      const data = (await response.json()) as { settings?: TeamSettings; message?: string };
+      if (data.settings) setTeamSettings(data.settings);
+      else setBanner({ tone: "error", message: data.message ?? "Could not save team settings." });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const phone = useMemo(
+    () => parsePhoneNumber(form.phoneNumber, teamSettings.defaultCountry),
+    [form.phoneNumber, teamSettings.defaultCountry]
+  );
+  const inferredTimezone = phone?.timezone;
+  const defaultCountryName =
+    phoneCountries.find(country => country.code === teamSettings.defaultCountry)?.name ??
+    teamSettings.defaultCountry;
+
+  const selectedTemplate = templates.find(template => template.id === form.templateId);
+  const templateBody = selectedTemplate
+    ? latestVersion(selectedTemplate).body
+    : defaultTemplates[form.scriptStyle];
+  const templateFields = useMemo(() => customFieldNames(templateBody), [templateBody]);
+
+  const renderedScript = useMemo(() => {
+    const script = renderScript(templateBody, {
+      contactName: form.contactName || "[contact name]",
+      objective: form.objective || "[call objective]",
+      notes: form.notes,
+      customFields: form.customFields
+    });
+    return form.record
+      ? withRecordingDisclosure(script, teamSettings.recordingDisclosure)
+      : script;
+  }, [
+    templateBody,
+    form.contactName,
+    form.objective,
+    form.notes,
+    form.customFields,
+    form.record,
+    teamSettings.recordingDisclosure
+  ]);
+
+  const generatedVoicemail = useMemo(
+    () =>
+      defaultVoicemailScript({
+        contactName: form.contactName,
+        objective: form.objective,
+        callbackNumber: form.callbackNumber
+      }),
+    [form.contactName, form.objective, form.callbackNumber]
+  );
 
   const scheduledLabel = useMemo(() => {
     if (!form.scheduledAt) return "Send immediately";
@@ -101,11 +261,27 @@ export default function HomePage() {
     setErrors(prev => ({ ...prev, [key]: undefined }));
   };
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setLoading(true);
-    setBanner(undefined);
-    const result = callRequestSchema.safeParse(form);
+  const pickContact = (contact: Contact) => {
+    setLinkedContact(contact);
+    setForm(prev => ({
+      ...prev,
+      contactId: contact.id,
+      contactName: contact.name,
+      phoneNumber: contact.phoneNumber,
+      timezone: contact.timezone ?? "",
+      customFields: { ...prev.customFields, ...contact.customFields }
+    }));
+    setErrors(prev => ({ ...prev, contactName: undefined, phoneNumber: undefined }));
+  };
+
+  const unlinkContact = () => {
+    setLinkedContact(undefined);
+    setForm(prev => ({ ...prev, contactId: undefined }));
+  };
+
+  /** The form as the call API expects it, or undefined after flagging invalid fields. */
+  const validatedPayload = (): CallRequest | undefined => {
+    const result = callRequestSchemaFor(teamSettings.defaultCountry).safeParse(form);
     if (!result.success) {
       const fieldErrors: Partial<Record<keyof CallRequest, string>> = {};
       for (const issue of result.error.issues) {
@@ -114,41 +290,66 @@ export default function HomePage() {
         }
       }
       setErrors(fieldErrors);
-      setLoading(false);
-      return;
+      return undefined;
     }
 
-    const payload: CallRequest = {
+    return {
       ...form,
+      phoneNumber: result.data.phoneNumber,
       scheduledAt: form.scheduledAt ? new Date(form.scheduledAt).toISOString() : undefined,
-      notes: form.notes?.trim() ? form.notes.trim() : undefined
+      notes: form.notes?.trim() ? form.notes.trim() : undefined,
+      voicemailScript: form.voicemailScript?.trim() || generatedVoicemail,
+      callbackNumber: result.data.callbackNumber,
+      templateId: selectedTemplate?.id,
+      sequenceId: sequences.some(sequence => sequence.id === form.sequenceId)
+        ? form.sequenceId
+        : undefined,
+      timezone: form.timezone?.trim() || undefined,
+      customFields: Object.fromEntries(
+        templateFields
+          .map(name => [name, form.customFields?.[name]?.trim() ?? ""])
+          .filter(([, value]) => value)
+      )
     };
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setLoading(true);
+    setBanner(undefined);
+    const payload = validatedPayload();
+    if (!payload) {
+      setLoading(false);
+      return;
+    }
+
+    const body = JSON.stringify(payload);
+    if (pendingLaunch.current?.body !== body) {
+      pendingLaunch.current = { body, key: crypto.randomUUID() };
+    }
 
     try {
       const response = await fetch("/api/call", {
         method: "POST",
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          "Idempotency-Key": pendingLaunch.current.key
         },
-        body: JSON.stringify(payload)
+        body
       });
+      if (response.status === 401) {
+        setSession(null);
+        return;
+      }
+      // A 409 means the first attempt is still running; keep its key for the retry.
+      if (response.status !== 409) pendingLaunch.current = undefined;
       const data = (await response.json()) as {
         success: boolean;
         message: string;
-        callSid?: string;
-        status?: CallLog["status"];
+        call?: CallRecord;
       };
 
-      const logItem: CallLog = {
-        ...payload,
-        id: crypto.randomUUID(),
-        createdAt: new Date().toISOString(),
-        status: data.status ?? (data.success ? "queued" : "failed"),
-        message: data.message,
-        confirmationSid: data.callSid
-      };
-
-      setCallLog(prev => [logItem, ...prev].slice(0, 20));
+      if (data.call) setHistoryVersion(version => version + 1);
       setBanner({
         tone: data.success ? "success" : "error",
         message: data.message
@@ -173,8 +374,52 @@ export default function HomePage() {
     }
   };
 
+  /** Dry-runs the form: checks, TwiML and the conversation branches, without dialing. */
+  const simulate = async (replies?: string[]) => {
+    const payload = validatedPayload();
+    if (!payload) return;
+    setSimulating(true);
+    try {
+      const response = await fetch("/api/call", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...payload, dryRun: true, replies })
+      });
+      if (response.status === 401) {
+        setSession(null);
+        return;
+      }
+      const data = (await response.json()) as {
+        success: boolean;
+        message: string;
+        dryRun?: DryRunResult;
+      };
+      if (data.dryRun) setSimulation(data.dryRun);
+      else setBanner({ tone: "error", message: data.message });
+    } catch (error) {
+      console.error(error);
+      setBanner({ tone: "error", message: "We could not reach the calling service." });
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-10 px-6 py-12">
+        {session === null && <SignInPanel signUpAllowed={signUpAllowed} onSignedIn={setSession} />}
+      </main>
+    );
+  }
+
   return (
     <main className="mx-auto flex w-full max-w-4xl flex-col gap-10 px-6 py-12">
+      <AccountBar
+        session={session}
+        onSwitchTeam={nextTeamId => void switchTeam(nextTeamId)}
+        onSignOut={() => void signOut()}
+      />
+
       <header className="space-y-3 text-center">
         <p className="inline-flex items-center gap-2 rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs uppercase tracking-wide text-slate-300">
           Live outreach orchestrator
@@ -207,6 +452,30 @@ export default function HomePage() {
           className="lg:col-span-3 rounded-2xl border border-slate-800 bg-slate-900/60 backdrop-blur-xl"
         >
           <div className="space-y-6 p-6">
+            <div className="space-y-1">
+              <span className="text-xs uppercase text-slate-400">Contact</span>
+              {linkedContact ? (
+                <p className="flex items-center justify-between rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-200">
+                  <span>
+                    {linkedContact.name}
+                    {linkedContact.company && (
+                      <span className="text-xs text-slate-400"> · {linkedContact.company}</span>
+                    )}
+                  </span>
+                  <span className="flex gap-3 text-xs">
+                    <Link href={`/contacts/${linkedContact.id}`} className={linkClass}>
+                      History
+                    </Link>
+                    <button type="button" onClick={unlinkContact} className={linkClass}>
+                      Unlink
+                    </button>
+                  </span>
+                </p>
+              ) : (
+                <ContactPicker onSelect={pickContact} />
+              )}
+            </div>
+
             <div className="space-y-1">
               <label htmlFor="contactName" className="text-xs uppercase text-slate-400">
                 Contact name
@@ -228,11 +497,41 @@ export default function HomePage() {
               <input
                 id="phoneNumber"
                 value={form.phoneNumber}
-                onChange={event => handleChange("phoneNumber", event.target.value)}
-                placeholder="+15551234567"
+                onChange={event => {
+                  // A different number is no longer the linked contact.
+                  if (linkedContact) unlinkContact();
+                  handleChange("phoneNumber", event.target.value);
+                }}
+                placeholder="(415) 555-0123 or +44 20 7946 0000"
                 className={inputClass(errors.phoneNumber)}
               />
-              {errors.phoneNumber && <p className="text-xs text-rose-400">{errors.phoneNumber}</p>}
+              {errors.phoneNumber ? (
+                <p className="text-xs text-rose-400">{errors.phoneNumber}</p>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  {phone
+                    ? `Detected: ${describePhone(phone)}`
+                    : `Without a country code, numbers are read as ${defaultCountryName}.`}
+                </p>
+              )}
+              {isAdmin && (
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  Team default country
+                  <select
+                    value={teamSettings.defaultCountry}
+                    onChange={event =>
+                      void saveTeamSettings({ defaultCountry: event.target.value })
+                    }
+                    className="rounded-md border border-slate-800 bg-slate-950/70 px-2 py-1 text-xs text-slate-200 focus:border-slate-500 focus:outline-none"
+                  >
+                    {phoneCountries.map(country => (
+                      <option key={country.code} value={country.code}>
+                        {country.name} (+{country.callingCode})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
             </div>
 
             <div className="space-y-1">
@@ -279,6 +578,44 @@ export default function HomePage() {
               </div>
             </fieldset>
 
+            <div className="space-y-1">
+              <label htmlFor="templateId" className="text-xs uppercase text-slate-400">
+                Script template
+              </label>
+              <select
+                id="templateId"
+                value={form.templateId}
+                onChange={event => handleChange("templateId", event.target.value)}
+                className={inputClass(errors.templateId)}
+              >
+                <option value="">Default for {form.scriptStyle} style</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} (v{latestVersion(template).version})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="sequenceId" className="text-xs uppercase text-slate-400">
+                Follow-up sequence
+              </label>
+              <select
+                id="sequenceId"
+                value={form.sequenceId}
+                onChange={event => handleChange("sequenceId", event.target.value)}
+                className={inputClass(errors.sequenceId)}
+              >
+                <option value="">None (texts by outcome only)</option>
+                {sequences.map(sequence => (
+                  <option key={sequence.id} value={sequence.id}>
+                    {sequence.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="grid gap-4 sm:grid-cols-2">
               <div className="space-y-1">
                 <label htmlFor="scheduledAt" className="text-xs uppercase text-slate-400">
@@ -289,10 +626,14 @@ export default function HomePage() {
                   type="datetime-local"
                   value={form.scheduledAt}
                   onChange={event => handleChange("scheduledAt", event.target.value)}
-                  className={inputClass()}
+                  className={inputClass(errors.scheduledAt)}
                   min={new Date().toISOString().slice(0, 16)}
                 />
-                <p className="text-xs text-slate-500">{scheduledLabel}</p>
+                {errors.scheduledAt ? (
+                  <p className="text-xs text-rose-400">{errors.scheduledAt}</p>
+                ) : (
+                  <p className="text-xs text-slate-500">{scheduledLabel}</p>
+                )}
               </div>
 
               <div className="space-y-1">
@@ -308,119 +649,221 @@ export default function HomePage() {
                 />
               </div>
             </div>
-          </div>
 
-          <div className="flex items-center justify-between gap-3 border-t border-slate-800 bg-slate-900/80 px-6 py-4">
-            <div className="text-xs text-slate-400">
-              {form.scheduledAt ? "Scheduled call" : "Instant call"} • {scheduledLabel}
+            <fieldset className="grid gap-4 sm:grid-cols-2">
+              <legend className="sr-only">Consent and calling hours</legend>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={form.consentGranted ?? false}
+                    onChange={event => handleChange("consentGranted", event.target.checked)}
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-950 accent-sky-500"
+                  />
+                  Contact has consented to calls
+                </label>
+                <select
+                  value={form.consentSource}
+                  onChange={event => handleChange("consentSource", event.target.value)}
+                  disabled={!form.consentGranted}
+                  className={clsx(inputClass(errors.consentSource), "disabled:opacity-50")}
+                  aria-label="Consent source"
+                >
+                  {consentSources.map(source => (
+                    <option key={source} value={source}>
+                      Consent via {source}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor="timezone" className="text-xs uppercase text-slate-400">
+                  Contact timezone (optional)
+                </label>
+                <input
+                  id="timezone"
+                  value={form.timezone}
+                  onChange={event => handleChange("timezone", event.target.value)}
+                  placeholder={inferredTimezone ?? "America/Chicago"}
+                  className={inputClass(errors.timezone)}
+                />
+                {errors.timezone ? (
+                  <p className="text-xs text-rose-400">{errors.timezone}</p>
+                ) : (
+                  <p className="text-xs text-slate-500">
+                    {inferredTimezone
+                      ? `Detected from number: ${inferredTimezone}`
+                      : "Calling hours use the callee's local time."}
+                  </p>
+                )}
+              </div>
+            </fieldset>
+
+            <VoiceFields
+              settings={form.voice}
+              fallback={selectedTemplate?.voice}
+              error={errors.voice}
+              onChange={voice => handleChange("voice", voice)}
+            />
+
+            <RetryPolicyFields
+              policy={form.retryPolicy}
+              fallback={selectedTemplate?.retryPolicy}
+              error={errors.retryPolicy}
+              onChange={policy => handleChange("retryPolicy", policy)}
+            />
+
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+              <label className="flex items-center gap-2 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={form.record ?? false}
+                  onChange={event => handleChange("record", event.target.checked)}
+                  className="h-4 w-4 rounded border-slate-700 bg-slate-950 accent-sky-500"
+                />
+                Record and transcribe this call
+              </label>
+              {isAdmin && (
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={teamSettings.recordCallsByDefault}
+                    onChange={event =>
+                      void saveTeamSettings({ recordCallsByDefault: event.target.checked })
+                    }
+                    className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 accent-sky-500"
+                  />
+                  Record by default for the team
+                </label>
+              )}
+              {form.record && (
+                <p className="w-full text-xs text-slate-500">
+                  The agent opens with the disclosure: “{teamSettings.recordingDisclosure}”
+                </p>
+              )}
             </div>
-            <button
-              type="submit"
-              disabled={loading}
-              className="inline-flex items-center gap-2 rounded-xl bg-sky-500 px-5 py-2 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
-            >
-              {loading ? "Queueing..." : "Deploy agent call"}
-            </button>
           </div>
-        </form>
 
-        <aside className="lg:col-span-2 flex flex-col gap-6">
-          <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
-            <header className="space-y-1">
-              <p className="text-xs uppercase text-slate-400">{stylePresets[form.scriptStyle].heading}</p>
-              <h2 className="text-xl font-semibold">Suggested conversation flow</h2>
-              <p className="text-sm text-slate-400">
-                Review and adapt before launch. Perfect for handing over to a human agent or
-                confirming the AI prompt.
+          <div className="flex items-center justify-between gap-3 border-t border-slate-800 bg-slate-900/80 px-6 py-4">
+            <div className="space-y-1 text-xs text-slate-400">
+              <p>
+                {canLaunch
+                  ? `${form.scheduledAt ? "Scheduled call" : "Instant call"} • ${scheduledLabel}`
+                  : "View-only access. Ask an admin for the agent role to launch calls."}
               </p>
-            </header>
-            <pre className="mt-4 max-h-[320px] overflow-auto rounded-xl border border-slate-800 bg-slate-950/70 p-4 text-sm leading-relaxed text-slate-200">
-              {script}
-            </pre>
-          </div>
-
-          <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
-            <header className="flex items-center justify-between">
-              <h2 className="text-xl font-semibold">Recent launches</h2>
+              <QuotaMeter refreshToken={historyVersion} phoneNumber={phone?.e164 ?? ""} />
+            </div>
+            <div className="flex items-center gap-3">
               <button
-                className="text-xs text-slate-400 underline decoration-dotted underline-offset-4 transition hover:text-slate-200"
-                onClick={() => setCallLog([])}
+                type="button"
+                disabled={simulating || !canLaunch}
+                onClick={() => void simulate()}
+                className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-40"
               >
-                Clear
+                {simulating ? "Simulating..." : "Simulate"}
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !canLaunch}
+                className="inline-flex items-center gap-2 rounded-xl bg-sky-500 px-5 py-2 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+              >
+                {loading ? "Queueing..." : "Deploy agent call"}
               </button>
-            </header>
-            <div className="mt-4 space-y-4">
-              {callLog.length === 0 && (
-                <p className="text-sm text-slate-400">
-                  Calls launched from this dashboard will appear here with delivery status.
-                </p>
-              )}
-
-              {callLog.map(log => (
-                <article
-                  key={log.id}
-                  className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-sm text-slate-200"
-                >
-                  <header className="flex items-center justify-between text-xs text-slate-400">
-                    <span>{new Date(log.createdAt).toLocaleString()}</span>
-                    <StatusBadge status={log.status} />
-                  </header>
-                  <div className="mt-2 font-medium text-slate-100">
-                    {log.contactName} · {log.phoneNumber}
-                  </div>
-                  <p className="mt-1 text-sm text-slate-300">{log.objective}</p>
-                  {log.notes && (
-                    <p className="mt-2 rounded-lg bg-slate-900/80 p-2 text-xs text-slate-400">
-                      Notes: {log.notes}
-                    </p>
-                  )}
-                  {log.message && (
-                    <p className="mt-2 text-xs text-slate-400">Agent: {log.message}</p>
-                  )}
-                  {log.confirmationSid && (
-                    <p className="mt-2 text-xs text-slate-500">Call SID: {log.confirmationSid}</p>
-                  )}
-                </article>
-              ))}
             </div>
           </div>
+        </form>
+
+        <aside className="lg:col-span-2 flex flex-col gap-6">
+          {simulation && (
+            <CallSimulator
+              result={simulation}
+              voice={form.voice ?? selectedTemplate?.voice ?? defaultVoiceSettings}
+              busy={simulating}
+              onReplies={replies => void simulate(replies)}
+              onClose={() => setSimulation(undefined)}
+            />
+          )}
+          <ScriptPreview
+            heading={
+              selectedTemplate
+                ? `${selectedTemplate.name} · v${latestVersion(selectedTemplate).version}`
+                : stylePresets[form.scriptStyle].heading
+            }
+            script={renderedScript}
+            voice={form.voice ?? selectedTemplate?.voice ?? defaultVoiceSettings}
+            listening={Boolean(renderedScript.question)}
+            customFields={templateFields}
+            customValues={form.customFields ?? {}}
+            onCustomFieldChange={(name, value) =>
+              handleChange("customFields", { ...form.customFields, [name]: value })
+            }
+          />
+
+          <VoicemailEditor
+            script={form.voicemailScript ?? ""}
+            defaultScript={generatedVoicemail}
+            callbackNumber={form.callbackNumber ?? ""}
+            errors={errors}
+            onScriptChange={value => handleChange("voicemailScript", value)}
+            onCallbackNumberChange={value => handleChange("callbackNumber", value)}
+          />
+
+          <LiveCalls key={`live-${teamId}`} canControl={canLaunch} />
+          <ScheduledJobs
+            key={`jobs-${teamId}`}
+            refreshToken={historyVersion}
+            canEdit={canLaunch}
+            onChange={() => setHistoryVersion(version => version + 1)}
+          />
+          <CallHistory
+            key={`history-${teamId}`}
+            refreshToken={historyVersion}
+            canHangUp={canLaunch}
+          />
         </aside>
       </section>
+
+      <TemplateManager
+        templates={templates}
+        scriptStyle={form.scriptStyle}
+        canEdit={canLaunch}
+        onChange={() => void loadTemplates()}
+      />
+
+      <FollowUpPanel
+        key={`follow-ups-${teamId}`}
+        canEdit={canLaunch}
+        onChange={() => void loadSequences()}
+      />
+
+      {isAdmin && <DoNotCallPanel />}
+
+      {isAdmin && <DispositionCodesPanel key={`dispositions-${teamId}`} />}
+
+      <CallerIdPanel key={`caller-ids-${teamId}`} canEdit={isAdmin} />
+
+      {canLaunch && (
+        <CampaignPanel
+          key={`campaigns-${teamId}`}
+          defaultCountry={teamSettings.defaultCountry}
+          onLaunched={() => setHistoryVersion(version => version + 1)}
+        />
+      )}
+
+      {isAdmin && <TeamPanel key={`team-${teamId}`} currentUserId={session.user.id} />}
+
+      {isAdmin && <WebhookPanel key={`webhooks-${teamId}`} />}
     </main>
   );
 }
 
+const linkClass =
+  "text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
+
 function inputClass(hasError?: string) {
   return clsx(
     "w-full rounded-xl border border-slate-800 bg-slate-950/70 px-4 py-2 text-sm text-slate-100 transition focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 placeholder:text-slate-500",
     hasError && "border-rose-500 focus:border-rose-400 focus:ring-rose-500/40"
   );
 }
-
-function generateScript(form: CallRequest) {
-  const segments = [
-    `👋 Intro\n"Hi ${form.contactName || "there"}, this is your outreach agent calling on behalf of our team. Do you have a quick minute to talk?"`,
-    `🎯 Objective\n"${form.objective || "I'd love to share why I'm reaching out and explore how we can collaborate."}"`,
-    `🧠 Tone\n${stylePresets[form.scriptStyle].tone}`,
-    `🗺️ Flow\n1. Establish rapport and confirm context.\n2. Share key value proposition tailored to the contact.\n3. Ask one high-impact question to surface needs.\n4. Offer next step aligned with the objective.\n5. Confirm best follow-up channel and availability.`,
-    `✅ Closing\n${stylePresets[form.scriptStyle].closing}`,
-    form.notes ? `📝 Notes from you\n${form.notes}` : undefined
-  ].filter(Boolean);
-
-  return segments.join("\n\n");
-}
-
-function StatusBadge({ status }: { status: CallLog["status"] }) {
-  const palette = {
-    queued: "bg-sky-500/10 text-sky-300 border-sky-500/40",
-    "in-progress": "bg-amber-500/10 text-amber-300 border-amber-500/40",
-    completed: "bg-emerald-500/10 text-emerald-300 border-emerald-500/40",
-    failed: "bg-rose-500/10 text-rose-300 border-rose-500/40"
-  } as const;
-
-  return (
-    <span className={clsx("rounded-full border px-2 py-1 uppercase tracking-wide", palette[status])}>
-      {status.replace("-", " ")}
-    </span>
-  );
-}
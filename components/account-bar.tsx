@@ -0,0 +1,60 @@
+"use client";
+
+import Link from "next/link";
+import type { SessionInfo } from "../shared/auth";
+
+export function AccountBar({
+  session,
+  onSwitchTeam,
+  onSignOut
+}: {
+  session: SessionInfo;
+  onSwitchTeam: (teamId: string) => void;
+  onSignOut: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900/60 px-4 py-2 text-xs text-slate-300">
+      <span>
+        Signed in as <span className="text-slate-100">{session.user.name}</span> ·{" "}
+        <span className="uppercase tracking-wide text-slate-400">{session.team.role}</span>
+      </span>
+      <span className="flex items-center gap-3">
+        <Link
+          href="/contacts"
+          className="underline decoration-dotted underline-offset-4 transition hover:text-slate-100"
+        >
+          Contacts
+        </Link>
+        <Link
+          href="/analytics"
+          className="underline decoration-dotted underline-offset-4 transition hover:text-slate-100"
+        >
+          Analytics
+        </Link>
+        {session.teams.length > 1 ? (
+          <select
+            value={session.team.id}
+            onChange={event => onSwitchTeam(event.target.value)}
+            className="rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1 text-xs text-slate-200 focus:border-slate-500 focus:outline-none"
+            aria-label="Workspace"
+          >
+            {session.teams.map(team => (
+              <option key={team.id} value={team.id}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-slate-400">{session.team.name}</span>
+        )}
+        <button
+          type="button"
+          onClick={onSignOut}
+          className="underline decoration-dotted underline-offset-4 transition hover:text-slate-100"
+        >
+          Sign out
+        </button>
+      </span>
+    </div>
+  );
+}
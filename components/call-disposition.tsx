@@ -0,0 +1,333 @@
+"use client";
+
+import { useState } from "react";
+import { clsx } from "clsx";
+import { isTerminalStatus } from "../shared/call-status";
+import type { CallRecord } from "../shared/calls";
+import {
+  suggestDisposition,
+  type CallTask,
+  type DispositionSentiment,
+  type DispositionSettings
+} from "../shared/dispositions";
+
+type TaskDraft = { id?: string; title: string; dueAt: string; assigneeId: string; done: boolean };
+
+type Draft = { code: string; notes: string; tasks: TaskDraft[] };
+
+const sentimentClasses: Record<DispositionSentiment, string> = {
+  positive: "border-emerald-500/40 bg-emerald-500/10 text-emerald-300",
+  neutral: "border-slate-500/40 bg-slate-500/10 text-slate-300",
+  negative: "border-rose-500/40 bg-rose-500/10 text-rose-300"
+};
+
+/**
+ * The call's disposition, notes and next-step tasks, editable in place. Calls
+ * without one show the code suggested by the callee's replies, if any.
+ */
+export function CallDispositionEditor({
+  call,
+  settings,
+  canEdit,
+  onSaved
+}: {
+  call: CallRecord;
+  settings: DispositionSettings;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft>();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>();
+  const { disposition } = call;
+  const suggestion = disposition ? undefined : suggestDisposition(call, settings.codes);
+  const sentiment = settings.codes.find(code => code.id === disposition?.code)?.sentiment;
+
+  // Calls still connecting or in progress have no outcome yet.
+  if (!disposition && !isTerminalStatus(call.status)) return null;
+
+  const save = async (body: unknown) => {
+    setSaving(true);
+    setError(undefined);
+    try {
+      const response = await fetch(`/api/calls/${call.id}/disposition`, {
+        method: body ? "PUT" : "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = (await response.json()) as { success: boolean; message?: string };
+      if (!data.success) {
+        setError(data.message ?? "Unable to save the disposition.");
+        return;
+      }
+      setDraft(undefined);
+      onSaved();
+    } catch (saveError) {
+      console.error(saveError);
+      setError("Unable to save the disposition.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () =>
+    setDraft({
+      code: disposition?.code ?? suggestion?.id ?? settings.codes[0]?.id ?? "",
+      notes: disposition?.notes ?? "",
+      tasks: (disposition?.tasks ?? []).map(task => ({
+        id: task.id,
+        title: task.title,
+        dueAt: task.dueAt ? toLocalInput(task.dueAt) : "",
+        assigneeId: task.assignee?.id ?? "",
+        done: task.done
+      }))
+    });
+
+  const toggleTask = (task: CallTask) => {
+    if (!disposition) return;
+    void save({
+      code: disposition.code,
+      notes: disposition.notes,
+      tasks: disposition.tasks.map(entry => ({
+        ...taskPayload(entry),
+        done: entry.id === task.id ? !entry.done : entry.done
+      }))
+    });
+  };
+
+  const updateTask = (index: number, patch: Partial<TaskDraft>) =>
+    setDraft(current =>
+      current && {
+        ...current,
+        tasks: current.tasks.map((task, position) =>
+          position === index ? { ...task, ...patch } : task
+        )
+      }
+    );
+
+  if (draft) {
+    return (
+      <div className="mt-2 space-y-2 rounded-lg border border-slate-800 bg-slate-900/80 p-3 text-xs">
+        <select
+          value={draft.code}
+          onChange={event => setDraft({ ...draft, code: event.target.value })}
+          className={fieldClass}
+          aria-label="Disposition"
+        >
+          {settings.codes.map(code => (
+            <option key={code.id} value={code.id}>
+              {code.label}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={draft.notes}
+          onChange={event => setDraft({ ...draft, notes: event.target.value })}
+          placeholder="Post-call notes"
+          className={clsx(fieldClass, "min-h-[60px]")}
+          aria-label="Post-call notes"
+        />
+        {draft.tasks.map((task, index) => (
+          <div key={task.id ?? `new-${index}`} className="grid gap-2 sm:grid-cols-[1fr_auto_auto_auto]">
+            <input
+              value={task.title}
+              onChange={event => updateTask(index, { title: event.target.value })}
+              placeholder="Next step"
+              className={fieldClass}
+              aria-label="Task"
+            />
+            <input
+              type="datetime-local"
+              value={task.dueAt}
+              onChange={event => updateTask(index, { dueAt: event.target.value })}
+              className={fieldClass}
+              aria-label="Due"
+            />
+            <select
+              value={task.assigneeId}
+              onChange={event => updateTask(index, { assigneeId: event.target.value })}
+              className={fieldClass}
+              aria-label="Assignee"
+            >
+              <option value="">Unassigned</option>
+              {settings.assignees.map(assignee => (
+                <option key={assignee.id} value={assignee.id}>
+                  {assignee.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  tasks: draft.tasks.filter((_, position) => position !== index)
+                })
+              }
+              className={linkClass}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                tasks: [...draft.tasks, { title: "", dueAt: "", assigneeId: "", done: false }]
+              })
+            }
+            className={linkClass}
+          >
+            Add task
+          </button>
+          <span className="flex-1" />
+          {disposition && (
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void save(undefined)}
+              className="text-rose-300 underline decoration-dotted underline-offset-4 transition hover:text-rose-200 disabled:opacity-40"
+            >
+              Clear
+            </button>
+          )}
+          <button type="button" onClick={() => setDraft(undefined)} className={linkClass}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={saving || !draft.code}
+            onClick={() =>
+              void save({
+                code: draft.code,
+                notes: draft.notes.trim() || undefined,
+                tasks: draft.tasks
+                  .filter(task => task.title.trim())
+                  .map(task => ({
+                    id: task.id,
+                    title: task.title.trim(),
+                    dueAt: task.dueAt ? new Date(task.dueAt).toISOString() : undefined,
+                    assigneeId: task.assigneeId || undefined,
+                    done: task.done
+                  }))
+              })
+            }
+            className="rounded-lg bg-slate-800 px-3 py-1 text-slate-100 transition hover:bg-slate-700 disabled:opacity-40"
+          >
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+        {error && <p className="text-rose-300">{error}</p>}
+      </div>
+    );
+  }
+
+  if (!disposition) {
+    if (!canEdit) return null;
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        {suggestion && (
+          <>
+            <span>Suggested: {suggestion.label}</span>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void save({ code: suggestion.id, tasks: [] })}
+              className={linkClass}
+            >
+              Use
+            </button>
+          </>
+        )}
+        <button type="button" onClick={startEditing} className={linkClass}>
+          Add disposition
+        </button>
+        {error && <span className="text-rose-300">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={clsx(
+            "rounded-full border px-2 py-0.5",
+            sentimentClasses[sentiment ?? "neutral"]
+          )}
+        >
+          {disposition.label}
+        </span>
+        <span className="text-slate-500">by {disposition.updatedBy.name}</span>
+        {canEdit && (
+          <button type="button" onClick={startEditing} className={linkClass}>
+            Edit
+          </button>
+        )}
+      </div>
+      {disposition.notes && (
+        <p className="whitespace-pre-line rounded-lg bg-slate-900/80 p-2 text-slate-400">
+          {disposition.notes}
+        </p>
+      )}
+      {disposition.tasks.length > 0 && (
+        <ul className="space-y-1">
+          {disposition.tasks.map(task => (
+            <li key={task.id} className="flex items-center gap-2 text-slate-300">
+              <input
+                type="checkbox"
+                checked={task.done}
+                disabled={!canEdit || saving}
+                onChange={() => toggleTask(task)}
+                className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 accent-sky-500"
+                aria-label={`Mark "${task.title}" done`}
+              />
+              <span className={clsx(task.done && "text-slate-500 line-through")}>
+                {task.title}
+              </span>
+              <span className={dueClass(task)}>
+                {[
+                  task.dueAt && `due ${new Date(task.dueAt).toLocaleString()}`,
+                  task.assignee?.name
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-rose-300">{error}</p>}
+    </div>
+  );
+}
+
+function taskPayload(task: CallTask) {
+  return {
+    id: task.id,
+    title: task.title,
+    dueAt: task.dueAt,
+    assigneeId: task.assignee?.id,
+    done: task.done
+  };
+}
+
+function dueClass(task: CallTask) {
+  const overdue = !task.done && task.dueAt && Date.parse(task.dueAt) < Date.now();
+  return overdue ? "text-amber-300" : "text-slate-500";
+}
+
+/** ISO time as the value of a `datetime-local` input, in the browser's timezone. */
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+const fieldClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100 disabled:opacity-40";
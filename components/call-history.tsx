@@ -0,0 +1,502 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import { CallStatus, callStatuses, isTerminalStatus } from "../shared/call-status";
+import {
+  callDirections,
+  type CallDirection,
+  type CallListResponse,
+  type CallRecord
+} from "../shared/calls";
+import type { DispositionSettings } from "../shared/dispositions";
+import { inboundRouteLabels } from "../shared/inbound";
+import { describeTransfer, speakerLabel } from "../shared/live-calls";
+import { describePhone } from "../shared/phone";
+import { describeRetryPolicy } from "../shared/retry-policy";
+import type { ReachedOutcome } from "../shared/voicemail";
+import { CallDispositionEditor } from "./call-disposition";
+import { CallRecordingDetails, Highlighted, matches } from "./call-recording";
+
+const legacyStorageKey = "calling-agent:log";
+const statusPollIntervalMs = 5000;
+const pageSize = 10;
+const recordingWaitMs = 10 * 60_000;
+
+type Filters = {
+  status: CallStatus | "";
+  direction: CallDirection | "";
+  contact: string;
+  transcript: string;
+  from: string;
+  to: string;
+  disposition: string;
+  openTasks: boolean;
+};
+
+export function CallHistory({
+  refreshToken,
+  canHangUp
+}: {
+  refreshToken: number;
+  canHangUp: boolean;
+}) {
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [attempts, setAttempts] = useState<CallRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<Filters>({
+    status: "",
+    direction: "",
+    contact: "",
+    transcript: "",
+    from: "",
+    to: "",
+    disposition: "",
+    openTasks: false
+  });
+  const [dispositions, setDispositions] = useState<DispositionSettings>();
+  const [importVersion, setImportVersion] = useState(0);
+  const [error, setError] = useState<string>();
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (filters.status) params.set("status", filters.status);
+    if (filters.direction) params.set("direction", filters.direction);
+    if (filters.contact.trim()) params.set("contact", filters.contact.trim());
+    if (filters.transcript.trim()) params.set("q", filters.transcript.trim());
+    if (filters.from) params.set("from", new Date(`${filters.from}T00:00`).toISOString());
+    if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+    if (filters.disposition) params.set("disposition", filters.disposition);
+    if (filters.openTasks) params.set("openTasks", "true");
+
+    try {
+      const response = await fetch(`/api/calls?${params.toString()}`, { cache: "no-store" });
+      const data = (await response.json()) as CallListResponse | { message: string };
+      if (!("calls" in data)) {
+        setError(data.message);
+        return;
+      }
+      setCalls(data.calls);
+      setAttempts(data.attempts);
+      setTotal(data.total);
+      setError(undefined);
+    } catch (loadError) {
+      console.error(loadError);
+      setError("Call history is unavailable right now.");
+    }
+  }, [page, filters]);
+
+  useEffect(() => {
+    const saved = window.localStorage.getItem(legacyStorageKey);
+    if (!saved) return;
+
+    const migrate = async () => {
+      try {
+        const response = await fetch("/api/calls/import", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({ calls: JSON.parse(saved) })
+        });
+        if (!response.ok) return;
+        window.localStorage.removeItem(legacyStorageKey);
+        setImportVersion(version => version + 1);
+      } catch (migrationError) {
+        console.error(migrationError);
+      }
+    };
+
+    void migrate();
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshToken, importVersion]);
+
+  useEffect(() => {
+    const loadDispositions = async () => {
+      try {
+        const response = await fetch("/api/dispositions", { cache: "no-store" });
+        const data = (await response.json()) as DispositionSettings | { message: string };
+        if ("codes" in data) setDispositions(data);
+      } catch (loadError) {
+        console.error(loadError);
+      }
+    };
+
+    void loadDispositions();
+  }, []);
+
+  const hasActiveCalls = [...calls, ...attempts].some(
+    call =>
+      (call.callSid && !isTerminalStatus(call.status)) ||
+      awaitingRecording(call) ||
+      awaitingRetry(call)
+  );
+
+  useEffect(() => {
+    if (!hasActiveCalls) return;
+    const timer = window.setInterval(() => void load(), statusPollIntervalMs);
+    return () => window.clearInterval(timer);
+  }, [hasActiveCalls, load]);
+
+  const hangUp = async (id: string) => {
+    try {
+      const response = await fetch(`/api/calls/${id}/hangup`, { method: "POST" });
+      const data = (await response.json()) as { success: boolean; message?: string };
+      await load();
+      if (!data.success) setError(data.message ?? "Unable to hang up the call.");
+    } catch (hangUpError) {
+      console.error(hangUpError);
+      setError("Unable to hang up the call.");
+    }
+  };
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Recent launches</h2>
+        <span className="text-xs text-slate-400">{total} total</span>
+      </header>
+
+      <div className="mt-4 grid gap-2 sm:grid-cols-2">
+        <select
+          value={filters.status}
+          onChange={event => updateFilter("status", event.target.value as Filters["status"])}
+          className={filterClass}
+          aria-label="Filter by status"
+        >
+          <option value="">All statuses</option>
+          {callStatuses.map(status => (
+            <option key={status} value={status}>
+              {status.replace("-", " ")}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.direction}
+          onChange={event =>
+            updateFilter("direction", event.target.value as Filters["direction"])
+          }
+          className={filterClass}
+          aria-label="Filter by direction"
+        >
+          <option value="">Inbound and outbound</option>
+          {callDirections.map(direction => (
+            <option key={direction} value={direction}>
+              {direction === "inbound" ? "Inbound only" : "Outbound only"}
+            </option>
+          ))}
+        </select>
+        <input
+          value={filters.contact}
+          onChange={event => updateFilter("contact", event.target.value)}
+          placeholder="Contact or number"
+          className={clsx(filterClass, "sm:col-span-2")}
+          aria-label="Filter by contact"
+        />
+        <input
+          type="date"
+          value={filters.from}
+          onChange={event => updateFilter("from", event.target.value)}
+          className={filterClass}
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={event => updateFilter("to", event.target.value)}
+          className={filterClass}
+          aria-label="To date"
+        />
+        <input
+          value={filters.transcript}
+          onChange={event => updateFilter("transcript", event.target.value)}
+          placeholder="Search transcripts"
+          className={clsx(filterClass, "sm:col-span-2")}
+          aria-label="Search transcripts"
+        />
+        <select
+          value={filters.disposition}
+          onChange={event => updateFilter("disposition", event.target.value)}
+          className={filterClass}
+          aria-label="Filter by disposition"
+        >
+          <option value="">Any disposition</option>
+          <option value="none">No disposition yet</option>
+          {dispositions?.codes.map(code => (
+            <option key={code.id} value={code.id}>
+              {code.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 px-1 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={filters.openTasks}
+            onChange={event => updateFilter("openTasks", event.target.checked)}
+            className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 accent-sky-500"
+          />
+          Open tasks only
+        </label>
+      </div>
+
+      <div className="mt-4 space-y-4">
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+
+        {!error && calls.length === 0 && (
+          <p className="text-sm text-slate-400">
+            Calls launched from this dashboard will appear here with delivery status.
+          </p>
+        )}
+
+        {calls.map(call => (
+          <CallCard
+            key={call.id}
+            call={call}
+            attempts={attempts.filter(attempt => attempt.parentCallId === call.id)}
+            search={filters.transcript}
+            dispositions={dispositions}
+            canEdit={canHangUp}
+            onChange={() => void load()}
+            onHangUp={canHangUp ? id => void hangUp(id) : undefined}
+          />
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <footer className="mt-4 flex items-center justify-between text-xs text-slate-400">
+          <button
+            className="underline decoration-dotted underline-offset-4 transition hover:text-slate-200 disabled:no-underline disabled:opacity-40"
+            disabled={page <= 1}
+            onClick={() => setPage(prev => prev - 1)}
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <button
+            className="underline decoration-dotted underline-offset-4 transition hover:text-slate-200 disabled:no-underline disabled:opacity-40"
+            disabled={page >= pageCount}
+            onClick={() => setPage(prev => prev + 1)}
+          >
+            Next
+          </button>
+        </footer>
+      )}
+    </div>
+  );
+}
+
+const reachedLabels: Record<ReachedOutcome, string> = {
+  human: "human",
+  machine: "voicemail / machine",
+  fax: "fax",
+  unknown: "undetermined"
+};
+
+const filterClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+function CallCard({
+  call,
+  attempts,
+  search,
+  dispositions,
+  canEdit,
+  onChange,
+  onHangUp
+}: {
+  call: CallRecord;
+  attempts: CallRecord[];
+  search: string;
+  dispositions?: DispositionSettings;
+  canEdit: boolean;
+  onChange: () => void;
+  onHangUp?: (id: string) => void;
+}) {
+  const transcriptMatches =
+    Boolean(search.trim()) && (call.transcript ?? []).some(turn => matches(turn.text, search));
+
+  return (
+    <article className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-sm text-slate-200">
+      <header className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {new Date(call.createdAt).toLocaleString()}
+          {call.direction === "inbound" && " · Inbound"}
+        </span>
+        <StatusBadge status={call.status} />
+      </header>
+      <div className="mt-2 font-medium text-slate-100">
+        {call.contactName} · {call.phoneNumber}
+      </div>
+      {(call.phone || call.callerId) && (
+        <p className="mt-0.5 text-xs text-slate-500">
+          {[call.phone && describePhone(call.phone), call.callerId && `from ${call.callerId}`]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      )}
+      <p className="mt-1 text-sm text-slate-300">{call.objective}</p>
+      {call.inboundRoute && (
+        <p className="mt-1 text-xs text-slate-500">{inboundRouteLabels[call.inboundRoute]}</p>
+      )}
+      {call.launchedBy && (
+        <p className="mt-1 text-xs text-slate-500">
+          Launched by {call.launchedBy.name}
+          {call.launchedBy.type === "api-key" && " (API key)"}
+        </p>
+      )}
+      {call.notes && (
+        <p className="mt-2 rounded-lg bg-slate-900/80 p-2 text-xs text-slate-400">
+          Notes: {call.notes}
+        </p>
+      )}
+      {call.message && <p className="mt-2 text-xs text-slate-400">Agent: {call.message}</p>}
+      {call.blockReason && (
+        <p className="mt-2 text-xs text-fuchsia-300">
+          Blocked ({call.blockReason.code.replace(/_/g, " ")})
+          {call.blockReason.nextAllowedAt &&
+            ` · next window ${new Date(call.blockReason.nextAllowedAt).toLocaleString()}`}
+        </p>
+      )}
+      {(call.duration !== undefined || call.reached || call.answeredBy || call.errorCode) && (
+        <p className="mt-2 text-xs text-slate-400">
+          {[
+            call.duration !== undefined ? `Duration: ${call.duration}s` : undefined,
+            call.reached ? `Reached: ${reachedLabels[call.reached]}` : undefined,
+            call.voicemailLeft ? "Voicemail left" : undefined,
+            call.answeredBy && !call.reached
+              ? `Answered by: ${call.answeredBy.replace(/_/g, " ")}`
+              : undefined,
+            call.errorCode ? `Error code: ${call.errorCode}` : undefined
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      )}
+      {call.transfer && (
+        <p className="mt-2 text-xs text-slate-400">{describeTransfer(call.transfer)}</p>
+      )}
+      {call.transcript && call.transcript.length > 0 && (
+        <details className="mt-2 text-xs" open={transcriptMatches}>
+          <summary className="cursor-pointer text-slate-400 transition hover:text-slate-200">
+            Transcript ({call.transcript.length} turns)
+          </summary>
+          <ol className="mt-2 space-y-1 rounded-lg bg-slate-900/80 p-2">
+            {call.transcript.map((turn, index) => (
+              <li key={index} className={turn.speaker === "agent" ? "text-slate-300" : "text-sky-200"}>
+                <span className="font-medium uppercase text-slate-500">
+                  {speakerLabel(turn)}:
+                </span>{" "}
+                <Highlighted text={turn.text} term={search} />
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+      {call.recording && (
+        <CallRecordingDetails callId={call.id} recording={call.recording} search={search} />
+      )}
+      {dispositions && (
+        <CallDispositionEditor
+          call={call}
+          settings={dispositions}
+          canEdit={canEdit}
+          onSaved={onChange}
+        />
+      )}
+      {call.callSid && (
+        <div className="mt-2 flex items-center justify-between text-xs text-slate-500">
+          <span>Call SID: {call.callSid}</span>
+          {onHangUp && !isTerminalStatus(call.status) && (
+            <button
+              type="button"
+              onClick={() => onHangUp(call.id)}
+              className="text-rose-300 underline decoration-dotted underline-offset-4 transition hover:text-rose-200"
+            >
+              Hang up
+            </button>
+          )}
+        </div>
+      )}
+      {call.retryPolicy && (
+        <p className="mt-2 text-xs text-slate-500">
+          Retry policy: {describeRetryPolicy(call.retryPolicy)}
+        </p>
+      )}
+      {attempts.length > 0 && (
+        <ol className="mt-2 space-y-1 border-l border-slate-800 pl-3 text-xs text-slate-400">
+          {attempts.map(attempt => (
+            <li key={attempt.id} className="flex items-center justify-between gap-2">
+              <span>
+                Attempt {attempt.attempt} · {attempt.phoneNumber} ·{" "}
+                {new Date(attempt.scheduledAt ?? attempt.createdAt).toLocaleString()}
+                {attempt.duration !== undefined && ` · ${attempt.duration}s`}
+              </span>
+              <span className="flex items-center gap-2">
+                {onHangUp && attempt.callSid && !isTerminalStatus(attempt.status) && (
+                  <button
+                    type="button"
+                    onClick={() => onHangUp(attempt.id)}
+                    className="text-rose-300 underline decoration-dotted underline-offset-4 transition hover:text-rose-200"
+                  >
+                    Hang up
+                  </button>
+                )}
+                <StatusBadge status={attempt.status} />
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </article>
+  );
+}
+
+/** Recorded calls keep polling for a while after hanging up until the transcript lands. */
+function awaitingRecording(call: CallRecord) {
+  if (!call.record || call.status !== "completed") return false;
+  if (call.recording?.transcription && call.recording.transcription.status !== "pending") {
+    return false;
+  }
+  return Date.now() - Date.parse(call.updatedAt) < recordingWaitMs;
+}
+
+/** A retry can be scheduled shortly after a call ends; keep polling until it shows up. */
+function awaitingRetry(call: CallRecord) {
+  if (!call.retryPolicy || !isTerminalStatus(call.status) || call.nextAttemptId) return false;
+  return Date.now() - Date.parse(call.updatedAt) < statusPollIntervalMs * 3;
+}
+
+export function StatusBadge({ status }: { status: CallStatus }) {
+  const palette: Record<CallStatus, string> = {
+    scheduled: "bg-violet-500/10 text-violet-300 border-violet-500/40",
+    queued: "bg-sky-500/10 text-sky-300 border-sky-500/40",
+    initiated: "bg-sky-500/10 text-sky-300 border-sky-500/40",
+    ringing: "bg-indigo-500/10 text-indigo-300 border-indigo-500/40",
+    "in-progress": "bg-amber-500/10 text-amber-300 border-amber-500/40",
+    completed: "bg-emerald-500/10 text-emerald-300 border-emerald-500/40",
+    busy: "bg-orange-500/10 text-orange-300 border-orange-500/40",
+    "no-answer": "bg-orange-500/10 text-orange-300 border-orange-500/40",
+    canceled: "bg-slate-500/10 text-slate-300 border-slate-500/40",
+    failed: "bg-rose-500/10 text-rose-300 border-rose-500/40",
+    blocked: "bg-fuchsia-500/10 text-fuchsia-300 border-fuchsia-500/40"
+  };
+
+  return (
+    <span className={clsx("rounded-full border px-2 py-1 uppercase tracking-wide", palette[status])}>
+      {status.replace("-", " ")}
+    </span>
+  );
+}
@@ -0,0 +1,85 @@
+import { Fragment } from "react";
+import type { CallRecording } from "../shared/recording";
+
+const statusLabels: Record<CallRecording["status"], string> = {
+  "in-progress": "Recording in progress",
+  completed: "Recorded",
+  absent: "No audio was recorded",
+  failed: "Recording failed"
+};
+
+export function CallRecordingDetails({
+  callId,
+  recording,
+  search
+}: {
+  callId: string;
+  recording: CallRecording;
+  search?: string;
+}) {
+  const { transcription } = recording;
+  const playable = recording.status === "completed" && recording.mediaUrl;
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <p className="text-slate-400">
+        {statusLabels[recording.status]}
+        {recording.duration !== undefined && ` · ${recording.duration}s`}
+        {recording.status === "completed" && !recording.mediaUrl && " · no audio available"}
+      </p>
+      {playable && (
+        <audio
+          controls
+          preload="none"
+          src={`/api/calls/${callId}/recording`}
+          className="h-8 w-full"
+        />
+      )}
+      {transcription?.status === "pending" && (
+        <p className="text-slate-500">Transcribing with {transcription.transcriber}…</p>
+      )}
+      {transcription?.status === "failed" && (
+        <p className="text-rose-300">Transcription failed: {transcription.error}</p>
+      )}
+      {transcription?.status === "completed" && transcription.text && (
+        <details open={Boolean(search && matches(transcription.text, search))}>
+          <summary className="cursor-pointer text-slate-400 transition hover:text-slate-200">
+            Recording transcript ({transcription.transcriber})
+          </summary>
+          <p className="mt-2 whitespace-pre-line rounded-lg bg-slate-900/80 p-2 text-slate-300">
+            <Highlighted text={transcription.text} term={search} />
+          </p>
+        </details>
+      )}
+    </div>
+  );
+}
+
+/** Renders `text` with every case-insensitive occurrence of `term` marked. */
+export function Highlighted({ text, term }: { text: string; term?: string }) {
+  const needle = term?.trim();
+  if (!needle) return <>{text}</>;
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(needle)})`, "gi"));
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded bg-amber-400/30 px-0.5 text-amber-100">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export function matches(text: string, term: string) {
+  return text.toLowerCase().includes(term.trim().toLowerCase());
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
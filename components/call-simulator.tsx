@@ -0,0 +1,286 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { clsx } from "clsx";
+import {
+  dryRunCheckLabels,
+  formatSeconds,
+  type DryRunResult,
+  type DryRunStep
+} from "../shared/dry-run";
+import type { SpeechRate, VoiceSettings } from "../shared/speech";
+
+// How browser speech rates line up with the phone voice's pace.
+const browserRates: Record<SpeechRate, number> = {
+  "x-slow": 0.6,
+  slow: 0.8,
+  medium: 1,
+  fast: 1.2,
+  "x-fast": 1.4
+};
+
+const silenceMs = 1500;
+
+const nextLabels: Record<NonNullable<DryRunStep["next"]>, string> = {
+  listen: "listens for a reply",
+  end: "hangs up",
+  transfer: "transfers to a person"
+};
+
+/**
+ * Result of a dry run: the checks a launch would pass through, the exact
+ * TwiML, and each branch of the conversation, which can be played step by
+ * step through the browser's speech synthesis. Typed replies are sent back
+ * for another dry run so the agent answers them the way a live call would.
+ */
+export function CallSimulator({
+  result,
+  voice,
+  busy,
+  onReplies,
+  onClose
+}: {
+  result: DryRunResult;
+  voice: VoiceSettings;
+  busy: boolean;
+  onReplies: (replies: string[]) => void;
+  onClose: () => void;
+}) {
+  const [branchId, setBranchId] = useState(result.branches[0]?.id);
+  const [position, setPosition] = useState(0);
+  const [autoPlay, setAutoPlay] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+  const [draft, setDraft] = useState("");
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const branch = result.branches.find(entry => entry.id === branchId) ?? result.branches[0];
+  const steps = branch?.steps ?? [];
+  const custom = result.branches.find(entry => entry.id === "custom");
+  const lastAgent = [...steps].reverse().find(step => step.speaker === "agent");
+  const canReply = result.listens && branch?.id !== "voicemail" && lastAgent?.next === "listen";
+
+  // A dry run with typed replies opens on the latest exchange of that conversation.
+  useEffect(() => {
+    if (custom) selectBranch(custom.id, Math.max(0, custom.steps.length - 2));
+    else selectBranch(result.branches[0]?.id ?? "");
+  }, [result]);
+
+  useEffect(() => stopSpeaking, []);
+
+  useEffect(() => {
+    if (!autoPlay || speaking) return;
+    if (position >= steps.length) {
+      setAutoPlay(false);
+      return;
+    }
+    play(steps[position]);
+  }, [autoPlay, speaking, position, steps]);
+
+  function selectBranch(id: string, start = 0) {
+    stopSpeaking();
+    setAutoPlay(false);
+    setBranchId(id);
+    setPosition(start);
+  }
+
+  function stopSpeaking() {
+    if (timer.current) clearTimeout(timer.current);
+    if (typeof window !== "undefined" && "speechSynthesis" in window) {
+      window.speechSynthesis.cancel();
+    }
+    setSpeaking(false);
+  }
+
+  function play(step: DryRunStep | undefined) {
+    if (!step) return;
+    const done = () => {
+      setSpeaking(false);
+      setPosition(current => current + 1);
+    };
+    setSpeaking(true);
+    if (!step.text || !("speechSynthesis" in window)) {
+      timer.current = setTimeout(done, silenceMs);
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(step.text);
+    utterance.lang = voice.language;
+    utterance.voice =
+      window.speechSynthesis.getVoices().find(option => option.lang === voice.language) ?? null;
+    // The callee gets a higher pitch so the two sides are easy to tell apart.
+    if (step.speaker === "agent") utterance.rate = browserRates[voice.rate];
+    else utterance.pitch = 1.5;
+    utterance.onend = done;
+    utterance.onerror = done;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  const reply = () => {
+    const text = draft.trim();
+    if (!text) return;
+    setDraft("");
+    onReplies([...calleeLines(steps), text]);
+  };
+
+  return (
+    <div className={panelClass}>
+      <header className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <p className="text-xs uppercase text-slate-400">Dry run · nothing was dialed</p>
+          <h2 className="text-xl font-semibold">Call simulator</h2>
+          <p className="text-sm text-slate-400">
+            About {formatSeconds(result.estimatedSeconds)} if the callee answers and agrees.
+            {result.runAt && ` Runs at ${new Date(result.runAt).toLocaleString()}.`}
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className={linkClass}>
+          Close
+        </button>
+      </header>
+
+      <ul className="mt-4 space-y-1 text-sm">
+        {result.checks.map(check => (
+          <li key={check.name} className={check.ok ? "text-slate-300" : "text-rose-300"}>
+            <span className={clsx("mr-2", check.ok ? "text-emerald-400" : "text-rose-400")}>
+              {check.ok ? "✓" : "✗"}
+            </span>
+            <span className="font-medium">{dryRunCheckLabels[check.name]}:</span> {check.message}
+          </li>
+        ))}
+      </ul>
+
+      {!result.listens && (
+        <p className="mt-3 text-xs text-amber-300">
+          This call reads its message and hangs up without waiting for a reply. Set APP_BASE_URL
+          and give the script a question to hold a conversation.
+        </p>
+      )}
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {result.branches.map(entry => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => selectBranch(entry.id)}
+            className={clsx(
+              "rounded-full border px-3 py-1 text-xs transition",
+              entry.id === branch?.id
+                ? "border-sky-500 bg-sky-500/10 text-sky-200"
+                : "border-slate-700 text-slate-300 hover:border-slate-500"
+            )}
+          >
+            {entry.label} · {formatSeconds(entry.estimatedSeconds)}
+          </button>
+        ))}
+      </div>
+
+      <ol className="mt-4 max-h-[320px] space-y-3 overflow-auto rounded-xl border border-slate-800 bg-slate-950/70 p-4 text-sm leading-relaxed">
+        {steps.map((step, index) => (
+          <li
+            key={index}
+            className={clsx(
+              "space-y-1 transition",
+              index > position && "opacity-40",
+              index === position && "rounded-lg bg-slate-900 p-2"
+            )}
+          >
+            <p className={step.speaker === "agent" ? "text-slate-200" : "text-sky-200"}>
+              <span className="font-medium uppercase text-slate-500">
+                {step.speaker === "agent" ? "Agent" : "Callee"}:
+              </span>{" "}
+              {step.text || <em className="text-slate-500">stays silent</em>}
+            </p>
+            {step.next && (
+              <p className="text-xs text-slate-500">Then the agent {nextLabels[step.next]}.</p>
+            )}
+            {step.twiml && index === position && (
+              <details className="text-xs text-slate-400">
+                <summary className="cursor-pointer">TwiML</summary>
+                <pre className="mt-1 whitespace-pre-wrap break-all text-slate-300">
+                  {step.twiml}
+                </pre>
+              </details>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={speaking || position >= steps.length}
+          onClick={() => play(steps[position])}
+          className={buttonClass}
+        >
+          Play step
+        </button>
+        <button
+          type="button"
+          disabled={position >= steps.length}
+          onClick={() => (autoPlay ? (stopSpeaking(), setAutoPlay(false)) : setAutoPlay(true))}
+          className={buttonClass}
+        >
+          {autoPlay ? "Stop" : "Play all"}
+        </button>
+        <button
+          type="button"
+          disabled={position >= steps.length}
+          onClick={() => setPosition(current => current + 1)}
+          className={linkClass}
+        >
+          Skip
+        </button>
+        <button type="button" onClick={() => selectBranch(branch?.id ?? "")} className={linkClass}>
+          Restart
+        </button>
+      </div>
+
+      {canReply && (
+        <div className="mt-3 flex gap-2">
+          <input
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                reply();
+              }
+            }}
+            placeholder="Reply as the callee…"
+            className={fieldClass}
+            aria-label="Callee reply"
+          />
+          <button
+            type="button"
+            disabled={busy || !draft.trim()}
+            onClick={reply}
+            className={buttonClass}
+          >
+            {busy ? "Thinking…" : "Reply"}
+          </button>
+        </div>
+      )}
+
+      <details className="mt-4 text-xs text-slate-400">
+        <summary className="cursor-pointer">Opening TwiML</summary>
+        <pre className="mt-2 whitespace-pre-wrap break-all rounded-lg bg-slate-950/70 p-3 text-slate-300">
+          {result.twiml}
+        </pre>
+      </details>
+    </div>
+  );
+}
+
+function calleeLines(steps: DryRunStep[]) {
+  return steps.filter(step => step.speaker === "callee").map(step => step.text);
+}
+
+const panelClass = "rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl";
+
+const fieldClass =
+  "flex-1 rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100 disabled:opacity-40";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
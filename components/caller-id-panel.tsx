@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import {
+  callerIdHealthLabels,
+  callerIdHealths,
+  type CallerIdHealth,
+  type CallerIdSummary
+} from "../shared/caller-ids";
+
+type Draft = { phoneNumber: string; label: string; dailyCap: string };
+
+const emptyDraft: Draft = { phoneNumber: "", label: "", dailyCap: "100" };
+
+const healthClasses: Record<CallerIdHealth, string> = {
+  healthy: "text-emerald-300",
+  degraded: "text-amber-300",
+  flagged: "text-rose-300"
+};
+
+/**
+ * The outbound numbers calls rotate across, with today's calls against each
+ * number's cap. Admins add, tune and retire numbers.
+ */
+export function CallerIdPanel({ canEdit }: { canEdit: boolean }) {
+  const [callerIds, setCallerIds] = useState<CallerIdSummary[]>([]);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [showRetired, setShowRetired] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string }>();
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch("/api/caller-ids", { cache: "no-store" });
+      const data = (await response.json()) as { callerIds?: CallerIdSummary[] };
+      setCallerIds(data.callerIds ?? []);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setSaving(true);
+    setMessage(undefined);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = (await response.json()) as { success: boolean; message?: string };
+      if (!data.success) {
+        setMessage({ tone: "error", text: data.message ?? "Unable to update the pool." });
+        return false;
+      }
+      await load();
+      return true;
+    } catch (error) {
+      console.error(error);
+      setMessage({ tone: "error", text: "Unable to update the pool." });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const add = async () => {
+    const added = await send("/api/caller-ids", "POST", {
+      phoneNumber: draft.phoneNumber,
+      label: draft.label.trim() || undefined,
+      dailyCap: Number(draft.dailyCap)
+    });
+    if (added) {
+      setDraft(emptyDraft);
+      setMessage({ tone: "success", text: "Number added to the pool." });
+    }
+  };
+
+  const visible = callerIds.filter(callerId => showRetired || !callerId.retiredAt);
+  const retiredCount = callerIds.filter(callerId => callerId.retiredAt).length;
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">Outbound numbers</p>
+        <h2 className="text-xl font-semibold">Caller ID pool</h2>
+        <p className="text-sm text-slate-400">
+          Each call shows the number closest to the callee: same area code, then region, then
+          country. Contacts keep the number they were first called from. Numbers past their daily
+          cap or flagged as spam are skipped; with no fit, calls use the default number.
+        </p>
+      </header>
+
+      {message && (
+        <p
+          className={
+            message.tone === "success" ? "mt-4 text-sm text-emerald-300" : "mt-4 text-sm text-rose-300"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">
+          No numbers in service. Every call goes out from the default number.
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 font-normal">Number</th>
+                <th className="py-2 pr-4 font-normal">Region</th>
+                <th className="py-2 pr-4 font-normal">Health</th>
+                <th className="py-2 pr-4 font-normal">Today</th>
+                <th className="py-2 pr-4 font-normal">Total</th>
+                <th className="py-2 pr-4 font-normal">Answered</th>
+                <th className="py-2 pr-4 font-normal">Pinned</th>
+                <th className="py-2 pr-4 font-normal">Last used</th>
+                {canEdit && <th className="py-2 font-normal" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {visible.map(callerId => (
+                <CallerIdRow
+                  key={callerId.id}
+                  callerId={callerId}
+                  canEdit={canEdit}
+                  saving={saving}
+                  onUpdate={patch => void send(`/api/caller-ids/${callerId.id}`, "PATCH", patch)}
+                  onRetire={() => void send(`/api/caller-ids/${callerId.id}`, "DELETE")}
+                  onRestore={() =>
+                    void send("/api/caller-ids", "POST", {
+                      phoneNumber: callerId.phoneNumber,
+                      label: callerId.label,
+                      dailyCap: callerId.dailyCap,
+                      health: callerId.health
+                    })
+                  }
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {retiredCount > 0 && (
+        <label className="mt-3 flex items-center gap-2 text-xs text-slate-400">
+          <input
+            type="checkbox"
+            checked={showRetired}
+            onChange={event => setShowRetired(event.target.checked)}
+            className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 accent-sky-500"
+          />
+          Show {retiredCount} retired
+        </label>
+      )}
+
+      {canEdit && (
+        <form
+          className="mt-4 grid gap-2 md:grid-cols-[12rem_1fr_7rem_auto]"
+          onSubmit={event => {
+            event.preventDefault();
+            void add();
+          }}
+        >
+          <input
+            value={draft.phoneNumber}
+            onChange={event => setDraft({ ...draft, phoneNumber: event.target.value })}
+            placeholder="+14155550123"
+            className={fieldClass}
+            aria-label="Phone number"
+          />
+          <input
+            value={draft.label}
+            onChange={event => setDraft({ ...draft, label: event.target.value })}
+            placeholder="Label (optional)"
+            className={fieldClass}
+            aria-label="Label"
+          />
+          <input
+            type="number"
+            min={1}
+            value={draft.dailyCap}
+            onChange={event => setDraft({ ...draft, dailyCap: event.target.value })}
+            className={fieldClass}
+            aria-label="Daily cap"
+          />
+          <button
+            type="submit"
+            disabled={saving || !draft.phoneNumber.trim()}
+            className={buttonClass}
+          >
+            Add number
+          </button>
+        </form>
+      )}
+    </section>
+  );
+}
+
+function CallerIdRow({
+  callerId,
+  canEdit,
+  saving,
+  onUpdate,
+  onRetire,
+  onRestore
+}: {
+  callerId: CallerIdSummary;
+  canEdit: boolean;
+  saving: boolean;
+  onUpdate: (patch: { dailyCap?: number; health?: CallerIdHealth }) => void;
+  onRetire: () => void;
+  onRestore: () => void;
+}) {
+  const [cap, setCap] = useState(String(callerId.dailyCap));
+  const { usage } = callerId;
+  const retired = Boolean(callerId.retiredAt);
+  const editable = canEdit && !retired;
+
+  return (
+    <tr className={clsx("text-slate-300", retired && "opacity-50")}>
+      <td className="py-2 pr-4">
+        <span className="font-mono">{callerId.phoneNumber}</span>
+        {callerId.label && <span className="block text-xs text-slate-500">{callerId.label}</span>}
+      </td>
+      <td className="py-2 pr-4">{[callerId.region, callerId.country].filter(Boolean).join(", ")}</td>
+      <td className="py-2 pr-4">
+        {editable ? (
+          <select
+            value={callerId.health}
+            disabled={saving}
+            onChange={event => onUpdate({ health: event.target.value as CallerIdHealth })}
+            className={clsx(fieldClass, healthClasses[callerId.health])}
+            aria-label="Health"
+          >
+            {callerIdHealths.map(health => (
+              <option key={health} value={health}>
+                {callerIdHealthLabels[health]}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className={healthClasses[callerId.health]}>
+            {retired ? "Retired" : callerIdHealthLabels[callerId.health]}
+          </span>
+        )}
+      </td>
+      <td className="py-2 pr-4 whitespace-nowrap">
+        {usage.today} /{" "}
+        {editable ? (
+          <input
+            type="number"
+            min={1}
+            value={cap}
+            disabled={saving}
+            onChange={event => setCap(event.target.value)}
+            onBlur={() => {
+              if (Number(cap) !== callerId.dailyCap) onUpdate({ dailyCap: Number(cap) });
+            }}
+            className={clsx(fieldClass, "w-20")}
+            aria-label="Daily cap"
+          />
+        ) : (
+          callerId.dailyCap
+        )}
+      </td>
+      <td className="py-2 pr-4">{usage.total}</td>
+      <td className="py-2 pr-4">
+        {usage.total ? `${Math.round((usage.answered / usage.total) * 100)}%` : "—"}
+      </td>
+      <td className="py-2 pr-4">{usage.pinnedContacts}</td>
+      <td className="py-2 pr-4 text-xs text-slate-500">
+        {usage.lastUsedAt ? new Date(usage.lastUsedAt).toLocaleString() : "Never"}
+      </td>
+      {canEdit && (
+        <td className="py-2 text-right">
+          <button
+            type="button"
+            disabled={saving}
+            onClick={retired ? onRestore : onRetire}
+            className={linkClass}
+          >
+            {retired ? "Restore" : "Retire"}
+          </button>
+        </td>
+      )}
+    </tr>
+  );
+}
+
+const fieldClass =
+  "rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100 disabled:opacity-40";
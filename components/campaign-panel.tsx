@@ -0,0 +1,422 @@
+"use client";
+
+import { ChangeEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { clsx } from "clsx";
+import {
+  campaignFields,
+  CampaignField,
+  campaignSettingsSchema,
+  CampaignSummary,
+  ColumnMapping,
+  guessMapping,
+  RowError,
+  validateCampaignRows
+} from "../shared/campaigns";
+import { ScriptStyle, scriptStyles } from "../shared/calls";
+import { parseCsv } from "../shared/csv";
+
+const pollIntervalMs = 5000;
+
+const fieldLabels: Record<CampaignField, string> = {
+  contactName: "Contact name",
+  phoneNumber: "Phone number",
+  objective: "Objective",
+  scriptStyle: "Script style",
+  notes: "Notes",
+  consentGranted: "Consent (yes/no)",
+  consentSource: "Consent source",
+  timezone: "Timezone"
+};
+
+type Upload = {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+};
+
+export function CampaignPanel({
+  defaultCountry,
+  onLaunched
+}: {
+  defaultCountry: string;
+  onLaunched: () => void;
+}) {
+  const [upload, setUpload] = useState<Upload>();
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaults, setDefaults] = useState<{
+    objective: string;
+    scriptStyle: ScriptStyle;
+    consentSource: string;
+  }>({
+    objective: "",
+    scriptStyle: "consultative",
+    consentSource: ""
+  });
+  const [settings, setSettings] = useState({ name: "", concurrency: "2", callsPerMinute: "10" });
+  const [serverErrors, setServerErrors] = useState<RowError[]>([]);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string }>();
+  const [submitting, setSubmitting] = useState(false);
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+
+  const validation = useMemo(
+    () =>
+      upload
+        ? validateCampaignRows(
+            upload.rows,
+            mapping,
+            {
+              objective: defaults.objective.trim() || undefined,
+              scriptStyle: defaults.scriptStyle,
+              consentSource: defaults.consentSource.trim() || undefined
+            },
+            defaultCountry
+          )
+        : undefined,
+    [upload, mapping, defaults, defaultCountry]
+  );
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      const response = await fetch("/api/campaigns", { cache: "no-store" });
+      const data = (await response.json()) as { campaigns?: CampaignSummary[] };
+      setCampaigns(data.campaigns ?? []);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCampaigns();
+  }, [loadCampaigns]);
+
+  const hasRunning = campaigns.some(campaign => campaign.status === "running");
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const timer = window.setInterval(() => void loadCampaigns(), pollIntervalMs);
+    return () => window.clearInterval(timer);
+  }, [hasRunning, loadCampaigns]);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const { headers, rows } = parseCsv(await file.text());
+    setUpload({ fileName: file.name, headers, rows });
+    setMapping(guessMapping(headers));
+    setServerErrors([]);
+    setMessage(undefined);
+    setSettings(prev => ({ ...prev, name: prev.name || file.name.replace(/\.csv$/i, "") }));
+  };
+
+  const launch = async () => {
+    if (!validation || validation.contacts.length === 0) return;
+    const parsedSettings = campaignSettingsSchema.safeParse(settings);
+    if (!parsedSettings.success) {
+      setMessage({ tone: "error", text: parsedSettings.error.issues[0]?.message ?? "Check settings" });
+      return;
+    }
+
+    setSubmitting(true);
+    setMessage(undefined);
+    try {
+      const response = await fetch("/api/campaigns", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          ...parsedSettings.data,
+          rows: validation.contacts.map(({ row: _row, ...contact }) => contact)
+        })
+      });
+      const data = (await response.json()) as {
+        success: boolean;
+        message?: string;
+        rowErrors?: RowError[];
+        campaign?: { id: string };
+      };
+      if (!data.success || !data.campaign) {
+        setServerErrors(data.rowErrors ?? []);
+        setMessage({ tone: "error", text: data.message ?? "Campaign could not be created." });
+        return;
+      }
+
+      const started = await changeStatus(data.campaign.id, "start");
+      if (started) {
+        setUpload(undefined);
+        setMessage({ tone: "success", text: "Campaign launched." });
+        onLaunched();
+      }
+    } catch (error) {
+      console.error(error);
+      setMessage({ tone: "error", text: "We could not reach the campaign service." });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const changeStatus = async (id: string, action: "start" | "pause" | "resume" | "cancel") => {
+    const response = await fetch(`/api/campaigns/${id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ action })
+    });
+    const data = (await response.json()) as { success: boolean; message?: string };
+    if (!data.success) setMessage({ tone: "error", text: data.message ?? `Could not ${action}.` });
+    await loadCampaigns();
+    return data.success;
+  };
+
+  const rowErrors = serverErrors.length ? serverErrors : validation?.errors ?? [];
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">Bulk outreach</p>
+        <h2 className="text-xl font-semibold">Campaigns</h2>
+        <p className="text-sm text-slate-400">
+          Upload a CSV of contacts, map its columns, and dial the list with throttling.
+        </p>
+      </header>
+
+      {message && (
+        <p
+          className={clsx(
+            "mt-4 text-sm",
+            message.tone === "success" ? "text-emerald-300" : "text-rose-300"
+          )}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="mt-4 space-y-4">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={event => void handleFile(event)}
+          className="block text-sm text-slate-300 file:mr-4 file:rounded-lg file:border-0 file:bg-slate-800 file:px-3 file:py-1.5 file:text-sm file:text-slate-100 hover:file:bg-slate-700"
+        />
+
+        {upload && validation && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-300">
+              {upload.fileName}: {upload.rows.length} rows, {validation.contacts.length} valid,{" "}
+              {upload.rows.length - validation.contacts.length} with errors.
+            </p>
+
+            <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-5">
+              {campaignFields.map(field => (
+                <label key={field} className="space-y-1 text-xs uppercase text-slate-400">
+                  <span>{fieldLabels[field]}</span>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={event =>
+                      setMapping(prev => ({ ...prev, [field]: event.target.value || undefined }))
+                    }
+                    className={controlClass}
+                  >
+                    <option value="">— not mapped —</option>
+                    {upload.headers.map(header => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-3">
+              <label className="space-y-1 text-xs uppercase text-slate-400">
+                <span>Default objective</span>
+                <input
+                  value={defaults.objective}
+                  onChange={event => setDefaults(prev => ({ ...prev, objective: event.target.value }))}
+                  placeholder="Used when the objective column is empty"
+                  className={controlClass}
+                />
+              </label>
+              <label className="space-y-1 text-xs uppercase text-slate-400">
+                <span>Default script style</span>
+                <select
+                  value={defaults.scriptStyle}
+                  onChange={event =>
+                    setDefaults(prev => ({ ...prev, scriptStyle: event.target.value as ScriptStyle }))
+                  }
+                  className={controlClass}
+                >
+                  {scriptStyles.map(style => (
+                    <option key={style} value={style}>
+                      {style}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-xs uppercase text-slate-400">
+                <span>Consent source for all rows</span>
+                <input
+                  value={defaults.consentSource}
+                  onChange={event =>
+                    setDefaults(prev => ({ ...prev, consentSource: event.target.value }))
+                  }
+                  placeholder="Used when no consent column is mapped"
+                  className={controlClass}
+                />
+              </label>
+            </div>
+
+            {rowErrors.length > 0 && (
+              <div className="max-h-48 overflow-auto rounded-xl border border-rose-500/30 bg-rose-500/5 p-3">
+                <table className="w-full text-left text-xs text-rose-200">
+                  <thead className="text-rose-300/80">
+                    <tr>
+                      <th className="pr-3 font-medium">Row</th>
+                      <th className="pr-3 font-medium">Field</th>
+                      <th className="font-medium">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rowErrors.slice(0, 100).map((error, index) => (
+                      <tr key={index}>
+                        <td className="pr-3">{error.row}</td>
+                        <td className="pr-3">{error.field}</td>
+                        <td>{error.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-4">
+              <label className="space-y-1 text-xs uppercase text-slate-400 sm:col-span-2">
+                <span>Campaign name</span>
+                <input
+                  value={settings.name}
+                  onChange={event => setSettings(prev => ({ ...prev, name: event.target.value }))}
+                  className={controlClass}
+                />
+              </label>
+              <label className="space-y-1 text-xs uppercase text-slate-400">
+                <span>Concurrent calls</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={settings.concurrency}
+                  onChange={event =>
+                    setSettings(prev => ({ ...prev, concurrency: event.target.value }))
+                  }
+                  className={controlClass}
+                />
+              </label>
+              <label className="space-y-1 text-xs uppercase text-slate-400">
+                <span>Calls per minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={settings.callsPerMinute}
+                  onChange={event =>
+                    setSettings(prev => ({ ...prev, callsPerMinute: event.target.value }))
+                  }
+                  className={controlClass}
+                />
+              </label>
+            </div>
+
+            <button
+              type="button"
+              disabled={submitting || validation.contacts.length === 0}
+              onClick={() => void launch()}
+              className="inline-flex items-center gap-2 rounded-xl bg-sky-500 px-5 py-2 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              {submitting ? "Launching..." : `Launch ${validation.contacts.length} valid contacts`}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {campaigns.length > 0 && (
+        <div className="mt-6 space-y-3">
+          {campaigns.map(campaign => (
+            <CampaignProgressCard
+              key={campaign.id}
+              campaign={campaign}
+              onAction={action => void changeStatus(campaign.id, action)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+const controlClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-xs normal-case text-slate-200 focus:border-slate-500 focus:outline-none";
+
+function CampaignProgressCard({
+  campaign,
+  onAction
+}: {
+  campaign: CampaignSummary;
+  onAction: (action: "pause" | "resume" | "cancel") => void;
+}) {
+  const { progress } = campaign;
+  const percent = progress.total ? Math.round((progress.dialed / progress.total) * 100) : 0;
+  const canCancel = ["draft", "running", "paused"].includes(campaign.status);
+
+  return (
+    <article className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-sm text-slate-200">
+      <header className="flex items-center justify-between gap-3">
+        <div>
+          <p className="font-medium text-slate-100">{campaign.name}</p>
+          <p className="text-xs text-slate-500">
+            {campaign.concurrency} concurrent · {campaign.callsPerMinute}/min · {campaign.status}
+          </p>
+        </div>
+        <div className="flex gap-3 text-xs">
+          {campaign.status === "running" && (
+            <button className={actionClass} onClick={() => onAction("pause")}>
+              Pause
+            </button>
+          )}
+          {campaign.status === "paused" && (
+            <button className={actionClass} onClick={() => onAction("resume")}>
+              Resume
+            </button>
+          )}
+          {canCancel && (
+            <button className={clsx(actionClass, "text-rose-300")} onClick={() => onAction("cancel")}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </header>
+      <div className="mt-3 h-2 overflow-hidden rounded-full bg-slate-800">
+        <div className="h-full bg-sky-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <dl className="mt-3 grid grid-cols-4 gap-2 text-center text-xs">
+        {(
+          [
+            ["Dialed", progress.dialed],
+            ["Answered", progress.answered],
+            ["Failed", progress.failed],
+            ["Pending", progress.pending]
+          ] as const
+        ).map(([label, value]) => (
+          <div key={label} className="rounded-lg bg-slate-900/80 p-2">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-base font-semibold text-slate-100">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </article>
+  );
+}
+
+const actionClass =
+  "text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
@@ -0,0 +1,117 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { clsx } from "clsx";
+import type { Contact, ContactInput } from "../shared/contacts";
+
+type Draft = {
+  name: string;
+  phoneNumber: string;
+  company: string;
+  timezone: string;
+  tags: string;
+  customFields: string;
+};
+
+/** Create or edit form for a contact. Custom fields are entered one `name: value` per line. */
+export function ContactForm({
+  contact,
+  submitLabel,
+  onSubmit
+}: {
+  contact?: Contact;
+  submitLabel: string;
+  /** Resolves to an error message, or undefined once saved. */
+  onSubmit: (input: ContactInput) => Promise<string | undefined>;
+}) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(contact));
+  const [error, setError] = useState<string>();
+  const [saving, setSaving] = useState(false);
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    const failure = await onSubmit(fromDraft(draft));
+    setSaving(false);
+    setError(failure);
+    if (!failure && !contact) setDraft(toDraft());
+  };
+
+  const field = (key: keyof Draft, label: string, placeholder: string) => (
+    <label className="space-y-1">
+      <span className="text-xs uppercase text-slate-400">{label}</span>
+      <input
+        value={draft[key]}
+        onChange={event => setDraft(prev => ({ ...prev, [key]: event.target.value }))}
+        placeholder={placeholder}
+        className={fieldClass}
+      />
+    </label>
+  );
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        {field("name", "Name", "Jane Smith")}
+        {field("phoneNumber", "Phone number", "(415) 555-0123")}
+        {field("company", "Company", "Acme Inc.")}
+        {field("timezone", "Timezone", "America/Chicago")}
+      </div>
+      {field("tags", "Tags", "customer, west-coast")}
+      <label className="block space-y-1">
+        <span className="text-xs uppercase text-slate-400">Custom fields</span>
+        <textarea
+          value={draft.customFields}
+          onChange={event => setDraft(prev => ({ ...prev, customFields: event.target.value }))}
+          placeholder={"plan: Pro\naccountManager: Sam"}
+          className={clsx(fieldClass, "min-h-[72px]")}
+        />
+      </label>
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={saving}
+        className="rounded-xl bg-sky-500 px-4 py-1.5 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:bg-slate-700 disabled:text-slate-400"
+      >
+        {saving ? "Saving..." : submitLabel}
+      </button>
+    </form>
+  );
+}
+
+function toDraft(contact?: Contact): Draft {
+  return {
+    name: contact?.name ?? "",
+    phoneNumber: contact?.phoneNumber ?? "",
+    company: contact?.company ?? "",
+    timezone: contact?.timezone ?? "",
+    tags: contact?.tags.join(", ") ?? "",
+    customFields: Object.entries(contact?.customFields ?? {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\n")
+  };
+}
+
+function fromDraft(draft: Draft): ContactInput {
+  const customFields: Record<string, string> = {};
+  for (const line of draft.customFields.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name && value) customFields[name] = value;
+  }
+
+  return {
+    name: draft.name.trim(),
+    phoneNumber: draft.phoneNumber.trim(),
+    // Blank strings clear a saved value when editing.
+    company: draft.company.trim(),
+    timezone: draft.timezone.trim(),
+    tags: draft.tags.split(",").map(tag => tag.trim()).filter(Boolean),
+    customFields
+  };
+}
+
+const fieldClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-2 text-sm normal-case text-slate-200 focus:border-slate-500 focus:outline-none";
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Contact } from "../shared/contacts";
+
+const searchDelayMs = 250;
+
+/** Search-as-you-type over the contact directory. */
+export function ContactPicker({
+  label = "Find a saved contact",
+  excludeId,
+  onSelect
+}: {
+  label?: string;
+  excludeId?: string;
+  onSelect: (contact: Contact) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Contact[]>([]);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!term) {
+      setResults([]);
+      return;
+    }
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/contacts?q=${encodeURIComponent(term)}`, {
+          cache: "no-store"
+        });
+        const data = (await response.json()) as { contacts?: Contact[] };
+        setResults((data.contacts ?? []).filter(contact => contact.id !== excludeId).slice(0, 8));
+      } catch (searchError) {
+        console.error(searchError);
+      }
+    }, searchDelayMs);
+    return () => window.clearTimeout(timer);
+  }, [query, excludeId]);
+
+  const select = (contact: Contact) => {
+    onSelect(contact);
+    setQuery("");
+    setResults([]);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={event => setQuery(event.target.value)}
+        placeholder="Search by name, company or number"
+        aria-label={label}
+        className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-2 text-sm text-slate-200 focus:border-slate-500 focus:outline-none"
+      />
+      {results.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full overflow-hidden rounded-lg border border-slate-700 bg-slate-950 text-sm shadow-xl">
+          {results.map(contact => (
+            <li key={contact.id}>
+              <button
+                type="button"
+                onClick={() => select(contact)}
+                className="flex w-full items-center justify-between gap-3 px-3 py-2 text-left transition hover:bg-slate-800"
+              >
+                <span className="text-slate-100">
+                  {contact.name}
+                  {contact.company && (
+                    <span className="text-xs text-slate-400"> · {contact.company}</span>
+                  )}
+                </span>
+                <span className="text-xs text-slate-400">{contact.phoneNumber}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  dispositionSentiments,
+  type DispositionCode,
+  type DispositionSentiment
+} from "../shared/dispositions";
+
+type Row = { id: string; label: string; sentiment: DispositionSentiment; keywords: string };
+
+/** Admin editor for the disposition codes agents mark calls with. */
+export function DispositionCodesPanel() {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string }>();
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch("/api/dispositions", { cache: "no-store" });
+      const data = (await response.json()) as { codes?: DispositionCode[] };
+      setRows((data.codes ?? []).map(toRow));
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const update = (index: number, patch: Partial<Row>) =>
+    setRows(current =>
+      current.map((row, position) => (position === index ? { ...row, ...patch } : row))
+    );
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(undefined);
+    try {
+      const response = await fetch("/api/dispositions", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          codes: rows.map(row => ({
+            id: row.id,
+            label: row.label,
+            sentiment: row.sentiment,
+            keywords: row.keywords
+              .split(",")
+              .map(keyword => keyword.trim())
+              .filter(Boolean)
+          }))
+        })
+      });
+      const data = (await response.json()) as {
+        success: boolean;
+        message?: string;
+        codes?: DispositionCode[];
+      };
+      if (!data.success || !data.codes) {
+        setMessage({ tone: "error", text: data.message ?? "Unable to save dispositions." });
+        return;
+      }
+      setRows(data.codes.map(toRow));
+      setMessage({ tone: "success", text: "Dispositions saved." });
+    } catch (error) {
+      console.error(error);
+      setMessage({ tone: "error", text: "Unable to save dispositions." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">Outcomes</p>
+        <h2 className="text-xl font-semibold">Disposition codes</h2>
+        <p className="text-sm text-slate-400">
+          Agents mark finished calls with these. Keywords in the callee&apos;s replies suggest a
+          code; calls already marked keep their label when a code is renamed or removed.
+        </p>
+      </header>
+
+      {message && (
+        <p
+          className={
+            message.tone === "success" ? "mt-4 text-sm text-emerald-300" : "mt-4 text-sm text-rose-300"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="mt-4 space-y-2">
+        {rows.map((row, index) => (
+          <div key={index} className="grid gap-2 md:grid-cols-[10rem_1fr_8rem_2fr_auto]">
+            <input
+              value={row.id}
+              onChange={event => update(index, { id: event.target.value })}
+              placeholder="code"
+              className={fieldClass}
+              aria-label="Code"
+            />
+            <input
+              value={row.label}
+              onChange={event => update(index, { label: event.target.value })}
+              placeholder="Label"
+              className={fieldClass}
+              aria-label="Label"
+            />
+            <select
+              value={row.sentiment}
+              onChange={event =>
+                update(index, { sentiment: event.target.value as DispositionSentiment })
+              }
+              className={fieldClass}
+              aria-label="Sentiment"
+            >
+              {dispositionSentiments.map(sentiment => (
+                <option key={sentiment} value={sentiment}>
+                  {sentiment}
+                </option>
+              ))}
+            </select>
+            <input
+              value={row.keywords}
+              onChange={event => update(index, { keywords: event.target.value })}
+              placeholder="Keywords, comma separated"
+              className={fieldClass}
+              aria-label="Keywords"
+            />
+            <button
+              type="button"
+              onClick={() =>
+                setRows(current => current.filter((_, position) => position !== index))
+              }
+              className="text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() =>
+            setRows(current => [
+              ...current,
+              { id: "", label: "", sentiment: "neutral", keywords: "" }
+            ])
+          }
+          className={buttonClass}
+        >
+          Add code
+        </button>
+        <button
+          type="button"
+          disabled={saving || rows.length === 0}
+          onClick={() => void save()}
+          className={buttonClass}
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function toRow(code: DispositionCode): Row {
+  return { ...code, keywords: code.keywords.join(", ") };
+}
+
+const fieldClass =
+  "rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
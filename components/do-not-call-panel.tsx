@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { DoNotCallEntry } from "../shared/compliance";
+
+export function DoNotCallPanel() {
+  const [entries, setEntries] = useState<DoNotCallEntry[]>([]);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [reason, setReason] = useState("");
+  const [importText, setImportText] = useState("");
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string }>();
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch("/api/dnc", { cache: "no-store" });
+      const data = (await response.json()) as { entries?: DoNotCallEntry[] };
+      setEntries(data.entries ?? []);
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const send = async (url: string, init: RequestInit) => {
+    setMessage(undefined);
+    try {
+      const response = await fetch(url, init);
+      const data = (await response.json()) as {
+        success: boolean;
+        message?: string;
+        imported?: number;
+        rejected?: string[];
+      };
+      if (!data.success) {
+        setMessage({ tone: "error", text: data.message ?? "Request failed." });
+        return false;
+      }
+      if (data.imported !== undefined) {
+        setMessage({
+          tone: "success",
+          text: `Imported ${data.imported} numbers${
+            data.rejected?.length ? `, skipped ${data.rejected.length} invalid entries` : ""
+          }.`
+        });
+      }
+      await load();
+      return true;
+    } catch (error) {
+      console.error(error);
+      setMessage({ tone: "error", text: "We could not reach the compliance service." });
+      return false;
+    }
+  };
+
+  const add = async () => {
+    const added = await send("/api/dnc", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ phoneNumber: phoneNumber.trim(), reason: reason.trim() || undefined })
+    });
+    if (added) {
+      setPhoneNumber("");
+      setReason("");
+    }
+  };
+
+  const importNumbers = async () => {
+    const imported = await send("/api/dnc/import", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ text: importText })
+    });
+    if (imported) setImportText("");
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">Compliance</p>
+        <h2 className="text-xl font-semibold">Do-not-call list</h2>
+        <p className="text-sm text-slate-400">
+          Numbers listed here are blocked before dialing, including scheduled and campaign calls.
+        </p>
+      </header>
+
+      {message && (
+        <p
+          className={
+            message.tone === "success" ? "mt-4 text-sm text-emerald-300" : "mt-4 text-sm text-rose-300"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={phoneNumber}
+              onChange={event => setPhoneNumber(event.target.value)}
+              placeholder="+14155550123"
+              className={fieldClass}
+              aria-label="Number to block"
+            />
+            <input
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="Reason (optional)"
+              className={fieldClass}
+              aria-label="Reason"
+            />
+            <button
+              type="button"
+              disabled={!phoneNumber.trim()}
+              onClick={() => void add()}
+              className={buttonClass}
+            >
+              Add
+            </button>
+          </div>
+          <textarea
+            value={importText}
+            onChange={event => setImportText(event.target.value)}
+            placeholder="Paste numbers or a CSV export to import in bulk"
+            className={`${fieldClass} min-h-[96px] w-full`}
+          />
+          <button
+            type="button"
+            disabled={!importText.trim()}
+            onClick={() => void importNumbers()}
+            className={buttonClass}
+          >
+            Import
+          </button>
+        </div>
+
+        <ul className="max-h-64 divide-y divide-slate-800 overflow-auto text-sm">
+          {entries.length === 0 && (
+            <li className="py-2 text-slate-400">No numbers are blocked yet.</li>
+          )}
+          {entries.map(entry => (
+            <li key={entry.phoneNumber} className="flex items-center justify-between gap-3 py-2">
+              <span>
+                {entry.phoneNumber}
+                {entry.reason && <span className="text-xs text-slate-500"> · {entry.reason}</span>}
+              </span>
+              <button
+                type="button"
+                className="text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100"
+                onClick={() =>
+                  void send(`/api/dnc/${encodeURIComponent(entry.phoneNumber)}`, { method: "DELETE" })
+                }
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+const fieldClass =
+  "flex-1 rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
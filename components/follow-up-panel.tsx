@@ -0,0 +1,508 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import {
+  describeStep,
+  followUpOutcomeLabels,
+  followUpOutcomes,
+  type FollowUpOutcome,
+  type Sequence,
+  type SequenceRun,
+  type SequenceStep,
+  type SmsTemplate
+} from "../shared/sms";
+
+type Result = {
+  success: boolean;
+  message?: string;
+  templates?: SmsTemplate[];
+  sequences?: Sequence[];
+  runs?: SequenceRun[];
+};
+
+type TemplateDraft = { id?: string; name: string; body: string; trigger: FollowUpOutcome | "" };
+
+type StepDraft = {
+  type: SequenceStep["type"];
+  templateId: string;
+  delay: number;
+  unit: number;
+  onlyAfter: FollowUpOutcome[];
+};
+
+type SequenceDraft = { id?: string; name: string; steps: StepDraft[] };
+
+const units = [
+  { label: "minutes", minutes: 1 },
+  { label: "hours", minutes: 60 },
+  { label: "days", minutes: 1440 }
+];
+
+const exampleBody =
+  "Hi {{contactName}}, thanks for your time today. Reply here with any questions about " +
+  "{{objective}}.";
+
+/**
+ * Follow-up texts sent automatically by call outcome, and sequences of
+ * texts and calls that run after a call launched with them.
+ */
+export function FollowUpPanel({ canEdit, onChange }: { canEdit: boolean; onChange: () => void }) {
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [runs, setRuns] = useState<SequenceRun[]>([]);
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft>();
+  const [sequenceDraft, setSequenceDraft] = useState<SequenceDraft>();
+  const [error, setError] = useState<string>();
+
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    setError(undefined);
+    try {
+      const response = await fetch(url, { cache: "no-store", ...init });
+      const data = (await response.json()) as Result;
+      if (!data.success) setError(data.message ?? "Request failed.");
+      return data;
+    } catch (requestError) {
+      console.error(requestError);
+      setError("We could not reach the server.");
+      return undefined;
+    }
+  }, []);
+
+  const load = useCallback(async () => {
+    const [messages, flows] = await Promise.all([
+      request("/api/sms-templates"),
+      request("/api/sequences")
+    ]);
+    setTemplates(messages?.templates ?? []);
+    setSequences(flows?.sequences ?? []);
+    setRuns(flows?.runs ?? []);
+  }, [request]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    const data = await request(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    if (!data?.success) return false;
+    await load();
+    onChange();
+    return true;
+  };
+
+  const saveTemplate = async () => {
+    if (!templateDraft) return;
+    const { id, trigger, ...fields } = templateDraft;
+    const saved = await send(
+      id ? `/api/sms-templates/${id}` : "/api/sms-templates",
+      id ? "PUT" : "POST",
+      // null stops an existing template from being sent automatically
+      { ...fields, trigger: trigger || (id ? null : undefined) }
+    );
+    if (saved) setTemplateDraft(undefined);
+  };
+
+  const saveSequence = async () => {
+    if (!sequenceDraft) return;
+    const steps: SequenceStep[] = sequenceDraft.steps.map(step => {
+      const timing = {
+        delayMinutes: Math.round(step.delay * step.unit),
+        onlyAfter: step.onlyAfter.length ? step.onlyAfter : undefined
+      };
+      return step.type === "sms"
+        ? { type: "sms", templateId: step.templateId, ...timing }
+        : { type: "call", ...timing };
+    });
+    const saved = await send(
+      sequenceDraft.id ? `/api/sequences/${sequenceDraft.id}` : "/api/sequences",
+      sequenceDraft.id ? "PUT" : "POST",
+      { name: sequenceDraft.name, steps }
+    );
+    if (saved) setSequenceDraft(undefined);
+  };
+
+  const updateStep = (index: number, patch: Partial<StepDraft>) =>
+    setSequenceDraft(prev =>
+      prev
+        ? {
+            ...prev,
+            steps: prev.steps.map((step, position) =>
+              position === index ? { ...step, ...patch } : step
+            )
+          }
+        : prev
+    );
+
+  const toggleOutcome = (index: number, outcome: FollowUpOutcome, checked: boolean) => {
+    const step = sequenceDraft?.steps[index];
+    if (!step) return;
+    updateStep(index, {
+      onlyAfter: checked
+        ? followUpOutcomes.filter(item => item === outcome || step.onlyAfter.includes(item))
+        : step.onlyAfter.filter(item => item !== outcome)
+    });
+  };
+
+  const newStep = (): StepDraft => ({
+    type: "sms",
+    templateId: templates[0]?.id ?? "",
+    delay: 1,
+    unit: 60,
+    onlyAfter: []
+  });
+
+  return (
+    <section className={panelClass}>
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">After the call</p>
+        <h2 className="text-xl font-semibold">Follow-ups</h2>
+        <p className="text-sm text-slate-400">
+          Texts use the same {"{{contactName}}"}, {"{{objective}}"}, {"{{notes}}"} and custom
+          field placeholders as scripts. They go out during calling hours, never to numbers on
+          the do-not-call list, and a STOP reply opts the callee out.
+        </p>
+      </header>
+
+      {error && <p className="mt-3 text-sm text-rose-300">{error}</p>}
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">SMS templates</h3>
+            {canEdit && (
+              <button
+                type="button"
+                className={linkClass}
+                onClick={() => setTemplateDraft({ name: "", body: exampleBody, trigger: "" })}
+              >
+                New message
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-slate-800 text-sm">
+            {templates.length === 0 && (
+              <li className="py-2 text-slate-400">No follow-up messages yet.</li>
+            )}
+            {templates.map(template => (
+              <li key={template.id} className="space-y-1 py-2">
+                <div className="flex items-center justify-between gap-3">
+                  <span>
+                    {template.name}{" "}
+                    <span className="text-xs text-slate-500">
+                      {template.trigger
+                        ? `sent after: ${followUpOutcomeLabels[template.trigger].toLowerCase()}`
+                        : "sequences only"}
+                    </span>
+                  </span>
+                  {canEdit && (
+                    <span className="flex gap-3">
+                      <button
+                        type="button"
+                        className={linkClass}
+                        onClick={() =>
+                          setTemplateDraft({
+                            id: template.id,
+                            name: template.name,
+                            body: template.body,
+                            trigger: template.trigger ?? ""
+                          })
+                        }
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className={clsx(linkClass, "text-rose-300")}
+                        onClick={() => void send(`/api/sms-templates/${template.id}`, "DELETE")}
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  )}
+                </div>
+                <p className="truncate text-xs text-slate-400">{template.body}</p>
+              </li>
+            ))}
+          </ul>
+
+          {templateDraft && (
+            <div className="space-y-3">
+              <input
+                value={templateDraft.name}
+                onChange={event =>
+                  setTemplateDraft(prev => (prev ? { ...prev, name: event.target.value } : prev))
+                }
+                placeholder="Message name"
+                className={fieldClass}
+              />
+              <select
+                value={templateDraft.trigger}
+                onChange={event =>
+                  setTemplateDraft(prev =>
+                    prev ? { ...prev, trigger: event.target.value as FollowUpOutcome | "" } : prev
+                  )
+                }
+                className={fieldClass}
+                aria-label="Send automatically"
+              >
+                <option value="">Only in sequences</option>
+                {followUpOutcomes.map(outcome => (
+                  <option key={outcome} value={outcome}>
+                    Send after every call: {followUpOutcomeLabels[outcome].toLowerCase()}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                value={templateDraft.body}
+                onChange={event =>
+                  setTemplateDraft(prev => (prev ? { ...prev, body: event.target.value } : prev))
+                }
+                className={clsx(fieldClass, "min-h-[96px]")}
+              />
+              <p className="text-xs text-slate-500">{templateDraft.body.length} / 640 characters</p>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => void saveTemplate()} className={buttonClass}>
+                  {templateDraft.id ? "Save message" : "Create message"}
+                </button>
+                <button
+                  type="button"
+                  className={linkClass}
+                  onClick={() => setTemplateDraft(undefined)}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Sequences</h3>
+            {canEdit && (
+              <button
+                type="button"
+                className={linkClass}
+                onClick={() => setSequenceDraft({ name: "", steps: [newStep()] })}
+              >
+                New sequence
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-slate-800 text-sm">
+            {sequences.length === 0 && (
+              <li className="py-2 text-slate-400">
+                No sequences yet. Pick one on a call to follow up in several steps.
+              </li>
+            )}
+            {sequences.map(sequence => {
+              const open = runs.filter(run => run.sequenceId === sequence.id).length;
+              return (
+                <li key={sequence.id} className="space-y-1 py-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <span>
+                      {sequence.name}{" "}
+                      <span className="text-xs text-slate-500">
+                        {open > 0 ? `${open} in progress` : "idle"}
+                      </span>
+                    </span>
+                    {canEdit && (
+                      <span className="flex gap-3">
+                        <button
+                          type="button"
+                          className={linkClass}
+                          onClick={() =>
+                            setSequenceDraft({
+                              id: sequence.id,
+                              name: sequence.name,
+                              steps: sequence.steps.map(toDraft)
+                            })
+                          }
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          className={clsx(linkClass, "text-rose-300")}
+                          onClick={() => void send(`/api/sequences/${sequence.id}`, "DELETE")}
+                        >
+                          Delete
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-400">
+                    Call →{" "}
+                    {sequence.steps.map(step => describeStep(step, templates)).join(" → ")}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+
+          {sequenceDraft && (
+            <div className="space-y-3">
+              <input
+                value={sequenceDraft.name}
+                onChange={event =>
+                  setSequenceDraft(prev => (prev ? { ...prev, name: event.target.value } : prev))
+                }
+                placeholder="Sequence name"
+                className={fieldClass}
+              />
+              <p className="text-xs text-slate-500">
+                Starts when the call it was launched with ends. Each wait counts from the step
+                before.
+              </p>
+              <ol className="space-y-2">
+                {sequenceDraft.steps.map((step, index) => (
+                  <li
+                    key={index}
+                    className="space-y-2 rounded-xl border border-slate-800 bg-slate-950/40 p-3"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+                      <span>Step {index + 1}: wait</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={step.delay}
+                        onChange={event => updateStep(index, { delay: Number(event.target.value) })}
+                        className={clsx(smallFieldClass, "w-16")}
+                        aria-label={`Wait before step ${index + 1}`}
+                      />
+                      <select
+                        value={step.unit}
+                        onChange={event => updateStep(index, { unit: Number(event.target.value) })}
+                        className={smallFieldClass}
+                        aria-label={`Unit for step ${index + 1}`}
+                      >
+                        {units.map(unit => (
+                          <option key={unit.minutes} value={unit.minutes}>
+                            {unit.label}
+                          </option>
+                        ))}
+                      </select>
+                      <span>then</span>
+                      <select
+                        value={step.type}
+                        onChange={event =>
+                          updateStep(index, { type: event.target.value as StepDraft["type"] })
+                        }
+                        className={smallFieldClass}
+                        aria-label={`Action for step ${index + 1}`}
+                      >
+                        <option value="sms">text</option>
+                        <option value="call">call again</option>
+                      </select>
+                      {step.type === "sms" && (
+                        <select
+                          value={step.templateId}
+                          onChange={event => updateStep(index, { templateId: event.target.value })}
+                          className={smallFieldClass}
+                          aria-label={`Message for step ${index + 1}`}
+                        >
+                          <option value="">Pick a message</option>
+                          {templates.map(template => (
+                            <option key={template.id} value={template.id}>
+                              {template.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        type="button"
+                        className={clsx(linkClass, "ml-auto text-rose-300")}
+                        onClick={() =>
+                          setSequenceDraft(prev =>
+                            prev
+                              ? {
+                                  ...prev,
+                                  steps: prev.steps.filter((_, position) => position !== index)
+                                }
+                              : prev
+                          )
+                        }
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+                      <span>Only after:</span>
+                      {followUpOutcomes.map(outcome => (
+                        <label key={outcome} className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={step.onlyAfter.includes(outcome)}
+                            onChange={event => toggleOutcome(index, outcome, event.target.checked)}
+                            className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 accent-sky-500"
+                          />
+                          {followUpOutcomeLabels[outcome]}
+                        </label>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  className={linkClass}
+                  onClick={() =>
+                    setSequenceDraft(prev =>
+                      prev ? { ...prev, steps: [...prev.steps, newStep()] } : prev
+                    )
+                  }
+                >
+                  Add step
+                </button>
+              </div>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => void saveSequence()} className={buttonClass}>
+                  {sequenceDraft.id ? "Save sequence" : "Create sequence"}
+                </button>
+                <button
+                  type="button"
+                  className={linkClass}
+                  onClick={() => setSequenceDraft(undefined)}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function toDraft(step: SequenceStep): StepDraft {
+  const unit =
+    [...units].reverse().find(item => step.delayMinutes % item.minutes === 0) ?? units[0];
+  return {
+    type: step.type,
+    templateId: step.type === "sms" ? step.templateId : "",
+    delay: step.delayMinutes / unit.minutes,
+    unit: unit.minutes,
+    onlyAfter: step.onlyAfter ?? []
+  };
+}
+
+const panelClass = "rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl";
+
+const fieldClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-2 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const smallFieldClass =
+  "rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
+
+const buttonClass =
+  "rounded-xl bg-sky-500 px-4 py-1.5 text-sm font-medium text-slate-950 transition hover:bg-sky-400";
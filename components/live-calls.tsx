@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import type { CallRecord } from "../shared/calls";
+import { describeTransfer, speakerLabel, type LiveCallsSnapshot } from "../shared/live-calls";
+import { StatusBadge } from "./call-history";
+
+type Result = { success: boolean; message?: string };
+
+const shownTurns = 4;
+
+/**
+ * Calls that are ringing or connected right now, streamed from the server.
+ * Agents can hang up, speak a message of their own or hand the callee to a
+ * person.
+ */
+export function LiveCalls({ canControl }: { canControl: boolean }) {
+  const [snapshot, setSnapshot] = useState<LiveCallsSnapshot>();
+  const [connected, setConnected] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string>();
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const source = new EventSource("/api/calls/live");
+    source.addEventListener("calls", event => {
+      setSnapshot(JSON.parse((event as MessageEvent<string>).data) as LiveCallsSnapshot);
+      setConnected(true);
+    });
+    // EventSource reconnects on its own; show that the list may be stale meanwhile.
+    source.onerror = () => setConnected(false);
+    return () => source.close();
+  }, []);
+
+  const calls = snapshot?.calls ?? [];
+
+  // Re-render every second so elapsed times keep counting between updates.
+  useEffect(() => {
+    if (calls.length === 0) return;
+    const timer = window.setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => window.clearInterval(timer);
+  }, [calls.length]);
+
+  const post = useCallback(async (url: string, body?: unknown) => {
+    setError(undefined);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = (await response.json()) as Result;
+      if (!data.success) setError(data.message ?? "Request failed.");
+      return data.success;
+    } catch (requestError) {
+      console.error(requestError);
+      setError("We could not reach the server.");
+      return false;
+    }
+  }, []);
+
+  const say = async (call: CallRecord) => {
+    const text = drafts[call.id]?.trim();
+    if (!text) return;
+    if (await post(`/api/calls/${call.id}/say`, { text })) {
+      setDrafts(prev => ({ ...prev, [call.id]: "" }));
+    }
+  };
+
+  const transfer = async (call: CallRecord) => {
+    if (!window.confirm(`Transfer ${call.contactName} to a person now?`)) return;
+    await post(`/api/calls/${call.id}/transfer`);
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Live calls</h2>
+        <span className="flex items-center gap-1.5 text-xs text-slate-400">
+          <span
+            className={clsx(
+              "inline-block h-2 w-2 rounded-full",
+              connected ? "bg-emerald-400" : "bg-slate-600"
+            )}
+          />
+          {connected ? `${calls.length} active` : "Connecting…"}
+        </span>
+      </header>
+
+      {error && <p className="mt-3 text-sm text-rose-300">{error}</p>}
+
+      <ul className="mt-4 space-y-3">
+        {calls.length === 0 && (
+          <li className="text-sm text-slate-400">No calls are ringing or connected.</li>
+        )}
+        {calls.map(call => {
+          const connectedCall = call.status === "in-progress";
+          const handingOff =
+            call.transfer?.status === "connecting" || call.transfer?.status === "connected";
+          return (
+            <li
+              key={call.id}
+              className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-sm text-slate-200"
+            >
+              <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+                <span>
+                  {call.contactName} · {call.phoneNumber}
+                  {` · ${elapsed(call.dialedAt ?? call.createdAt)}`}
+                  {call.direction === "inbound" && " · inbound"}
+                </span>
+                <StatusBadge status={call.status} />
+              </div>
+              <p className="mt-1 truncate text-slate-300">{call.objective}</p>
+              {call.transfer && (
+                <p className="mt-1 text-xs text-sky-300">{describeTransfer(call.transfer)}</p>
+              )}
+              {call.transcript && call.transcript.length > 0 && (
+                <ol className="mt-2 space-y-1 rounded-lg bg-slate-900/80 p-2 text-xs">
+                  {call.transcript.slice(-shownTurns).map((turn, index) => (
+                    <li
+                      key={index}
+                      className={turn.speaker === "agent" ? "text-slate-300" : "text-sky-200"}
+                    >
+                      <span className="font-medium uppercase text-slate-500">
+                        {speakerLabel(turn)}:
+                      </span>{" "}
+                      {turn.text}
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {canControl && (
+                <div className="mt-3 space-y-2">
+                  {connectedCall && !handingOff && (
+                    <div className="flex gap-2">
+                      <input
+                        value={drafts[call.id] ?? ""}
+                        onChange={event =>
+                          setDrafts(prev => ({ ...prev, [call.id]: event.target.value }))
+                        }
+                        onKeyDown={event => {
+                          if (event.key === "Enter") void say(call);
+                        }}
+                        placeholder="Say something on this call…"
+                        className={fieldClass}
+                        aria-label={`Message for ${call.contactName}`}
+                      />
+                      <button
+                        type="button"
+                        disabled={!drafts[call.id]?.trim()}
+                        onClick={() => void say(call)}
+                        className={buttonClass}
+                      >
+                        Say
+                      </button>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-end gap-3 text-xs">
+                    {connectedCall && !handingOff && snapshot?.transferAvailable && (
+                      <button
+                        type="button"
+                        onClick={() => void transfer(call)}
+                        className={linkClass}
+                      >
+                        Transfer to a person
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void post(`/api/calls/${call.id}/hangup`)}
+                      className="text-rose-300 underline decoration-dotted underline-offset-4 transition hover:text-rose-200"
+                    >
+                      Hang up
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function elapsed(since: string) {
+  const seconds = Math.max(0, Math.floor((Date.now() - Date.parse(since)) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const fieldClass =
+  "flex-1 rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { clsx } from "clsx";
+import {
+  describeBudget,
+  describeWindow,
+  type QuotaSnapshot,
+  type RateLimitScope
+} from "../shared/quota";
+
+const lookupDelayMs = 400;
+
+const scopeLabels: Record<RateLimitScope, string> = {
+  user: "You",
+  destination: "This number",
+  global: "Everyone"
+};
+
+/**
+ * Remaining budgets and rate-limit headroom, refreshed after every launch.
+ * `phoneNumber` is the E.164 number being dialed, or blank while there is none.
+ */
+export function QuotaMeter({
+  refreshToken,
+  phoneNumber
+}: {
+  refreshToken: number;
+  phoneNumber: string;
+}) {
+  const [quota, setQuota] = useState<QuotaSnapshot>();
+
+  useEffect(() => {
+    const timer = window.setTimeout(async () => {
+      const params = new URLSearchParams();
+      if (phoneNumber) params.set("phoneNumber", phoneNumber);
+      try {
+        const response = await fetch(`/api/quota?${params.toString()}`, { cache: "no-store" });
+        const data = (await response.json()) as QuotaSnapshot | { message: string };
+        if ("budgets" in data) setQuota(data);
+      } catch (loadError) {
+        console.error(loadError);
+      }
+    }, lookupDelayMs);
+    return () => window.clearTimeout(timer);
+  }, [phoneNumber, refreshToken]);
+
+  if (!quota || (quota.budgets.length === 0 && quota.rateLimits.length === 0)) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+      {quota.budgets.map(budget => (
+        <li key={`${budget.period}-${budget.metric}`} className={tone(budget.remaining, budget.limit)}>
+          {describeBudget(budget)}: {budget.remaining} of {budget.limit} left
+        </li>
+      ))}
+      {quota.rateLimits.map(limit => (
+        <li key={limit.scope} className={tone(limit.remaining, limit.limit)}>
+          {scopeLabels[limit.scope]}: {limit.remaining} of {limit.limit} per{" "}
+          {describeWindow(limit.windowSeconds)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function tone(remaining: number, limit: number) {
+  return clsx(remaining === 0 ? "text-rose-300" : remaining <= limit * 0.1 && "text-amber-300");
+}
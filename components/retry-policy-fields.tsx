@@ -0,0 +1,158 @@
+"use client";
+
+import { clsx } from "clsx";
+import {
+  defaultRetryPolicy,
+  describeRetryPolicy,
+  RetryOutcome,
+  retryOutcomes,
+  RetryPolicy
+} from "../shared/retry-policy";
+
+const outcomeLabels: Record<RetryOutcome, string> = {
+  busy: "Busy",
+  "no-answer": "No answer",
+  voicemail: "Voicemail",
+  failed: "Failed"
+};
+
+/** Editor for an optional retry policy, shared by the call form and templates. */
+export function RetryPolicyFields({
+  policy,
+  fallback,
+  error,
+  onChange
+}: {
+  policy?: RetryPolicy;
+  /** Shown when no policy is set, e.g. the selected template's default. */
+  fallback?: RetryPolicy;
+  error?: string;
+  onChange: (policy: RetryPolicy | undefined) => void;
+}) {
+  const update = (patch: Partial<RetryPolicy>) => policy && onChange({ ...policy, ...patch });
+
+  const toggleOutcome = (outcome: RetryOutcome, checked: boolean) =>
+    policy &&
+    update({
+      retryOn: checked
+        ? retryOutcomes.filter(item => item === outcome || policy.retryOn.includes(item))
+        : policy.retryOn.filter(item => item !== outcome)
+    });
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+      <label className="flex items-center gap-2 text-sm text-slate-200">
+        <input
+          type="checkbox"
+          checked={Boolean(policy)}
+          onChange={event =>
+            onChange(event.target.checked ? { ...(fallback ?? defaultRetryPolicy) } : undefined)
+          }
+          className="h-4 w-4 rounded border-slate-700 bg-slate-950 accent-sky-500"
+        />
+        Retry when the call is not answered
+      </label>
+
+      {!policy && fallback && (
+        <p className="text-xs text-slate-500">Template default: {describeRetryPolicy(fallback)}.</p>
+      )}
+
+      {policy && (
+        <>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <NumberField
+              label="Attempts"
+              value={policy.maxAttempts}
+              min={2}
+              onChange={value => update({ maxAttempts: value })}
+            />
+            <NumberField
+              label="Wait (minutes)"
+              value={policy.backoffMinutes}
+              min={1}
+              onChange={value => update({ backoffMinutes: value })}
+            />
+            <NumberField
+              label="Backoff multiplier"
+              value={policy.backoffMultiplier ?? 1}
+              min={1}
+              step={0.5}
+              onChange={value => update({ backoffMultiplier: value > 1 ? value : undefined })}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-xs text-slate-300">
+            {retryOutcomes.map(outcome => (
+              <label key={outcome} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={policy.retryOn.includes(outcome)}
+                  onChange={event => toggleOutcome(outcome, event.target.checked)}
+                  className="h-3.5 w-3.5 rounded border-slate-700 bg-slate-950 accent-sky-500"
+                />
+                {outcomeLabels[outcome]}
+              </label>
+            ))}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="space-y-1 sm:col-span-2">
+              <span className="text-xs uppercase text-slate-400">Alternate number (optional)</span>
+              <input
+                value={policy.alternateNumber ?? ""}
+                onChange={event =>
+                  update({ alternateNumber: event.target.value.trim() || undefined })
+                }
+                placeholder="+15557654321"
+                className={fieldClass}
+              />
+            </label>
+            <NumberField
+              label="Switch after"
+              value={policy.switchAfterAttempts ?? 1}
+              min={1}
+              disabled={!policy.alternateNumber}
+              onChange={value => update({ switchAfterAttempts: value })}
+            />
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+    </div>
+  );
+}
+
+function NumberField({
+  label,
+  value,
+  min,
+  step = 1,
+  disabled,
+  onChange
+}: {
+  label: string;
+  value: number;
+  min: number;
+  step?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="space-y-1">
+      <span className="text-xs uppercase text-slate-400">{label}</span>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        step={step}
+        disabled={disabled}
+        onChange={event => onChange(Number(event.target.value))}
+        className={clsx(fieldClass, "disabled:opacity-50")}
+      />
+    </label>
+  );
+}
+
+const fieldClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-2 text-sm normal-case text-slate-200 focus:border-slate-500 focus:outline-none";
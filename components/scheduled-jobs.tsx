@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ScheduledJobWithCall } from "../shared/jobs";
+
+export function ScheduledJobs({
+  refreshToken,
+  canEdit,
+  onChange
+}: {
+  refreshToken: number;
+  canEdit: boolean;
+  onChange: () => void;
+}) {
+  const [jobs, setJobs] = useState<ScheduledJobWithCall[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string>();
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch("/api/jobs?status=pending", { cache: "no-store" });
+      const data = (await response.json()) as { jobs?: ScheduledJobWithCall[]; message?: string };
+      setJobs(data.jobs ?? []);
+    } catch (loadError) {
+      console.error(loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshToken]);
+
+  const mutate = async (jobId: string, init: RequestInit) => {
+    setError(undefined);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, init);
+      const data = (await response.json()) as { success: boolean; message?: string };
+      if (!data.success) setError(data.message);
+    } catch (mutationError) {
+      console.error(mutationError);
+      setError("We could not update the scheduled call.");
+    }
+    await load();
+    onChange();
+  };
+
+  const reschedule = (jobId: string) => {
+    const draft = drafts[jobId];
+    if (!draft) return;
+    void mutate(jobId, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ runAt: new Date(draft).toISOString() })
+    });
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <h2 className="text-xl font-semibold">Scheduled calls</h2>
+        <p className="text-sm text-slate-400">Pending calls are dialed when their time arrives.</p>
+      </header>
+      {error && <p className="mt-3 text-xs text-rose-300">{error}</p>}
+      <div className="mt-4 space-y-3">
+        {jobs.map(job => (
+          <article
+            key={job.id}
+            className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 text-sm text-slate-200"
+          >
+            <div className="font-medium text-slate-100">
+              {job.call ? `${job.call.contactName} · ${job.call.phoneNumber}` : job.callId}
+            </div>
+            <p className="mt-1 text-xs text-slate-400">
+              Dials at {new Date(job.runAt).toLocaleString()}
+            </p>
+            {canEdit && (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <input
+                  type="datetime-local"
+                  value={drafts[job.id] ?? ""}
+                  onChange={event => setDrafts(prev => ({ ...prev, [job.id]: event.target.value }))}
+                  className="rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none"
+                  aria-label="New schedule time"
+                />
+                <button
+                  className="text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100 disabled:opacity-40"
+                  disabled={!drafts[job.id]}
+                  onClick={() => reschedule(job.id)}
+                >
+                  Reschedule
+                </button>
+                <button
+                  className="text-xs text-rose-300 underline decoration-dotted underline-offset-4 transition hover:text-rose-200"
+                  onClick={() => void mutate(job.id, { method: "DELETE" })}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+}
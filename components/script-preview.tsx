@@ -0,0 +1,133 @@
+"use client";
+
+import { clsx } from "clsx";
+import type { RenderedScript } from "../shared/script-template";
+import {
+  findVoice,
+  plainSpeech,
+  speechFeatureLabels,
+  usedSpeechFeatures,
+  voicesFor,
+  VoiceSettings
+} from "../shared/speech";
+
+export function ScriptPreview({
+  heading,
+  script,
+  voice,
+  listening,
+  customFields,
+  customValues,
+  onCustomFieldChange
+}: {
+  heading: string;
+  script: RenderedScript;
+  voice: VoiceSettings;
+  listening: boolean;
+  customFields: string[];
+  customValues: Record<string, string>;
+  onCustomFieldChange: (name: string, value: string) => void;
+}) {
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">{heading}</p>
+        <h2 className="text-xl font-semibold">Suggested conversation flow</h2>
+        <p className="text-sm text-slate-400">
+          Exactly what the agent will say. Perfect for handing over to a human agent or
+          confirming the AI prompt.
+        </p>
+      </header>
+
+      <ol className="mt-4 max-h-[320px] space-y-3 overflow-auto rounded-xl border border-slate-800 bg-slate-950/70 p-4 text-sm leading-relaxed text-slate-200">
+        {script.opening.map((line, index) => (
+          <li key={index}>
+            <Step label={index === 0 ? "Opening" : undefined}>{plainSpeech(line)}</Step>
+          </li>
+        ))}
+        {script.question && (
+          <li>
+            <Step label="Question · listens for a reply">{plainSpeech(script.question)}</Step>
+          </li>
+        )}
+        <li>
+          <Step label={listening ? "Closing · after the conversation" : "Closing"}>
+            {plainSpeech(script.closing)}
+          </Step>
+        </li>
+      </ol>
+
+      <VoiceSupport script={script} voice={voice} />
+
+      {customFields.length > 0 && (
+        <div className="mt-4 grid gap-3 sm:grid-cols-2">
+          {customFields.map(name => (
+            <label key={name} className="space-y-1 text-xs uppercase text-slate-400">
+              <span>{name}</span>
+              <input
+                value={customValues[name] ?? ""}
+                onChange={event => onCustomFieldChange(name, event.target.value)}
+                className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-xs normal-case text-slate-200 focus:border-slate-500 focus:outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Flags markup the chosen voice would ignore and which voices would honor all of it. */
+function VoiceSupport({ script, voice }: { script: RenderedScript; voice: VoiceSettings }) {
+  const lines = [...script.opening, script.question, script.closing];
+  const used = usedSpeechFeatures(lines, voice);
+  const selected = findVoice(voice.voice);
+  const capable = voicesFor(voice.language).filter(option =>
+    used.every(feature => option.features.includes(feature))
+  );
+
+  return (
+    <div className="mt-3 space-y-1 text-xs text-slate-400">
+      <p>
+        Spoken by {selected?.label ?? voice.voice} · {voice.language} · {voice.rate} pace
+      </p>
+      {used.length > 0 && (
+        <>
+          <p className="flex flex-wrap gap-2">
+            {used.map(feature => {
+              const supported = selected?.features.includes(feature);
+              return (
+                <span
+                  key={feature}
+                  className={clsx(
+                    "rounded-full border px-2 py-0.5",
+                    supported
+                      ? "border-emerald-500/40 text-emerald-300"
+                      : "border-amber-500/40 text-amber-300"
+                  )}
+                >
+                  {speechFeatureLabels[feature]}
+                  {supported ? "" : " · ignored by this voice"}
+                </span>
+              );
+            })}
+          </p>
+          <p>
+            {capable.length
+              ? `Voices that support everything used: ${capable.map(option => option.label).join(", ")}.`
+              : "No voice for this language supports everything used."}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Step({ label, children }: { label?: string; children: React.ReactNode }) {
+  return (
+    <>
+      {label && <span className="block text-xs uppercase text-slate-500">{label}</span>}
+      <span>&ldquo;{children}&rdquo;</span>
+    </>
+  );
+}
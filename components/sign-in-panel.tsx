@@ -0,0 +1,126 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import type { SessionInfo } from "../shared/auth";
+
+export function SignInPanel({
+  signUpAllowed,
+  onSignedIn
+}: {
+  signUpAllowed: boolean;
+  onSignedIn: (session: SessionInfo) => void;
+}) {
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [fields, setFields] = useState({ name: "", email: "", password: "", teamName: "" });
+  const [error, setError] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const update = (key: keyof typeof fields, value: string) =>
+    setFields(prev => ({ ...prev, [key]: value }));
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(undefined);
+    try {
+      const response = await fetch(mode === "sign-in" ? "/api/auth/login" : "/api/auth/signup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(
+          mode === "sign-in" ? { email: fields.email, password: fields.password } : fields
+        )
+      });
+      const data = (await response.json()) as { session?: SessionInfo; message?: string };
+      if (data.session) onSignedIn(data.session);
+      else setError(data.message ?? "Sign-in failed.");
+    } catch (submitError) {
+      console.error(submitError);
+      setError("We could not reach the server.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mx-auto w-full max-w-md space-y-4 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl"
+    >
+      <header className="space-y-1">
+        <h2 className="text-xl font-semibold">
+          {mode === "sign-in" ? "Sign in" : "Create a workspace"}
+        </h2>
+        <p className="text-sm text-slate-400">
+          {mode === "sign-in"
+            ? "Use the account your workspace admin set up for you."
+            : "You will be the admin of the new workspace."}
+        </p>
+      </header>
+
+      {mode === "sign-up" && (
+        <>
+          <input
+            value={fields.name}
+            onChange={event => update("name", event.target.value)}
+            placeholder="Your name"
+            className={fieldClass}
+            aria-label="Your name"
+          />
+          <input
+            value={fields.teamName}
+            onChange={event => update("teamName", event.target.value)}
+            placeholder="Workspace name"
+            className={fieldClass}
+            aria-label="Workspace name"
+          />
+        </>
+      )}
+      <input
+        type="email"
+        value={fields.email}
+        onChange={event => update("email", event.target.value)}
+        placeholder="you@example.com"
+        className={fieldClass}
+        aria-label="Email"
+        autoComplete="email"
+      />
+      <input
+        type="password"
+        value={fields.password}
+        onChange={event => update("password", event.target.value)}
+        placeholder="Password"
+        className={fieldClass}
+        aria-label="Password"
+        autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+      />
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      <div className="flex items-center justify-between gap-3">
+        {signUpAllowed ? (
+          <button
+            type="button"
+            className="text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100"
+            onClick={() => setMode(mode === "sign-in" ? "sign-up" : "sign-in")}
+          >
+            {mode === "sign-in" ? "Create a workspace instead" : "I already have an account"}
+          </button>
+        ) : (
+          <span />
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-xl bg-sky-500 px-5 py-2 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          {submitting ? "Please wait..." : mode === "sign-in" ? "Sign in" : "Create workspace"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+const fieldClass =
+  "w-full rounded-xl border border-slate-800 bg-slate-950/70 px-4 py-2 text-sm text-slate-100 transition focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 placeholder:text-slate-500";
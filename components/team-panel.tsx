@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { roles, type ApiKeySummary, type Role, type TeamMember } from "../shared/auth";
+
+type Result = {
+  success: boolean;
+  message?: string;
+  members?: TeamMember[];
+  keys?: ApiKeySummary[];
+  secret?: string;
+};
+
+export function TeamPanel({ currentUserId }: { currentUserId: string }) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [member, setMember] = useState({ name: "", email: "", password: "", role: "agent" as Role });
+  const [keyDraft, setKeyDraft] = useState({ name: "", role: "agent" as Role });
+  const [secret, setSecret] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    setError(undefined);
+    try {
+      const response = await fetch(url, { cache: "no-store", ...init });
+      const data = (await response.json()) as Result;
+      if (!data.success) setError(data.message ?? "Request failed.");
+      return data;
+    } catch (requestError) {
+      console.error(requestError);
+      setError("We could not reach the server.");
+      return undefined;
+    }
+  }, []);
+
+  const loadKeys = useCallback(async () => {
+    const data = await request("/api/team/api-keys");
+    if (data?.keys) setKeys(data.keys);
+  }, [request]);
+
+  useEffect(() => {
+    const load = async () => {
+      const data = await request("/api/team/members");
+      if (data?.members) setMembers(data.members);
+      await loadKeys();
+    };
+    void load();
+  }, [request, loadKeys]);
+
+  const sendJson = (url: string, method: string, body: unknown) =>
+    request(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body)
+    });
+
+  const addMember = async () => {
+    const data = await sendJson("/api/team/members", "POST", {
+      ...member,
+      password: member.password || undefined
+    });
+    if (data?.members) {
+      setMembers(data.members);
+      setMember({ name: "", email: "", password: "", role: "agent" });
+    }
+  };
+
+  const changeRole = async (userId: string, role: Role) => {
+    const data = await sendJson(`/api/team/members/${userId}`, "PATCH", { role });
+    if (data?.members) setMembers(data.members);
+  };
+
+  const removeMember = async (userId: string) => {
+    const data = await request(`/api/team/members/${userId}`, { method: "DELETE" });
+    if (data?.members) setMembers(data.members);
+  };
+
+  const createKey = async () => {
+    const data = await sendJson("/api/team/api-keys", "POST", keyDraft);
+    if (data?.secret) {
+      setSecret(data.secret);
+      setKeyDraft({ name: "", role: "agent" });
+      await loadKeys();
+    }
+  };
+
+  const revokeKey = async (id: string) => {
+    const data = await request(`/api/team/api-keys/${id}`, { method: "DELETE" });
+    if (data?.success) await loadKeys();
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">Workspace</p>
+        <h2 className="text-xl font-semibold">Members and API keys</h2>
+        <p className="text-sm text-slate-400">
+          Admins manage access and compliance, agents launch calls, viewers read history.
+        </p>
+      </header>
+
+      {error && <p className="mt-4 text-sm text-rose-300">{error}</p>}
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <ul className="divide-y divide-slate-800 text-sm">
+            {members.map(item => (
+              <li key={item.userId} className="flex items-center justify-between gap-3 py-2">
+                <span>
+                  {item.name} <span className="text-xs text-slate-500">{item.email}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <select
+                    value={item.role}
+                    onChange={event => void changeRole(item.userId, event.target.value as Role)}
+                    className={selectClass}
+                    aria-label={`Role for ${item.name}`}
+                  >
+                    {roles.map(role => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                  {item.userId !== currentUserId && (
+                    <button
+                      type="button"
+                      className={linkClass}
+                      onClick={() => void removeMember(item.userId)}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <input
+              value={member.name}
+              onChange={event => setMember(prev => ({ ...prev, name: event.target.value }))}
+              placeholder="Name"
+              className={fieldClass}
+              aria-label="Member name"
+            />
+            <input
+              value={member.email}
+              onChange={event => setMember(prev => ({ ...prev, email: event.target.value }))}
+              placeholder="Email"
+              className={fieldClass}
+              aria-label="Member email"
+            />
+            <input
+              type="password"
+              value={member.password}
+              onChange={event => setMember(prev => ({ ...prev, password: event.target.value }))}
+              placeholder="Initial password (new accounts)"
+              className={fieldClass}
+              aria-label="Initial password"
+              autoComplete="new-password"
+            />
+            <select
+              value={member.role}
+              onChange={event => setMember(prev => ({ ...prev, role: event.target.value as Role }))}
+              className={selectClass}
+              aria-label="Member role"
+            >
+              {roles.map(role => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            disabled={!member.name.trim() || !member.email.trim()}
+            onClick={() => void addMember()}
+            className={buttonClass}
+          >
+            Add member
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <ul className="divide-y divide-slate-800 text-sm">
+            {keys.length === 0 && <li className="py-2 text-slate-400">No API keys yet.</li>}
+            {keys.map(key => (
+              <li key={key.id} className="flex items-center justify-between gap-3 py-2">
+                <span>
+                  {key.name}{" "}
+                  <span className="text-xs text-slate-500">
+                    {key.prefix}… · {key.role}
+                    {key.lastUsedAt && ` · used ${new Date(key.lastUsedAt).toLocaleDateString()}`}
+                  </span>
+                </span>
+                <button type="button" className={linkClass} onClick={() => void revokeKey(key.id)}>
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+          {secret && (
+            <p className="break-all rounded-lg bg-slate-950/70 p-2 text-xs text-emerald-200">
+              Copy this key now, it will not be shown again: <code>{secret}</code>
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={keyDraft.name}
+              onChange={event => setKeyDraft(prev => ({ ...prev, name: event.target.value }))}
+              placeholder="Key name, e.g. CRM sync"
+              className={fieldClass}
+              aria-label="API key name"
+            />
+            <select
+              value={keyDraft.role}
+              onChange={event => setKeyDraft(prev => ({ ...prev, role: event.target.value as Role }))}
+              className={selectClass}
+              aria-label="API key role"
+            >
+              {roles.map(role => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={keyDraft.name.trim().length < 2}
+              onClick={() => void createKey()}
+              className={buttonClass}
+            >
+              Create key
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+const fieldClass =
+  "flex-1 rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const selectClass =
+  "rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
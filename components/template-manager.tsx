@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { clsx } from "clsx";
+import type { ScriptStyle } from "../shared/calls";
+import type { RetryPolicy } from "../shared/retry-policy";
+import {
+  defaultTemplates,
+  latestVersion,
+  ScriptTemplate,
+  ScriptTemplateBody
+} from "../shared/script-template";
+import { findVoice, VoiceSettings } from "../shared/speech";
+import { RetryPolicyFields } from "./retry-policy-fields";
+import { VoiceFields } from "./voice-fields";
+
+type Draft = {
+  id?: string;
+  name: string;
+  body: ScriptTemplateBody;
+  retryPolicy?: RetryPolicy;
+  voice?: VoiceSettings;
+};
+
+export function TemplateManager({
+  templates,
+  scriptStyle,
+  canEdit,
+  onChange
+}: {
+  templates: ScriptTemplate[];
+  scriptStyle: ScriptStyle;
+  canEdit: boolean;
+  onChange: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft>();
+  const [error, setError] = useState<string>();
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(undefined);
+    try {
+      const response = await fetch(draft.id ? `/api/templates/${draft.id}` : "/api/templates", {
+        method: draft.id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          name: draft.name,
+          body: draft.body,
+          // null clears a saved policy; a new template simply has none
+          retryPolicy: draft.retryPolicy ?? (draft.id ? null : undefined),
+          voice: draft.voice ?? (draft.id ? null : undefined)
+        })
+      });
+      const data = (await response.json()) as { success: boolean; message?: string };
+      if (!data.success) {
+        setError(data.message);
+        return;
+      }
+      setDraft(undefined);
+      onChange();
+    } catch (saveError) {
+      console.error(saveError);
+      setError("We could not save the template.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    await fetch(`/api/templates/${id}`, { method: "DELETE" });
+    if (draft?.id === id) setDraft(undefined);
+    onChange();
+  };
+
+  const updateBody = (key: keyof ScriptTemplateBody, value: string) =>
+    setDraft(prev => (prev ? { ...prev, body: { ...prev.body, [key]: value } } : prev));
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-xs uppercase text-slate-400">Script library</p>
+          <h2 className="text-xl font-semibold">Templates</h2>
+          <p className="text-sm text-slate-400">
+            Use {"{{contactName}}"}, {"{{objective}}"}, {"{{notes}}"} or any custom field, and wrap
+            optional lines in {"{{#if field}}…{{/if}}"}. Add pauses and stress with{" "}
+            {'<break time="500ms"/>'}, {"<emphasis>…</emphasis>"} and{" "}
+            {'<say-as interpret-as="telephone">…</say-as>'}. Every save creates a new version.
+          </p>
+        </div>
+        {canEdit && (
+          <button
+            type="button"
+            className={actionClass}
+            onClick={() => setDraft({ name: "", body: { ...defaultTemplates[scriptStyle] } })}
+          >
+            New template
+          </button>
+        )}
+      </header>
+
+      {templates.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-800 text-sm">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-center justify-between py-2">
+              <span>
+                {template.name}{" "}
+                <span className="text-xs text-slate-500">
+                  v{latestVersion(template).version}
+                  {template.retryPolicy && ` · retries up to ${template.retryPolicy.maxAttempts}×`}
+                  {template.voice &&
+                    ` · ${findVoice(template.voice.voice)?.label ?? template.voice.voice}, ${template.voice.language}`}
+                </span>
+              </span>
+              {canEdit && (
+                <span className="flex gap-3 text-xs">
+                  <button
+                    type="button"
+                    className={actionClass}
+                    onClick={() =>
+                      setDraft({
+                        id: template.id,
+                        name: template.name,
+                        body: { ...latestVersion(template).body },
+                        retryPolicy: template.retryPolicy,
+                        voice: template.voice
+                      })
+                    }
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className={clsx(actionClass, "text-rose-300")}
+                    onClick={() => void remove(template.id)}
+                  >
+                    Delete
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="mt-4 space-y-3">
+          <input
+            value={draft.name}
+            onChange={event => setDraft(prev => (prev ? { ...prev, name: event.target.value } : prev))}
+            placeholder="Template name"
+            className={fieldClass}
+          />
+          {(["opening", "question", "closing"] as const).map(key => (
+            <label key={key} className="block space-y-1 text-xs uppercase text-slate-400">
+              <span>{key}</span>
+              <textarea
+                value={draft.body[key]}
+                onChange={event => updateBody(key, event.target.value)}
+                className={clsx(fieldClass, key === "opening" ? "min-h-[96px]" : "min-h-[56px]")}
+              />
+            </label>
+          ))}
+          <VoiceFields
+            settings={draft.voice}
+            onChange={voice => setDraft(prev => (prev ? { ...prev, voice } : prev))}
+          />
+          <RetryPolicyFields
+            policy={draft.retryPolicy}
+            onChange={retryPolicy => setDraft(prev => (prev ? { ...prev, retryPolicy } : prev))}
+          />
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void save()}
+              className="rounded-xl bg-sky-500 px-4 py-1.5 text-sm font-medium text-slate-950 transition hover:bg-sky-400 disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              {draft.id ? "Save new version" : "Create template"}
+            </button>
+            <button type="button" className={actionClass} onClick={() => setDraft(undefined)}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+const fieldClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-2 text-sm normal-case text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const actionClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
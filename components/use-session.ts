@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SessionInfo } from "../shared/auth";
+
+/** The signed-in session: `undefined` while loading, `null` when signed out. */
+export function useSession() {
+  const [session, setSession] = useState<SessionInfo | null>();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/auth/session", { cache: "no-store" });
+        const data = (await response.json()) as { session?: SessionInfo };
+        setSession(data.session ?? null);
+      } catch (error) {
+        console.error(error);
+        setSession(null);
+      }
+    };
+
+    void load();
+  }, []);
+
+  return session;
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { clsx } from "clsx";
+import {
+  defaultVoiceSettings,
+  findVoice,
+  speechFeatureLabels,
+  speechFeatures,
+  speechLanguages,
+  speechRates,
+  SpeechRate,
+  voicesFor,
+  VoiceSettings
+} from "../shared/speech";
+
+/** Voice, language and speaking rate, shared by the call form and templates. */
+export function VoiceFields({
+  settings,
+  fallback,
+  error,
+  onChange
+}: {
+  settings?: VoiceSettings;
+  /** Used while nothing is picked, e.g. the selected template's voice. */
+  fallback?: VoiceSettings;
+  error?: string;
+  onChange: (settings: VoiceSettings | undefined) => void;
+}) {
+  const current = settings ?? fallback ?? defaultVoiceSettings;
+  const voice = findVoice(current.voice);
+
+  const changeLanguage = (language: string) => {
+    const voices = voicesFor(language);
+    const keep = voices.some(item => item.id === current.voice);
+    onChange({ ...current, language, voice: keep ? current.voice : voices[0]?.id ?? current.voice });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+      <div className="flex items-center justify-between text-sm text-slate-200">
+        <span>Voice</span>
+        {settings ? (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="text-xs text-slate-400 underline decoration-dotted underline-offset-4 hover:text-slate-200"
+          >
+            Use {fallback ? "template" : "default"} voice
+          </button>
+        ) : (
+          <span className="text-xs text-slate-500">
+            {fallback ? "Template default" : "Default"}
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="space-y-1 text-xs text-slate-400">
+          <span>Language</span>
+          <select
+            value={current.language}
+            onChange={event => changeLanguage(event.target.value)}
+            className={selectClass}
+          >
+            {speechLanguages.map(language => (
+              <option key={language.code} value={language.code}>
+                {language.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span>Voice</span>
+          <select
+            value={current.voice}
+            onChange={event => onChange({ ...current, voice: event.target.value })}
+            className={selectClass}
+          >
+            {voicesFor(current.language).map(option => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span>Speaking rate</span>
+          <select
+            value={current.rate}
+            onChange={event => onChange({ ...current, rate: event.target.value as SpeechRate })}
+            className={selectClass}
+          >
+            {speechRates.map(rate => (
+              <option key={rate} value={rate}>
+                {rate}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="flex flex-wrap gap-2 text-[10px] uppercase">
+        {speechFeatures.map(feature => {
+          const supported = voice?.features.includes(feature);
+          return (
+            <span
+              key={feature}
+              className={clsx(
+                "rounded-full border px-2 py-0.5",
+                supported
+                  ? "border-emerald-500/40 text-emerald-300"
+                  : "border-slate-700 text-slate-500 line-through"
+              )}
+            >
+              {speechFeatureLabels[feature]}
+            </span>
+          );
+        })}
+      </p>
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+    </div>
+  );
+}
+
+const selectClass =
+  "w-full rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
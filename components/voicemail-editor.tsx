@@ -0,0 +1,88 @@
+"use client";
+
+import { clsx } from "clsx";
+
+export function VoicemailEditor({
+  script,
+  defaultScript,
+  callbackNumber,
+  errors,
+  onScriptChange,
+  onCallbackNumberChange
+}: {
+  script: string;
+  defaultScript: string;
+  callbackNumber: string;
+  errors: { voicemailScript?: string; callbackNumber?: string };
+  onScriptChange: (value: string) => void;
+  onCallbackNumberChange: (value: string) => void;
+}) {
+  const isCustom = script.trim().length > 0;
+  const spoken = isCustom ? script : defaultScript;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="space-y-1">
+        <p className="text-xs uppercase text-slate-400">
+          {isCustom ? "Custom message" : "Generated message"}
+        </p>
+        <h2 className="text-xl font-semibold">Voicemail fallback</h2>
+        <p className="text-sm text-slate-400">
+          Played after the beep when answering-machine detection hears a voicemail greeting.
+        </p>
+      </header>
+
+      <div className="mt-4 space-y-1">
+        <label htmlFor="callbackNumber" className="text-xs uppercase text-slate-400">
+          Callback number (optional)
+        </label>
+        <input
+          id="callbackNumber"
+          value={callbackNumber}
+          onChange={event => onCallbackNumberChange(event.target.value)}
+          placeholder="+15557654321"
+          className={fieldClass(errors.callbackNumber)}
+        />
+        {errors.callbackNumber && (
+          <p className="text-xs text-rose-400">{errors.callbackNumber}</p>
+        )}
+      </div>
+
+      <div className="mt-4 space-y-1">
+        <div className="flex items-center justify-between">
+          <label htmlFor="voicemailScript" className="text-xs uppercase text-slate-400">
+            Message
+          </label>
+          {isCustom && (
+            <button
+              type="button"
+              className="text-xs text-slate-400 underline decoration-dotted underline-offset-4 transition hover:text-slate-200"
+              onClick={() => onScriptChange("")}
+            >
+              Reset to generated
+            </button>
+          )}
+        </div>
+        <textarea
+          id="voicemailScript"
+          value={spoken}
+          onChange={event => onScriptChange(event.target.value)}
+          className={clsx(fieldClass(errors.voicemailScript), "min-h-[120px] leading-relaxed")}
+        />
+        <div className="flex justify-between text-xs">
+          <span className="text-rose-400">{errors.voicemailScript}</span>
+          <span className={spoken.length > 600 ? "text-rose-400" : "text-slate-500"}>
+            {spoken.length}/600
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function fieldClass(hasError?: string) {
+  return clsx(
+    "w-full rounded-xl border border-slate-800 bg-slate-950/70 px-4 py-2 text-sm text-slate-100 transition focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40 placeholder:text-slate-500",
+    hasError && "border-rose-500 focus:border-rose-400 focus:ring-rose-500/40"
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { clsx } from "clsx";
+import {
+  defaultActivityMapping,
+  formatMapping,
+  parseMapping,
+  webhookEvents,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEvent,
+  type WebhookFormat
+} from "../shared/webhooks";
+
+type Result = {
+  success: boolean;
+  message?: string;
+  endpoints?: WebhookEndpoint[];
+  endpoint?: WebhookEndpoint;
+  deliveries?: WebhookDelivery[];
+  secret?: string;
+};
+
+type Draft = {
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+  format: WebhookFormat;
+  mapping: string;
+};
+
+const emptyDraft: Draft = {
+  url: "",
+  description: "",
+  events: ["call.completed"],
+  format: "event",
+  mapping: formatMapping(defaultActivityMapping)
+};
+
+export function WebhookPanel() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [secret, setSecret] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    setError(undefined);
+    try {
+      const response = await fetch(url, { cache: "no-store", ...init });
+      const data = (await response.json()) as Result;
+      if (!data.success) setError(data.message ?? "Request failed.");
+      return data;
+    } catch (requestError) {
+      console.error(requestError);
+      setError("We could not reach the server.");
+      return undefined;
+    }
+  }, []);
+
+  const load = useCallback(async () => {
+    const [endpointData, deliveryData] = await Promise.all([
+      request("/api/webhooks"),
+      request("/api/webhooks/deliveries")
+    ]);
+    if (endpointData?.endpoints) setEndpoints(endpointData.endpoints);
+    if (deliveryData?.deliveries) setDeliveries(deliveryData.deliveries);
+  }, [request]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const sendJson = (url: string, method: string, body: unknown) =>
+    request(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body)
+    });
+
+  const create = async () => {
+    const data = await sendJson("/api/webhooks", "POST", {
+      url: draft.url.trim(),
+      description: draft.description.trim() || undefined,
+      events: draft.events,
+      format: draft.format,
+      mapping: draft.format === "activity" ? parseMapping(draft.mapping) : undefined
+    });
+    if (data?.secret) {
+      setSecret(data.secret);
+      setDraft(emptyDraft);
+      await load();
+    }
+  };
+
+  const toggle = async (endpoint: WebhookEndpoint) => {
+    const data = await sendJson(`/api/webhooks/${endpoint.id}`, "PATCH", {
+      active: !endpoint.active
+    });
+    if (data?.success) await load();
+  };
+
+  const remove = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Stop sending events to ${endpoint.url}?`)) return;
+    const data = await request(`/api/webhooks/${endpoint.id}`, { method: "DELETE" });
+    if (data?.success) await load();
+  };
+
+  const replay = async (delivery: WebhookDelivery) => {
+    const data = await request(`/api/webhooks/deliveries/${delivery.id}/replay`, {
+      method: "POST"
+    });
+    if (data?.success) await load();
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setDraft(prev => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter(item => item !== event)
+        : [...prev.events, event]
+    }));
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 backdrop-blur-xl">
+      <header className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-xs uppercase text-slate-400">Integrations</p>
+          <h2 className="text-xl font-semibold">Webhooks</h2>
+          <p className="text-sm text-slate-400">
+            Signed POSTs when calls are created, complete, fail or get a transcript. Failed
+            deliveries are retried with backoff.
+          </p>
+        </div>
+        <button type="button" className={linkClass} onClick={() => void load()}>
+          Refresh
+        </button>
+      </header>
+
+      {error && <p className="mt-4 text-sm text-rose-300">{error}</p>}
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <ul className="divide-y divide-slate-800 text-sm">
+            {endpoints.length === 0 && <li className="py-2 text-slate-400">No webhooks yet.</li>}
+            {endpoints.map(endpoint => (
+              <li key={endpoint.id} className="flex items-center justify-between gap-3 py-2">
+                <span className={clsx("min-w-0", !endpoint.active && "opacity-50")}>
+                  <span className="block truncate">{endpoint.description || endpoint.url}</span>
+                  <span className="text-xs text-slate-500">
+                    {endpoint.format} · {endpoint.events.join(", ")}
+                  </span>
+                </span>
+                <span className="flex shrink-0 items-center gap-3">
+                  <button type="button" className={linkClass} onClick={() => void toggle(endpoint)}>
+                    {endpoint.active ? "Pause" : "Resume"}
+                  </button>
+                  <button type="button" className={linkClass} onClick={() => void remove(endpoint)}>
+                    Delete
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          {secret && (
+            <p className="break-all rounded-lg bg-slate-950/70 p-2 text-xs text-emerald-200">
+              Copy this signing secret now, it will not be shown again: <code>{secret}</code>
+            </p>
+          )}
+          <div className="grid gap-2 sm:grid-cols-2">
+            <input
+              value={draft.url}
+              onChange={event => setDraft(prev => ({ ...prev, url: event.target.value }))}
+              placeholder="https://crm.example.com/hooks/calls"
+              className={fieldClass}
+              aria-label="Webhook URL"
+            />
+            <input
+              value={draft.description}
+              onChange={event => setDraft(prev => ({ ...prev, description: event.target.value }))}
+              placeholder="Description (optional)"
+              className={fieldClass}
+              aria-label="Webhook description"
+            />
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs text-slate-300">
+            {webhookEvents.map(event => (
+              <label key={event} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={draft.events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                />
+                {event}
+              </label>
+            ))}
+          </div>
+          <select
+            value={draft.format}
+            onChange={event =>
+              setDraft(prev => ({ ...prev, format: event.target.value as WebhookFormat }))
+            }
+            className={selectClass}
+            aria-label="Payload format"
+          >
+            <option value="event">Event envelope with the full call</option>
+            <option value="activity">Activity built from a field mapping</option>
+          </select>
+          {draft.format === "activity" && (
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">
+                One <code>field.path = template</code> per line. Placeholders:{" "}
+                <code>{"{{call.*}}"}</code>, <code>{"{{event}}"}</code>,{" "}
+                <code>{"{{occurredAt}}"}</code>, <code>{"{{transcript}}"}</code>.
+              </span>
+              <textarea
+                value={draft.mapping}
+                onChange={event => setDraft(prev => ({ ...prev, mapping: event.target.value }))}
+                className={clsx(fieldClass, "min-h-[160px] w-full font-mono text-xs")}
+                aria-label="Field mapping"
+              />
+            </label>
+          )}
+          <button
+            type="button"
+            disabled={!draft.url.trim() || draft.events.length === 0}
+            onClick={() => void create()}
+            className={buttonClass}
+          >
+            Add webhook
+          </button>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold">Delivery log</h3>
+          <ul className="mt-2 max-h-96 divide-y divide-slate-800 overflow-y-auto text-sm">
+            {deliveries.length === 0 && <li className="py-2 text-slate-400">Nothing sent yet.</li>}
+            {deliveries.map(delivery => (
+              <li key={delivery.id} className="flex items-center justify-between gap-3 py-2">
+                <span className="min-w-0">
+                  <span className="block">
+                    {delivery.event}{" "}
+                    <span className={clsx("text-xs", deliveryTone[delivery.status])}>
+                      {delivery.status}
+                      {delivery.responseStatus && ` (${delivery.responseStatus})`}
+                    </span>
+                  </span>
+                  <span className="block truncate text-xs text-slate-500">
+                    {[
+                      new Date(delivery.createdAt).toLocaleString(),
+                      `${delivery.attempts} ${delivery.attempts === 1 ? "attempt" : "attempts"}`,
+                      delivery.replayOf && "replay",
+                      delivery.nextAttemptAt &&
+                        `next ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`,
+                      delivery.error
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className={clsx(linkClass, "shrink-0")}
+                  onClick={() => void replay(delivery)}
+                >
+                  Replay
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+const deliveryTone: Record<WebhookDelivery["status"], string> = {
+  pending: "text-amber-300",
+  succeeded: "text-emerald-300",
+  failed: "text-rose-300"
+};
+
+const fieldClass =
+  "flex-1 rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const selectClass =
+  "rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1.5 text-xs text-slate-200 focus:border-slate-500 focus:outline-none";
+
+const linkClass =
+  "text-xs text-slate-300 underline decoration-dotted underline-offset-4 transition hover:text-slate-100";
+
+const buttonClass =
+  "rounded-xl bg-slate-800 px-4 py-1.5 text-sm text-slate-100 transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40";
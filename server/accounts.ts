@@ -0,0 +1,187 @@
+import type { Role, SessionInfo, TeamMember, TeamSummary } from "../shared/auth";
+import { ServiceError } from "./errors";
+import { hashPassword, verifyPassword } from "./passwords";
+import { getStorage } from "./storage";
+
+const users = "users";
+const teams = "teams";
+
+type UserRecord = {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  createdAt: string;
+};
+
+type TeamRecord = {
+  id: string;
+  name: string;
+  members: { userId: string; role: Role }[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export async function getUser(id: string) {
+  return getStorage().get<UserRecord>(users, id);
+}
+
+export async function findUserByEmail(email: string) {
+  const all = await getStorage().list<UserRecord>(users);
+  return all.find(user => user.email === email.toLowerCase());
+}
+
+/** The first account can always sign up; later ones only when `AUTH_ALLOW_SIGNUP=true`. */
+export async function signUpAllowed() {
+  const all = await getStorage().list<UserRecord>(users);
+  return all.length === 0 || process.env.AUTH_ALLOW_SIGNUP === "true";
+}
+
+/** Creates an account and a new workspace that it administers. */
+export async function signUp(input: {
+  name: string;
+  email: string;
+  password: string;
+  teamName: string;
+}) {
+  if (!(await signUpAllowed())) {
+    throw new ServiceError("Sign-up is closed. Ask a workspace admin to add you.", 403);
+  }
+  if (await findUserByEmail(input.email)) {
+    throw new ServiceError("An account with that email already exists.", 409);
+  }
+
+  const user = await createUser(input);
+  const now = new Date().toISOString();
+  const team: TeamRecord = {
+    id: crypto.randomUUID(),
+    name: input.teamName,
+    members: [{ userId: user.id, role: "admin" }],
+    createdAt: now,
+    updatedAt: now
+  };
+  await getStorage().put(teams, team.id, team);
+  return { user, team };
+}
+
+export async function authenticate(email: string, password: string) {
+  const user = await findUserByEmail(email);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return undefined;
+  return user;
+}
+
+export async function listTeamsForUser(userId: string): Promise<TeamSummary[]> {
+  const all = await getStorage().list<TeamRecord>(teams);
+  return all.flatMap(team => {
+    const member = team.members.find(item => item.userId === userId);
+    return member ? [{ id: team.id, name: team.name, role: member.role }] : [];
+  });
+}
+
+/** What the dashboard needs to know about a signed-in user in one workspace. */
+export async function describeSession(
+  userId: string,
+  teamId: string
+): Promise<SessionInfo | undefined> {
+  const [user, teamList] = await Promise.all([getUser(userId), listTeamsForUser(userId)]);
+  const team = teamList.find(item => item.id === teamId);
+  if (!user || !team) return undefined;
+  return { user: { id: user.id, email: user.email, name: user.name }, team, teams: teamList };
+}
+
+/** The member's current role in a team, or undefined when they are not a member. */
+export async function memberRole(teamId: string, userId: string) {
+  const team = await getStorage().get<TeamRecord>(teams, teamId);
+  return team?.members.find(member => member.userId === userId)?.role;
+}
+
+export async function listMembers(teamId: string): Promise<TeamMember[]> {
+  const team = await getStorage().get<TeamRecord>(teams, teamId);
+  if (!team) throw new ServiceError("Workspace not found.", 404);
+
+  const members = await Promise.all(
+    team.members.map(async member => {
+      const user = await getUser(member.userId);
+      return user ? [{ userId: user.id, email: user.email, name: user.name, role: member.role }] : [];
+    })
+  );
+  return members.flat().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Adds a person to a workspace. Existing accounts are linked by email; new
+ * ones need an initial password, which the admin shares with them.
+ */
+export async function addMember(
+  teamId: string,
+  input: { name: string; email: string; password?: string; role: Role }
+) {
+  let user = await findUserByEmail(input.email);
+
+  if (!user) {
+    if (!input.password) {
+      throw new ServiceError("Set an initial password for people without an account.", 400);
+    }
+    user = await createUser({ ...input, password: input.password });
+  }
+
+  const userId = user.id;
+  await updateTeam(teamId, team => {
+    if (team.members.some(member => member.userId === userId)) {
+      throw new ServiceError("That person is already a member of this workspace.", 409);
+    }
+    return { ...team, members: [...team.members, { userId, role: input.role }] };
+  });
+  return listMembers(teamId);
+}
+
+export async function changeMemberRole(teamId: string, userId: string, role: Role) {
+  await updateTeam(teamId, team => {
+    const members = team.members.map(member =>
+      member.userId === userId ? { ...member, role } : member
+    );
+    if (!team.members.some(member => member.userId === userId)) {
+      throw new ServiceError("Member not found.", 404);
+    }
+    assertHasAdmin(members);
+    return { ...team, members };
+  });
+  return listMembers(teamId);
+}
+
+export async function removeMember(teamId: string, userId: string) {
+  await updateTeam(teamId, team => {
+    const members = team.members.filter(member => member.userId !== userId);
+    if (members.length === team.members.length) {
+      throw new ServiceError("Member not found.", 404);
+    }
+    assertHasAdmin(members);
+    return { ...team, members };
+  });
+  return listMembers(teamId);
+}
+
+async function createUser(input: { name: string; email: string; password: string }) {
+  const user: UserRecord = {
+    id: crypto.randomUUID(),
+    email: input.email.toLowerCase(),
+    name: input.name,
+    passwordHash: await hashPassword(input.password),
+    createdAt: new Date().toISOString()
+  };
+  return getStorage().put(users, user.id, user);
+}
+
+async function updateTeam(teamId: string, change: (team: TeamRecord) => TeamRecord) {
+  const updated = await getStorage().update<TeamRecord>(teams, teamId, team =>
+    team ? { ...change(team), updatedAt: new Date().toISOString() } : undefined
+  );
+  if (!updated) throw new ServiceError("Workspace not found.", 404);
+  return updated;
+}
+
+function assertHasAdmin(members: TeamRecord["members"]) {
+  if (!members.some(member => member.role === "admin")) {
+    throw new ServiceError("A workspace needs at least one admin.", 409);
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  AnalyticsDimension,
+  AnalyticsGroup,
+  AnalyticsReport,
+  OutcomeStats,
+  weekdayNames
+} from "../shared/analytics";
+import { isTerminalStatus } from "../shared/call-status";
+import { callDirection, CallRecord, scriptStyles } from "../shared/calls";
+import { formatCsv } from "../shared/csv";
+import { listCallsStartedBetween } from "./call-repository";
+import { listCampaignSummaries } from "./campaigns";
+import { calleeTimezone, localClock } from "./compliance";
+import { listTemplates } from "./templates";
+
+export type AnalyticsQuery = {
+  teamId: string;
+  from?: string;
+  to?: string;
+};
+
+type AnalyzedCall = {
+  call: CallRecord;
+  keys: Record<AnalyticsDimension, string>;
+};
+
+/**
+ * Aggregates finished outbound calls, retries included, by script style, template,
+ * campaign and the callee's local hour and weekday. Calls still scheduled or
+ * in flight are left out until they end.
+ */
+export async function buildAnalytics(query: AnalyticsQuery): Promise<AnalyticsReport> {
+  const { analyzed, labels } = await analyze(query);
+
+  const breakdown = (dimension: AnalyticsDimension, order?: string[]) => {
+    const groups = new Map<string, CallRecord[]>();
+    for (const key of order ?? []) groups.set(key, []);
+    for (const { call, keys } of analyzed) {
+      groups.set(keys[dimension], [...(groups.get(keys[dimension]) ?? []), call]);
+    }
+    const result: AnalyticsGroup[] = Array.from(groups, ([key, calls]) => ({
+      key,
+      label: labels[dimension](key),
+      stats: summarize(calls)
+    }));
+    return order ? result : result.sort((a, b) => b.stats.calls - a.stats.calls);
+  };
+
+  return {
+    success: true,
+    from: query.from,
+    to: query.to,
+    totals: summarize(analyzed.map(item => item.call)),
+    breakdowns: {
+      scriptStyle: breakdown("scriptStyle", [...scriptStyles]),
+      template: breakdown("template"),
+      hour: breakdown("hour", Array.from({ length: 24 }, (_, hour) => String(hour))),
+      weekday: breakdown("weekday", ["1", "2", "3", "4", "5", "6", "0"]),
+      campaign: breakdown("campaign")
+    }
+  };
+}
+
+/** One row per finished call with the fields the report groups by. */
+export async function exportAnalyticsCsv(query: AnalyticsQuery) {
+  const { analyzed, labels } = await analyze(query);
+  const header = [
+    "callId",
+    "startedAt",
+    "contactName",
+    "phoneNumber",
+    "objective",
+    "scriptStyle",
+    "template",
+    "campaign",
+    "localHour",
+    "localWeekday",
+    "attempt",
+    "status",
+    "reached",
+    "durationSeconds",
+    "failureReason"
+  ];
+  const rows = analyzed.map(({ call, keys }) => [
+    call.id,
+    call.dialedAt ?? call.createdAt,
+    call.contactName,
+    call.phoneNumber,
+    call.objective,
+    call.scriptStyle,
+    labels.template(keys.template),
+    labels.campaign(keys.campaign),
+    keys.hour,
+    labels.weekday(keys.weekday),
+    call.attempt ?? 1,
+    call.status,
+    call.reached,
+    call.duration,
+    failureReason(call)
+  ]);
+  return formatCsv([header, ...rows]);
+}
+
+async function analyze(query: AnalyticsQuery) {
+  const calls = await listCallsStartedBetween(
+    query.teamId,
+    query.from ? new Date(query.from) : undefined,
+    query.to ? new Date(query.to) : undefined
+  );
+  const templates = new Map(
+    (await listTemplates(query.teamId)).map(template => [template.id, template.name])
+  );
+  const campaigns = new Map(
+    (await listCampaignSummaries(query.teamId)).map(campaign => [campaign.id, campaign.name])
+  );
+
+  const analyzed: AnalyzedCall[] = calls
+    .filter(call => isTerminalStatus(call.status) && callDirection(call) === "outbound")
+    .sort((a, b) => (a.dialedAt ?? a.createdAt).localeCompare(b.dialedAt ?? b.createdAt))
+    .map(call => {
+      const { weekday, minutes } = localClock(
+        calleeTimezone(call),
+        new Date(call.dialedAt ?? call.createdAt)
+      );
+      return {
+        call,
+        keys: {
+          scriptStyle: call.scriptStyle,
+          template: call.templateId ?? "",
+          hour: String(Math.floor(minutes / 60)),
+          weekday: String(weekday),
+          campaign: call.campaignId ?? ""
+        }
+      };
+    });
+
+  const labels: Record<AnalyticsDimension, (key: string) => string> = {
+    scriptStyle: key => key,
+    template: key => (key ? templates.get(key) ?? "Deleted template" : "Built-in script"),
+    hour: key => `${key.padStart(2, "0")}:00`,
+    weekday: key => weekdayNames[Number(key)],
+    campaign: key => (key ? campaigns.get(key) ?? "Deleted campaign" : "Single calls")
+  };
+
+  return { analyzed, labels };
+}
+
+function summarize(calls: CallRecord[]): OutcomeStats {
+  const stats: OutcomeStats = {
+    calls: calls.length,
+    dialed: 0,
+    connected: 0,
+    human: 0,
+    machine: 0,
+    connectRate: 0,
+    failures: {}
+  };
+  let durationTotal = 0;
+  let durationCount = 0;
+
+  for (const call of calls) {
+    if (call.status !== "blocked") stats.dialed += 1;
+    if (call.status === "completed") {
+      stats.connected += 1;
+      if (call.reached === "human") stats.human += 1;
+      if (call.reached === "machine") stats.machine += 1;
+      if (call.duration !== undefined) {
+        durationTotal += call.duration;
+        durationCount += 1;
+      }
+    }
+    const reason = failureReason(call);
+    if (reason) stats.failures[reason] = (stats.failures[reason] ?? 0) + 1;
+  }
+
+  stats.connectRate = stats.dialed ? stats.connected / stats.dialed : 0;
+  if (durationCount) stats.averageDuration = Math.round(durationTotal / durationCount);
+  return stats;
+}
+
+function failureReason(call: CallRecord) {
+  if (call.status === "completed") return undefined;
+  if (call.status === "blocked") return `blocked:${call.blockReason?.code ?? "unknown"}`;
+  if (call.status === "failed" && call.errorCode) return `failed:${call.errorCode}`;
+  return call.status;
+}
@@ -0,0 +1,66 @@
+import { randomBytes } from "crypto";
+import type { Actor, ApiKeySummary, Role } from "../shared/auth";
+import { ServiceError } from "./errors";
+import { hashToken } from "./sessions";
+import { getStorage } from "./storage";
+
+const collection = "api-keys";
+const keyPrefix = "cak_";
+
+type ApiKeyRecord = ApiKeySummary & {
+  teamId: string;
+  hash: string;
+};
+
+/** Issues a key. The secret is returned once and only its hash is kept. */
+export async function createApiKey(
+  teamId: string,
+  input: { name: string; role: Role },
+  createdBy: Actor
+) {
+  const secret = `${keyPrefix}${randomBytes(24).toString("base64url")}`;
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    teamId,
+    name: input.name,
+    role: input.role,
+    prefix: secret.slice(0, keyPrefix.length + 6),
+    hash: hashToken(secret),
+    createdBy,
+    createdAt: new Date().toISOString()
+  };
+  await getStorage().put(collection, record.id, record);
+  return { key: summarize(record), secret };
+}
+
+export async function listApiKeys(teamId: string) {
+  const keys = await getStorage().list<ApiKeyRecord>(collection);
+  return keys
+    .filter(key => key.teamId === teamId)
+    .map(summarize)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeApiKey(teamId: string, id: string) {
+  const key = await getStorage().get<ApiKeyRecord>(collection, id);
+  if (!key || key.teamId !== teamId) throw new ServiceError("API key not found.", 404);
+  await getStorage().remove(collection, id);
+}
+
+/** Resolves a presented secret to its key and records when it was last used. */
+export async function findApiKey(secret: string) {
+  if (!secret.startsWith(keyPrefix)) return undefined;
+  const hash = hashToken(secret);
+  const keys = await getStorage().list<ApiKeyRecord>(collection);
+  const key = keys.find(item => item.hash === hash);
+  if (!key) return undefined;
+
+  await getStorage().update<ApiKeyRecord>(collection, key.id, current =>
+    current ? { ...current, lastUsedAt: new Date().toISOString() } : undefined
+  );
+  return key;
+}
+
+function summarize({ teamId: _teamId, hash: _hash, ...summary }: ApiKeyRecord): ApiKeySummary {
+  return summary;
+}
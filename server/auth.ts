@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { belongsToTeam, hasRole, type Actor, type Role } from "../shared/auth";
+import { getUser, memberRole } from "./accounts";
+import { findApiKey } from "./api-keys";
+import { getSession } from "./sessions";
+
+export const sessionCookie = "call_agent_session";
+
+/** An authenticated caller acting inside one workspace. */
+export type Principal = {
+  actor: Actor;
+  teamId: string;
+  role: Role;
+};
+
+export type AuthResult = { ok: true; principal: Principal } | { ok: false; response: NextResponse };
+
+/**
+ * Authenticates a request by API key (`Authorization: Bearer cak_…`) or
+ * session cookie and checks that the caller holds at least `required`.
+ * Session roles are read from the workspace on every request so role
+ * changes apply immediately.
+ */
+export async function authorize(request: Request, required: Role): Promise<AuthResult> {
+  const principal = await resolvePrincipal(request);
+
+  if (!principal) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, message: "Sign in or provide an API key." },
+        { status: 401 }
+      )
+    };
+  }
+
+  if (!hasRole(principal.role, required)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, message: `This action requires the ${required} role.` },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { ok: true, principal };
+}
+
+export function inWorkspace(principal: Principal, record: { teamId?: string }) {
+  return belongsToTeam(record, principal.teamId);
+}
+
+export function readSessionToken(request: Request) {
+  const header = request.headers.get("cookie") ?? "";
+  for (const part of header.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === sessionCookie) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: string) {
+  response.cookies.set(sessionCookie, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(expiresAt)
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(sessionCookie, "", { httpOnly: true, path: "/", maxAge: 0 });
+  return response;
+}
+
+async function resolvePrincipal(request: Request): Promise<Principal | undefined> {
+  const authorization = request.headers.get("authorization");
+
+  if (authorization?.startsWith("Bearer ")) {
+    const key = await findApiKey(authorization.slice("Bearer ".length).trim());
+    return key
+      ? { actor: { type: "api-key", id: key.id, name: key.name }, teamId: key.teamId, role: key.role }
+      : undefined;
+  }
+
+  const token = readSessionToken(request);
+  const session = token ? await getSession(token) : undefined;
+  if (!session) return undefined;
+
+  const [user, role] = await Promise.all([
+    getUser(session.userId),
+    memberRole(session.teamId, session.userId)
+  ]);
+  if (!user || !role) return undefined;
+
+  return { actor: { type: "user", id: user.id, name: user.name }, teamId: session.teamId, role };
+}
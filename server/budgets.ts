@@ -0,0 +1,94 @@
+import { isTerminalStatus } from "../shared/call-status";
+import type { CallRecord } from "../shared/calls";
+import {
+  describeBudget,
+  type BudgetMetric,
+  type BudgetPeriod,
+  type BudgetUsage
+} from "../shared/quota";
+import { listCallsDialedSince } from "./call-repository";
+
+type Budget = { period: BudgetPeriod; metric: BudgetMetric; limit: number };
+
+const budgetVariables: Record<BudgetPeriod, Record<BudgetMetric, string>> = {
+  day: { calls: "BUDGET_DAILY_CALLS", minutes: "BUDGET_DAILY_MINUTES" },
+  month: { calls: "BUDGET_MONTHLY_CALLS", minutes: "BUDGET_MONTHLY_MINUTES" }
+};
+
+/** Budgets set in the environment. Unset or zero means unlimited. */
+function configuredBudgets(): Budget[] {
+  const budgets: Budget[] = [];
+  for (const period of ["day", "month"] as const) {
+    for (const metric of ["calls", "minutes"] as const) {
+      const limit = Number(process.env[budgetVariables[period][metric]] ?? 0);
+      if (Number.isFinite(limit) && limit > 0) budgets.push({ period, metric, limit });
+    }
+  }
+  return budgets;
+}
+
+/** Minutes a call in flight is assumed to use until its duration is known. */
+export function estimatedMinutesPerCall() {
+  const value = Number(process.env.BUDGET_ESTIMATED_MINUTES ?? 2);
+  return Number.isFinite(value) && value >= 0 ? value : 2;
+}
+
+/**
+ * Spend so far in each configured budget. Budgets cover the whole deployment
+ * rather than one workspace, because every workspace dials from the same
+ * carrier account. Periods are UTC calendar days and months.
+ */
+export async function budgetUsage(now = new Date()): Promise<BudgetUsage[]> {
+  const budgets = configuredBudgets();
+  if (budgets.length === 0) return [];
+
+  const calls = await listCallsDialedSince(periodStart("month", now));
+  return budgets.map(budget => {
+    const start = periodStart(budget.period, now);
+    const inPeriod = calls.filter(
+      call => Date.parse(call.dialedAt ?? call.createdAt) >= start.getTime()
+    );
+    const used =
+      budget.metric === "calls"
+        ? inPeriod.length
+        : inPeriod.reduce((sum, call) => sum + billedMinutes(call), 0);
+    return {
+      ...budget,
+      used,
+      remaining: Math.max(0, budget.limit - used),
+      resetsAt: periodEnd(budget.period, now).toISOString()
+    };
+  });
+}
+
+/** The first budget that one more call would overrun, if any. */
+export async function exceededBudget(now = new Date()) {
+  const usage = await budgetUsage(now);
+  return usage.find(budget =>
+    budget.metric === "calls"
+      ? budget.used + 1 > budget.limit
+      : budget.used + estimatedMinutesPerCall() > budget.limit
+  );
+}
+
+export function budgetMessage(budget: BudgetUsage) {
+  return `${describeBudget(budget)} reached (${budget.used} of ${budget.limit} ${budget.metric} used). It resets at ${budget.resetsAt}.`;
+}
+
+/** Carriers bill each started minute; unanswered calls cost nothing. */
+function billedMinutes(call: CallRecord) {
+  if (call.duration !== undefined) return Math.ceil(call.duration / 60);
+  return isTerminalStatus(call.status) ? 0 : estimatedMinutesPerCall();
+}
+
+function periodStart(period: BudgetPeriod, now: Date) {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function periodEnd(period: BudgetPeriod, now: Date) {
+  return period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
@@ -0,0 +1,32 @@
+import { EventEmitter } from "events";
+import type { CallRecord } from "../shared/calls";
+
+type CallListener = (call: CallRecord) => void;
+
+// Kept on globalThis so route modules reloaded in development share one emitter.
+const globalEvents = globalThis as typeof globalThis & { __callEvents?: EventEmitter };
+
+function emitter() {
+  if (!globalEvents.__callEvents) {
+    globalEvents.__callEvents = new EventEmitter();
+    // One listener per open live-calls stream.
+    globalEvents.__callEvents.setMaxListeners(0);
+  }
+  return globalEvents.__callEvents;
+}
+
+/**
+ * Tells open live-call streams in this process that a call changed. Other
+ * server instances do not see it, so streams also refresh on a timer.
+ */
+export function publishCallChange(call: CallRecord) {
+  emitter().emit("change", call);
+}
+
+/** Returns a function that removes the listener. */
+export function subscribeCallChanges(listener: CallListener) {
+  emitter().on("change", listener);
+  return () => {
+    emitter().off("change", listener);
+  };
+}
@@ -0,0 +1,183 @@
+import type { CallRecord } from "../shared/calls";
+import type { RenderedScript } from "../shared/script-template";
+import { plainSpeech, speakingSeconds, type VoiceSettings } from "../shared/speech";
+import type { ResponderReply } from "./responders";
+import type { CallInstruction } from "./telephony";
+import { responseUrl, webhookUrl } from "./webhooks";
+
+const conversationPath = "/api/twilio/conversation";
+const transferPath = "/api/twilio/transfer";
+const whisperPath = "/api/twilio/whisper";
+const transferTimeoutSeconds = 20;
+const inboundMenuPath = "/api/twilio/inbound/menu";
+const inboundVoicemailPath = "/api/twilio/inbound/voicemail";
+const recordingPath = "/api/twilio/recording";
+const maxVoicemailSeconds = 120;
+export const transferFallbackMessage =
+  "I'm sorry, nobody from our team is available right now. We'll call you back as soon as we can. Goodbye.";
+const hangup: CallInstruction = { type: "hangup" };
+
+/**
+ * Opening instructions for an outbound call. When the public base URL is
+ * known the call listens for a reply and continues on the conversation
+ * route; otherwise it falls back to a one-way message. `spoken` is the
+ * same text without markup, for the transcript.
+ */
+export function buildOpening(call: CallRecord, script: RenderedScript) {
+  const action = webhookUrl(conversationPath, { callId: call.id });
+  const speak = (text: string) => say(text, call.voice);
+
+  if (!action || !script.question) {
+    const lines = [...script.opening, script.closing];
+    return { instructions: [...lines.map(speak), hangup], spoken: lines.map(plainSpeech) };
+  }
+
+  return {
+    instructions: [
+      ...script.opening.map(speak),
+      {
+        type: "gather",
+        prompt: script.question,
+        action,
+        voice: call.voice
+      } satisfies CallInstruction
+    ],
+    spoken: [...script.opening, script.question].map(plainSpeech)
+  };
+}
+
+export function buildTurn(call: CallRecord, reply: ResponderReply): CallInstruction[] {
+  const action = webhookUrl(conversationPath, { callId: call.id });
+  const number = transferNumber();
+
+  if (reply.next === "listen" && action) {
+    return [{ type: "gather", prompt: reply.say, action, voice: call.voice }];
+  }
+  if (reply.next === "transfer" && number) {
+    return buildTransfer(call, number, reply.say);
+  }
+  return [say(reply.say, call.voice), hangup];
+}
+
+/** The human agent line for warm transfers, from `TRANSFER_NUMBER`. */
+export function transferNumber() {
+  return process.env.TRANSFER_NUMBER?.trim() || undefined;
+}
+
+/**
+ * Tells the callee they are being connected, then rings the agent line. The
+ * agent hears a short briefing before the callee is bridged in.
+ */
+export function buildTransfer(
+  call: CallRecord,
+  number: string,
+  announcement: string
+): CallInstruction[] {
+  return [
+    say(announcement, call.voice),
+    {
+      type: "dial",
+      number,
+      action: webhookUrl(transferPath, { callId: call.id }),
+      whisperUrl: webhookUrl(whisperPath, { callId: call.id }),
+      timeoutSeconds: transferTimeoutSeconds
+    }
+  ];
+}
+
+/** What the agent hears on pickup: who is waiting and what they last said. */
+export function buildWhisper(call: CallRecord): CallInstruction[] {
+  const lastReply = [...(call.transcript ?? [])].reverse().find(turn => turn.speaker === "callee");
+  const lines = [
+    `Transfer from the call agent. ${call.contactName} is on the line about ${plainSpeech(call.objective)}.`,
+    lastReply ? `They last said: ${lastReply.text}.` : undefined,
+    "Connecting you now."
+  ];
+  return lines.filter((line): line is string => Boolean(line)).map(line => say(escapeMarkup(line)));
+}
+
+/** Played to the callee when the agent line is busy or does not pick up. */
+export function buildTransferFallback(call: CallRecord): CallInstruction[] {
+  return [say(transferFallbackMessage, call.voice), hangup];
+}
+
+/** Played once the voicemail greeting has finished and the beep has sounded. */
+export function buildVoicemail(message: string, voice?: VoiceSettings): CallInstruction[] {
+  return [{ type: "pause", seconds: 1 }, say(message, voice), hangup];
+}
+
+/**
+ * Lines that open an inbound call. Known callers are greeted by name and
+ * reminded what the call they are returning was about.
+ */
+export function inboundGreeting(call: CallRecord) {
+  if (!call.contactId && !call.returnedCallId) return ["Thanks for calling."];
+  const firstName = escapeMarkup(call.contactName.split(/\s+/)[0] ?? "");
+  return [
+    `Hi ${firstName}, thanks for calling us back.`,
+    ...(call.returnedCallId ? [`We reached out recently about ${plainSpeech(call.objective)}.`] : [])
+  ];
+}
+
+/** Reads the inbound menu and posts the caller's choice to the menu route. */
+export function buildInboundMenu(
+  call: CallRecord,
+  lines: string[],
+  menu: string,
+  attempt: number
+): CallInstruction[] {
+  return [
+    ...lines.map(line => say(line, call.voice)),
+    {
+      type: "gather",
+      prompt: menu,
+      action: responseUrl(inboundMenuPath, { callId: call.id, attempt: String(attempt) }),
+      voice: call.voice
+    }
+  ];
+}
+
+/** Asks the caller to leave a message and records it like a recorded call. */
+export function buildVoicemailRecording(call: CallRecord, lines: string[]): CallInstruction[] {
+  return [
+    ...lines.map(line => say(line, call.voice)),
+    {
+      type: "record",
+      action: responseUrl(inboundVoicemailPath, { callId: call.id }),
+      maxSeconds: maxVoicemailSeconds,
+      statusUrl: webhookUrl(recordingPath, { callId: call.id })
+    }
+  ];
+}
+
+/** Speaks the lines and ends the call. */
+export function buildGoodbye(call: CallRecord, lines: string[]): CallInstruction[] {
+  return [...lines.map(line => say(line, call.voice)), hangup];
+}
+
+export function hangupInstructions(): CallInstruction[] {
+  return [hangup];
+}
+
+/** About how long the spoken parts of `instructions` take, for simulated calls and dry runs. */
+export function spokenSeconds(instructions: CallInstruction[]) {
+  return instructions.reduce((total, instruction) => {
+    if (instruction.type === "pause") return total + instruction.seconds;
+    if (instruction.type === "say") {
+      return total + speakingSeconds(instruction.text, instruction.voice?.rate);
+    }
+    if (instruction.type === "gather") {
+      return total + speakingSeconds(instruction.prompt, instruction.voice?.rate);
+    }
+    return total;
+  }, 0);
+}
+
+function say(text: string, voice?: VoiceSettings): CallInstruction {
+  return { type: "say", text, voice };
+}
+
+/** Callee speech is spoken back verbatim, so angle brackets must not read as markup. */
+function escapeMarkup(text: string) {
+  return text.replace(/[<>]/g, " ");
+}
@@ -0,0 +1,254 @@
+import { belongsToTeam } from "../shared/auth";
+import { isTerminalStatus, type CallStatus } from "../shared/call-status";
+import {
+  callDirection,
+  type CallDirection,
+  type CallRecord,
+  type ConversationTurn
+} from "../shared/calls";
+import { normalizeDialNumber } from "../shared/compliance";
+import type { Contact } from "../shared/contacts";
+import { openTasks } from "../shared/dispositions";
+import { parsePhoneNumber } from "../shared/phone";
+import { publishCallChange } from "./call-events";
+import { emitCallEvent } from "./outbound-webhooks";
+import { getStorage } from "./storage";
+
+const collection = "calls";
+
+export type CallQuery = {
+  teamId?: string;
+  page: number;
+  pageSize: number;
+  status?: CallStatus[];
+  contact?: string;
+  /** Matches conversation turns and recording transcriptions. */
+  transcript?: string;
+  from?: string;
+  to?: string;
+  /** Leaves out retries so each chain is listed once, under its original call. */
+  rootsOnly?: boolean;
+  direction?: CallDirection;
+  /** A disposition code, or "none" for calls without one. */
+  disposition?: string;
+  /** Only calls with a task still to do. */
+  openTasks?: boolean;
+};
+
+export type NewCall = Omit<CallRecord, "id" | "createdAt" | "updatedAt"> &
+  Partial<Pick<CallRecord, "id" | "createdAt">>;
+
+export async function createCall(input: NewCall) {
+  const now = new Date().toISOString();
+  const record: CallRecord = {
+    ...input,
+    // Recomputed so retries to an alternate number don't carry the original's details.
+    phone: parsePhoneNumber(input.phoneNumber),
+    id: input.id ?? crypto.randomUUID(),
+    createdAt: input.createdAt ?? now,
+    updatedAt: now
+  };
+  const created = await getStorage().put(collection, record.id, record);
+  publishCallChange(created);
+  await emitCallEvent("call.created", created);
+  return created;
+}
+
+export async function getCall(id: string) {
+  return getStorage().get<CallRecord>(collection, id);
+}
+
+export async function listCalls(query: CallQuery) {
+  const all = await getStorage().list<CallRecord>(collection);
+  const contact = query.contact?.trim().toLowerCase();
+  const transcript = query.transcript?.trim().toLowerCase();
+  const from = query.from ? Date.parse(query.from) : undefined;
+  const to = query.to ? Date.parse(query.to) : undefined;
+
+  const matches = all
+    .filter(call => !query.teamId || belongsToTeam(call, query.teamId))
+    .filter(call => !query.rootsOnly || !call.parentCallId)
+    .filter(call => !query.status?.length || query.status.includes(call.status))
+    .filter(call => !query.direction || callDirection(call) === query.direction)
+    .filter(call => !query.disposition || (call.disposition?.code ?? "none") === query.disposition)
+    .filter(call => !query.openTasks || openTasks(call.disposition).length > 0)
+    .filter(
+      call =>
+        !contact ||
+        call.contactName.toLowerCase().includes(contact) ||
+        call.phoneNumber.includes(contact)
+    )
+    .filter(call => !transcript || transcriptText(call).toLowerCase().includes(transcript))
+    .filter(call => {
+      const created = Date.parse(call.createdAt);
+      return (from === undefined || created >= from) && (to === undefined || created <= to);
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    calls: matches.slice(start, start + query.pageSize),
+    total: matches.length
+  };
+}
+
+export async function updateCall(id: string, patch: Partial<Omit<CallRecord, "id">>) {
+  const updated = await getStorage().update<CallRecord>(collection, id, current =>
+    current ? { ...current, ...patch, updatedAt: new Date().toISOString() } : undefined
+  );
+  if (updated) publishCallChange(updated);
+  return updated;
+}
+
+export async function appendTranscript(id: string, turns: ConversationTurn[]) {
+  const updated = await getStorage().update<CallRecord>(collection, id, current =>
+    current
+      ? {
+          ...current,
+          transcript: [...(current.transcript ?? []), ...turns],
+          updatedAt: new Date().toISOString()
+        }
+      : undefined
+  );
+  if (updated) publishCallChange(updated);
+  return updated;
+}
+
+/** Retries of the given original calls, oldest first. */
+export async function listAttempts(parentIds: string[]) {
+  const parents = new Set(parentIds);
+  const all = await getStorage().list<CallRecord>(collection);
+  return all
+    .filter(call => call.parentCallId && parents.has(call.parentCallId))
+    .sort((a, b) => (a.attempt ?? 1) - (b.attempt ?? 1));
+}
+
+/**
+ * Links the retry that follows a finished call. Returns `undefined` when one
+ * is already linked, so repeated status callbacks never schedule twice.
+ */
+export async function claimNextAttempt(id: string, nextAttemptId: string) {
+  return getStorage().update<CallRecord>(collection, id, current =>
+    current && !current.nextAttemptId
+      ? { ...current, nextAttemptId, updatedAt: new Date().toISOString() }
+      : undefined
+  );
+}
+
+/**
+ * Every call to a contact, newest first: calls linked to it, plus unlinked
+ * calls in its workspace that dialed its number.
+ */
+export async function listCallsForContact(
+  contact: Pick<Contact, "id" | "phoneNumber" | "teamId">
+) {
+  const all = await getStorage().list<CallRecord>(collection);
+  return all
+    .filter(
+      call =>
+        call.contactId === contact.id ||
+        (!call.contactId &&
+          call.teamId === contact.teamId &&
+          normalizeDialNumber(call.phoneNumber) === contact.phoneNumber)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Moves calls from a merged-away contact onto the one that absorbed it. */
+export async function reassignContactCalls(fromId: string, toId: string) {
+  const all = await getStorage().list<CallRecord>(collection);
+  for (const call of all.filter(item => item.contactId === fromId)) {
+    await updateCall(call.id, { contactId: toId });
+  }
+}
+
+export async function listCallsForCampaign(campaignId: string) {
+  const all = await getStorage().list<CallRecord>(collection);
+  return all.filter(call => call.campaignId === campaignId);
+}
+
+/** Calls handed to the provider at or after `since`, for spend budgets. */
+export async function listCallsDialedSince(since: Date) {
+  const all = await getStorage().list<CallRecord>(collection);
+  return all.filter(call => {
+    if (callDirection(call) === "inbound") return false;
+    const dialedAt = call.dialedAt ?? (call.callSid ? call.createdAt : undefined);
+    return dialedAt !== undefined && Date.parse(dialedAt) >= since.getTime();
+  });
+}
+
+/** Every call of a workspace that started (was dialed, or created if never dialed) in the range. */
+export async function listCallsStartedBetween(teamId: string, from?: Date, to?: Date) {
+  const calls = await getStorage().list<CallRecord>(collection);
+  return calls.filter(call => {
+    const started = Date.parse(call.dialedAt ?? call.createdAt);
+    return (
+      belongsToTeam(call, teamId) &&
+      (!from || started >= from.getTime()) &&
+      (!to || started <= to.getTime())
+    );
+  });
+}
+
+/** Calls of a workspace handed to the provider that have not ended yet, newest first. */
+export async function listLiveCalls(teamId: string) {
+  const calls = await getStorage().list<CallRecord>(collection);
+  return calls
+    .filter(call => belongsToTeam(call, teamId) && call.callSid && !isTerminalStatus(call.status))
+    .sort((a, b) => (b.dialedAt ?? b.createdAt).localeCompare(a.dialedAt ?? a.createdAt));
+}
+
+/**
+ * The latest outbound call to a number, for recognising people who call or
+ * text back. Without a team it searches every workspace, since the default
+ * caller ID is shared. Calls shown from `callerId` win over more recent ones.
+ */
+export async function findLastOutboundCall(
+  phoneNumber: string,
+  match: { teamId?: string; callerId?: string } = {}
+) {
+  const normalized = normalizeDialNumber(phoneNumber);
+  const callerId = match.callerId ? normalizeDialNumber(match.callerId) : undefined;
+  const all = await getStorage().list<CallRecord>(collection);
+  return all
+    .filter(
+      call =>
+        callDirection(call) === "outbound" &&
+        call.callSid &&
+        normalizeDialNumber(call.phoneNumber) === normalized &&
+        (!match.teamId || call.teamId === match.teamId)
+    )
+    .sort(
+      (a, b) =>
+        Number(Boolean(callerId) && b.callerId === callerId) -
+          Number(Boolean(callerId) && a.callerId === callerId) ||
+        b.createdAt.localeCompare(a.createdAt)
+    )[0];
+}
+
+export async function findCallBySid(callSid: string) {
+  const all = await getStorage().list<CallRecord>(collection);
+  return all.find(call => call.callSid === callSid);
+}
+
+/**
+ * Inserts records that are not already stored. Used for the one-time
+ * migration of browser-only history, so existing ids are never overwritten.
+ */
+export async function importCalls(records: CallRecord[]) {
+  let imported = 0;
+  for (const record of records) {
+    const stored = await getStorage().update<CallRecord>(collection, record.id, current =>
+      current ? undefined : record
+    );
+    if (stored) imported += 1;
+  }
+  return imported;
+}
+
+function transcriptText(call: CallRecord) {
+  return [
+    ...(call.transcript ?? []).map(turn => turn.text),
+    call.recording?.transcription?.text ?? ""
+  ].join("\n");
+}
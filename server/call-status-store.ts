@@ -0,0 +1,75 @@
+import { belongsToTeam } from "../shared/auth";
+import {
+  isTerminalStatus,
+  type CallStatusEvent,
+  type CallStatusSnapshot
+} from "../shared/call-status";
+import { reachedFromAnsweredBy } from "../shared/voicemail";
+import { findCallBySid, updateCall } from "./call-repository";
+import { sendCallFollowUps } from "./follow-ups";
+import { emitCallOutcome } from "./outbound-webhooks";
+import { scheduleRetry } from "./retries";
+import { getStorage } from "./storage";
+
+const collection = "call-status";
+
+export async function recordStatusEvent(event: CallStatusEvent) {
+  const snapshot = await getStorage().update<CallStatusSnapshot>(
+    collection,
+    event.callSid,
+    existing => {
+      const events = [...(existing?.events ?? []), event].sort(
+        (a, b) => a.sequenceNumber - b.sequenceNumber
+      );
+      // Twilio may deliver callbacks out of order, so the latest sequence wins.
+      const latest = events[events.length - 1];
+      // Only some callbacks carry the answering-machine result.
+      const answered = events.filter(entry => entry.answeredBy).pop();
+
+      return {
+        callSid: event.callSid,
+        status: latest.status,
+        updatedAt: latest.receivedAt,
+        duration: latest.duration ?? existing?.duration,
+        answeredBy: answered?.answeredBy,
+        errorCode: latest.errorCode ?? existing?.errorCode,
+        errorMessage: latest.errorMessage ?? existing?.errorMessage,
+        events
+      };
+    }
+  );
+
+  const call = await findCallBySid(event.callSid);
+  if (call && snapshot) {
+    const updated = await updateCall(call.id, {
+      status: snapshot.status,
+      duration: snapshot.duration,
+      answeredBy: snapshot.answeredBy,
+      errorCode: snapshot.errorCode,
+      ...(snapshot.answeredBy ? { reached: reachedFromAnsweredBy(snapshot.answeredBy) } : {})
+    });
+    if (updated && isTerminalStatus(updated.status)) {
+      // Late or repeated callbacks must not announce or follow up on the outcome twice.
+      const ended = !isTerminalStatus(call.status);
+      if (ended) await emitCallOutcome(updated);
+      const retry = await scheduleRetry(updated);
+      if (ended) await sendCallFollowUps(updated, retry);
+    }
+  }
+
+  return snapshot;
+}
+
+/** Snapshots of the workspace's calls; sids of other workspaces' calls are skipped. */
+export async function getStatusSnapshots(callSids: string[], teamId: string) {
+  const storage = getStorage();
+  const snapshots = await Promise.all(
+    callSids.map(async callSid => {
+      const call = await findCallBySid(callSid);
+      return call && belongsToTeam(call, teamId)
+        ? storage.get<CallStatusSnapshot>(collection, callSid)
+        : undefined;
+    })
+  );
+  return snapshots.filter((snapshot): snapshot is CallStatusSnapshot => Boolean(snapshot));
+}
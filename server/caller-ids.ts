@@ -0,0 +1,210 @@
+import { belongsToTeam } from "../shared/auth";
+import {
+  nanpAreaCode,
+  type CallerId,
+  type CallerIdInput,
+  type CallerIdSummary
+} from "../shared/caller-ids";
+import { callDirection, type CallRecord } from "../shared/calls";
+import { normalizeDialNumber } from "../shared/compliance";
+import { parsePhoneNumber } from "../shared/phone";
+import { listCallsStartedBetween } from "./call-repository";
+import { getContact, listContacts, pinCallerId } from "./contacts";
+import { ServiceError } from "./errors";
+import { getStorage } from "./storage";
+
+const collection = "caller-ids";
+
+/** The workspace's pool, retired numbers included, oldest first. */
+export async function listCallerIds(teamId: string) {
+  const all = await getStorage().list<CallerId>(collection);
+  return all
+    .filter(callerId => belongsToTeam(callerId, teamId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The workspace with the number in its pool. Numbers still in service win
+ * over retired ones.
+ */
+export async function findNumberOwner(phoneNumber?: string) {
+  const normalized = phoneNumber ? normalizeDialNumber(phoneNumber) : undefined;
+  const all = await getStorage().list<CallerId>(collection);
+  const owner = all
+    .filter(callerId => callerId.phoneNumber === normalized)
+    .sort((a, b) => Number(Boolean(a.retiredAt)) - Number(Boolean(b.retiredAt)))[0];
+  return owner?.teamId;
+}
+
+/** Where calls and texts no workspace claims are filed, if anywhere. */
+export function defaultInboundTeam() {
+  return process.env.INBOUND_TEAM_ID || undefined;
+}
+
+/** Every number in the pool with its call counts and pinned contacts. */
+export async function listCallerIdSummaries(
+  teamId: string,
+  now = new Date()
+): Promise<CallerIdSummary[]> {
+  const callerIds = await listCallerIds(teamId);
+  const calls = (await listCallsStartedBetween(teamId)).filter(
+    call => callDirection(call) === "outbound" && call.callerId
+  );
+  const contacts = await listContacts(teamId);
+  const today = startOfUtcDay(now);
+
+  return callerIds.map(callerId => {
+    const placed = calls.filter(call => call.callerId === callerId.phoneNumber);
+    const lastUsedAt = placed
+      .map(call => call.dialedAt ?? call.createdAt)
+      .sort()
+      .pop();
+    return {
+      ...callerId,
+      usage: {
+        today: placed.filter(call => dialedSince(call, today)).length,
+        total: placed.length,
+        answered: placed.filter(answeredByPerson).length,
+        pinnedContacts: contacts.filter(contact => contact.callerId === callerId.phoneNumber)
+          .length,
+        lastUsedAt
+      }
+    };
+  });
+}
+
+/** Adds a number to the pool; adding a retired number brings it back. */
+export async function addCallerId(teamId: string, input: CallerIdInput) {
+  const details = parsePhoneNumber(input.phoneNumber);
+  if (!details) throw new ServiceError("That is not a valid phone number.", 400);
+
+  const existing = (await listCallerIds(teamId)).find(
+    callerId => callerId.phoneNumber === details.e164
+  );
+  if (existing && !existing.retiredAt) {
+    throw new ServiceError("That number is already in the pool.", 409);
+  }
+
+  const now = new Date().toISOString();
+  const callerId: CallerId = {
+    id: existing?.id ?? crypto.randomUUID(),
+    phoneNumber: details.e164,
+    label: input.label || undefined,
+    country: details.country,
+    region: details.region,
+    dailyCap: input.dailyCap,
+    health: input.health,
+    teamId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  return getStorage().put(collection, callerId.id, callerId);
+}
+
+export async function updateCallerId(
+  id: string,
+  teamId: string,
+  patch: Partial<Omit<CallerIdInput, "phoneNumber">>
+) {
+  const updated = await getStorage().update<CallerId>(collection, id, current => {
+    if (!current || !belongsToTeam(current, teamId)) return undefined;
+    return {
+      ...current,
+      ...patch,
+      label: patch.label === undefined ? current.label : patch.label || undefined,
+      updatedAt: new Date().toISOString()
+    };
+  });
+  if (!updated) throw new ServiceError("Caller ID not found.", 404);
+  return updated;
+}
+
+/** Takes a number out of rotation; contacts pinned to it move on their next call. */
+export async function retireCallerId(id: string, teamId: string) {
+  const now = new Date().toISOString();
+  const updated = await getStorage().update<CallerId>(collection, id, current =>
+    current && belongsToTeam(current, teamId)
+      ? { ...current, retiredAt: current.retiredAt ?? now, updatedAt: now }
+      : undefined
+  );
+  if (!updated) throw new ServiceError("Caller ID not found.", 404);
+  return updated;
+}
+
+/**
+ * The pool number a call should show. A contact's pinned number is kept
+ * while it is in service and under its cap. Otherwise the closest match to
+ * the callee wins: same area code, then region, then country. Ties go to
+ * healthy numbers, then the one used least today, so calls rotate across
+ * the pool. Undefined when the workspace has no usable number, in which case
+ * the provider's default caller ID is used.
+ */
+export async function chooseCallerId(
+  call: Pick<CallRecord, "phoneNumber" | "phone" | "teamId" | "contactId">,
+  now = new Date()
+) {
+  if (!call.teamId) return undefined;
+  const pool = (await listCallerIdSummaries(call.teamId, now)).filter(
+    callerId =>
+      !callerId.retiredAt &&
+      callerId.health !== "flagged" &&
+      callerId.usage.today < callerId.dailyCap
+  );
+  if (pool.length === 0) return undefined;
+
+  const contact = call.contactId ? await getContact(call.contactId, call.teamId) : undefined;
+  const pinned = pool.find(callerId => callerId.phoneNumber === contact?.callerId);
+  if (pinned) return pinned;
+
+  const callee = call.phone ?? parsePhoneNumber(call.phoneNumber);
+  const areaCode = nanpAreaCode(call.phoneNumber);
+  const closeness = (callerId: CallerIdSummary) =>
+    areaCode && nanpAreaCode(callerId.phoneNumber) === areaCode
+      ? 3
+      : callee?.region && callerId.region === callee.region && callerId.country === callee.country
+        ? 2
+        : callerId.country === callee?.country
+          ? 1
+          : 0;
+
+  return [...pool].sort(
+    (a, b) =>
+      closeness(b) - closeness(a) ||
+      Number(b.health === "healthy") - Number(a.health === "healthy") ||
+      a.usage.today - b.usage.today ||
+      (a.usage.lastUsedAt ?? "").localeCompare(b.usage.lastUsedAt ?? "")
+  )[0];
+}
+
+/**
+ * Pins the number to the call's contact. A contact keeps the number it is
+ * already pinned to while that number is in service, even on days it is
+ * capped out and another number stands in.
+ */
+export async function pinToContact(
+  call: Pick<CallRecord, "teamId" | "contactId">,
+  phoneNumber: string
+) {
+  if (!call.teamId || !call.contactId) return;
+  const contact = await getContact(call.contactId, call.teamId);
+  if (!contact || contact.callerId === phoneNumber) return;
+
+  const current = contact.callerId
+    ? (await listCallerIds(call.teamId)).find(entry => entry.phoneNumber === contact.callerId)
+    : undefined;
+  if (current && !current.retiredAt && current.health !== "flagged") return;
+  await pinCallerId(contact.id, phoneNumber);
+}
+
+function startOfUtcDay(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/** Calls a person picked up. Completed calls without machine detection count too. */
+function answeredByPerson(call: CallRecord) {
+  return call.reached ? call.reached === "human" : call.status === "completed";
+}
+
+function dialedSince(call: CallRecord, since: Date) {
+  return Date.parse(call.dialedAt ?? call.createdAt) >= since.getTime();
+}
@@ -0,0 +1,254 @@
+import { belongsToTeam, type Actor } from "../shared/auth";
+import { isTerminalStatus } from "../shared/call-status";
+import type { CallRecord } from "../shared/calls";
+import type {
+  Campaign,
+  CampaignContact,
+  CampaignProgress,
+  CampaignRow,
+  CampaignStatus,
+  CampaignSummary
+} from "../shared/campaigns";
+import { exceededBudget } from "./budgets";
+import { createCall, listCallsForCampaign } from "./call-repository";
+import { calleeTimezone, isWithinCallingHours } from "./compliance";
+import { findContactByPhone } from "./contacts";
+import { dialCall } from "./dialer";
+import { ServiceError } from "./errors";
+import { dialLimitBlock } from "./rate-limits";
+import { recordingOptions } from "./settings";
+import { getStorage } from "./storage";
+
+const collection = "campaigns";
+const rateWindowMs = 60_000;
+
+export type CampaignAction = "start" | "pause" | "resume" | "cancel";
+
+const transitions: Record<CampaignAction, { from: CampaignStatus[]; to: CampaignStatus }> = {
+  start: { from: ["draft"], to: "running" },
+  pause: { from: ["running"], to: "paused" },
+  resume: { from: ["paused"], to: "running" },
+  cancel: { from: ["draft", "running", "paused"], to: "canceled" }
+};
+
+export async function createCampaign(input: {
+  teamId: string;
+  createdBy: Actor;
+  name: string;
+  concurrency: number;
+  callsPerMinute: number;
+  contacts: (CampaignRow & { row: number })[];
+}) {
+  const now = new Date().toISOString();
+  const campaign: Campaign = {
+    ...input,
+    id: crypto.randomUUID(),
+    status: "draft",
+    createdAt: now,
+    updatedAt: now
+  };
+  return getStorage().put(collection, campaign.id, campaign);
+}
+
+export async function getCampaign(id: string) {
+  return getStorage().get<Campaign>(collection, id);
+}
+
+export async function listCampaignSummaries(teamId: string) {
+  const campaigns = await getStorage().list<Campaign>(collection);
+  const summaries = await Promise.all(
+    campaigns.filter(campaign => belongsToTeam(campaign, teamId)).map(summarizeCampaign)
+  );
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function summarizeCampaign(campaign: Campaign): Promise<CampaignSummary> {
+  const { contacts, ...rest } = campaign;
+  const calls = await callsById(campaign.id);
+  return { ...rest, progress: measureProgress(contacts, calls) };
+}
+
+export async function changeCampaignStatus(id: string, action: CampaignAction) {
+  const { from, to } = transitions[action];
+  let current: CampaignStatus | undefined;
+  const updated = await getStorage().update<Campaign>(collection, id, campaign => {
+    current = campaign?.status;
+    if (!campaign || !from.includes(campaign.status)) return undefined;
+    return { ...campaign, status: to, updatedAt: new Date().toISOString() };
+  });
+
+  if (!updated) {
+    throw current
+      ? new ServiceError(`Cannot ${action} a campaign that is ${current}.`, 409)
+      : new ServiceError("Campaign not found.", 404);
+  }
+  return updated;
+}
+
+/** Dials the next batch for every running campaign. Called from the scheduler tick. */
+export async function advanceRunningCampaigns(now = new Date()) {
+  const campaigns = await getStorage().list<Campaign>(collection);
+  let dialed = 0;
+  for (const campaign of campaigns.filter(item => item.status === "running")) {
+    dialed += await advanceCampaign(campaign.id, now);
+  }
+  return dialed;
+}
+
+/**
+ * Dials as many pending contacts as the concurrency and calls-per-minute
+ * limits allow. Contacts are claimed inside a storage update before dialing
+ * so overlapping ticks never dial the same row twice. While a spend budget
+ * or the global dial limit is exhausted nothing is claimed and contacts wait
+ * for it to reset; numbers at their own dial limit wait the same way.
+ */
+export async function advanceCampaign(id: string, now = new Date()) {
+  if ((await exceededBudget(now)) || (await dialLimitBlock(undefined, now.getTime()))) return 0;
+  const limited = await rateLimitedRows(id, now);
+  const calls = await callsById(id);
+  let claimed: CampaignContact[] = [];
+  let owner: Pick<Campaign, "teamId" | "createdBy"> = {};
+
+  await getStorage().update<Campaign>(collection, id, campaign => {
+    if (campaign?.status !== "running") return undefined;
+    owner = { teamId: campaign.teamId, createdBy: campaign.createdBy };
+
+    const active = campaign.contacts.filter(contact => {
+      const call = contact.callId ? calls.get(contact.callId) : undefined;
+      return contact.callId && (!call || !isTerminalStatus(call.status));
+    }).length;
+    const recent = campaign.contacts.filter(
+      contact => contact.dialedAt && now.getTime() - Date.parse(contact.dialedAt) < rateWindowMs
+    ).length;
+    const pending = campaign.contacts.filter(contact => !contact.callId);
+    // Contacts outside their calling hours stay pending until a later tick.
+    const callable = pending.filter(
+      contact =>
+        !limited.has(contact.row) && isWithinCallingHours(calleeTimezone(contact), now)
+    );
+    const budget = Math.max(
+      0,
+      Math.min(campaign.concurrency - active, campaign.callsPerMinute - recent)
+    );
+
+    if (pending.length === 0 && active === 0) {
+      return { ...campaign, status: "completed", updatedAt: now.toISOString() };
+    }
+    if (budget === 0 || callable.length === 0) return undefined;
+
+    claimed = callable.slice(0, budget).map(contact => ({
+      ...contact,
+      callId: crypto.randomUUID(),
+      dialedAt: now.toISOString()
+    }));
+    const byRow = new Map(claimed.map(contact => [contact.row, contact]));
+
+    return {
+      ...campaign,
+      contacts: campaign.contacts.map(contact => byRow.get(contact.row) ?? contact),
+      updatedAt: now.toISOString()
+    };
+  });
+
+  const recording = await recordingOptions(owner.teamId);
+  const released = new Set<number>();
+
+  for (const contact of claimed) {
+    // Earlier dials in this batch may have filled a window since the rows were claimed.
+    if (await dialLimitBlock(contact.phoneNumber, now.getTime())) {
+      released.add(contact.row);
+      continue;
+    }
+    const call = await createCall({
+      id: contact.callId,
+      contactName: contact.contactName,
+      phoneNumber: contact.phoneNumber,
+      objective: contact.objective,
+      scriptStyle: contact.scriptStyle,
+      notes: contact.notes,
+      consentGranted: contact.consentGranted,
+      consentSource: contact.consentSource,
+      timezone: contact.timezone,
+      ...recording,
+      status: "queued",
+      campaignId: id,
+      teamId: owner.teamId,
+      launchedBy: owner.createdBy,
+      contactId: owner.teamId
+        ? (await findContactByPhone(owner.teamId, contact.phoneNumber))?.id
+        : undefined
+    });
+    await dialCall(call);
+  }
+  if (released.size > 0) await releaseRows(id, released, now);
+
+  return claimed.length - released.size;
+}
+
+/**
+ * Pending rows whose number is at its dial limit. Rows are checked in order
+ * until a full batch of dialable ones is found, which is as far as a tick
+ * can claim.
+ */
+async function rateLimitedRows(id: string, now: Date) {
+  const campaign = await getCampaign(id);
+  const limited = new Set<number>();
+  let dialable = 0;
+
+  for (const contact of campaign?.contacts ?? []) {
+    if (!campaign || dialable >= campaign.concurrency) break;
+    if (contact.callId || !isWithinCallingHours(calleeTimezone(contact), now)) continue;
+    if (await dialLimitBlock(contact.phoneNumber, now.getTime())) limited.add(contact.row);
+    else dialable += 1;
+  }
+  return limited;
+}
+
+/** Returns claimed rows to pending so a later tick dials them. */
+async function releaseRows(id: string, rows: Set<number>, now: Date) {
+  await getStorage().update<Campaign>(collection, id, campaign =>
+    campaign
+      ? {
+          ...campaign,
+          contacts: campaign.contacts.map(contact =>
+            rows.has(contact.row) ? { ...contact, callId: undefined, dialedAt: undefined } : contact
+          ),
+          updatedAt: now.toISOString()
+        }
+      : undefined
+  );
+}
+
+async function callsById(campaignId: string) {
+  const calls = await listCallsForCampaign(campaignId);
+  return new Map(calls.map(call => [call.id, call]));
+}
+
+const answeredStatuses = new Set(["in-progress", "completed"]);
+const failedStatuses = new Set(["failed", "busy", "no-answer", "canceled", "blocked"]);
+
+function measureProgress(
+  contacts: CampaignContact[],
+  calls: Map<string, CallRecord>
+): CampaignProgress {
+  const progress: CampaignProgress = {
+    total: contacts.length,
+    pending: 0,
+    dialed: 0,
+    answered: 0,
+    failed: 0
+  };
+
+  for (const contact of contacts) {
+    const call = contact.callId ? calls.get(contact.callId) : undefined;
+    if (!contact.callId) {
+      progress.pending += 1;
+      continue;
+    }
+    progress.dialed += 1;
+    if (call && answeredStatuses.has(call.status)) progress.answered += 1;
+    if (call && failedStatuses.has(call.status)) progress.failed += 1;
+  }
+
+  return progress;
+}
@@ -0,0 +1,164 @@
+import type { CallRecord } from "../shared/calls";
+import { BlockReason, DoNotCallEntry, normalizeDialNumber } from "../shared/compliance";
+import { inferTimezone } from "../shared/phone-timezone";
+import { getStorage } from "./storage";
+
+const dncCollection = "do-not-call";
+const quarterHourMs = 15 * 60 * 1000;
+// Eight days of quarter hours covers any weekly window.
+const maxWindowSearchSteps = 8 * 24 * 4;
+
+export type CallingHours = {
+  startHour: number;
+  endHour: number;
+  days: number[];
+};
+
+export function getCallingHours(): CallingHours {
+  return {
+    startHour: Number(process.env.CALLING_HOURS_START ?? 8),
+    endHour: Number(process.env.CALLING_HOURS_END ?? 21),
+    days: parseDays(process.env.CALLING_DAYS ?? "0-6")
+  };
+}
+
+export async function listDoNotCall() {
+  const entries = await getStorage().list<DoNotCallEntry>(dncCollection);
+  return entries.sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+export async function addDoNotCall(entries: Omit<DoNotCallEntry, "addedAt">[]) {
+  const addedAt = new Date().toISOString();
+  const stored: DoNotCallEntry[] = [];
+  for (const entry of entries) {
+    const phoneNumber = normalizeDialNumber(entry.phoneNumber);
+    stored.push(
+      await getStorage().put(dncCollection, phoneNumber, { ...entry, phoneNumber, addedAt })
+    );
+  }
+  return stored;
+}
+
+export async function removeDoNotCall(phoneNumber: string) {
+  return getStorage().remove(dncCollection, normalizeDialNumber(phoneNumber));
+}
+
+export async function isDoNotCall(phoneNumber: string) {
+  return Boolean(
+    await getStorage().get<DoNotCallEntry>(dncCollection, normalizeDialNumber(phoneNumber))
+  );
+}
+
+export function calleeTimezone(call: Pick<CallRecord, "phoneNumber" | "timezone">) {
+  return (
+    call.timezone ??
+    inferTimezone(call.phoneNumber) ??
+    process.env.COMPLIANCE_DEFAULT_TIMEZONE ??
+    "America/New_York"
+  );
+}
+
+export function isWithinCallingHours(timeZone: string, at: Date, hours = getCallingHours()) {
+  const { weekday, minutes } = localClock(timeZone, at);
+  return (
+    hours.days.includes(weekday) &&
+    minutes >= hours.startHour * 60 &&
+    minutes < hours.endHour * 60
+  );
+}
+
+/** First quarter hour at or after `from` that falls inside the calling window. */
+export function nextAllowedTime(timeZone: string, from: Date, hours = getCallingHours()) {
+  if (isWithinCallingHours(timeZone, from, hours)) return from;
+  // Zone offsets are whole quarter hours, so aligned UTC steps land exactly
+  // on the local window start.
+  const aligned = Math.ceil(from.getTime() / quarterHourMs) * quarterHourMs;
+  for (let step = 0; step < maxWindowSearchSteps; step += 1) {
+    const candidate = new Date(aligned + step * quarterHourMs);
+    if (isWithinCallingHours(timeZone, candidate, hours)) return candidate;
+  }
+  return undefined;
+}
+
+/** Moves a scheduled dial time forward into the callee's calling window. */
+export function alignToCallingWindow(
+  call: Pick<CallRecord, "phoneNumber" | "timezone">,
+  runAt: Date
+) {
+  return nextAllowedTime(calleeTimezone(call), runAt) ?? runAt;
+}
+
+/**
+ * Runs every pre-dial check for a call. Returns the first reason that blocks
+ * it, or undefined when the call may be placed now.
+ */
+export async function checkCompliance(
+  call: CallRecord,
+  now = new Date()
+): Promise<BlockReason | undefined> {
+  if (await isDoNotCall(call.phoneNumber)) {
+    return { code: "do_not_call", message: `${call.phoneNumber} is on the do-not-call list.` };
+  }
+
+  if (process.env.COMPLIANCE_REQUIRE_CONSENT !== "false") {
+    if (!call.consentGranted || !call.consentSource?.trim()) {
+      return {
+        code: "consent_missing",
+        message: "Record the contact's consent and its source before calling."
+      };
+    }
+  }
+
+  const timeZone = calleeTimezone(call);
+  if (!isWithinCallingHours(timeZone, now)) {
+    const nextAllowed = nextAllowedTime(timeZone, now);
+    const { startHour, endHour } = getCallingHours();
+    return {
+      code: "outside_calling_hours",
+      message: `Calls are only allowed between ${startHour}:00 and ${endHour}:00 in ${timeZone}.`,
+      nextAllowedAt: nextAllowed?.toISOString(),
+      timeZone
+    };
+  }
+
+  return undefined;
+}
+
+const weekdayIndex: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6
+};
+
+/** Weekday (0 = Sunday) and minutes past midnight at `at` in `timeZone`. */
+export function localClock(timeZone: string, at: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23"
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(item => item.type === type)?.value ?? "0";
+
+  return {
+    weekday: weekdayIndex[part("weekday")] ?? 0,
+    minutes: Number(part("hour")) * 60 + Number(part("minute"))
+  };
+}
+
+/** Reads day lists such as `1-5` or `0,6` (0 = Sunday). */
+export function parseDays(value: string) {
+  const days = new Set<number>();
+  for (const token of value.split(",").filter(item => item.trim())) {
+    const [start, end = start] = token.split("-").map(item => Number(item.trim()));
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+    for (let day = start; day <= end; day += 1) days.add(day);
+  }
+  return Array.from(days);
+}
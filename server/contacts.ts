@@ -0,0 +1,185 @@
+import { belongsToTeam } from "../shared/auth";
+import { normalizeDialNumber } from "../shared/compliance";
+import type { RowError } from "../shared/campaigns";
+import { Contact, ContactInput, contactInputSchemaFor, normalizeTags } from "../shared/contacts";
+import { reassignContactCalls } from "./call-repository";
+import { ServiceError } from "./errors";
+import { getTeamSettings } from "./settings";
+import { reassignContactMessages } from "./sms";
+import { getStorage } from "./storage";
+
+const collection = "contacts";
+
+export type ContactQuery = { q?: string; tag?: string };
+
+export async function listContacts(teamId: string, query: ContactQuery = {}) {
+  const all = await getStorage().list<Contact>(collection);
+  const term = query.q?.trim().toLowerCase();
+  const digits = term?.replace(/\D/g, "");
+  const tag = query.tag?.trim().toLowerCase();
+
+  return all
+    .filter(contact => belongsToTeam(contact, teamId))
+    .filter(contact => !tag || contact.tags.includes(tag))
+    .filter(
+      contact =>
+        !term ||
+        contact.name.toLowerCase().includes(term) ||
+        contact.company?.toLowerCase().includes(term) ||
+        (digits && digits.length >= 3 && contact.phoneNumber.includes(digits))
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getContact(id: string, teamId: string) {
+  const contact = await getStorage().get<Contact>(collection, id);
+  return contact && belongsToTeam(contact, teamId) ? contact : undefined;
+}
+
+export async function findContactByPhone(teamId: string, phoneNumber: string) {
+  const normalized = normalizeDialNumber(phoneNumber);
+  const all = await getStorage().list<Contact>(collection);
+  return all.find(contact => contact.teamId === teamId && contact.phoneNumber === normalized);
+}
+
+/** The most recently updated contact with this number in any workspace. */
+export async function findContactByPhoneAnywhere(phoneNumber: string) {
+  const normalized = normalizeDialNumber(phoneNumber);
+  const all = await getStorage().list<Contact>(collection);
+  return all
+    .filter(contact => contact.phoneNumber === normalized)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
+
+/**
+ * Creates a contact, or folds the input into the workspace's existing
+ * contact with the same number so one person is never stored twice.
+ */
+export async function saveContact(teamId: string, input: ContactInput) {
+  const existing = await findContactByPhone(teamId, input.phoneNumber);
+
+  if (existing) {
+    const contact = await getStorage().update<Contact>(collection, existing.id, current =>
+      current ? combine(current, input) : undefined
+    );
+    return { contact: contact ?? existing, merged: true };
+  }
+
+  const now = new Date().toISOString();
+  const contact: Contact = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    phoneNumber: input.phoneNumber,
+    company: input.company || undefined,
+    timezone: input.timezone || undefined,
+    tags: normalizeTags(input.tags),
+    customFields: input.customFields ?? {},
+    teamId,
+    createdAt: now,
+    updatedAt: now
+  };
+  return { contact: await getStorage().put(collection, contact.id, contact), merged: false };
+}
+
+export async function updateContact(id: string, teamId: string, patch: Partial<ContactInput>) {
+  if (patch.phoneNumber) {
+    const owner = await findContactByPhone(teamId, patch.phoneNumber);
+    if (owner && owner.id !== id) {
+      throw new ServiceError(
+        `${owner.name} already has this number; merge the contacts instead.`,
+        409
+      );
+    }
+  }
+
+  const updated = await getStorage().update<Contact>(collection, id, current => {
+    if (!current || !belongsToTeam(current, teamId)) return undefined;
+    return {
+      ...current,
+      ...patch,
+      company: patch.company === undefined ? current.company : patch.company || undefined,
+      timezone: patch.timezone === undefined ? current.timezone : patch.timezone || undefined,
+      tags: patch.tags ? normalizeTags(patch.tags) : current.tags,
+      updatedAt: new Date().toISOString()
+    };
+  });
+
+  if (!updated) throw new ServiceError("Contact not found.", 404);
+  return updated;
+}
+
+/** Sets the pool number the contact's calls go out from. */
+export async function pinCallerId(id: string, callerId: string) {
+  return getStorage().update<Contact>(collection, id, current =>
+    current ? { ...current, callerId, updatedAt: new Date().toISOString() } : undefined
+  );
+}
+
+export async function deleteContact(id: string, teamId: string) {
+  const contact = await getContact(id, teamId);
+  if (!contact || !(await getStorage().remove(collection, id))) {
+    throw new ServiceError("Contact not found.", 404);
+  }
+}
+
+/**
+ * Merges `sourceId` into `targetId`. The target keeps its own values and
+ * takes anything it is missing from the source; the source's calls move to
+ * the target and the source is deleted.
+ */
+export async function mergeContacts(targetId: string, sourceId: string, teamId: string) {
+  if (targetId === sourceId) throw new ServiceError("Pick two different contacts to merge.", 400);
+
+  const source = await getContact(sourceId, teamId);
+  if (!source) throw new ServiceError("Contact to merge not found.", 404);
+
+  const merged = await getStorage().update<Contact>(collection, targetId, current =>
+    current && belongsToTeam(current, teamId)
+      ? {
+          ...combine(current, source),
+          callerId: current.callerId ?? source.callerId,
+          mergedIds: [...(current.mergedIds ?? []), source.id, ...(source.mergedIds ?? [])]
+        }
+      : undefined
+  );
+  if (!merged) throw new ServiceError("Contact not found.", 404);
+
+  await reassignContactCalls(source.id, merged.id);
+  await reassignContactMessages(source.id, merged.id);
+  await getStorage().remove(collection, source.id);
+  return merged;
+}
+
+/** Saves each row, merging duplicates by number, and reports rows that failed validation. */
+export async function importContacts(teamId: string, rows: unknown[]) {
+  const summary = { created: 0, merged: 0, errors: [] as RowError[] };
+  const schema = contactInputSchemaFor((await getTeamSettings(teamId)).defaultCountry);
+
+  for (const [index, row] of rows.entries()) {
+    const parsed = schema.safeParse(row);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      summary.errors.push({
+        row: index + 1,
+        field: String(issue?.path[0] ?? ""),
+        message: issue?.message ?? "Invalid contact"
+      });
+      continue;
+    }
+    const { merged } = await saveContact(teamId, parsed.data);
+    summary[merged ? "merged" : "created"] += 1;
+  }
+
+  return summary;
+}
+
+function combine(current: Contact, incoming: Partial<ContactInput>): Contact {
+  return {
+    ...current,
+    company: current.company ?? (incoming.company || undefined),
+    timezone: current.timezone ?? (incoming.timezone || undefined),
+    tags: normalizeTags([...current.tags, ...(incoming.tags ?? [])]),
+    customFields: { ...incoming.customFields, ...current.customFields },
+    updatedAt: new Date().toISOString()
+  };
+}
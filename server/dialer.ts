@@ -0,0 +1,111 @@
+import { belongsToTeam } from "../shared/auth";
+import { isTerminalStatus } from "../shared/call-status";
+import type { CallRecord } from "../shared/calls";
+import type { BlockReason } from "../shared/compliance";
+import { budgetMessage, exceededBudget } from "./budgets";
+import { getCall, updateCall } from "./call-repository";
+import { buildOpening } from "./call-flow";
+import { chooseCallerId, pinToContact } from "./caller-ids";
+import { checkCompliance } from "./compliance";
+import { ServiceError } from "./errors";
+import { sendCallFollowUps } from "./follow-ups";
+import { emitCallOutcome } from "./outbound-webhooks";
+import { consumeDialLimits } from "./rate-limits";
+import { scheduleRetry } from "./retries";
+import { resolveCallScript } from "./templates";
+import { getTelephonyProvider } from "./telephony";
+import { webhookUrl } from "./webhooks";
+
+export type DialOutcome = {
+  success: boolean;
+  message: string;
+  call: CallRecord;
+  blocked?: BlockReason;
+};
+
+/**
+ * Places the call described by a stored record and writes the outcome back
+ * to it. Compliance, budget and rate-limit blocks and provider failures are
+ * recorded on the call rather than thrown.
+ */
+export async function dialCall(call: CallRecord): Promise<DialOutcome> {
+  // Rate limits come last: they count the dial, so only calls about to ring use a slot.
+  const blocked =
+    (await checkCompliance(call)) ??
+    (await checkBudget()) ??
+    (await consumeDialLimits(call.phoneNumber));
+
+  if (blocked) {
+    const updated = await updateCall(call.id, {
+      status: "blocked",
+      message: blocked.message,
+      blockReason: blocked
+    });
+    if (updated) await emitCallOutcome(updated);
+    return { success: false, message: blocked.message, call: updated ?? call, blocked };
+  }
+
+  const provider = getTelephonyProvider();
+
+  try {
+    const { instructions, spoken } = buildOpening(call, await resolveCallScript(call));
+    const callerId = (await chooseCallerId(call))?.phoneNumber;
+    const created = await provider.createCall({
+      callId: call.id,
+      to: call.phoneNumber,
+      from: callerId,
+      instructions,
+      machineDetectionUrl: webhookUrl("/api/twilio/amd", { callId: call.id }),
+      recording: call.record
+        ? { statusUrl: webhookUrl("/api/twilio/recording", { callId: call.id }) }
+        : undefined
+    });
+
+    const message = "Call initiated successfully.";
+    const startedAt = new Date().toISOString();
+    const updated = await updateCall(call.id, {
+      status: created.status,
+      message,
+      callSid: created.callSid,
+      dialedAt: startedAt,
+      callerId,
+      transcript: spoken.map(text => ({ speaker: "agent", text, at: startedAt }))
+    });
+    if (callerId) await pinToContact(call, callerId);
+
+    return { success: true, message, call: updated ?? call };
+  } catch (error) {
+    console.error("[call-agent] Failed to create call", error);
+    const message =
+      error instanceof Error
+        ? `${provider.label} error: ${error.message}`
+        : `Unknown error while creating ${provider.label} call.`;
+    const updated = await updateCall(call.id, { status: "failed", message });
+    if (updated) {
+      // No status callback will follow, so the call ends here as far as retries
+      // and follow-ups are concerned.
+      await emitCallOutcome(updated);
+      await sendCallFollowUps(updated, await scheduleRetry(updated));
+    }
+
+    return { success: false, message, call: updated ?? call };
+  }
+}
+
+/** Ends a ringing or connected call; the final status arrives as a status event. */
+export async function hangUpCall(id: string, teamId: string) {
+  const call = await getCall(id);
+
+  if (!call || !belongsToTeam(call, teamId)) throw new ServiceError("Call not found.", 404);
+  if (!call.callSid || isTerminalStatus(call.status)) {
+    throw new ServiceError("Only calls that are still in progress can be hung up.", 409);
+  }
+
+  await getTelephonyProvider().cancelCall(call.callSid);
+  return call;
+}
+
+async function checkBudget(): Promise<BlockReason | undefined> {
+  const budget = await exceededBudget();
+  return budget ? { code: "budget_exceeded", message: budgetMessage(budget) } : undefined;
+}
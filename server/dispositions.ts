@@ -0,0 +1,91 @@
+import { belongsToTeam, type Actor } from "../shared/auth";
+import {
+  defaultDispositionCodes,
+  doNotCallCode,
+  type Assignee,
+  type CallDisposition,
+  type CallDispositionInput,
+  type DispositionCode
+} from "../shared/dispositions";
+import { listMembers } from "./accounts";
+import { getCall, updateCall } from "./call-repository";
+import { ServiceError } from "./errors";
+import { optOutNumber } from "./follow-ups";
+import { emitCallEvent } from "./outbound-webhooks";
+import { getStorage } from "./storage";
+
+const collection = "disposition-codes";
+
+type StoredCodes = { codes: DispositionCode[] };
+
+/** The workspace's disposition codes; workspaces that never set any get the defaults. */
+export async function listDispositionCodes(teamId: string) {
+  const stored = await getStorage().get<StoredCodes>(collection, teamId);
+  return stored?.codes ?? defaultDispositionCodes;
+}
+
+export async function saveDispositionCodes(teamId: string, codes: DispositionCode[]) {
+  await getStorage().put<StoredCodes>(collection, teamId, { codes });
+  return codes;
+}
+
+export async function listAssignees(teamId: string): Promise<Assignee[]> {
+  const members = await listMembers(teamId);
+  return members.map(member => ({ id: member.userId, name: member.name }));
+}
+
+/**
+ * Records the outcome of a call. Tasks sent with an `id` the call already
+ * has keep it; new ones get a fresh id. The do-not-call code also opts the
+ * callee out.
+ */
+export async function setCallDisposition(
+  id: string,
+  teamId: string,
+  actor: Actor,
+  input: CallDispositionInput
+) {
+  const call = await getCall(id);
+  if (!call || !belongsToTeam(call, teamId)) throw new ServiceError("Call not found.", 404);
+
+  const code = (await listDispositionCodes(teamId)).find(entry => entry.id === input.code);
+  if (!code) throw new ServiceError(`Unknown disposition code "${input.code}".`, 400);
+
+  const assignees = input.tasks.some(task => task.assigneeId) ? await listAssignees(teamId) : [];
+  const existing = new Set(call.disposition?.tasks.map(task => task.id));
+  const tasks = input.tasks.map(task => {
+    const assignee = assignees.find(member => member.id === task.assigneeId);
+    if (task.assigneeId && !assignee) {
+      throw new ServiceError("Assign tasks to members of this workspace.", 400);
+    }
+    return {
+      id: task.id && existing.has(task.id) ? task.id : crypto.randomUUID(),
+      title: task.title,
+      dueAt: task.dueAt,
+      assignee,
+      done: task.done ?? false
+    };
+  });
+
+  const disposition: CallDisposition = {
+    code: code.id,
+    label: code.label,
+    notes: input.notes || undefined,
+    tasks,
+    updatedAt: new Date().toISOString(),
+    updatedBy: actor
+  };
+  const updated = await updateCall(call.id, { disposition });
+  if (!updated) throw new ServiceError("Call not found.", 404);
+  if (code.id === doNotCallCode && call.disposition?.code !== doNotCallCode) {
+    await optOutNumber(call.phoneNumber, "Marked do-not-call after a call", "disposition");
+  }
+  await emitCallEvent("call.dispositioned", updated);
+  return updated;
+}
+
+export async function clearCallDisposition(id: string, teamId: string) {
+  const call = await getCall(id);
+  if (!call || !belongsToTeam(call, teamId)) throw new ServiceError("Call not found.", 404);
+  return updateCall(call.id, { disposition: undefined });
+}
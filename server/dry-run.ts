@@ -0,0 +1,200 @@
+import type { CallRecord, ConversationTurn } from "../shared/calls";
+import {
+  sampleReplies,
+  type DryRunBranch,
+  type DryRunCheck,
+  type DryRunResult,
+  type DryRunStep
+} from "../shared/dry-run";
+import type { RenderedScript } from "../shared/script-template";
+import { plainSpeech, speakingSeconds } from "../shared/speech";
+import { budgetMessage, exceededBudget } from "./budgets";
+import {
+  buildOpening,
+  buildTurn,
+  buildVoicemail,
+  spokenSeconds,
+  transferNumber
+} from "./call-flow";
+import type { NewCall } from "./call-repository";
+import { chooseCallerId } from "./caller-ids";
+import { alignToCallingWindow, checkCompliance } from "./compliance";
+import { rateLimitBlock, type RateLimitKeys } from "./rate-limits";
+import { getResponder } from "./responders";
+import { getTelephonyProvider, type CallInstruction } from "./telephony";
+import { renderTwiml } from "./telephony/twilio";
+import { resolveCallScript } from "./templates";
+import { resolveVoicemailScript } from "./voicemail";
+
+// Custom conversations stop here even if the agent keeps listening.
+const maxReplies = 10;
+// Assumed gap before the callee answers each prompt.
+const replyDelaySeconds = 1;
+
+type Opening = ReturnType<typeof buildOpening>;
+
+/**
+ * Plays a launch through without saving or dialing anything: the checks
+ * the call route would run, the TwiML sent when the call connects, and the
+ * conversation for a voicemail and for each sample reply. `replies` adds a
+ * branch that follows the given callee lines in order.
+ */
+export async function dryRunCall(
+  launch: Omit<NewCall, "status">,
+  options: { scheduledFor?: Date; rateLimitKeys: RateLimitKeys; replies?: string[] },
+  now = new Date()
+): Promise<DryRunResult> {
+  const { scheduledFor, replies } = options;
+  const call: CallRecord = {
+    ...launch,
+    id: "dry-run",
+    status: scheduledFor ? "scheduled" : "queued",
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  };
+  const runAt = scheduledFor ? alignToCallingWindow(call, scheduledFor) : undefined;
+  const checks = await runChecks(call, { scheduledFor, runAt }, options.rateLimitKeys, now);
+
+  const script = await resolveCallScript(call);
+  const opening = buildOpening(call, script);
+  const listens = opening.instructions.some(instruction => instruction.type === "gather");
+  const answered = listens
+    ? await Promise.all(
+        sampleReplies.map(async sample => ({
+          id: sample.id,
+          label: sample.label,
+          ...(await converse(call, script, opening, [sample.speech]))
+        }))
+      )
+    : [{ id: "answered", label: "Answered", ...(await converse(call, script, opening, [])) }];
+  const custom =
+    listens && replies?.length
+      ? [
+          {
+            id: "custom",
+            label: "Your replies",
+            ...(await converse(call, script, opening, replies))
+          }
+        ]
+      : [];
+
+  return {
+    wouldDial: checks.every(check => check.ok),
+    checks,
+    runAt: runAt?.toISOString(),
+    twiml: renderTwiml(opening.instructions),
+    utterances: opening.spoken,
+    listens,
+    estimatedSeconds: answered[0].estimatedSeconds,
+    branches: [...answered, ...custom, voicemailBranch(call)]
+  };
+}
+
+async function runChecks(
+  call: CallRecord,
+  { scheduledFor, runAt }: { scheduledFor?: Date; runAt?: Date },
+  rateLimitKeys: RateLimitKeys,
+  now: Date
+) {
+  const unavailable = getTelephonyProvider().configurationError();
+  const callerId = await chooseCallerId(call, now);
+  const from = callerId ? ` from ${callerId.phoneNumber}` : "";
+  // Scheduled calls are checked for the time they would be placed.
+  const blocked = await checkCompliance(call, runAt ?? now);
+  // Budgets are only enforced up front for immediate calls, like the call route.
+  const overBudget = runAt ? undefined : await exceededBudget(now);
+  const limited = await rateLimitBlock(rateLimitKeys, now.getTime());
+
+  const checks: DryRunCheck[] = [
+    {
+      name: "provider",
+      ok: !unavailable,
+      message: unavailable ?? `${getTelephonyProvider().label} is ready to dial${from}.`
+    },
+    {
+      name: "compliance",
+      ok: !blocked,
+      message: blocked?.message ?? "Consent, calling hours and the do-not-call list check out."
+    },
+    {
+      name: "budget",
+      ok: !overBudget,
+      message: overBudget
+        ? budgetMessage(overBudget)
+        : runAt
+          ? "Checked again when the call comes due."
+          : "Within budget."
+    },
+    { name: "rate-limit", ok: !limited, message: limited?.message ?? "Within rate limits." },
+    {
+      name: "schedule",
+      ok: true,
+      message: !runAt
+        ? "Would dial right away."
+        : scheduledFor && runAt.getTime() > scheduledFor.getTime()
+          ? `Requested time is outside calling hours; would run at ${runAt.toISOString()}.`
+          : `Would be scheduled for ${runAt.toISOString()}.`
+    }
+  ];
+  return checks;
+}
+
+/**
+ * The opening followed by one responder turn per reply, stopping once the
+ * agent no longer waits for an answer. An empty reply stands for silence.
+ */
+async function converse(
+  call: CallRecord,
+  script: RenderedScript,
+  opening: Opening,
+  replies: string[]
+) {
+  const at = call.createdAt;
+  const turns: ConversationTurn[] = opening.spoken.map(text => ({ speaker: "agent", text, at }));
+  const steps: DryRunStep[] = [agentStep(opening.spoken.join(" "), opening.instructions)];
+  let seconds = spokenSeconds(opening.instructions);
+
+  for (const reply of replies.slice(0, maxReplies)) {
+    if (steps[steps.length - 1].next !== "listen") break;
+    const speech = reply.trim();
+    if (speech) turns.push({ speaker: "callee", text: speech, at, channel: "speech" });
+
+    const answer = await getResponder().respond({
+      call,
+      script,
+      turns,
+      input: { speech: speech || undefined },
+      transferAvailable: Boolean(transferNumber())
+    });
+    const instructions = buildTurn(call, answer);
+    turns.push({ speaker: "agent", text: plainSpeech(answer.say), at });
+    steps.push(
+      { speaker: "callee", text: speech },
+      agentStep(plainSpeech(answer.say), instructions)
+    );
+    seconds += replyDelaySeconds + speakingSeconds(speech) + spokenSeconds(instructions);
+  }
+
+  return { steps, estimatedSeconds: Math.round(seconds) };
+}
+
+/** Machine-answered calls skip the conversation and leave the voicemail script. */
+function voicemailBranch(call: CallRecord): DryRunBranch {
+  const message = resolveVoicemailScript(call);
+  const instructions = buildVoicemail(message, call.voice);
+  return {
+    id: "voicemail",
+    label: "Voicemail",
+    steps: [agentStep(plainSpeech(message), instructions)],
+    estimatedSeconds: Math.round(spokenSeconds(instructions))
+  };
+}
+
+function agentStep(text: string, instructions: CallInstruction[]): DryRunStep {
+  const next = instructions.some(instruction => instruction.type === "gather")
+    ? "listen"
+    : instructions.some(instruction => instruction.type === "dial")
+      ? "transfer"
+      : "end";
+  return { speaker: "agent", text, twiml: renderTwiml(instructions), next };
+}
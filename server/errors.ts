@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+/** An expected failure that maps directly onto an HTTP error response. */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+  }
+}
+
+export function serviceErrorResponse(error: unknown) {
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      { success: false, message: error.message },
+      { status: error.status, headers: error.headers }
+    );
+  }
+  throw error;
+}
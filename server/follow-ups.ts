@@ -0,0 +1,67 @@
+import { callDirection, type CallRecord } from "../shared/calls";
+import { followUpOutcome, isStopKeyword } from "../shared/sms";
+import { addDoNotCall } from "./compliance";
+import { advanceSequences, handOffRun, resumeRun, startRun, stopRunsForNumber } from "./sequences";
+import {
+  cancelScheduledMessages,
+  findTriggeredTemplate,
+  sendDueMessages,
+  sendFollowUp,
+  storeInboundMessage,
+  type InboundSms
+} from "./sms";
+
+/**
+ * Follows up once an outbound call has ended. Calls that belong to a
+ * sequence move it along; other calls get the workspace's SMS for their
+ * outcome. Nothing is sent while a retry is still to come, since that
+ * attempt's outcome is the one that counts.
+ */
+export async function sendCallFollowUps(call: CallRecord, retry?: CallRecord) {
+  if (callDirection(call) === "inbound") return;
+
+  if (call.sequenceRunId) {
+    await (retry ? handOffRun(call.sequenceRunId, retry.id) : resumeRun(call));
+    return;
+  }
+  if (retry) return;
+  if (call.sequenceId) {
+    await startRun(call);
+    return;
+  }
+
+  const outcome = followUpOutcome(call);
+  const template = outcome ? await findTriggeredTemplate(call.teamId, outcome) : undefined;
+  if (template) await sendFollowUp(call, template);
+}
+
+/** Sends held messages and runs due sequence steps; called from the scheduler tick. */
+export async function processDueFollowUps(now = new Date()) {
+  return {
+    messagesSent: await sendDueMessages(now),
+    sequenceSteps: await advanceSequences(now)
+  };
+}
+
+/**
+ * Logs a reply to the caller ID number. Opt-out keywords add the sender to
+ * the do-not-call list and cancel everything still queued for them.
+ */
+export async function receiveSms(input: InboundSms) {
+  const message = await storeInboundMessage(input);
+  const optedOut = isStopKeyword(input.body);
+
+  if (optedOut) await optOutNumber(input.from, "Replied STOP to a text", "sms");
+  return { message, optedOut };
+}
+
+/**
+ * Puts a number on the do-not-call list and cancels what is still queued
+ * for it: held texts and open sequence runs. Pending retries are blocked by
+ * the list when they come due.
+ */
+export async function optOutNumber(phoneNumber: string, reason: string, source: string) {
+  await addDoNotCall([{ phoneNumber, reason, source }]);
+  await cancelScheduledMessages(phoneNumber);
+  await stopRunsForNumber(phoneNumber, reason);
+}
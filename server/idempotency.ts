@@ -0,0 +1,111 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { getStorage } from "./storage";
+
+const collection = "idempotency-keys";
+const headerName = "Idempotency-Key";
+const retentionMs = 24 * 60 * 60_000;
+/** A pending key older than this belongs to a request that died mid-flight. */
+const abandonedAfterMs = 2 * 60_000;
+
+type IdempotencyRecord = {
+  fingerprint: string;
+  state: "pending" | "completed";
+  status?: number;
+  body?: unknown;
+  createdAt: string;
+};
+
+/**
+ * Runs `handler` at most once per `Idempotency-Key` header within `scope`.
+ * Repeats with the same payload get the stored response back; a key reused
+ * with a different payload, or still in flight, is rejected. Server errors
+ * are not stored, so the client can retry them with the same key.
+ */
+export async function withIdempotency(
+  request: Request,
+  scope: string,
+  payload: unknown,
+  handler: () => Promise<NextResponse>
+) {
+  const key = request.headers.get(headerName)?.trim();
+  if (!key) return handler();
+
+  if (key.length > 255) {
+    return NextResponse.json(
+      { success: false, message: `${headerName} must be at most 255 characters.` },
+      { status: 400 }
+    );
+  }
+
+  const id = digest(`${scope}:${key}`);
+  const fingerprint = digest(JSON.stringify(payload ?? null));
+  const now = Date.now();
+  let existing: IdempotencyRecord | undefined;
+
+  await getStorage().update<IdempotencyRecord>(collection, id, current => {
+    if (current && isLive(current, now)) {
+      existing = current;
+      return undefined;
+    }
+    return { fingerprint, state: "pending", createdAt: new Date(now).toISOString() };
+  });
+
+  if (existing) return replay(existing, fingerprint);
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await getStorage().remove(collection, id);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await getStorage().remove(collection, id);
+    return response;
+  }
+
+  const body: unknown = await response
+    .clone()
+    .json()
+    .catch(() => undefined);
+  await getStorage().update<IdempotencyRecord>(collection, id, current =>
+    current ? { ...current, state: "completed", status: response.status, body } : undefined
+  );
+  return response;
+}
+
+function replay(record: IdempotencyRecord, fingerprint: string) {
+  if (record.fingerprint !== fingerprint) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `This ${headerName} was already used for a different request.`
+      },
+      { status: 422 }
+    );
+  }
+  if (record.state === "pending") {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `A request with this ${headerName} is still being processed.`
+      },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(record.body, {
+    status: record.status,
+    headers: { "Idempotent-Replayed": "true" }
+  });
+}
+
+function isLive(record: IdempotencyRecord, now: number) {
+  const age = now - Date.parse(record.createdAt);
+  return record.state === "completed" ? age < retentionMs : age < abandonedAfterMs;
+}
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
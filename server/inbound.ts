@@ -0,0 +1,229 @@
+import type { CallRecord, ConversationTurn } from "../shared/calls";
+import { inboundModes, menuChoices, type InboundMode } from "../shared/inbound";
+import { plainSpeech } from "../shared/speech";
+import {
+  appendTranscript,
+  createCall,
+  findCallBySid,
+  findLastOutboundCall,
+  getCall,
+  updateCall
+} from "./call-repository";
+import {
+  buildGoodbye,
+  buildInboundMenu,
+  buildTransfer,
+  buildVoicemailRecording,
+  hangupInstructions,
+  inboundGreeting,
+  transferNumber
+} from "./call-flow";
+import { defaultInboundTeam, findNumberOwner } from "./caller-ids";
+import { isWithinCallingHours, parseDays, type CallingHours } from "./compliance";
+import { findContactByPhone, findContactByPhoneAnywhere } from "./contacts";
+import { optOutNumber } from "./follow-ups";
+import { startTransfer } from "./live-calls";
+import type { CallInstruction } from "./telephony";
+
+const maxMenuAttempts = 2;
+const voicemailPrompt =
+  "Please leave a message after the tone, and press the pound key when you're done.";
+const connecting = "Let me connect you with someone from our team.";
+
+export type InboundCall = {
+  callSid: string;
+  from: string;
+  /** The number the caller dialed. */
+  to?: string;
+};
+
+export function inboundMode(): InboundMode {
+  const mode = process.env.INBOUND_MODE;
+  return (inboundModes as readonly string[]).includes(mode ?? "") ? (mode as InboundMode) : "ivr";
+}
+
+/** When the agent line is staffed, in `AGENT_TIMEZONE`. */
+export function getAgentHours(): CallingHours & { timeZone: string } {
+  return {
+    startHour: Number(process.env.AGENT_HOURS_START ?? 9),
+    endHour: Number(process.env.AGENT_HOURS_END ?? 17),
+    days: parseDays(process.env.AGENT_DAYS ?? "1-5"),
+    timeZone:
+      process.env.AGENT_TIMEZONE ?? process.env.COMPLIANCE_DEFAULT_TIMEZONE ?? "America/New_York"
+  };
+}
+
+/** Whether a person can take a transfer right now. */
+export function agentOnDuty(at = new Date()) {
+  const hours = getAgentHours();
+  return Boolean(transferNumber()) && isWithinCallingHours(hours.timeZone, at, hours);
+}
+
+/**
+ * Logs a call to the caller ID and decides how to answer it. Callers are
+ * matched against earlier outbound calls and contacts so they are greeted
+ * by name, and the call lands in that workspace's history.
+ */
+export async function answerInboundCall({ callSid, from, to }: InboundCall) {
+  const call = (await findCallBySid(callSid)) ?? (await logInboundCall(callSid, from, to));
+  const greeting = inboundGreeting(call);
+  const mode = inboundMode();
+
+  if (mode === "agent" && agentOnDuty()) {
+    return transferTo(call, [...greeting, connecting]);
+  }
+  if (mode === "ivr") {
+    const menu = menuPrompt();
+    await updateCall(call.id, { inboundRoute: "menu" });
+    await agentSaid(call, [...greeting, menu]);
+    return buildInboundMenu(call, greeting, menu, 1);
+  }
+  return takeVoicemail(call, [...greeting, voicemailPrompt]);
+}
+
+/** Acts on the keypad (or spoken) menu choice; unclear answers hear the menu again. */
+export async function handleMenuChoice(
+  callId: string,
+  input: { digits?: string; speech?: string },
+  attempt: number
+): Promise<CallInstruction[]> {
+  const call = await getCall(callId);
+  if (!call) return hangupInstructions();
+
+  const choice = readChoice(input);
+  const heard = input.digits ? `Pressed ${input.digits}` : input.speech?.trim();
+  if (heard) {
+    await appendTranscript(call.id, [
+      {
+        speaker: "callee",
+        text: heard,
+        at: new Date().toISOString(),
+        channel: input.digits ? "dtmf" : "speech"
+      }
+    ]);
+  }
+
+  switch (choice) {
+    case "agent":
+      return agentOnDuty()
+        ? transferTo(call, [connecting])
+        : takeVoicemail(call, ["Nobody from our team is available right now.", voicemailPrompt]);
+    case "voicemail":
+      return takeVoicemail(call, [voicemailPrompt]);
+    case "optOut": {
+      const goodbye = "Understood. You won't receive further calls from us. Goodbye.";
+      await optOutNumber(call.phoneNumber, "Asked to stop on an inbound call", "inbound");
+      await updateCall(call.id, {
+        inboundRoute: "opt-out",
+        message: "Caller opted out from the menu."
+      });
+      await agentSaid(call, [goodbye]);
+      return buildGoodbye(call, [goodbye]);
+    }
+    default: {
+      if (attempt >= maxMenuAttempts) return takeVoicemail(call, [voicemailPrompt]);
+      const retry = "Sorry, I didn't catch that.";
+      const menu = menuPrompt();
+      await agentSaid(call, [retry, menu]);
+      return buildInboundMenu(call, [retry], menu, attempt + 1);
+    }
+  }
+}
+
+/** Called when the caller finishes recording; the audio arrives on the recording webhook. */
+export async function finishVoicemail(callId: string, durationSeconds?: number) {
+  const call = await getCall(callId);
+  if (!call) return hangupInstructions();
+
+  const left = durationSeconds !== undefined && durationSeconds > 0;
+  const goodbye = left
+    ? "Thanks, we got your message and will get back to you soon. Goodbye."
+    : "We didn't hear a message. Feel free to call again any time. Goodbye.";
+  await updateCall(call.id, {
+    message: left
+      ? `Caller left a ${durationSeconds}s voicemail.`
+      : "Caller hung up without a message."
+  });
+  await agentSaid(call, [goodbye]);
+  return buildGoodbye(call, [goodbye]);
+}
+
+/**
+ * Calls to a pool number belong to the workspace that owns it, and are only
+ * matched against that workspace's calls and contacts. Calls to a shared
+ * number go to whichever workspace last called the caller. Calls no
+ * workspace claims are logged without a team and stay hidden.
+ */
+async function logInboundCall(callSid: string, from: string, to?: string) {
+  const owner = await findNumberOwner(to);
+  const returned = await findLastOutboundCall(from, { teamId: owner, callerId: to });
+  const contact = returned?.contactId
+    ? undefined
+    : owner
+      ? await findContactByPhone(owner, from)
+      : await findContactByPhoneAnywhere(from);
+
+  return createCall({
+    direction: "inbound",
+    contactName: returned?.contactName ?? contact?.name ?? "Unknown caller",
+    phoneNumber: from,
+    objective: returned?.objective ?? "Inbound call",
+    scriptStyle: returned?.scriptStyle ?? "friendly",
+    voice: returned?.voice,
+    status: "in-progress",
+    callSid,
+    message: returned ? `Called back about "${plainSpeech(returned.objective)}".` : "Inbound call.",
+    teamId: owner ?? returned?.teamId ?? contact?.teamId ?? defaultInboundTeam(),
+    contactId: returned?.contactId ?? contact?.id,
+    returnedCallId: returned?.id,
+    reached: "human"
+  });
+}
+
+async function transferTo(call: CallRecord, lines: string[]) {
+  const number = transferNumber();
+  if (!number) return takeVoicemail(call, [voicemailPrompt]);
+  await updateCall(call.id, { inboundRoute: "agent" });
+  await agentSaid(call, lines);
+  await startTransfer(call, "callee");
+  return buildTransfer(call, number, lines.join(" "));
+}
+
+async function takeVoicemail(call: CallRecord, lines: string[]) {
+  await updateCall(call.id, { inboundRoute: "voicemail", record: true });
+  await agentSaid(call, lines);
+  return buildVoicemailRecording(call, lines);
+}
+
+async function agentSaid(call: CallRecord, lines: string[]) {
+  const at = new Date().toISOString();
+  const turns: ConversationTurn[] = lines.map(text => ({
+    speaker: "agent",
+    text: plainSpeech(text),
+    at
+  }));
+  await appendTranscript(call.id, turns);
+}
+
+function menuPrompt() {
+  return [
+    agentOnDuty() ? `To speak with someone from our team, press ${menuChoices.agent}.` : undefined,
+    `To leave a message, press ${menuChoices.voicemail}.`,
+    `To stop receiving calls from us, press ${menuChoices.optOut}.`
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function readChoice({ digits, speech }: { digits?: string; speech?: string }) {
+  if (digits) {
+    return (Object.keys(menuChoices) as (keyof typeof menuChoices)[]).find(
+      choice => menuChoices[choice] === digits
+    );
+  }
+  if (!speech?.trim()) return undefined;
+  if (/\b(stop|unsubscribe|remove me|do not call|don't call)\b/i.test(speech)) return "optOut";
+  if (/\b(person|someone|somebody|human|agent|representative|operator)\b/i.test(speech)) return "agent";
+  if (/\b(message|voicemail)\b/i.test(speech)) return "voicemail";
+  return undefined;
+}
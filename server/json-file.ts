@@ -0,0 +1,40 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+const dataDir = process.env.CALL_DATA_DIR ?? path.join(process.cwd(), "data");
+const pending = new Map<string, Promise<unknown>>();
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(path.join(dataDir, name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Serializes read-modify-write cycles per file so concurrent webhook
+ * deliveries handled by the same instance don't overwrite each other.
+ */
+export function updateJsonFile<T>(
+  name: string,
+  fallback: T,
+  update: (current: T) => T
+): Promise<T> {
+  const previous = pending.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJsonFile(name, fallback);
+      const updated = update(current);
+      const target = path.join(dataDir, name);
+      await mkdir(dataDir, { recursive: true });
+      await writeFile(`${target}.tmp`, JSON.stringify(updated, null, 2));
+      await rename(`${target}.tmp`, target);
+      return updated;
+    });
+  pending.set(name, next);
+  return next;
+}
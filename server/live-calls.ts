@@ -0,0 +1,205 @@
+import { belongsToTeam, type Actor } from "../shared/auth";
+import type { CallRecord } from "../shared/calls";
+import type { CallTransfer, LiveCallsSnapshot } from "../shared/live-calls";
+import { plainSpeech } from "../shared/speech";
+import { subscribeCallChanges } from "./call-events";
+import { appendTranscript, getCall, listLiveCalls, updateCall } from "./call-repository";
+import {
+  buildTransfer,
+  buildTransferFallback,
+  buildTurn,
+  buildVoicemailRecording,
+  hangupInstructions,
+  transferFallbackMessage,
+  transferNumber
+} from "./call-flow";
+import { ServiceError } from "./errors";
+import { getTelephonyProvider } from "./telephony";
+import { webhookUrl } from "./webhooks";
+
+const holdMessage = "Please hold while I connect you with someone from our team.";
+// Picks up changes made by other server instances, and keeps proxies from closing the stream.
+const refreshSeconds = 10;
+
+export async function liveCallsSnapshot(teamId: string): Promise<LiveCallsSnapshot> {
+  return {
+    calls: await listLiveCalls(teamId),
+    transferAvailable: Boolean(transferNumber()) && canCallBack()
+  };
+}
+
+/**
+ * Server-sent events with a `calls` snapshot of the workspace's live calls,
+ * sent on connect, whenever one of its calls changes and on a timer. The
+ * stream ends when the client disconnects.
+ */
+export function liveCallsStream(teamId: string, signal: AbortSignal) {
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let pending = false;
+      let stale = false;
+      const send = async (): Promise<void> => {
+        if (closed) return;
+        if (pending) {
+          stale = true;
+          return;
+        }
+        pending = true;
+        stale = false;
+        try {
+          // Let a burst of updates to the same call settle into one snapshot.
+          await new Promise(resolve => setTimeout(resolve, 100));
+          const snapshot = await liveCallsSnapshot(teamId);
+          if (!closed) {
+            controller.enqueue(encoder.encode(`event: calls\ndata: ${JSON.stringify(snapshot)}\n\n`));
+          }
+        } catch (error) {
+          console.error("[call-agent] Failed to send live calls", error);
+        } finally {
+          pending = false;
+        }
+        if (stale) return send();
+      };
+
+      const unsubscribe = subscribeCallChanges(call => {
+        if (belongsToTeam(call, teamId)) void send();
+      });
+      const timer = setInterval(() => void send(), refreshSeconds * 1000);
+      stop = () => {
+        closed = true;
+        unsubscribe();
+        clearInterval(timer);
+      };
+      signal.addEventListener("abort", () => {
+        // A stream the client already canceled throws on close.
+        if (closed) return;
+        stop();
+        controller.close();
+      });
+      void send();
+    },
+    cancel() {
+      stop();
+    }
+  });
+}
+
+/**
+ * Speaks an operator's message on a connected call, then listens so the
+ * conversation carries on from the callee's answer.
+ */
+export async function injectMessage(id: string, teamId: string, text: string, actor: Actor) {
+  requireCallBack();
+  const call = await connectedCall(id, teamId);
+  await getTelephonyProvider().updateCall(
+    call.callSid ?? "",
+    buildTurn(call, { say: text, next: "listen" })
+  );
+  const updated = await appendTranscript(call.id, [
+    { speaker: "agent", text: plainSpeech(text), at: new Date().toISOString(), operator: actor.name }
+  ]);
+  return updated ?? call;
+}
+
+/** Warm-transfers the callee of a connected call to the human agent line. */
+export async function transferCall(id: string, teamId: string, actor: Actor) {
+  const number = transferNumber();
+  if (!number) {
+    throw new ServiceError("Set TRANSFER_NUMBER to transfer calls to a person.", 409);
+  }
+  requireCallBack();
+  const call = await connectedCall(id, teamId);
+
+  await getTelephonyProvider().updateCall(
+    call.callSid ?? "",
+    buildTransfer(call, number, holdMessage)
+  );
+  await appendTranscript(call.id, [
+    { speaker: "agent", text: holdMessage, at: new Date().toISOString(), operator: actor.name }
+  ]);
+  return (await startTransfer(call, actor.name)) ?? call;
+}
+
+/** Records that the callee is being connected; `requestedBy` is an operator or "callee". */
+export async function startTransfer(call: CallRecord, requestedBy: string) {
+  const to = transferNumber();
+  // Without callbacks the result never arrives, so the transfer would look stuck.
+  if (!to || !canCallBack()) return undefined;
+  return updateCall(call.id, {
+    transfer: { to, status: "connecting", requestedBy, requestedAt: new Date().toISOString() }
+  });
+}
+
+/** The agent picked up and is hearing the briefing. */
+export async function recordTransferAnswered(callId: string) {
+  const call = await getCall(callId);
+  if (!call?.transfer) return call;
+  return updateCall(call.id, {
+    transfer: { ...call.transfer, status: "connected", answeredAt: new Date().toISOString() }
+  });
+}
+
+/**
+ * Records how the agent leg ended and returns what the callee hears next:
+ * nothing after a finished conversation, an apology when nobody picked up.
+ */
+export async function recordTransferEnded(callId: string, dialStatus: string) {
+  const call = await getCall(callId);
+  if (!call?.transfer) return hangupInstructions();
+
+  const endedAt = new Date().toISOString();
+  if (dialStatus === "completed" || dialStatus === "answered") {
+    await updateCall(call.id, { transfer: { ...call.transfer, status: "completed", endedAt } });
+    return hangupInstructions();
+  }
+
+  const transfer: CallTransfer = {
+    ...call.transfer,
+    status: "failed",
+    endedAt,
+    error: dialStatus || "failed"
+  };
+  // Inbound callers reached out themselves, so offer to take a message instead.
+  if (call.direction === "inbound") {
+    const prompt = "Sorry, nobody could take your call. Please leave a message after the tone.";
+    await updateCall(call.id, { transfer, inboundRoute: "voicemail", record: true });
+    await appendTranscript(call.id, [{ speaker: "agent", text: prompt, at: endedAt }]);
+    return buildVoicemailRecording(call, [prompt]);
+  }
+
+  await updateCall(call.id, {
+    transfer,
+    message: "Nobody on the agent line picked up the transfer."
+  });
+  await appendTranscript(call.id, [{ speaker: "agent", text: transferFallbackMessage, at: endedAt }]);
+  return buildTransferFallback(call);
+}
+
+/** Whether the provider can reach this app to report back and ask what comes next. */
+function canCallBack() {
+  return Boolean(webhookUrl("/"));
+}
+
+/** Changing a live call without callbacks would end it after the new instructions. */
+function requireCallBack() {
+  if (!canCallBack()) {
+    throw new ServiceError("Set APP_BASE_URL to step into live calls.", 503);
+  }
+}
+
+async function connectedCall(id: string, teamId: string) {
+  const call = await getCall(id);
+  if (!call || !belongsToTeam(call, teamId)) throw new ServiceError("Call not found.", 404);
+  if (!call.callSid || call.status !== "in-progress") {
+    throw new ServiceError("Only connected calls can be changed.", 409);
+  }
+  const transfer = call.transfer?.status;
+  if (transfer === "connecting" || transfer === "connected") {
+    throw new ServiceError("The callee is being handed to a person already.", 409);
+  }
+  return call;
+}
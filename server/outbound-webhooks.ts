@@ -0,0 +1,277 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { belongsToTeam } from "../shared/auth";
+import type { CallRecord } from "../shared/calls";
+import {
+  applyMapping,
+  defaultActivityMapping,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEndpointPatch,
+  WebhookEvent
+} from "../shared/webhooks";
+import { ServiceError } from "./errors";
+import { getStorage } from "./storage";
+
+const endpointCollection = "webhook-endpoints";
+const deliveryCollection = "webhook-deliveries";
+const secretCollection = "webhook-secrets";
+const failedStatuses = new Set(["busy", "no-answer", "failed", "blocked"]);
+
+type StoredSecret = { secret: string };
+
+function deliverySettings() {
+  return {
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 6),
+    baseDelayMs: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS ?? 30) * 1000,
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_SECONDS ?? 5) * 1000
+  };
+}
+
+export async function listEndpoints(teamId: string) {
+  const endpoints = await getStorage().list<WebhookEndpoint>(endpointCollection);
+  return endpoints
+    .filter(endpoint => belongsToTeam(endpoint, teamId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Registers an endpoint and returns its signing secret. The secret is kept
+ * apart from the endpoint record and is only shown this once.
+ */
+export async function createEndpoint(teamId: string, input: WebhookEndpointInput) {
+  const now = new Date().toISOString();
+  const endpoint: WebhookEndpoint = {
+    ...input,
+    id: crypto.randomUUID(),
+    teamId,
+    createdAt: now,
+    updatedAt: now
+  };
+  const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+  await getStorage().put<StoredSecret>(secretCollection, endpoint.id, { secret });
+  return { endpoint: await getStorage().put(endpointCollection, endpoint.id, endpoint), secret };
+}
+
+/** A `null` mapping clears it, so activity payloads fall back to the default mapping. */
+export async function updateEndpoint(id: string, teamId: string, patch: WebhookEndpointPatch) {
+  const { mapping, ...changes } = patch;
+  const updated = await getStorage().update<WebhookEndpoint>(endpointCollection, id, current =>
+    current && belongsToTeam(current, teamId)
+      ? {
+          ...current,
+          ...changes,
+          mapping: mapping === undefined ? current.mapping : mapping ?? undefined,
+          updatedAt: new Date().toISOString()
+        }
+      : undefined
+  );
+  if (!updated) throw new ServiceError("Webhook not found.", 404);
+  return updated;
+}
+
+export async function deleteEndpoint(id: string, teamId: string) {
+  const endpoint = await getStorage().get<WebhookEndpoint>(endpointCollection, id);
+  if (!endpoint || !belongsToTeam(endpoint, teamId)) throw new ServiceError("Webhook not found.", 404);
+  await getStorage().remove(endpointCollection, id);
+  await getStorage().remove(secretCollection, id);
+}
+
+export async function getEndpointSecret(id: string) {
+  return (await getStorage().get<StoredSecret>(secretCollection, id))?.secret;
+}
+
+export async function listDeliveries(teamId: string, endpointId?: string, limit = 50) {
+  const deliveries = await getStorage().list<WebhookDelivery>(deliveryCollection);
+  return deliveries
+    .filter(delivery => belongsToTeam(delivery, teamId))
+    .filter(delivery => !endpointId || delivery.endpointId === endpointId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+/** Fires `call.completed` or `call.failed` for a call that just reached a final status. */
+export async function emitCallOutcome(call: CallRecord) {
+  if (call.status === "completed") return emitCallEvent("call.completed", call);
+  if (failedStatuses.has(call.status)) return emitCallEvent("call.failed", call);
+}
+
+/**
+ * Queues a delivery for every active endpoint in the call's workspace that
+ * subscribes to `event`, and starts the first attempt in the background so
+ * a slow receiver never holds up dialing or provider callbacks. Failed
+ * attempts are retried from the scheduler tick; nothing here throws into the
+ * call flow.
+ */
+export async function emitCallEvent(event: WebhookEvent, call: CallRecord) {
+  try {
+    const endpoints = (await getStorage().list<WebhookEndpoint>(endpointCollection)).filter(
+      endpoint =>
+        endpoint.active &&
+        endpoint.teamId === call.teamId &&
+        endpoint.events.includes(event)
+    );
+    if (endpoints.length === 0) return;
+
+    const eventId = crypto.randomUUID();
+    const occurredAt = new Date().toISOString();
+    for (const endpoint of endpoints) {
+      const body = JSON.stringify(
+        endpoint.format === "activity"
+          ? applyMapping(endpoint.mapping ?? defaultActivityMapping, {
+              event,
+              occurredAt,
+              call,
+              transcript: transcriptText(call)
+            })
+          : { id: eventId, event, occurredAt, data: { call } }
+      );
+      const delivery = await queueDelivery(endpoint, event, body);
+      void attemptDelivery(delivery.id).catch(error =>
+        console.error(`[call-agent] Could not deliver ${event}`, error)
+      );
+    }
+  } catch (error) {
+    console.error(`[call-agent] Could not emit ${event}`, error);
+  }
+}
+
+/** Re-sends a logged delivery as a new delivery, so the original attempt history stays intact. */
+export async function replayDelivery(id: string, teamId: string) {
+  const original = await getStorage().get<WebhookDelivery>(deliveryCollection, id);
+  if (!original || !belongsToTeam(original, teamId)) {
+    throw new ServiceError("Delivery not found.", 404);
+  }
+  const endpoint = await getStorage().get<WebhookEndpoint>(endpointCollection, original.endpointId);
+  if (!endpoint) throw new ServiceError("The webhook for this delivery was deleted.", 410);
+
+  const replay = await queueDelivery(endpoint, original.event, original.body, original.id);
+  return attemptDelivery(replay.id);
+}
+
+/** Retries pending deliveries whose backoff has elapsed. Called from the scheduler tick. */
+export async function retryDueDeliveries(now = new Date()) {
+  const deliveries = await getStorage().list<WebhookDelivery>(deliveryCollection);
+  const due = deliveries.filter(
+    delivery =>
+      delivery.status === "pending" &&
+      delivery.nextAttemptAt &&
+      Date.parse(delivery.nextAttemptAt) <= now.getTime()
+  );
+  for (const delivery of due) await attemptDelivery(delivery.id);
+  return due.length;
+}
+
+/** `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, sent as `X-Webhook-Signature`. */
+export function signPayload(secret: string, body: string, timestamp: number) {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Checks an `X-Webhook-Signature` header against the body. Signatures older
+ * than `toleranceSeconds` are rejected so captured requests cannot be replayed.
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  toleranceSeconds = 300,
+  now = Date.now()
+) {
+  const match = header?.match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+  if (!match) return false;
+  const timestamp = Number(match[1]);
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = Buffer.from(signPayload(secret, body, timestamp));
+  const received = Buffer.from(header as string);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+async function queueDelivery(
+  endpoint: WebhookEndpoint,
+  event: WebhookEvent,
+  body: string,
+  replayOf?: string
+) {
+  const now = new Date().toISOString();
+  const { timeoutMs, baseDelayMs } = deliverySettings();
+  const delivery: WebhookDelivery = {
+    id: crypto.randomUUID(),
+    endpointId: endpoint.id,
+    url: endpoint.url,
+    event,
+    body,
+    status: "pending",
+    attempts: 0,
+    // The tick picks the delivery up if the first attempt never finishes.
+    nextAttemptAt: new Date(Date.now() + timeoutMs + baseDelayMs).toISOString(),
+    replayOf,
+    teamId: endpoint.teamId,
+    createdAt: now,
+    updatedAt: now
+  };
+  return getStorage().put(deliveryCollection, delivery.id, delivery);
+}
+
+/**
+ * Sends one attempt. A 2xx response completes the delivery; anything else
+ * schedules the next attempt with exponential backoff until the attempt
+ * limit is reached.
+ */
+async function attemptDelivery(id: string) {
+  const delivery = await getStorage().get<WebhookDelivery>(deliveryCollection, id);
+  if (!delivery || delivery.status !== "pending") return delivery;
+
+  const { maxAttempts, baseDelayMs, timeoutMs } = deliverySettings();
+  const secret = await getEndpointSecret(delivery.endpointId);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "calling-agent-webhooks",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Endpoint": delivery.endpointId,
+        ...(secret ? { "X-Webhook-Signature": signPayload(secret, delivery.body, timestamp) } : {})
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Receiver answered ${response.status}.`;
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : "Request failed.";
+  }
+
+  const attempts = delivery.attempts + 1;
+  const exhausted = attempts >= maxAttempts;
+  return getStorage().update<WebhookDelivery>(deliveryCollection, id, current =>
+    current
+      ? {
+          ...current,
+          attempts,
+          responseStatus,
+          error,
+          status: !error ? "succeeded" : exhausted ? "failed" : "pending",
+          nextAttemptAt:
+            error && !exhausted
+              ? new Date(Date.now() + baseDelayMs * 2 ** (attempts - 1)).toISOString()
+              : undefined,
+          updatedAt: new Date().toISOString()
+        }
+      : undefined
+  );
+}
+
+function transcriptText(call: CallRecord) {
+  if (call.recording?.transcription?.text) return call.recording.transcription.text;
+  return (call.transcript ?? [])
+    .map(turn => `${turn.speaker === "agent" ? "Agent" : "Callee"}: ${turn.text}`)
+    .join("\n");
+}
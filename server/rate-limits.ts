@@ -0,0 +1,160 @@
+import { normalizeDialNumber, type BlockReason } from "../shared/compliance";
+import { describeWindow, type RateLimitScope, type RateLimitUsage } from "../shared/quota";
+import { ServiceError } from "./errors";
+import { getStorage } from "./storage";
+
+const collection = "rate-limits";
+
+type RateLimitRule = { scope: RateLimitScope; limit: number; windowMs: number };
+type Bucket = { hits: number[] };
+type Window = { id: string; rule: RateLimitRule; hits: number[] };
+
+/** The identities a launch is counted against, one per scope. */
+export type RateLimitKeys = Partial<Record<RateLimitScope, string>>;
+
+const ruleDefaults: Record<RateLimitScope, { variable: string; fallback: string }> = {
+  user: { variable: "RATE_LIMIT_PER_USER", fallback: "10/1m" },
+  destination: { variable: "RATE_LIMIT_PER_DESTINATION", fallback: "3/1h" },
+  global: { variable: "RATE_LIMIT_GLOBAL", fallback: "60/1m" }
+};
+
+const unitMs: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Parses `<count>/<window>` such as `10/1m`; `off` or `0` disables the limit. */
+function parseRule(scope: RateLimitScope): RateLimitRule | undefined {
+  const { variable, fallback } = ruleDefaults[scope];
+  const value = (process.env[variable] ?? fallback).trim();
+  const match = value.match(/^(\d+)\s*\/\s*(\d+)?\s*([smhd])$/i);
+
+  if (!match) {
+    if (value !== "off" && value !== "0") {
+      console.warn(`[call-agent] Ignoring ${variable}="${value}"; expected e.g. 10/1m.`);
+    }
+    return undefined;
+  }
+
+  const limit = Number(match[1]);
+  const windowMs = Number(match[2] ?? 1) * unitMs[match[3].toLowerCase()];
+  return limit > 0 && windowMs > 0 ? { scope, limit, windowMs } : undefined;
+}
+
+export function rateLimitKeys(actorId: string, phoneNumber?: string): RateLimitKeys {
+  return { user: actorId, ...dialLimitKeys(phoneNumber) };
+}
+
+/**
+ * Counts one launch against every applicable sliding window, or throws a 429
+ * naming the first window that is full. All windows are checked before any
+ * is charged, so a rejected launch uses up nothing.
+ */
+export async function consumeRateLimits(keys: RateLimitKeys, now = Date.now()) {
+  const windows = await loadWindows(keys, now);
+  const blocked = limitError(windows, now);
+  if (blocked) throw blocked;
+  await charge(windows, now);
+}
+
+/**
+ * Counts one dial against the global and per-number windows, or returns why
+ * the dial is blocked. Every dial goes through here, whatever launched it.
+ */
+export async function consumeDialLimits(phoneNumber: string, now = Date.now()) {
+  const windows = await loadWindows(dialLimitKeys(phoneNumber), now);
+  const blocked = limitBlock(windows, now);
+  if (!blocked) await charge(windows, now);
+  return blocked;
+}
+
+/**
+ * The block `consumeDialLimits` would return, without counting a dial.
+ * Without a number only the global window is checked.
+ */
+export async function dialLimitBlock(phoneNumber?: string, now = Date.now()) {
+  return limitBlock(await loadWindows(dialLimitKeys(phoneNumber), now), now);
+}
+
+/** Remaining launches in each window, for the dashboard's quota display. */
+export async function rateLimitUsage(keys: RateLimitKeys, now = Date.now()) {
+  const windows = await loadWindows(keys, now);
+  return windows.map<RateLimitUsage>(({ rule, hits }) => ({
+    scope: rule.scope,
+    limit: rule.limit,
+    windowSeconds: rule.windowMs / 1000,
+    remaining: Math.max(0, rule.limit - hits.length)
+  }));
+}
+
+/** The error `consumeRateLimits` would throw, without counting a launch. */
+export async function rateLimitBlock(keys: RateLimitKeys, now = Date.now()) {
+  return limitError(await loadWindows(keys, now), now);
+}
+
+function dialLimitKeys(phoneNumber?: string): RateLimitKeys {
+  return {
+    destination: phoneNumber ? normalizeDialNumber(phoneNumber) : undefined,
+    global: "all"
+  };
+}
+
+async function loadWindows(keys: RateLimitKeys, now: number) {
+  const windows: Window[] = [];
+  for (const scope of Object.keys(ruleDefaults) as RateLimitScope[]) {
+    const key = keys[scope];
+    const rule = parseRule(scope);
+    if (!key || !rule) continue;
+    const id = `${scope}:${key}`;
+    const bucket = await getStorage().get<Bucket>(collection, id);
+    windows.push({ id, rule, hits: prune(bucket?.hits ?? [], rule, now) });
+  }
+  return windows;
+}
+
+const scopeLabels: Record<RateLimitScope, string> = {
+  user: "Per-user rate",
+  destination: "Per-number rate",
+  global: "Global rate"
+};
+
+/** The first full window, with how many seconds until it frees a slot. */
+function fullWindow(windows: Window[], now: number) {
+  const full = windows.find(({ rule, hits }) => hits.length >= rule.limit);
+  if (!full) return undefined;
+
+  const { rule, hits } = full;
+  const retryAfter = Math.max(1, Math.ceil((hits[0] + rule.windowMs - now) / 1000));
+  const window = describeWindow(rule.windowMs / 1000);
+  return {
+    retryAfter,
+    message: `${scopeLabels[rule.scope]} limit reached (${rule.limit} calls per ${window}). Try again in ${retryAfter}s.`
+  };
+}
+
+function limitError(windows: Window[], now: number) {
+  const full = fullWindow(windows, now);
+  return full
+    ? new ServiceError(full.message, 429, { "Retry-After": String(full.retryAfter) })
+    : undefined;
+}
+
+function limitBlock(windows: Window[], now: number): BlockReason | undefined {
+  const full = fullWindow(windows, now);
+  return full
+    ? {
+        code: "rate_limited",
+        message: full.message,
+        nextAllowedAt: new Date(now + full.retryAfter * 1000).toISOString()
+      }
+    : undefined;
+}
+
+async function charge(windows: Window[], now: number) {
+  for (const { id, rule } of windows) {
+    await getStorage().update<Bucket>(collection, id, current => ({
+      hits: [...prune(current?.hits ?? [], rule, now), now]
+    }));
+  }
+}
+
+function prune(hits: number[], rule: RateLimitRule, now: number) {
+  return hits.filter(hit => now - hit < rule.windowMs);
+}
@@ -0,0 +1,79 @@
+import type { CallRecording, RecordingStatus, Transcription } from "../shared/recording";
+import { getCall, updateCall } from "./call-repository";
+import { emitCallEvent } from "./outbound-webhooks";
+import { getTelephonyProvider } from "./telephony";
+import { getTranscriber } from "./transcribers";
+
+export type RecordingEvent = {
+  recordingSid: string;
+  status: RecordingStatus;
+  mediaUrl?: string;
+  duration?: number;
+};
+
+/**
+ * Stores recording metadata reported by the provider and transcribes the
+ * recording once it is complete.
+ */
+export async function recordRecordingEvent(callId: string, event: RecordingEvent) {
+  const call = await getCall(callId);
+  if (!call) return undefined;
+
+  const recording: CallRecording = {
+    ...call.recording,
+    recordingSid: event.recordingSid,
+    status: event.status,
+    mediaUrl: event.mediaUrl ?? call.recording?.mediaUrl,
+    duration: event.duration ?? call.recording?.duration,
+    updatedAt: new Date().toISOString()
+  };
+  const updated = await updateCall(callId, { recording });
+
+  if (recording.status === "completed" && !recording.transcription) {
+    return transcribeRecording(callId);
+  }
+  return updated;
+}
+
+export async function transcribeRecording(callId: string) {
+  const call = await getCall(callId);
+  const recording = call?.recording;
+  if (!call || !recording) return call;
+
+  const name = process.env.TRANSCRIBER ?? "conversation";
+  await setTranscription(callId, { status: "pending", transcriber: name });
+
+  try {
+    const transcriber = getTranscriber();
+    const text = await transcriber.transcribe({
+      call,
+      recording,
+      audio: async () => {
+        if (!recording.mediaUrl) return undefined;
+        const response = await getTelephonyProvider().fetchRecording(recording.mediaUrl);
+        return response?.ok ? response.blob() : undefined;
+      }
+    });
+    const updated = await setTranscription(callId, {
+      status: "completed",
+      transcriber: transcriber.name,
+      text,
+      completedAt: new Date().toISOString()
+    });
+    if (updated) await emitCallEvent("transcript.ready", updated);
+    return updated;
+  } catch (error) {
+    console.error("[call-agent] Transcription failed", error);
+    return setTranscription(callId, {
+      status: "failed",
+      transcriber: name,
+      error: error instanceof Error ? error.message : "Transcription failed."
+    });
+  }
+}
+
+async function setTranscription(callId: string, transcription: Transcription) {
+  const call = await getCall(callId);
+  if (!call?.recording) return call;
+  return updateCall(callId, { recording: { ...call.recording, transcription } });
+}
@@ -0,0 +1,26 @@
+import { createRuleBasedResponder } from "./rule-based";
+import type { Responder } from "./types";
+
+export type { CalleeInput, ConversationContext, Responder, ResponderReply } from "./types";
+
+const responderFactories: Record<string, () => Responder> = {
+  rules: createRuleBasedResponder
+};
+
+let responder: Responder | undefined;
+
+/**
+ * Resolves the responder named by `CONVERSATION_RESPONDER` (defaults to
+ * `rules`). Additional responders register in `responderFactories`.
+ */
+export function getResponder(): Responder {
+  if (!responder) {
+    const name = process.env.CONVERSATION_RESPONDER ?? "rules";
+    const factory = responderFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown CONVERSATION_RESPONDER "${name}".`);
+    }
+    responder = factory();
+  }
+  return responder;
+}
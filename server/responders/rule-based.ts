@@ -0,0 +1,93 @@
+import type { ScriptStyle } from "../../shared/calls";
+import type { Responder } from "./types";
+
+const maxAgentTurns = 6;
+const reprompt =
+  "Sorry, I didn't quite catch that. Is this something you'd like to explore? Say yes or no, or press 1 or 2.";
+
+const intents: { name: Intent; digits?: string; pattern: RegExp }[] = [
+  {
+    name: "human",
+    digits: "0",
+    pattern: /\b(human|real person|a person|someone|somebody|agent|representative|operator)\b/i
+  },
+  { name: "optOut", pattern: /\b(stop|remove me|do not call|don't call|unsubscribe)\b/i },
+  { name: "callback", digits: "3", pattern: /\b(call (me )?back|later|busy|not a good time)\b/i },
+  { name: "decline", digits: "2", pattern: /\b(no|nope|not interested|no thanks)\b/i },
+  { name: "accept", digits: "1", pattern: /\b(yes|yeah|yep|sure|sounds good|interested|okay|ok)\b/i },
+  { name: "question", pattern: /\b(who|what|why|how|which)\b|\?/i }
+];
+
+type Intent = "human" | "optOut" | "callback" | "decline" | "accept" | "question" | "unclear";
+
+const acceptReplies: Record<ScriptStyle, string> = {
+  friendly:
+    "Wonderful! I'll have someone from our team follow up with a couple of times that work for you.",
+  direct: "Great. I'll send over the next step right away so we can keep this moving.",
+  consultative:
+    "That's helpful. I'll share a short summary and suggest a working session to dig into your priorities."
+};
+
+/**
+ * Keyword-driven responder that runs entirely offline. DTMF shortcuts:
+ * 1 = yes, 2 = no, 3 = call back later, 0 = talk to a person.
+ */
+export function createRuleBasedResponder(): Responder {
+  return {
+    async respond({ call, script, turns, input, transferAvailable }) {
+      const agentTurns = turns.filter(turn => turn.speaker === "agent").length;
+      const intent = classify(input.speech, input.digits);
+      const signOff = script.closing;
+
+      if (agentTurns >= maxAgentTurns) {
+        return { say: `I don't want to take up more of your time. ${signOff}`, next: "end" };
+      }
+
+      switch (intent) {
+        case "human":
+          return transferAvailable
+            ? { say: "Of course. I'll connect you with someone from our team now.", next: "transfer" }
+            : {
+                say: `Nobody from our team is free right now, so I'll have someone call you back. ${signOff}`,
+                next: "end"
+              };
+        case "optOut":
+          return {
+            say: "Understood. We'll make sure you don't receive further calls. Goodbye.",
+            next: "end",
+            optOut: true
+          };
+        case "callback":
+          return {
+            say: `No problem at all. We'll reach out at a better time. ${signOff}`,
+            next: "end"
+          };
+        case "decline":
+          return { say: `Thanks for letting me know. ${signOff}`, next: "end" };
+        case "accept":
+          return { say: `${acceptReplies[call.scriptStyle]} ${signOff}`, next: "end" };
+        case "question":
+          return {
+            say: `Good question. I'm calling because ${call.objective}. Would that be useful for you? You can say yes or no, or press 1 or 2.`,
+            next: "listen"
+          };
+        case "unclear": {
+          const lastAgent = [...turns].reverse().find(turn => turn.speaker === "agent");
+          // Two unclear replies in a row usually means nobody is listening.
+          if (lastAgent?.text === reprompt) {
+            return { say: `It seems this isn't a good moment. ${signOff}`, next: "end" };
+          }
+          return { say: reprompt, next: "listen" };
+        }
+      }
+    }
+  };
+}
+
+function classify(speech?: string, digits?: string): Intent {
+  if (digits) {
+    return intents.find(intent => intent.digits === digits)?.name ?? "unclear";
+  }
+  if (!speech?.trim()) return "unclear";
+  return intents.find(intent => intent.pattern.test(speech))?.name ?? "unclear";
+}
@@ -0,0 +1,37 @@
+import type { CallRecord, ConversationTurn } from "../../shared/calls";
+import type { RenderedScript } from "../../shared/script-template";
+
+export type CalleeInput = {
+  speech?: string;
+  digits?: string;
+  confidence?: number;
+};
+
+export type ConversationContext = {
+  call: CallRecord;
+  script: RenderedScript;
+  /** Every turn so far, including the callee input being answered. */
+  turns: ConversationTurn[];
+  input: CalleeInput;
+  /** Whether a human agent line is configured to transfer the callee to. */
+  transferAvailable: boolean;
+};
+
+export type ResponderReply = {
+  say: string;
+  /**
+   * `listen` gathers another reply; `end` closes the call after speaking;
+   * `transfer` speaks, then connects the callee to the human agent line.
+   */
+  next: "listen" | "end" | "transfer";
+  /** The callee asked not to be called again; the number goes on the do-not-call list. */
+  optOut?: boolean;
+};
+
+/**
+ * Decides the agent's next utterance. Implementations may call out to a
+ * language model, but must resolve quickly enough for a live call.
+ */
+export interface Responder {
+  respond(context: ConversationContext): Promise<ResponderReply>;
+}
@@ -0,0 +1,76 @@
+import { isTerminalStatus } from "../shared/call-status";
+import type { CallRecord } from "../shared/calls";
+import { attemptPhoneNumber, retryDelayMinutes, retryOutcome } from "../shared/retry-policy";
+import { claimNextAttempt, createCall } from "./call-repository";
+import { alignToCallingWindow } from "./compliance";
+import { scheduleCall } from "./scheduler";
+
+/**
+ * Schedules the next attempt when a call with a retry policy ends in an
+ * outcome the policy retries. Attempts are ordinary scheduled calls that
+ * point back at the original call, so they go through the same compliance,
+ * budget and dialing path. The chain ends on any other outcome or once the
+ * last attempt has been made.
+ */
+export async function scheduleRetry(call: CallRecord, now = new Date()) {
+  const policy = call.retryPolicy;
+  if (!policy || !isTerminalStatus(call.status)) return undefined;
+
+  const attempt = call.attempt ?? 1;
+  const outcome = retryOutcome(call);
+  if (!outcome || !policy.retryOn.includes(outcome) || attempt >= policy.maxAttempts) {
+    return undefined;
+  }
+
+  const nextId = crypto.randomUUID();
+  if (!(await claimNextAttempt(call.id, nextId))) return undefined;
+
+  const next = {
+    ...launchFields(call),
+    phoneNumber: attemptPhoneNumber(policy, attempt + 1, call.phoneNumber),
+    parentCallId: call.parentCallId ?? call.id,
+    attempt: attempt + 1
+  };
+  const wanted = new Date(now.getTime() + retryDelayMinutes(policy, attempt) * 60_000);
+  const runAt = alignToCallingWindow(next, wanted).toISOString();
+  const retry = await createCall({
+    ...next,
+    id: nextId,
+    status: "scheduled",
+    scheduledAt: runAt,
+    message: `Attempt ${attempt + 1} of ${policy.maxAttempts} after ${outcome.replace("-", " ")}; scheduled for ${runAt}.`
+  });
+  await scheduleCall(retry.id, runAt);
+  return retry;
+}
+
+/**
+ * What a retry or a sequence's follow-up call repeats from the call before
+ * it; outcomes start fresh.
+ */
+export function launchFields(call: CallRecord) {
+  return {
+    contactName: call.contactName,
+    phoneNumber: call.phoneNumber,
+    objective: call.objective,
+    scriptStyle: call.scriptStyle,
+    voice: call.voice,
+    notes: call.notes,
+    voicemailScript: call.voicemailScript,
+    callbackNumber: call.callbackNumber,
+    templateId: call.templateId,
+    templateVersion: call.templateVersion,
+    customFields: call.customFields,
+    consentGranted: call.consentGranted,
+    consentSource: call.consentSource,
+    timezone: call.timezone,
+    record: call.record,
+    recordingDisclosure: call.recordingDisclosure,
+    teamId: call.teamId,
+    launchedBy: call.launchedBy,
+    contactId: call.contactId,
+    retryPolicy: call.retryPolicy,
+    sequenceId: call.sequenceId,
+    sequenceRunId: call.sequenceRunId
+  };
+}
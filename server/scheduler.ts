@@ -0,0 +1,153 @@
+import { belongsToTeam } from "../shared/auth";
+import type { CallRecord } from "../shared/calls";
+import type { JobStatus, ScheduledJob } from "../shared/jobs";
+import { exceededBudget } from "./budgets";
+import { getCall, updateCall } from "./call-repository";
+import { alignToCallingWindow } from "./compliance";
+import { dialCall } from "./dialer";
+import { ServiceError } from "./errors";
+import { dialLimitBlock } from "./rate-limits";
+import { getStorage } from "./storage";
+
+const collection = "jobs";
+
+export async function scheduleCall(callId: string, runAt: string) {
+  const now = new Date().toISOString();
+  const job: ScheduledJob = {
+    id: crypto.randomUUID(),
+    callId,
+    runAt,
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+  return getStorage().put(collection, job.id, job);
+}
+
+export async function listJobs(status?: JobStatus[]) {
+  const jobs = await getStorage().list<ScheduledJob>(collection);
+  return jobs
+    .filter(job => !status?.length || status.includes(job.status))
+    .sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+export async function getJob(id: string) {
+  return getStorage().get<ScheduledJob>(collection, id);
+}
+
+/** Rejects jobs whose call belongs to another workspace as if they did not exist. */
+export async function assertJobInTeam(id: string, teamId: string) {
+  const job = await getJob(id);
+  const call = job ? await getCall(job.callId) : undefined;
+  if (!call || !belongsToTeam(call, teamId)) throw new ServiceError("Job not found.", 404);
+}
+
+export async function rescheduleJob(id: string, runAt: string) {
+  const job = await transitionPending(id, current => ({ ...current, runAt }));
+  await updateCall(job.callId, {
+    scheduledAt: runAt,
+    message: `Call scheduled for ${runAt}.`
+  });
+  return job;
+}
+
+export async function cancelJob(id: string) {
+  const job = await transitionPending(id, current => ({ ...current, status: "canceled" }));
+  await updateCall(job.callId, { status: "canceled", message: "Scheduled call canceled." });
+  return job;
+}
+
+/**
+ * Dispatches every pending job whose `runAt` has passed. Each job is claimed
+ * by moving it to `dispatching` before dialing so overlapping ticks skip it.
+ * Jobs that come due outside the callee's calling hours are deferred to the
+ * next allowed window instead of being dialed, and while a spend budget or
+ * rate limit is exhausted they wait for it to free up.
+ */
+export async function dispatchDueJobs(now = new Date()) {
+  const due = (await listJobs(["pending"])).filter(job => Date.parse(job.runAt) <= now.getTime());
+  const summary = { dispatched: 0, failed: 0, deferred: 0 };
+
+  for (const job of due) {
+    const pendingCall = await getCall(job.callId);
+    const budget = await exceededBudget(now);
+    const limited = pendingCall
+      ? await dialLimitBlock(pendingCall.phoneNumber, now.getTime())
+      : undefined;
+    const allowedAt = budget
+      ? new Date(budget.resetsAt)
+      : limited?.nextAllowedAt
+        ? new Date(limited.nextAllowedAt)
+        : pendingCall
+          ? alignToCallingWindow(pendingCall, now)
+          : now;
+    if (allowedAt.getTime() > now.getTime()) {
+      await rescheduleJob(job.id, allowedAt.toISOString());
+      summary.deferred += 1;
+      continue;
+    }
+
+    const claimed = await getStorage().update<ScheduledJob>(collection, job.id, current =>
+      current?.status === "pending"
+        ? {
+            ...current,
+            status: "dispatching",
+            attempts: current.attempts + 1,
+            updatedAt: new Date().toISOString()
+          }
+        : undefined
+    );
+    if (!claimed) continue;
+
+    const call = await getCall(claimed.callId);
+    const outcome = call
+      ? await dialJobCall(call)
+      : { success: false, message: "Call record no longer exists." };
+
+    await getStorage().update<ScheduledJob>(collection, job.id, current =>
+      current
+        ? {
+            ...current,
+            status: outcome.success ? "dispatched" : "failed",
+            lastError: outcome.success ? undefined : outcome.message,
+            updatedAt: new Date().toISOString()
+          }
+        : undefined
+    );
+    summary[outcome.success ? "dispatched" : "failed"] += 1;
+  }
+
+  return summary;
+}
+
+/** Dials a claimed job's call. Errors fail the call rather than leave it queued for good. */
+async function dialJobCall(call: CallRecord) {
+  try {
+    return await dialCall(call);
+  } catch (error) {
+    console.error("[call-agent] Scheduled dial failed", error);
+    const message = error instanceof Error ? error.message : "Unknown error while dialing.";
+    await updateCall(call.id, { status: "failed", message });
+    return { success: false, message };
+  }
+}
+
+async function transitionPending(
+  id: string,
+  change: (job: ScheduledJob) => ScheduledJob
+): Promise<ScheduledJob> {
+  let state: JobStatus | undefined;
+  const updated = await getStorage().update<ScheduledJob>(collection, id, current => {
+    state = current?.status;
+    if (current?.status !== "pending") return undefined;
+    return { ...change(current), updatedAt: new Date().toISOString() };
+  });
+
+  if (!updated) {
+    throw state
+      ? new ServiceError(`Only pending jobs can be changed (job is ${state}).`, 409)
+      : new ServiceError("Job not found.", 404);
+  }
+  return updated;
+}
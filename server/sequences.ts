@@ -0,0 +1,269 @@
+import { belongsToTeam } from "../shared/auth";
+import { isTerminalStatus } from "../shared/call-status";
+import type { CallRecord } from "../shared/calls";
+import { normalizeDialNumber } from "../shared/compliance";
+import {
+  followUpOutcome,
+  type Sequence,
+  type SequenceInput,
+  type SequenceRun
+} from "../shared/sms";
+import { createCall, getCall } from "./call-repository";
+import { alignToCallingWindow, isDoNotCall } from "./compliance";
+import { ServiceError } from "./errors";
+import { launchFields } from "./retries";
+import { scheduleCall } from "./scheduler";
+import { getSmsTemplate, sendFollowUp } from "./sms";
+import { getStorage } from "./storage";
+
+const collection = "sequences";
+const runCollection = "sequence-runs";
+
+export async function listSequences(teamId: string) {
+  const sequences = await getStorage().list<Sequence>(collection);
+  return sequences
+    .filter(sequence => belongsToTeam(sequence, teamId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSequence(id: string) {
+  return getStorage().get<Sequence>(collection, id);
+}
+
+/** Rejects sequences from other workspaces, like `pinTemplate`. */
+export async function assertSequence(id: string, teamId: string) {
+  const sequence = await getSequence(id);
+  if (!sequence || !belongsToTeam(sequence, teamId)) {
+    throw new ServiceError("Follow-up sequence not found.", 400);
+  }
+  return sequence;
+}
+
+export async function createSequence(teamId: string, input: SequenceInput) {
+  await assertStepTemplates(input, teamId);
+  const now = new Date().toISOString();
+  const sequence: Sequence = {
+    id: crypto.randomUUID(),
+    ...input,
+    teamId,
+    createdAt: now,
+    updatedAt: now
+  };
+  return getStorage().put(collection, sequence.id, sequence);
+}
+
+/** Runs already in progress pick up the edited steps from where they are. */
+export async function updateSequence(id: string, teamId: string, changes: Partial<SequenceInput>) {
+  if (changes.steps) await assertStepTemplates({ steps: changes.steps }, teamId);
+  const updated = await getStorage().update<Sequence>(collection, id, current => {
+    if (!current || !belongsToTeam(current, teamId)) return undefined;
+    return {
+      ...current,
+      name: changes.name ?? current.name,
+      steps: changes.steps ?? current.steps,
+      updatedAt: new Date().toISOString()
+    };
+  });
+
+  if (!updated) throw new ServiceError("Follow-up sequence not found.", 404);
+  return updated;
+}
+
+export async function deleteSequence(id: string, teamId: string) {
+  const sequence = await getSequence(id);
+  const removed =
+    sequence && belongsToTeam(sequence, teamId) && (await getStorage().remove(collection, id));
+  if (!removed) throw new ServiceError("Follow-up sequence not found.", 404);
+}
+
+/** Runs that have not finished yet, newest first. */
+export async function listOpenRuns(teamId: string) {
+  const runs = await getStorage().list<SequenceRun>(runCollection);
+  return runs
+    .filter(run => belongsToTeam(run, teamId) && !isFinished(run))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Starts the sequence a finished call was launched with. */
+export async function startRun(call: CallRecord, now = new Date()) {
+  const sequence = call.sequenceId ? await getSequence(call.sequenceId) : undefined;
+  if (!sequence) return undefined;
+
+  const run: SequenceRun = {
+    id: crypto.randomUUID(),
+    sequenceId: sequence.id,
+    callId: call.id,
+    phoneNumber: call.phoneNumber,
+    lastOutcome: followUpOutcome(call),
+    teamId: call.teamId,
+    contactId: call.contactId,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ...nextStep(sequence, 0, now)
+  };
+  return getStorage().put(runCollection, run.id, run);
+}
+
+/** Carries on after the call a run was waiting for; calls that never connected stop it. */
+export async function resumeRun(call: CallRecord, now = new Date()) {
+  const run = call.sequenceRunId ? await getRun(call.sequenceRunId) : undefined;
+  if (!run || run.status !== "waiting" || run.pendingCallId !== call.id) return undefined;
+
+  const outcome = followUpOutcome(call);
+  if (!outcome) return stopRun(run.id, `Call ended as ${call.status}.`);
+  const sequence = await getSequence(run.sequenceId);
+  if (!sequence) return stopRun(run.id, "Sequence was deleted.");
+
+  return updateRun(run.id, current =>
+    current.status === "waiting"
+      ? {
+          ...current,
+          lastOutcome: outcome,
+          pendingCallId: undefined,
+          ...nextStep(sequence, current.step, now)
+        }
+      : undefined
+  );
+}
+
+/** A retry replaced the call the run was waiting for. */
+export async function handOffRun(runId: string, callId: string) {
+  return updateRun(runId, current =>
+    current.status === "waiting" ? { ...current, pendingCallId: callId } : undefined
+  );
+}
+
+export async function stopRunsForNumber(phoneNumber: string, reason: string) {
+  const key = normalizeDialNumber(phoneNumber);
+  const runs = await getStorage().list<SequenceRun>(runCollection);
+  for (const run of runs) {
+    if (!isFinished(run) && normalizeDialNumber(run.phoneNumber) === key) {
+      await stopRun(run.id, reason);
+    }
+  }
+}
+
+/**
+ * Runs every step whose time has come. Steps are claimed by advancing the
+ * run before acting, so overlapping ticks skip them. Runs waiting on a call
+ * that was blocked or canceled before it rang are stopped, since no status
+ * callback will resume them.
+ */
+export async function advanceSequences(now = new Date()) {
+  const runs = await getStorage().list<SequenceRun>(runCollection);
+  let steps = 0;
+
+  for (const run of runs) {
+    if (run.status === "waiting" && run.pendingCallId) {
+      const pending = await getCall(run.pendingCallId);
+      if (!pending || (isTerminalStatus(pending.status) && !pending.callSid)) {
+        await stopRun(run.id, pending?.message ?? "The follow-up call was removed.");
+      }
+      continue;
+    }
+
+    let current: SequenceRun | undefined = run;
+    // Steps without a delay run in the same tick.
+    while (current?.status === "active" && Date.parse(current.nextRunAt ?? "") <= now.getTime()) {
+      current = await runStep(current, now);
+      steps += 1;
+    }
+  }
+  return steps;
+}
+
+async function runStep(run: SequenceRun, now: Date) {
+  const sequence = await getSequence(run.sequenceId);
+  const call = await getCall(run.callId);
+  if (!sequence) return stopRun(run.id, "Sequence was deleted.");
+  if (!call) return stopRun(run.id, "The call that started the sequence was deleted.");
+  if (await isDoNotCall(run.phoneNumber)) return stopRun(run.id, "Callee opted out.");
+
+  // The sequence may have lost steps since the run started.
+  const step = sequence.steps[run.step];
+  if (!step) {
+    return updateRun(run.id, current => ({
+      ...current,
+      status: "completed",
+      nextRunAt: undefined
+    }));
+  }
+
+  const skipped = step.onlyAfter && !(run.lastOutcome && step.onlyAfter.includes(run.lastOutcome));
+  const callId = step.type === "call" && !skipped ? crypto.randomUUID() : undefined;
+  const claimed = await updateRun(run.id, current => {
+    if (current.status !== "active" || current.step !== run.step) return undefined;
+    if (!callId) return { ...current, ...nextStep(sequence, run.step + 1, now) };
+    return {
+      ...current,
+      step: run.step + 1,
+      status: "waiting",
+      nextRunAt: undefined,
+      pendingCallId: callId
+    };
+  });
+  if (!claimed || skipped) return claimed;
+
+  if (step.type === "sms") {
+    const template = await getSmsTemplate(step.templateId);
+    if (template) await sendFollowUp(call, template, { sequenceRunId: run.id }, now);
+    return claimed;
+  }
+
+  const runAt = alignToCallingWindow(call, now).toISOString();
+  const next = await createCall({
+    ...launchFields(call),
+    id: callId,
+    sequenceRunId: run.id,
+    status: "scheduled",
+    scheduledAt: runAt,
+    message: `Step ${run.step + 1} of "${sequence.name}"; scheduled for ${runAt}.`
+  });
+  await scheduleCall(next.id, runAt);
+  return claimed;
+}
+
+/** Where a run goes once `step` is next: due after its delay, or done. */
+function nextStep(sequence: Sequence, step: number, now: Date) {
+  const next = sequence.steps[step];
+  return next
+    ? {
+        step,
+        status: "active" as const,
+        nextRunAt: new Date(now.getTime() + next.delayMinutes * 60_000).toISOString()
+      }
+    : { step, status: "completed" as const, nextRunAt: undefined };
+}
+
+async function getRun(id: string) {
+  return getStorage().get<SequenceRun>(runCollection, id);
+}
+
+async function updateRun(id: string, change: (run: SequenceRun) => SequenceRun | undefined) {
+  return getStorage().update<SequenceRun>(runCollection, id, current => {
+    const changed = current ? change(current) : undefined;
+    return changed ? { ...changed, updatedAt: new Date().toISOString() } : undefined;
+  });
+}
+
+async function stopRun(id: string, reason: string) {
+  return updateRun(id, current =>
+    isFinished(current)
+      ? undefined
+      : { ...current, status: "stopped", stopReason: reason, nextRunAt: undefined }
+  );
+}
+
+function isFinished(run: SequenceRun) {
+  return run.status === "completed" || run.status === "stopped";
+}
+
+async function assertStepTemplates(input: Pick<SequenceInput, "steps">, teamId: string) {
+  for (const step of input.steps) {
+    if (step.type !== "sms") continue;
+    const template = await getSmsTemplate(step.templateId);
+    if (!template || !belongsToTeam(template, teamId)) {
+      throw new ServiceError("SMS template not found.", 400);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { createHash, randomBytes } from "crypto";
+import { getStorage } from "./storage";
+
+const collection = "sessions";
+const sessionTtlMs = 14 * 24 * 60 * 60 * 1000;
+
+export type SessionRecord = {
+  id: string;
+  userId: string;
+  teamId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/** Starts a session and returns the bearer token; only its hash is stored. */
+export async function createSession(userId: string, teamId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const session: SessionRecord = {
+    id: hashToken(token),
+    userId,
+    teamId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + sessionTtlMs).toISOString()
+  };
+  await getStorage().put(collection, session.id, session);
+  return { token, session };
+}
+
+export async function getSession(token: string) {
+  const id = hashToken(token);
+  const session = await getStorage().get<SessionRecord>(collection, id);
+  if (!session) return undefined;
+
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    await getStorage().remove(collection, id);
+    return undefined;
+  }
+  return session;
+}
+
+export async function switchSessionTeam(token: string, teamId: string) {
+  return getStorage().update<SessionRecord>(collection, hashToken(token), current =>
+    current ? { ...current, teamId } : undefined
+  );
+}
+
+export async function deleteSession(token: string) {
+  await getStorage().remove(collection, hashToken(token));
+}
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
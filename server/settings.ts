@@ -0,0 +1,26 @@
+import { defaultTeamSettings, type TeamSettings } from "../shared/recording";
+import { getStorage } from "./storage";
+
+const collection = "settings";
+
+/** Settings for a workspace; records without a workspace get the defaults. */
+export async function getTeamSettings(teamId: string | undefined): Promise<TeamSettings> {
+  const stored = teamId ? await getStorage().get<TeamSettings>(collection, teamId) : undefined;
+  return { ...defaultTeamSettings, ...stored };
+}
+
+export async function updateTeamSettings(teamId: string, patch: Partial<TeamSettings>) {
+  const current = await getTeamSettings(teamId);
+  return getStorage().put<TeamSettings>(collection, teamId, { ...current, ...patch });
+}
+
+/**
+ * Recording fields for a new call. An explicit choice wins over the team
+ * default, and the disclosure is copied so later edits don't change what a
+ * recorded call said.
+ */
+export async function recordingOptions(teamId: string | undefined, record?: boolean) {
+  const settings = await getTeamSettings(teamId);
+  const enabled = record ?? settings.recordCallsByDefault;
+  return enabled ? { record: true, recordingDisclosure: settings.recordingDisclosure } : {};
+}
@@ -0,0 +1,344 @@
+import { belongsToTeam } from "../shared/auth";
+import type { CallRecord } from "../shared/calls";
+import { normalizeDialNumber } from "../shared/compliance";
+import type { Contact } from "../shared/contacts";
+import { renderTemplateText } from "../shared/script-template";
+import type {
+  FollowUpOutcome,
+  SmsMessage,
+  SmsStatus,
+  SmsTemplate,
+  SmsTemplateInput
+} from "../shared/sms";
+import { plainSpeech } from "../shared/speech";
+import { findLastOutboundCall, getCall } from "./call-repository";
+import { defaultInboundTeam, findNumberOwner, listCallerIds } from "./caller-ids";
+import { alignToCallingWindow, isDoNotCall } from "./compliance";
+import { findContactByPhone, findContactByPhoneAnywhere, getContact } from "./contacts";
+import { ServiceError } from "./errors";
+import { getStorage } from "./storage";
+import { getTelephonyProvider } from "./telephony";
+import { webhookUrl } from "./webhooks";
+
+const templateCollection = "sms-templates";
+const messageCollection = "sms-messages";
+
+export type InboundSms = {
+  from: string;
+  /** The number the callee texted. */
+  to?: string;
+  body: string;
+  sid?: string;
+};
+
+export async function listSmsTemplates(teamId: string) {
+  const templates = await getStorage().list<SmsTemplate>(templateCollection);
+  return templates
+    .filter(template => belongsToTeam(template, teamId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSmsTemplate(id: string) {
+  return getStorage().get<SmsTemplate>(templateCollection, id);
+}
+
+/** The template sent automatically after calls that end in `outcome`, if any. */
+export async function findTriggeredTemplate(teamId: string | undefined, outcome: FollowUpOutcome) {
+  const templates = await getStorage().list<SmsTemplate>(templateCollection);
+  return templates.find(template => template.trigger === outcome && template.teamId === teamId);
+}
+
+export async function createSmsTemplate(teamId: string, input: SmsTemplateInput) {
+  const now = new Date().toISOString();
+  const template: SmsTemplate = {
+    id: crypto.randomUUID(),
+    ...input,
+    teamId,
+    createdAt: now,
+    updatedAt: now
+  };
+  await clearTrigger(template);
+  return getStorage().put(templateCollection, template.id, template);
+}
+
+/** `trigger: null` stops sending the template automatically. */
+export async function updateSmsTemplate(
+  id: string,
+  teamId: string,
+  changes: Partial<Omit<SmsTemplateInput, "trigger">> & { trigger?: FollowUpOutcome | null }
+) {
+  const updated = await getStorage().update<SmsTemplate>(templateCollection, id, current => {
+    if (!current || !belongsToTeam(current, teamId)) return undefined;
+    return {
+      ...current,
+      name: changes.name ?? current.name,
+      body: changes.body ?? current.body,
+      trigger: changes.trigger === undefined ? current.trigger : changes.trigger ?? undefined,
+      updatedAt: new Date().toISOString()
+    };
+  });
+
+  if (!updated) throw new ServiceError("SMS template not found.", 404);
+  await clearTrigger(updated);
+  return updated;
+}
+
+export async function deleteSmsTemplate(id: string, teamId: string) {
+  const template = await getSmsTemplate(id);
+  const removed =
+    template &&
+    belongsToTeam(template, teamId) &&
+    (await getStorage().remove(templateCollection, id));
+  if (!removed) throw new ServiceError("SMS template not found.", 404);
+}
+
+/**
+ * Texts a template to the callee of `call`, rendered with the call's script
+ * variables. Numbers on the do-not-call list are skipped; outside the
+ * callee's calling hours the message is held until the window opens.
+ */
+export async function sendFollowUp(
+  call: CallRecord,
+  template: SmsTemplate,
+  link: { sequenceRunId?: string } = {},
+  now = new Date()
+) {
+  if (await isDoNotCall(call.phoneNumber)) return undefined;
+
+  const body = plainSpeech(
+    renderTemplateText(template.body, {
+      contactName: call.contactName,
+      objective: call.objective,
+      notes: call.notes,
+      customFields: call.customFields
+    })
+  ).trim();
+  if (!body) return undefined;
+
+  const sendAt = alignToCallingWindow(call, now);
+  const message = await saveMessage({
+    direction: "outbound",
+    phoneNumber: call.phoneNumber,
+    body,
+    status: "scheduled",
+    sendAt: sendAt.toISOString(),
+    teamId: call.teamId,
+    contactId: call.contactId,
+    callId: call.id,
+    templateId: template.id,
+    ...link
+  });
+  return sendAt.getTime() > now.getTime() ? message : deliver(message);
+}
+
+/** Sends held messages whose time has come. */
+export async function sendDueMessages(now = new Date()) {
+  const messages = await getStorage().list<SmsMessage>(messageCollection);
+  const due = messages.filter(
+    message => message.status === "scheduled" && Date.parse(message.sendAt ?? "") <= now.getTime()
+  );
+  let sent = 0;
+  for (const message of due) {
+    if ((await deliver(message))?.status === "sent") sent += 1;
+  }
+  return sent;
+}
+
+/** Cancels every held message to a number, e.g. after the callee opted out. */
+export async function cancelScheduledMessages(phoneNumber: string) {
+  const key = normalizeDialNumber(phoneNumber);
+  const messages = await getStorage().list<SmsMessage>(messageCollection);
+  const held = messages.filter(
+    message => message.status === "scheduled" && normalizeDialNumber(message.phoneNumber) === key
+  );
+  for (const message of held) {
+    await setStatus(message.id, "scheduled", { status: "canceled", error: "Recipient opted out." });
+  }
+}
+
+/**
+ * Logs a text from a callee. Texts to a pool number belong to the workspace
+ * that owns it, and are only matched against that workspace's texts, calls
+ * and contacts. Texts to a shared number go to the workspace that last wrote
+ * to or called the callee. Texts no workspace claims are logged without a
+ * team and stay hidden.
+ */
+export async function storeInboundMessage(input: InboundSms) {
+  const owner = await findNumberOwner(input.to);
+  const key = normalizeDialNumber(input.from);
+  const messages = await getStorage().list<SmsMessage>(messageCollection);
+  const lastSent = messages
+    .filter(
+      message =>
+        message.direction === "outbound" &&
+        normalizeDialNumber(message.phoneNumber) === key &&
+        (!owner || message.teamId === owner)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  const call = lastSent
+    ? undefined
+    : await findLastOutboundCall(input.from, { teamId: owner, callerId: input.to });
+  const contact =
+    lastSent?.contactId || call?.contactId
+      ? undefined
+      : owner
+        ? await findContactByPhone(owner, input.from)
+        : await findContactByPhoneAnywhere(input.from);
+
+  return saveMessage({
+    direction: "inbound",
+    phoneNumber: input.from,
+    body: input.body,
+    status: "received",
+    sid: input.sid,
+    teamId: owner ?? lastSent?.teamId ?? call?.teamId ?? contact?.teamId ?? defaultInboundTeam(),
+    contactId: lastSent?.contactId ?? call?.contactId ?? contact?.id,
+    callId: lastSent?.callId ?? call?.id
+  });
+}
+
+/** Applies a provider delivery callback. */
+export async function recordSmsStatus(sid: string, status: string, errorCode?: string) {
+  const messages = await getStorage().list<SmsMessage>(messageCollection);
+  const message = messages.find(entry => entry.sid === sid);
+  if (!message || message.direction !== "outbound") return undefined;
+
+  const next: SmsStatus | undefined =
+    status === "delivered"
+      ? "delivered"
+      : status === "failed" || status === "undelivered"
+        ? "failed"
+        : undefined;
+  if (!next) return message;
+  const reported = `Carrier reported ${status} (${errorCode ?? "no code"}).`;
+  return getStorage().update<SmsMessage>(messageCollection, message.id, current =>
+    current
+      ? {
+          ...current,
+          status: next,
+          error: next === "failed" ? reported : undefined,
+          updatedAt: new Date().toISOString()
+        }
+      : undefined
+  );
+}
+
+export async function listMessagesForContact(
+  contact: Pick<Contact, "id" | "phoneNumber" | "teamId">
+) {
+  const messages = await getStorage().list<SmsMessage>(messageCollection);
+  return messages
+    .filter(
+      message =>
+        message.contactId === contact.id ||
+        (!message.contactId &&
+          message.teamId === contact.teamId &&
+          normalizeDialNumber(message.phoneNumber) === contact.phoneNumber)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Moves messages from a merged-away contact onto the one that absorbed it. */
+export async function reassignContactMessages(fromId: string, toId: string) {
+  const messages = await getStorage().list<SmsMessage>(messageCollection);
+  for (const message of messages.filter(entry => entry.contactId === fromId)) {
+    await getStorage().update<SmsMessage>(messageCollection, message.id, current =>
+      current ? { ...current, contactId: toId } : undefined
+    );
+  }
+}
+
+async function saveMessage(input: Omit<SmsMessage, "id" | "createdAt" | "updatedAt">) {
+  const now = new Date().toISOString();
+  const message: SmsMessage = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+  return getStorage().put(messageCollection, message.id, message);
+}
+
+/**
+ * Hands a held message to the provider. It is claimed by moving it out of
+ * `scheduled` first so overlapping ticks do not send it twice.
+ */
+async function deliver(message: SmsMessage) {
+  const optedOut = await isDoNotCall(message.phoneNumber);
+  const claimed = await setStatus(
+    message.id,
+    "scheduled",
+    optedOut ? { status: "canceled", error: "Recipient opted out." } : { status: "sent" }
+  );
+  if (!claimed || optedOut) return claimed;
+
+  try {
+    const sent = await getTelephonyProvider().sendSms({
+      to: message.phoneNumber,
+      from: await chooseSender(message),
+      body: message.body,
+      statusUrl: webhookUrl("/api/twilio/sms/status")
+    });
+    return getStorage().update<SmsMessage>(messageCollection, message.id, current =>
+      current
+        ? { ...current, sid: sent.sid, status: sent.status, updatedAt: new Date().toISOString() }
+        : undefined
+    );
+  } catch (error) {
+    console.error("[call-agent] Failed to send SMS", error);
+    const reason = error instanceof Error ? error.message : "Unknown error while sending SMS.";
+    return getStorage().update<SmsMessage>(messageCollection, message.id, current =>
+      current
+        ? { ...current, status: "failed", error: reason, updatedAt: new Date().toISOString() }
+        : undefined
+    );
+  }
+}
+
+/**
+ * The number a text goes out from, so replies reach the number the callee
+ * knows: the contact's pinned caller ID, else the one the last call showed.
+ * Numbers retired or flagged in the pool are skipped, as they are for calls.
+ * Undefined falls back to the provider's default number.
+ */
+async function chooseSender(message: SmsMessage) {
+  if (!message.teamId) return undefined;
+  const contact = message.contactId
+    ? await getContact(message.contactId, message.teamId)
+    : undefined;
+  const call = message.callId
+    ? await getCall(message.callId)
+    : await findLastOutboundCall(message.phoneNumber, { teamId: message.teamId });
+  const usable = (await listCallerIds(message.teamId)).filter(
+    callerId => !callerId.retiredAt && callerId.health !== "flagged"
+  );
+
+  return [contact?.callerId, call?.callerId].find(
+    number => number && usable.some(callerId => callerId.phoneNumber === number)
+  );
+}
+
+async function setStatus(
+  id: string,
+  from: SmsStatus,
+  change: Pick<SmsMessage, "status"> & { error?: string }
+) {
+  return getStorage().update<SmsMessage>(messageCollection, id, current =>
+    current?.status === from
+      ? { ...current, ...change, updatedAt: new Date().toISOString() }
+      : undefined
+  );
+}
+
+/** Only one template per workspace is sent for each outcome. */
+async function clearTrigger(template: SmsTemplate) {
+  if (!template.trigger) return;
+  const templates = await getStorage().list<SmsTemplate>(templateCollection);
+  for (const other of templates) {
+    if (
+      other.id === template.id ||
+      other.trigger !== template.trigger ||
+      other.teamId !== template.teamId
+    ) {
+      continue;
+    }
+    await getStorage().update<SmsTemplate>(templateCollection, other.id, current =>
+      current ? { ...current, trigger: undefined } : undefined
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { readJsonFile, updateJsonFile } from "../json-file";
+import type { StorageAdapter } from "./types";
+
+type Collection<T> = Record<string, T>;
+
+function fileFor(collection: string) {
+  return `${collection}.json`;
+}
+
+export function createFileAdapter(): StorageAdapter {
+  return {
+    async list<T>(collection: string) {
+      const records = await readJsonFile<Collection<T>>(fileFor(collection), {});
+      return Object.values(records);
+    },
+
+    async get<T>(collection: string, id: string) {
+      const records = await readJsonFile<Collection<T>>(fileFor(collection), {});
+      return records[id];
+    },
+
+    async put<T>(collection: string, id: string, record: T) {
+      await updateJsonFile<Collection<T>>(fileFor(collection), {}, current => ({
+        ...current,
+        [id]: record
+      }));
+      return record;
+    },
+
+    async update<T>(
+      collection: string,
+      id: string,
+      updater: (current: T | undefined) => T | undefined
+    ) {
+      let result: T | undefined;
+      await updateJsonFile<Collection<T>>(fileFor(collection), {}, current => {
+        result = updater(current[id]);
+        return result === undefined ? current : { ...current, [id]: result };
+      });
+      return result;
+    },
+
+    async remove(collection: string, id: string) {
+      let removed = false;
+      await updateJsonFile<Collection<unknown>>(fileFor(collection), {}, current => {
+        if (!(id in current)) return current;
+        removed = true;
+        const { [id]: _removed, ...rest } = current;
+        return rest;
+      });
+      return removed;
+    }
+  };
+}
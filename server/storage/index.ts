@@ -0,0 +1,28 @@
+import { createFileAdapter } from "./file-adapter";
+import { createMemoryAdapter } from "./memory-adapter";
+import type { StorageAdapter } from "./types";
+
+export type { StorageAdapter } from "./types";
+
+const adapterFactories: Record<string, () => StorageAdapter> = {
+  file: createFileAdapter,
+  memory: createMemoryAdapter
+};
+
+const globalStorage = globalThis as typeof globalThis & { __callStorage?: StorageAdapter };
+
+/**
+ * Resolves the adapter named by `CALL_STORAGE_DRIVER` (defaults to `file`).
+ * Additional backends register by adding a factory to `adapterFactories`.
+ */
+export function getStorage(): StorageAdapter {
+  if (!globalStorage.__callStorage) {
+    const driver = process.env.CALL_STORAGE_DRIVER ?? "file";
+    const factory = adapterFactories[driver];
+    if (!factory) {
+      throw new Error(`Unknown CALL_STORAGE_DRIVER "${driver}".`);
+    }
+    globalStorage.__callStorage = factory();
+  }
+  return globalStorage.__callStorage;
+}
@@ -0,0 +1,44 @@
+import type { StorageAdapter } from "./types";
+
+export function createMemoryAdapter(): StorageAdapter {
+  const collections = new Map<string, Map<string, unknown>>();
+
+  const collectionFor = (name: string) => {
+    let records = collections.get(name);
+    if (!records) {
+      records = new Map();
+      collections.set(name, records);
+    }
+    return records;
+  };
+
+  return {
+    async list<T>(collection: string) {
+      return Array.from(collectionFor(collection).values()) as T[];
+    },
+
+    async get<T>(collection: string, id: string) {
+      return collectionFor(collection).get(id) as T | undefined;
+    },
+
+    async put<T>(collection: string, id: string, record: T) {
+      collectionFor(collection).set(id, record);
+      return record;
+    },
+
+    async update<T>(
+      collection: string,
+      id: string,
+      updater: (current: T | undefined) => T | undefined
+    ) {
+      const records = collectionFor(collection);
+      const result = updater(records.get(id) as T | undefined);
+      if (result !== undefined) records.set(id, result);
+      return result;
+    },
+
+    async remove(collection: string, id: string) {
+      return collectionFor(collection).delete(id);
+    }
+  };
+}
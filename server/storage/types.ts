@@ -0,0 +1,19 @@
+/**
+ * Minimal keyed-collection contract shared by every persistence backend.
+ * Repositories own filtering and ordering; adapters only store records.
+ */
+export interface StorageAdapter {
+  list<T>(collection: string): Promise<T[]>;
+  get<T>(collection: string, id: string): Promise<T | undefined>;
+  put<T>(collection: string, id: string, record: T): Promise<T>;
+  /**
+   * Atomically replaces a record with the updater's result. Returning
+   * `undefined` leaves the collection untouched.
+   */
+  update<T>(
+    collection: string,
+    id: string,
+    updater: (current: T | undefined) => T | undefined
+  ): Promise<T | undefined>;
+  remove(collection: string, id: string): Promise<boolean>;
+}
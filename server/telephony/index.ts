@@ -0,0 +1,37 @@
+import { createSimulatorProvider } from "./simulator";
+import { createTwilioProvider } from "./twilio";
+import type { TelephonyProvider } from "./types";
+
+export type {
+  CallInstruction,
+  CreateCallRequest,
+  CreatedCall,
+  SendSmsRequest,
+  SentSms,
+  TelephonyProvider,
+  WebhookResult
+} from "./types";
+
+const providerFactories: Record<string, () => TelephonyProvider> = {
+  twilio: createTwilioProvider,
+  simulator: createSimulatorProvider
+};
+
+const globalTelephony = globalThis as typeof globalThis & { __telephony?: TelephonyProvider };
+
+/**
+ * Resolves the provider named by `TELEPHONY_PROVIDER` (defaults to `twilio`).
+ * Additional carriers register by adding a factory to `providerFactories`.
+ * The instance lives on `globalThis` so simulated calls survive module reloads.
+ */
+export function getTelephonyProvider(): TelephonyProvider {
+  if (!globalTelephony.__telephony) {
+    const name = process.env.TELEPHONY_PROVIDER ?? "twilio";
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown TELEPHONY_PROVIDER "${name}".`);
+    }
+    globalTelephony.__telephony = factory();
+  }
+  return globalTelephony.__telephony;
+}
@@ -0,0 +1,252 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import type { CallStatus, CallStatusEvent } from "../../shared/call-status";
+import { spokenSeconds } from "../call-flow";
+import { getCall } from "../call-repository";
+import { recordStatusEvent } from "../call-status-store";
+import { recordTransferAnswered, recordTransferEnded } from "../live-calls";
+import { recordRecordingEvent } from "../recordings";
+import { handleMachineDetection } from "../voicemail";
+import type {
+  CallInstruction,
+  CreateCallRequest,
+  TelephonyProvider,
+  WebhookResult
+} from "./types";
+import { readFormParams, statusEventFromParams } from "./webhook-params";
+
+const simulatedOutcomes = ["human", "voicemail", "busy", "no-answer"] as const;
+
+type SimulatedOutcome = (typeof simulatedOutcomes)[number];
+
+type SimulatorSettings = {
+  weights: Record<SimulatedOutcome, number>;
+  ringSeconds: number;
+  callSeconds: number;
+  greetingSeconds: number;
+};
+
+type LiveCall = {
+  callSid: string;
+  callId: string;
+  record: boolean;
+  sequence: number;
+  answeredAt?: number;
+  timers: ReturnType<typeof setTimeout>[];
+};
+
+const defaultWeights: Record<SimulatedOutcome, number> = {
+  human: 60,
+  voicemail: 20,
+  busy: 10,
+  "no-answer": 10
+};
+
+/**
+ * Fakes call lifecycles in-process so the dashboard runs without a carrier.
+ * Status events go through the same store as real status callbacks; timers
+ * only fire in a long-running server such as `next dev` or `next start`.
+ */
+export function createSimulatorProvider(): TelephonyProvider {
+  const settings = readSettings();
+  const live = new Map<string, LiveCall>();
+
+  const emit = async (
+    call: LiveCall,
+    status: CallStatus,
+    extra: Partial<CallStatusEvent> = {}
+  ) => {
+    try {
+      await recordStatusEvent({
+        callSid: call.callSid,
+        status,
+        sequenceNumber: call.sequence++,
+        receivedAt: new Date().toISOString(),
+        ...extra
+      });
+    } catch (error) {
+      console.error("[call-agent] Simulator failed to record status", error);
+    }
+  };
+
+  const after = (call: LiveCall, seconds: number, action: () => Promise<unknown>) => {
+    call.timers.push(setTimeout(() => void action(), seconds * 1000));
+  };
+
+  const finish = async (call: LiveCall, status: CallStatus) => {
+    if (!live.delete(call.callSid)) return;
+    call.timers.forEach(clearTimeout);
+    const duration = call.answeredAt
+      ? Math.round((Date.now() - call.answeredAt) / 1000)
+      : undefined;
+    await emit(call, status, { duration });
+
+    // Simulated recordings have no audio, only metadata and a transcript.
+    if (call.record && duration !== undefined) {
+      await recordRecordingEvent(call.callId, {
+        recordingSid: `SIMRE${randomUUID().replace(/-/g, "")}`,
+        status: "completed",
+        duration
+      }).catch(error => console.error("[call-agent] Simulated recording failed", error));
+    }
+  };
+
+  const answer = async (call: LiveCall, request: CreateCallRequest, outcome: SimulatedOutcome) => {
+    call.answeredAt = Date.now();
+    const answeredBy = outcome === "human" ? "human" : "machine_start";
+    await emit(call, "in-progress", request.machineDetectionUrl ? {} : { answeredBy });
+    after(call, settings.callSeconds, () => finish(call, "completed"));
+
+    if (request.machineDetectionUrl) {
+      after(call, outcome === "human" ? 1 : settings.greetingSeconds, async () => {
+        const record = await getCall(request.callId);
+        if (!record || !live.has(call.callSid)) return;
+        await handleMachineDetection(
+          record,
+          call.callSid,
+          outcome === "human" ? "human" : "machine_end_beep"
+        ).catch(error => console.error("[call-agent] Simulated detection failed", error));
+      });
+    }
+  };
+
+  return {
+    label: "Simulator",
+
+    configurationError() {
+      return undefined;
+    },
+
+    async createCall(request) {
+      const call: LiveCall = {
+        callSid: `SIM${randomUUID().replace(/-/g, "")}`,
+        callId: request.callId,
+        record: Boolean(request.recording),
+        sequence: 0,
+        timers: []
+      };
+      const outcome = pickOutcome(settings.weights);
+      live.set(call.callSid, call);
+
+      // Give the dialer a moment to store the sid before the first event.
+      after(call, Math.min(1, settings.ringSeconds), async () => {
+        await emit(call, "initiated");
+        await emit(call, "ringing");
+      });
+      after(call, settings.ringSeconds, () =>
+        outcome === "busy" || outcome === "no-answer"
+          ? finish(call, outcome)
+          : answer(call, request, outcome)
+      );
+
+      return { callSid: call.callSid, status: "queued" };
+    },
+
+    async updateCall(callSid, instructions) {
+      const call = live.get(callSid);
+      if (!call) throw new Error(`Simulated call ${callSid} is not in progress.`);
+      const dial = instructions.some(instruction => instruction.type === "dial");
+      if (!dial && !instructions.some(instruction => instruction.type === "hangup")) return;
+
+      call.timers.forEach(clearTimeout);
+      call.timers = [];
+      if (!dial) {
+        after(call, spokenSeconds(instructions), () => finish(call, "completed"));
+        return;
+      }
+
+      // The agent line always picks up and talks for one simulated call length.
+      const ringing = spokenSeconds(instructions) + Math.min(2, settings.ringSeconds);
+      after(call, ringing, () => recordTransferAnswered(call.callId));
+      after(call, ringing + settings.callSeconds, async () => {
+        await recordTransferEnded(call.callId, "completed");
+        await finish(call, "completed");
+      });
+    },
+
+    async cancelCall(callSid) {
+      const call = live.get(callSid);
+      if (!call) return;
+      await finish(call, call.answeredAt ? "completed" : "canceled");
+    },
+
+    async sendSms() {
+      // Texts are only logged; nothing is delivered or replied to.
+      return { sid: `SIMSM${randomUUID().replace(/-/g, "")}`, status: "sent" };
+    },
+
+    async fetchRecording() {
+      return undefined;
+    },
+
+    readWebhook: readUnsignedWebhook,
+
+    async parseStatusWebhook(request) {
+      const webhook = await readUnsignedWebhook(request);
+      return webhook.ok ? statusEventFromParams(webhook.value) : webhook;
+    },
+
+    renderInstructions(instructions) {
+      return NextResponse.json({ instructions });
+    }
+  };
+}
+
+/** Simulated webhooks are unsigned; never select the simulator in production. */
+async function readUnsignedWebhook(request: Request): Promise<WebhookResult<Record<string, string>>> {
+  const params = request.headers.get("content-type")?.includes("application/json")
+    ? await request.json().catch(() => ({}))
+    : await readFormParams(request);
+  return { ok: true, value: stringParams(params) };
+}
+
+function readSettings(): SimulatorSettings {
+  return {
+    weights: parseWeights(process.env.SIMULATOR_OUTCOMES),
+    ringSeconds: seconds(process.env.SIMULATOR_RING_SECONDS, 4),
+    callSeconds: seconds(process.env.SIMULATOR_CALL_SECONDS, 20),
+    greetingSeconds: seconds(process.env.SIMULATOR_GREETING_SECONDS, 3)
+  };
+}
+
+/** Reads weights such as `human=50,voicemail=30,busy=10,no-answer=10`. */
+function parseWeights(value: string | undefined) {
+  if (!value) return defaultWeights;
+  const weights: Record<SimulatedOutcome, number> = { human: 0, voicemail: 0, busy: 0, "no-answer": 0 };
+
+  for (const part of value.split(",")) {
+    const [name, weight] = part.split("=").map(token => token.trim());
+    const parsed = Number(weight);
+    if (!(simulatedOutcomes as readonly string[]).includes(name) || !(parsed >= 0)) {
+      throw new Error(`Invalid SIMULATOR_OUTCOMES entry "${part}".`);
+    }
+    weights[name as SimulatedOutcome] = parsed;
+  }
+  return weights;
+}
+
+function pickOutcome(weights: Record<SimulatedOutcome, number>): SimulatedOutcome {
+  const total = simulatedOutcomes.reduce((sum, outcome) => sum + weights[outcome], 0);
+  let roll = Math.random() * total;
+
+  for (const outcome of simulatedOutcomes) {
+    roll -= weights[outcome];
+    if (roll < 0) return outcome;
+  }
+  return "human";
+}
+
+function seconds(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function stringParams(value: unknown) {
+  const params: Record<string, string> = {};
+  if (value && typeof value === "object") {
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined && entry !== null) params[key] = String(entry);
+    }
+  }
+  return params;
+}
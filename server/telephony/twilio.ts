@@ -0,0 +1,213 @@
+import { NextResponse } from "next/server";
+import twilio from "twilio";
+import { isCallStatus } from "../../shared/call-status";
+import {
+  defaultVoiceSettings,
+  findVoice,
+  parseSpeech,
+  SpeechNode,
+  VoiceSettings
+} from "../../shared/speech";
+import type { CallInstruction, TelephonyProvider } from "./types";
+import { readFormParams, statusEventFromParams } from "./webhook-params";
+
+export function createTwilioProvider(): TelephonyProvider {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const fromNumber = process.env.TWILIO_FROM_NUMBER;
+  let client: ReturnType<typeof twilio> | undefined;
+
+  const getClient = () => {
+    if (!accountSid || !authToken) {
+      throw new Error("Twilio credentials are not configured.");
+    }
+    client ??= twilio(accountSid, authToken);
+    return client;
+  };
+
+  const readWebhook: TelephonyProvider["readWebhook"] = async (request, signedUrl) => {
+    if (!authToken) {
+      return {
+        ok: false,
+        response: NextResponse.json(
+          { success: false, message: "TWILIO_AUTH_TOKEN is required to verify Twilio webhooks." },
+          { status: 500 }
+        )
+      };
+    }
+
+    const params = await readFormParams(request);
+    const signature = request.headers.get("x-twilio-signature") ?? "";
+
+    if (!twilio.validateRequest(authToken, signature, signedUrl, params)) {
+      return {
+        ok: false,
+        response: NextResponse.json(
+          { success: false, message: "Invalid Twilio signature." },
+          { status: 403 }
+        )
+      };
+    }
+
+    return { ok: true, value: params };
+  };
+
+  return {
+    label: "Twilio",
+
+    configurationError() {
+      if (accountSid && authToken && fromNumber) return undefined;
+      return "Twilio credentials are missing. Set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and TWILIO_FROM_NUMBER, or set TELEPHONY_PROVIDER=simulator to run offline.";
+    },
+
+    async createCall({ to, from, instructions, machineDetectionUrl, recording }) {
+      const created = await getClient().calls.create({
+        to,
+        from: from ?? fromNumber ?? "",
+        twiml: renderTwiml(instructions),
+        // Async AMD lets the opening start immediately; the result arrives on
+        // a separate webhook that can swap in the voicemail message.
+        ...(machineDetectionUrl
+          ? {
+              machineDetection: "DetectMessageEnd",
+              asyncAmd: "true",
+              asyncAmdStatusCallback: machineDetectionUrl,
+              asyncAmdStatusCallbackMethod: "POST"
+            }
+          : { machineDetection: "Enable" }),
+        ...(recording
+          ? {
+              record: true,
+              recordingStatusCallback: recording.statusUrl,
+              recordingStatusCallbackEvent: ["in-progress", "completed", "absent"]
+            }
+          : {}),
+        statusCallbackEvent: ["initiated", "ringing", "answered", "completed"],
+        statusCallback: process.env.TWILIO_STATUS_WEBHOOK_URL
+      });
+
+      return {
+        callSid: created.sid,
+        status: isCallStatus(created.status) ? created.status : "queued"
+      };
+    },
+
+    async updateCall(callSid, instructions) {
+      await getClient().calls(callSid).update({ twiml: renderTwiml(instructions) });
+    },
+
+    async cancelCall(callSid) {
+      // "completed" ends the call in any state; "canceled" only works before answer.
+      await getClient().calls(callSid).update({ status: "completed" });
+    },
+
+    async sendSms({ to, from, body, statusUrl }) {
+      const message = await getClient().messages.create({
+        to,
+        from: from ?? fromNumber ?? "",
+        body,
+        statusCallback: statusUrl
+      });
+      return { sid: message.sid, status: message.status === "failed" ? "failed" : "sent" };
+    },
+
+    async fetchRecording(mediaUrl) {
+      if (!accountSid || !authToken) return undefined;
+      const credentials = Buffer.from(`${accountSid}:${authToken}`).toString("base64");
+      return fetch(`${mediaUrl}.mp3`, { headers: { Authorization: `Basic ${credentials}` } });
+    },
+
+    readWebhook,
+
+    async parseStatusWebhook(request) {
+      // Twilio signs the exact URL it was configured with, which may differ
+      // from the URL seen behind a proxy.
+      const webhook = await readWebhook(
+        request,
+        process.env.TWILIO_STATUS_WEBHOOK_URL ?? request.url
+      );
+      return webhook.ok ? statusEventFromParams(webhook.value) : webhook;
+    },
+
+    renderInstructions(instructions) {
+      return new NextResponse(renderTwiml(instructions), {
+        headers: { "Content-Type": "text/xml" }
+      });
+    }
+  };
+}
+
+export function renderTwiml(instructions: CallInstruction[]) {
+  return `<Response>${instructions.map(renderInstruction).join("")}</Response>`;
+}
+
+function renderInstruction(instruction: CallInstruction) {
+  switch (instruction.type) {
+    case "say":
+      return say(instruction.text, instruction.voice);
+    case "pause":
+      return `<Pause length="${instruction.seconds}"/>`;
+    case "gather":
+      return `<Gather input="speech dtmf" numDigits="1" speechTimeout="auto" timeout="6" actionOnEmptyResult="true" action="${escapeForTwiml(instruction.action)}" method="POST">${say(instruction.prompt, instruction.voice)}</Gather>`;
+    case "dial": {
+      const action = instruction.action
+        ? ` action="${escapeForTwiml(instruction.action)}" method="POST"`
+        : "";
+      const whisper = instruction.whisperUrl
+        ? ` url="${escapeForTwiml(instruction.whisperUrl)}" method="POST"`
+        : "";
+      return `<Dial timeout="${instruction.timeoutSeconds}"${action}><Number${whisper}>${escapeForTwiml(instruction.number)}</Number></Dial>`;
+    }
+    case "record": {
+      const status = instruction.statusUrl
+        ? ` recordingStatusCallback="${escapeForTwiml(instruction.statusUrl)}" recordingStatusCallbackEvent="in-progress completed absent"`
+        : "";
+      return `<Record action="${escapeForTwiml(instruction.action)}" method="POST" maxLength="${instruction.maxSeconds}" timeout="5" finishOnKey="#" playBeep="true"${status}/>`;
+    }
+    case "hangup":
+      return "<Hangup/>";
+  }
+}
+
+/**
+ * Renders a line as SSML inside `<Say>`. Only parsed, validated tags are
+ * emitted and everything else is escaped, so script text cannot inject
+ * TwiML. Features the voice does not support are spoken as plain text.
+ */
+function say(line: string, settings: VoiceSettings = defaultVoiceSettings) {
+  const features = findVoice(settings.voice)?.features ?? [];
+  const content = parseSpeech(line)
+    .nodes.map(node => renderSpeechNode(node, features))
+    .join("");
+  const paced =
+    settings.rate !== "medium" && features.includes("rate")
+      ? `<prosody rate="${settings.rate}">${content}</prosody>`
+      : content;
+  return `<Say voice="${escapeForTwiml(settings.voice)}" language="${escapeForTwiml(settings.language)}">${paced}</Say>`;
+}
+
+function renderSpeechNode(node: SpeechNode, features: string[]) {
+  switch (node.type) {
+    case "text":
+      return escapeForTwiml(node.text);
+    case "break":
+      if (!features.includes("break")) return " ";
+      return node.time ? `<break time="${node.time}"/>` : `<break strength="${node.strength}"/>`;
+    case "emphasis":
+      if (!features.includes("emphasis")) return escapeForTwiml(node.text);
+      return `<emphasis level="${node.level}">${escapeForTwiml(node.text)}</emphasis>`;
+    case "say-as": {
+      if (!features.includes("say-as")) return escapeForTwiml(node.text);
+      const format = node.format ? ` format="${node.format}"` : "";
+      return `<say-as interpret-as="${node.interpretAs}"${format}>${escapeForTwiml(node.text)}</say-as>`;
+    }
+  }
+}
+
+function escapeForTwiml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,84 @@
+import type { NextResponse } from "next/server";
+import type { CallStatus, CallStatusEvent } from "../../shared/call-status";
+import type { VoiceSettings } from "../../shared/speech";
+
+/**
+ * Provider-neutral building blocks of what a call says and does. Spoken text
+ * may carry the markup accepted by `parseSpeech`.
+ */
+export type CallInstruction =
+  | { type: "say"; text: string; voice?: VoiceSettings }
+  | { type: "pause"; seconds: number }
+  | { type: "gather"; prompt: string; action: string; voice?: VoiceSettings }
+  | {
+      type: "dial";
+      number: string;
+      /** Receives the outcome once the dialed leg ends. */
+      action?: string;
+      /** Played to the agent before the two legs are bridged. */
+      whisperUrl?: string;
+      timeoutSeconds: number;
+    }
+  | {
+      type: "record";
+      /** Receives the caller's keypress or silence once the message ends. */
+      action: string;
+      maxSeconds: number;
+      /** Receives recording status callbacks, like a recorded outbound call. */
+      statusUrl?: string;
+    }
+  | { type: "hangup" };
+
+export type CreateCallRequest = {
+  callId: string;
+  to: string;
+  /** Caller ID to show; the provider's default number when unset. */
+  from?: string;
+  instructions: CallInstruction[];
+  /** Absolute URL for async answering-machine detection results, when available. */
+  machineDetectionUrl?: string;
+  /** Set to record the call; the URL receives recording status callbacks. */
+  recording?: { statusUrl?: string };
+};
+
+export type CreatedCall = {
+  callSid: string;
+  status: CallStatus;
+};
+
+export type SendSmsRequest = {
+  to: string;
+  body: string;
+  /** Number to send from; the provider's default number when omitted. */
+  from?: string;
+  /** Absolute URL that receives delivery status callbacks, when available. */
+  statusUrl?: string;
+};
+
+export type SentSms = {
+  sid: string;
+  status: "sent" | "failed";
+};
+
+export type WebhookResult<T> = { ok: true; value: T } | { ok: false; response: NextResponse };
+
+export interface TelephonyProvider {
+  /** Human-readable name used in messages. */
+  label: string;
+  /** Explains why the provider cannot place calls, or undefined when it is ready. */
+  configurationError(): string | undefined;
+  createCall(request: CreateCallRequest): Promise<CreatedCall>;
+  /** Replaces the instructions of a call that is already connected. */
+  updateCall(callSid: string, instructions: CallInstruction[]): Promise<void>;
+  /** Hangs up a call whether it is still ringing or already connected. */
+  cancelCall(callSid: string): Promise<void>;
+  /** Sends a text message from the caller ID number. */
+  sendSms(request: SendSmsRequest): Promise<SentSms>;
+  /** Downloads recording audio, or resolves undefined when the provider has none. */
+  fetchRecording(mediaUrl: string): Promise<Response | undefined>;
+  /** Verifies and reads the parameters of a provider webhook. */
+  readWebhook(request: Request, signedUrl: string): Promise<WebhookResult<Record<string, string>>>;
+  parseStatusWebhook(request: Request): Promise<WebhookResult<CallStatusEvent>>;
+  /** Responds to a webhook with the next instructions for the call. */
+  renderInstructions(instructions: CallInstruction[]): Response;
+}
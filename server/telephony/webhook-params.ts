@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { isCallStatus, type CallStatusEvent } from "../../shared/call-status";
+import { recordingStatuses, type RecordingStatus } from "../../shared/recording";
+import type { RecordingEvent } from "../recordings";
+import type { WebhookResult } from "./types";
+
+/** Maps Twilio-style status callback parameters onto a status event. */
+export function statusEventFromParams(params: Record<string, string>): WebhookResult<CallStatusEvent> {
+  const { CallSid: callSid, CallStatus: status } = params;
+
+  if (!callSid || !isCallStatus(status)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, message: "CallSid and a known CallStatus are required." },
+        { status: 400 }
+      )
+    };
+  }
+
+  const timestamp = params.Timestamp ? Date.parse(params.Timestamp) : Number.NaN;
+
+  return {
+    ok: true,
+    value: {
+      callSid,
+      status,
+      sequenceNumber: Number(params.SequenceNumber ?? 0),
+      receivedAt: new Date(Number.isNaN(timestamp) ? Date.now() : timestamp).toISOString(),
+      duration: params.CallDuration ? Number(params.CallDuration) : undefined,
+      answeredBy: params.AnsweredBy || undefined,
+      errorCode: params.ErrorCode || undefined,
+      errorMessage: params.ErrorMessage || undefined
+    }
+  };
+}
+
+/** Maps Twilio-style recording status callback parameters onto a recording event. */
+export function recordingEventFromParams(
+  params: Record<string, string>
+): WebhookResult<RecordingEvent> {
+  const { RecordingSid: recordingSid, RecordingStatus: status } = params;
+
+  if (!recordingSid || !(recordingStatuses as readonly string[]).includes(status)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, message: "RecordingSid and a known RecordingStatus are required." },
+        { status: 400 }
+      )
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      recordingSid,
+      status: status as RecordingStatus,
+      mediaUrl: params.RecordingUrl || undefined,
+      duration: params.RecordingDuration ? Number(params.RecordingDuration) : undefined
+    }
+  };
+}
+
+export async function readFormParams(request: Request) {
+  const formData = await request.formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value;
+  });
+  return params;
+}
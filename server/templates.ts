@@ -0,0 +1,134 @@
+import { belongsToTeam } from "../shared/auth";
+import type { CallRecord } from "../shared/calls";
+import { withRecordingDisclosure } from "../shared/recording";
+import type { RetryPolicy } from "../shared/retry-policy";
+import type { VoiceSettings } from "../shared/speech";
+import {
+  defaultTemplates,
+  latestVersion,
+  renderScript,
+  ScriptTemplate,
+  ScriptTemplateBody
+} from "../shared/script-template";
+import { ServiceError } from "./errors";
+import { getStorage } from "./storage";
+
+const collection = "templates";
+
+export async function listTemplates(teamId: string) {
+  const templates = await getStorage().list<ScriptTemplate>(collection);
+  return templates
+    .filter(template => belongsToTeam(template, teamId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getTemplate(id: string) {
+  return getStorage().get<ScriptTemplate>(collection, id);
+}
+
+export async function createTemplate(
+  teamId: string,
+  name: string,
+  body: ScriptTemplateBody,
+  retryPolicy?: RetryPolicy,
+  voice?: VoiceSettings
+) {
+  const now = new Date().toISOString();
+  const template: ScriptTemplate = {
+    id: crypto.randomUUID(),
+    name,
+    teamId,
+    retryPolicy,
+    voice,
+    versions: [{ version: 1, body, createdAt: now }],
+    createdAt: now,
+    updatedAt: now
+  };
+  return getStorage().put(collection, template.id, template);
+}
+
+/**
+ * Saves an edit as a new version. Earlier versions stay untouched so calls
+ * pinned to them keep rendering the text they were launched with. The retry
+ * policy and voice are not versioned; `null` removes them.
+ */
+export async function updateTemplate(
+  id: string,
+  teamId: string,
+  changes: {
+    name?: string;
+    body?: ScriptTemplateBody;
+    retryPolicy?: RetryPolicy | null;
+    voice?: VoiceSettings | null;
+  }
+) {
+  const updated = await getStorage().update<ScriptTemplate>(collection, id, current => {
+    if (!current || !belongsToTeam(current, teamId)) return undefined;
+    const now = new Date().toISOString();
+    const versions = changes.body
+      ? [
+          ...current.versions,
+          { version: latestVersion(current).version + 1, body: changes.body, createdAt: now }
+        ]
+      : current.versions;
+    const retryPolicy =
+      changes.retryPolicy === undefined ? current.retryPolicy : changes.retryPolicy ?? undefined;
+    const voice = changes.voice === undefined ? current.voice : changes.voice ?? undefined;
+    return {
+      ...current,
+      name: changes.name ?? current.name,
+      versions,
+      retryPolicy,
+      voice,
+      updatedAt: now
+    };
+  });
+
+  if (!updated) throw new ServiceError("Template not found.", 404);
+  return updated;
+}
+
+export async function deleteTemplate(id: string, teamId: string) {
+  const template = await getTemplate(id);
+  const removed =
+    template && belongsToTeam(template, teamId) && (await getStorage().remove(collection, id));
+  if (!removed) throw new ServiceError("Template not found.", 404);
+}
+
+/** Resolves the template version to pin on a new call. */
+export async function pinTemplate(templateId: string, teamId: string) {
+  const template = await getTemplate(templateId);
+  if (!template || !belongsToTeam(template, teamId)) throw new ServiceError("Script template not found.", 400);
+  return {
+    templateId,
+    templateVersion: latestVersion(template).version,
+    retryPolicy: template.retryPolicy,
+    voice: template.voice
+  };
+}
+
+/**
+ * Renders the script a call will speak: its pinned template version when it
+ * has one, otherwise the default for its script style.
+ */
+export async function resolveCallScript(call: CallRecord) {
+  let body = defaultTemplates[call.scriptStyle];
+
+  if (call.templateId) {
+    const template = await getTemplate(call.templateId);
+    const version =
+      template?.versions.find(item => item.version === call.templateVersion) ??
+      (template ? latestVersion(template) : undefined);
+    if (version) body = version.body;
+  }
+
+  const script = renderScript(body, {
+    contactName: call.contactName,
+    objective: call.objective,
+    notes: call.notes,
+    customFields: call.customFields
+  });
+  return call.record && call.recordingDisclosure
+    ? withRecordingDisclosure(script, call.recordingDisclosure)
+    : script;
+}
@@ -0,0 +1,17 @@
+import type { Transcriber } from "./types";
+
+/**
+ * Builds the transcript from the turns captured during the call: what the
+ * agent said and the speech results the provider returned. Works offline and
+ * with simulated calls, at the cost of missing anything said between turns.
+ */
+export function createConversationTranscriber(): Transcriber {
+  return {
+    name: "conversation",
+    async transcribe({ call }) {
+      return (call.transcript ?? [])
+        .map(turn => `${turn.speaker === "agent" ? "Agent" : "Callee"}: ${turn.text}`)
+        .join("\n");
+    }
+  };
+}
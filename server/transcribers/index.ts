@@ -0,0 +1,28 @@
+import { createConversationTranscriber } from "./conversation";
+import type { Transcriber } from "./types";
+import { createWhisperTranscriber } from "./whisper";
+
+export type { Transcriber, TranscriptionInput } from "./types";
+
+const transcriberFactories: Record<string, () => Transcriber> = {
+  conversation: createConversationTranscriber,
+  whisper: createWhisperTranscriber
+};
+
+let transcriber: Transcriber | undefined;
+
+/**
+ * Resolves the transcriber named by `TRANSCRIBER` (defaults to
+ * `conversation`). Additional transcribers register in `transcriberFactories`.
+ */
+export function getTranscriber(): Transcriber {
+  if (!transcriber) {
+    const name = process.env.TRANSCRIBER ?? "conversation";
+    const factory = transcriberFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown TRANSCRIBER "${name}".`);
+    }
+    transcriber = factory();
+  }
+  return transcriber;
+}
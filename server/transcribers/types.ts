@@ -0,0 +1,14 @@
+import type { CallRecord } from "../../shared/calls";
+import type { CallRecording } from "../../shared/recording";
+
+export type TranscriptionInput = {
+  call: CallRecord;
+  recording: CallRecording;
+  /** Downloads the recording audio, or resolves undefined when there is none. */
+  audio: () => Promise<Blob | undefined>;
+};
+
+export interface Transcriber {
+  name: string;
+  transcribe(input: TranscriptionInput): Promise<string>;
+}
@@ -0,0 +1,36 @@
+import type { Transcriber } from "./types";
+
+const endpoint = "https://api.openai.com/v1/audio/transcriptions";
+
+/** Sends the recording audio to OpenAI's transcription API. */
+export function createWhisperTranscriber(): Transcriber {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is required for the whisper transcriber.");
+  }
+
+  return {
+    name: "whisper",
+    async transcribe({ recording, audio }) {
+      const file = await audio();
+      if (!file) throw new Error("The recording audio is not available.");
+
+      const form = new FormData();
+      form.set("model", process.env.TRANSCRIBER_MODEL ?? "whisper-1");
+      form.set("file", file, `${recording.recordingSid}.mp3`);
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form
+      });
+
+      if (!response.ok) {
+        throw new Error(`Transcription request failed with status ${response.status}.`);
+      }
+
+      const data = (await response.json()) as { text?: string };
+      return data.text ?? "";
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import type { CallRecord } from "../shared/calls";
+import { plainSpeech } from "../shared/speech";
+import { defaultVoicemailScript, reachedFromAnsweredBy } from "../shared/voicemail";
+import { appendTranscript, updateCall } from "./call-repository";
+import { buildVoicemail, hangupInstructions } from "./call-flow";
+import { getTelephonyProvider } from "./telephony";
+
+export function resolveVoicemailScript(call: CallRecord) {
+  return (
+    call.voicemailScript?.trim() ||
+    defaultVoicemailScript({
+      contactName: call.contactName,
+      objective: call.objective,
+      callbackNumber: call.callbackNumber ?? process.env.CALLBACK_NUMBER
+    })
+  );
+}
+
+/**
+ * Reacts to an async answering-machine detection result: leaves the
+ * voicemail once the greeting ends, hangs up on fax or undetermined lines,
+ * and lets human-answered calls carry on with the conversation.
+ */
+export async function handleMachineDetection(
+  call: CallRecord,
+  callSid: string,
+  answeredBy: string
+) {
+  const reached = reachedFromAnsweredBy(answeredBy);
+  const provider = getTelephonyProvider();
+
+  if (reached === "human") {
+    return updateCall(call.id, { reached, answeredBy });
+  }
+
+  if (reached === "machine") {
+    const script = resolveVoicemailScript(call);
+    await provider.updateCall(callSid, buildVoicemail(script, call.voice));
+    await appendTranscript(call.id, [
+      { speaker: "agent", text: `Voicemail: ${plainSpeech(script)}`, at: new Date().toISOString() }
+    ]);
+    return updateCall(call.id, {
+      reached,
+      answeredBy,
+      voicemailLeft: true,
+      message: "Voicemail left after the greeting."
+    });
+  }
+
+  await provider.updateCall(callSid, hangupInstructions());
+  return updateCall(call.id, {
+    reached,
+    answeredBy,
+    message:
+      reached === "fax"
+        ? "Fax line detected, call ended."
+        : "Could not determine who answered, call ended."
+  });
+}
@@ -0,0 +1,59 @@
+import { getEndpointSecret, verifySignature } from "./outbound-webhooks";
+import { getStorage } from "./storage";
+
+const collection = "webhook-receipts";
+const keep = 50;
+
+export type WebhookReceipt = {
+  id: string;
+  endpointId?: string;
+  event?: string;
+  verified: boolean;
+  body: unknown;
+  receivedAt: string;
+};
+
+/**
+ * Local stand-in for a CRM or other receiver, so endpoints and field
+ * mappings can be tried without exposing the app. Only enabled with
+ * `WEBHOOK_MOCK_RECEIVER=true`.
+ */
+export function mockReceiverEnabled() {
+  return process.env.WEBHOOK_MOCK_RECEIVER === "true";
+}
+
+/** Verifies the signature with the sending endpoint's secret and keeps the payload. */
+export async function receiveWebhook(request: Request) {
+  const text = await request.text();
+  const endpointId = request.headers.get("x-webhook-endpoint") ?? undefined;
+  const secret = endpointId ? await getEndpointSecret(endpointId) : undefined;
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Keep non-JSON bodies as text.
+  }
+
+  const receipt: WebhookReceipt = {
+    id: request.headers.get("x-webhook-id") ?? crypto.randomUUID(),
+    endpointId,
+    event: request.headers.get("x-webhook-event") ?? undefined,
+    verified: Boolean(
+      secret && verifySignature(secret, text, request.headers.get("x-webhook-signature"))
+    ),
+    body,
+    receivedAt: new Date().toISOString()
+  };
+  await getStorage().put(collection, `${receipt.receivedAt}:${receipt.id}`, receipt);
+
+  const receipts = await listReceipts();
+  for (const stale of receipts.slice(keep)) {
+    await getStorage().remove(collection, `${stale.receivedAt}:${stale.id}`);
+  }
+  return receipt;
+}
+
+export async function listReceipts() {
+  const receipts = await getStorage().list<WebhookReceipt>(collection);
+  return receipts.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+}
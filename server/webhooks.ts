@@ -0,0 +1,33 @@
+/**
+ * Absolute URL for a webhook route. Inline call instructions have no
+ * document URL, so providers need absolute callbacks; returns undefined when
+ * `APP_BASE_URL` is not configured.
+ */
+export function webhookUrl(pathname: string, query?: Record<string, string>) {
+  const base = process.env.APP_BASE_URL;
+  if (!base) return undefined;
+  const url = new URL(pathname, base);
+  for (const [key, value] of Object.entries(query ?? {})) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+/**
+ * The URL a provider signed for an incoming request: the public base URL
+ * when configured (proxies rewrite the host), otherwise the request URL
+ * itself.
+ */
+export function signedRequestUrl(request: Request) {
+  const url = new URL(request.url);
+  return webhookUrl(url.pathname + url.search) ?? request.url;
+}
+
+/**
+ * Callback URL for instructions returned from a webhook. Those have a
+ * document URL, so a relative path works when `APP_BASE_URL` is not set.
+ */
+export function responseUrl(pathname: string, query: Record<string, string> = {}) {
+  const search = new URLSearchParams(query).toString();
+  return webhookUrl(pathname, query) ?? (search ? `${pathname}?${search}` : pathname);
+}
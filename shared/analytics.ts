@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export const analyticsDimensions = ["scriptStyle", "template", "hour", "weekday", "campaign"] as const;
+
+export type AnalyticsDimension = (typeof analyticsDimensions)[number];
+
+export const dimensionLabels: Record<AnalyticsDimension, string> = {
+  scriptStyle: "Script style",
+  template: "Template",
+  hour: "Hour of day",
+  weekday: "Weekday",
+  campaign: "Campaign"
+};
+
+export const weekdayNames = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday"
+] as const;
+
+/** Outcomes of finished calls. Blocked calls were never dialed and only count as failures. */
+export type OutcomeStats = {
+  calls: number;
+  dialed: number;
+  /** Dialed calls that were answered, by a person or a machine. */
+  connected: number;
+  human: number;
+  machine: number;
+  /** `connected / dialed`, 0 when nothing was dialed. */
+  connectRate: number;
+  /** Mean duration in seconds of connected calls that reported one. */
+  averageDuration?: number;
+  /** Count per failure reason: a status such as `busy`, or `blocked:<code>`. */
+  failures: Record<string, number>;
+};
+
+export type AnalyticsGroup = {
+  key: string;
+  label: string;
+  stats: OutcomeStats;
+};
+
+export const analyticsRangeSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional()
+});
+
+export type AnalyticsReport = {
+  success: true;
+  from?: string;
+  to?: string;
+  totals: OutcomeStats;
+  breakdowns: Record<AnalyticsDimension, AnalyticsGroup[]>;
+};
+
+export function formatRate(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+export function describeFailure(reason: string) {
+  const [kind, detail] = reason.split(":");
+  if (kind === "blocked") return `Blocked: ${detail.replace(/_/g, " ")}`;
+  if (detail) return `${kind} (error ${detail})`;
+  return kind.replace(/-/g, " ");
+}
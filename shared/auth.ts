@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+export const roles = ["admin", "agent", "viewer"] as const;
+
+export type Role = (typeof roles)[number];
+
+const roleRank: Record<Role, number> = { viewer: 0, agent: 1, admin: 2 };
+
+/** Roles are cumulative: admins can do everything agents can, agents everything viewers can. */
+export function hasRole(role: Role, required: Role) {
+  return roleRank[role] >= roleRank[required];
+}
+
+/**
+ * Whether a record belongs to a workspace. Records created before workspaces
+ * existed have no team and stay visible to everyone; inbound records without
+ * one came from an unknown outsider and are visible to no one.
+ */
+export function belongsToTeam(record: { teamId?: string; direction?: string }, teamId: string) {
+  return record.teamId ? record.teamId === teamId : record.direction !== "inbound";
+}
+
+/** Who started something, recorded on calls and campaigns. */
+export type Actor = {
+  type: "user" | "api-key";
+  id: string;
+  name: string;
+};
+
+export type TeamMember = {
+  userId: string;
+  email: string;
+  name: string;
+  role: Role;
+};
+
+export type TeamSummary = {
+  id: string;
+  name: string;
+  role: Role;
+};
+
+export type SessionInfo = {
+  user: { id: string; email: string; name: string };
+  team: TeamSummary;
+  teams: TeamSummary[];
+};
+
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  role: Role;
+  createdBy: Actor;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+const passwordSchema = z.string().min(10, "Passwords must be at least 10 characters");
+
+export const signInSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: z.string().min(1, "Enter your password")
+});
+
+export const signUpSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: passwordSchema,
+  teamName: z.string().trim().min(2, "Workspace name must be at least 2 characters")
+});
+
+export const memberSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  /** Only needed when the person does not have an account yet. */
+  password: passwordSchema.optional(),
+  role: z.enum(roles)
+});
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(2, "Name the key so it can be recognized later").max(80),
+  role: z.enum(roles).default("agent")
+});
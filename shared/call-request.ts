@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { scriptStyles } from "./calls";
+import { optionalPhoneNumberSchema, phoneNumberSchema } from "./phone";
+import { isValidTimezone } from "./phone-timezone";
+import { retryPolicySchema } from "./retry-policy";
+import { checkSpeech, voiceSettingsSchema } from "./speech";
+
+/**
+ * Rules for a single call request, shared by the dashboard form and campaign
+ * CSV import. Numbers without a country code are read in `defaultCountry`
+ * and come out in E.164.
+ */
+export function callRequestSchemaFor(defaultCountry: string) {
+  return z.object({
+    contactName: z.string().min(2, "Contact name is required"),
+    phoneNumber: phoneNumberSchema(defaultCountry),
+    objective: z.string().min(3, "Share a brief objective for the call").superRefine(checkSpeech),
+    scriptStyle: z.enum(scriptStyles),
+    voice: voiceSettingsSchema.optional(),
+    scheduledAt: z
+      .string()
+      .optional()
+      .refine(value => !value || Date.parse(value) > Date.now(), "Pick a time in the future"),
+    notes: z.string().optional().superRefine(checkSpeech),
+    voicemailScript: z
+      .string()
+      .max(600, "Keep the voicemail under 600 characters")
+      .optional()
+      .superRefine(checkSpeech),
+    callbackNumber: optionalPhoneNumberSchema(defaultCountry),
+    templateId: z.string().optional(),
+    customFields: z
+      .record(z.string().max(500, "Keep custom fields under 500 characters"))
+      .optional(),
+    consentGranted: z.boolean().optional(),
+    consentSource: z.string().max(200).optional(),
+    timezone: z
+      .string()
+      .optional()
+      .refine(value => !value || isValidTimezone(value), "Unknown timezone (use an IANA name)"),
+    record: z.boolean().optional(),
+    contactId: z.string().optional(),
+    retryPolicy: retryPolicySchema.optional(),
+    sequenceId: z.string().optional()
+  });
+}
+
+export type CallRequest = z.infer<ReturnType<typeof callRequestSchemaFor>>;
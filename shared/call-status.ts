@@ -0,0 +1,54 @@
+export const callStatuses = [
+  "scheduled",
+  "queued",
+  "initiated",
+  "ringing",
+  "in-progress",
+  "completed",
+  "busy",
+  "no-answer",
+  "canceled",
+  "failed",
+  "blocked"
+] as const;
+
+export type CallStatus = (typeof callStatuses)[number];
+
+const terminalStatuses: ReadonlySet<CallStatus> = new Set([
+  "completed",
+  "busy",
+  "no-answer",
+  "canceled",
+  "failed",
+  "blocked"
+]);
+
+export function isCallStatus(value: unknown): value is CallStatus {
+  return typeof value === "string" && (callStatuses as readonly string[]).includes(value);
+}
+
+export function isTerminalStatus(status: CallStatus) {
+  return terminalStatuses.has(status);
+}
+
+export type CallStatusEvent = {
+  callSid: string;
+  status: CallStatus;
+  sequenceNumber: number;
+  receivedAt: string;
+  duration?: number;
+  answeredBy?: string;
+  errorCode?: string;
+  errorMessage?: string;
+};
+
+export type CallStatusSnapshot = {
+  callSid: string;
+  status: CallStatus;
+  updatedAt: string;
+  duration?: number;
+  answeredBy?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  events: CallStatusEvent[];
+};
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { phoneNumberSchema } from "./phone";
+
+/**
+ * `degraded` numbers are only used when no healthy one fits; `flagged` ones,
+ * e.g. reported as spam by carriers, are never picked.
+ */
+export const callerIdHealths = ["healthy", "degraded", "flagged"] as const;
+
+export type CallerIdHealth = (typeof callerIdHealths)[number];
+
+export const callerIdHealthLabels: Record<CallerIdHealth, string> = {
+  healthy: "Healthy",
+  degraded: "Degraded",
+  flagged: "Flagged as spam"
+};
+
+/** An outbound number in a workspace's caller ID pool. */
+export type CallerId = {
+  id: string;
+  /** E.164. */
+  phoneNumber: string;
+  label?: string;
+  country: string;
+  /** State, province or area the number belongs to, when known. */
+  region?: string;
+  /** Calls placed from the number per UTC day before it is skipped. */
+  dailyCap: number;
+  health: CallerIdHealth;
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Retired numbers are never picked again but keep their history. */
+  retiredAt?: string;
+};
+
+export type CallerIdUsage = {
+  /** Calls placed today (UTC). */
+  today: number;
+  total: number;
+  answered: number;
+  /** Contacts whose calls always go out from this number. */
+  pinnedContacts: number;
+  lastUsedAt?: string;
+};
+
+export type CallerIdSummary = CallerId & { usage: CallerIdUsage };
+
+export const callerIdInputSchema = z.object({
+  // Pool numbers are shared across contacts in every country, so the country code is required.
+  phoneNumber: phoneNumberSchema(),
+  label: z.string().trim().max(60).optional(),
+  dailyCap: z.number().int().min(1, "Allow at least one call a day").max(10_000).default(100),
+  health: z.enum(callerIdHealths).default("healthy")
+});
+
+export type CallerIdInput = z.infer<typeof callerIdInputSchema>;
+
+export const callerIdUpdateSchema = callerIdInputSchema
+  .omit({ phoneNumber: true })
+  .partial()
+  .refine(
+    value => value.label !== undefined || value.dailyCap || value.health,
+    "Provide a new label, daily cap or health"
+  );
+
+/** The three-digit area code of a North American number. */
+export function nanpAreaCode(e164: string) {
+  return e164.startsWith("+1") ? e164.slice(2, 5) : undefined;
+}
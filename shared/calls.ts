@@ -0,0 +1,109 @@
+import type { CallStatus } from "./call-status";
+import type { Actor } from "./auth";
+import type { BlockReason } from "./compliance";
+import type { CallDisposition } from "./dispositions";
+import type { InboundRoute } from "./inbound";
+import type { CallTransfer } from "./live-calls";
+import type { PhoneDetails } from "./phone";
+import type { CallRecording } from "./recording";
+import type { RetryPolicy } from "./retry-policy";
+import type { VoiceSettings } from "./speech";
+import type { ReachedOutcome } from "./voicemail";
+
+export const scriptStyles = ["friendly", "direct", "consultative"] as const;
+
+export type ScriptStyle = (typeof scriptStyles)[number];
+
+export const callDirections = ["outbound", "inbound"] as const;
+
+export type CallDirection = (typeof callDirections)[number];
+
+export type ConversationTurn = {
+  speaker: "agent" | "callee";
+  text: string;
+  at: string;
+  channel?: "speech" | "dtmf";
+  confidence?: number;
+  /** Set on agent turns an operator typed in during the call. */
+  operator?: string;
+};
+
+export type CallRecord = {
+  id: string;
+  contactName: string;
+  phoneNumber: string;
+  /** Country, region, line type and timezone read from `phoneNumber` when the call was created. */
+  phone?: PhoneDetails;
+  objective: string;
+  scriptStyle: ScriptStyle;
+  /** Unset calls speak with the default voice. */
+  voice?: VoiceSettings;
+  scheduledAt?: string;
+  notes?: string;
+  status: CallStatus;
+  createdAt: string;
+  updatedAt: string;
+  message?: string;
+  callSid?: string;
+  /** When the provider accepted the call; spend budgets count from here. */
+  dialedAt?: string;
+  /** Number shown to the callee; unset when the provider's default number was used. */
+  callerId?: string;
+  duration?: number;
+  answeredBy?: string;
+  errorCode?: string;
+  transcript?: ConversationTurn[];
+  voicemailScript?: string;
+  callbackNumber?: string;
+  reached?: ReachedOutcome;
+  voicemailLeft?: boolean;
+  campaignId?: string;
+  templateId?: string;
+  templateVersion?: number;
+  customFields?: Record<string, string>;
+  consentGranted?: boolean;
+  consentSource?: string;
+  timezone?: string;
+  blockReason?: BlockReason;
+  record?: boolean;
+  /** Disclosure read at the start of a recorded call, fixed at launch. */
+  recordingDisclosure?: string;
+  recording?: CallRecording;
+  teamId?: string;
+  launchedBy?: Actor;
+  contactId?: string;
+  retryPolicy?: RetryPolicy;
+  /** Set on retries; always the first call of the chain. */
+  parentCallId?: string;
+  /** 1-based position in the retry chain; the original call is attempt 1. */
+  attempt?: number;
+  /** The retry scheduled after this call ended, so it is only created once. */
+  nextAttemptId?: string;
+  transfer?: CallTransfer;
+  /** Unset on calls stored before inbound calls were logged; those are outbound. */
+  direction?: CallDirection;
+  /** For inbound calls, the outbound call the caller is returning. */
+  returnedCallId?: string;
+  /** Where an inbound caller ended up. */
+  inboundRoute?: InboundRoute;
+  /** Follow-up sequence that starts once this call (or its last retry) ends. */
+  sequenceId?: string;
+  /** Set on calls placed by a sequence, which resume it when they end. */
+  sequenceRunId?: string;
+  /** Business outcome, notes and next steps recorded after the call. */
+  disposition?: CallDisposition;
+};
+
+export function callDirection(call: Pick<CallRecord, "direction">): CallDirection {
+  return call.direction ?? "outbound";
+}
+
+export type CallListResponse = {
+  success: true;
+  calls: CallRecord[];
+  page: number;
+  pageSize: number;
+  total: number;
+  /** Retries of the calls on this page, oldest first. */
+  attempts: CallRecord[];
+};
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type { Actor } from "./auth";
+import { callRequestSchemaFor } from "./call-request";
+import type { ScriptStyle } from "./calls";
+
+export const campaignFields = [
+  "contactName",
+  "phoneNumber",
+  "objective",
+  "scriptStyle",
+  "notes",
+  "consentGranted",
+  "consentSource",
+  "timezone"
+] as const;
+
+export type CampaignField = (typeof campaignFields)[number];
+
+/** CSV header chosen for each call request field; unmapped fields fall back to defaults. */
+export type ColumnMapping = Partial<Record<CampaignField, string>>;
+
+/** Rows are read with the team's default country, like numbers typed into the call form. */
+export function campaignRowSchemaFor(defaultCountry: string) {
+  return callRequestSchemaFor(defaultCountry).pick({
+    contactName: true,
+    phoneNumber: true,
+    objective: true,
+    scriptStyle: true,
+    notes: true,
+    consentGranted: true,
+    consentSource: true,
+    timezone: true
+  });
+}
+
+export type CampaignRow = z.output<ReturnType<typeof campaignRowSchemaFor>>;
+
+export type RowError = {
+  row: number;
+  field: string;
+  message: string;
+};
+
+export const campaignStatuses = ["draft", "running", "paused", "canceled", "completed"] as const;
+
+export type CampaignStatus = (typeof campaignStatuses)[number];
+
+export type CampaignContact = CampaignRow & {
+  row: number;
+  callId?: string;
+  dialedAt?: string;
+};
+
+export type Campaign = {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  concurrency: number;
+  callsPerMinute: number;
+  contacts: CampaignContact[];
+  teamId?: string;
+  createdBy?: Actor;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CampaignProgress = {
+  total: number;
+  pending: number;
+  dialed: number;
+  answered: number;
+  failed: number;
+};
+
+export type CampaignSummary = Omit<Campaign, "contacts"> & { progress: CampaignProgress };
+
+export const campaignSettingsSchema = z.object({
+  name: z.string().trim().min(1, "Name the campaign"),
+  concurrency: z.coerce.number().int().min(1).max(20),
+  callsPerMinute: z.coerce.number().int().min(1).max(60)
+});
+
+const aliases: Record<CampaignField, string[]> = {
+  contactName: ["contactname", "name", "contact", "fullname"],
+  phoneNumber: ["phonenumber", "phone", "number", "mobile"],
+  objective: ["objective", "goal", "purpose"],
+  scriptStyle: ["scriptstyle", "style", "tone"],
+  notes: ["notes", "note", "comments"],
+  consentGranted: ["consent", "consented", "optin", "consentgranted"],
+  consentSource: ["consentsource", "source", "optinsource"],
+  timezone: ["timezone", "tz", "zone"]
+};
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of campaignFields) {
+    const match = headers.find(header =>
+      aliases[field].includes(header.toLowerCase().replace(/[^a-z]/g, ""))
+    );
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+}
+
+/**
+ * Applies the column mapping and validates every row with the same rules as
+ * the single-call form. Row numbers are 1-based and exclude the header.
+ */
+export function validateCampaignRows(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  defaults: { objective?: string; scriptStyle: ScriptStyle; consentSource?: string },
+  defaultCountry: string
+) {
+  const schema = campaignRowSchemaFor(defaultCountry);
+  const contacts: CampaignContact[] = [];
+  const errors: RowError[] = [];
+
+  rows.forEach((source, index) => {
+    const value = (field: CampaignField) => {
+      const header = mapping[field];
+      return header ? source[header]?.trim() || undefined : undefined;
+    };
+
+    const consentColumn = value("consentGranted");
+    const parsed = schema.safeParse({
+      contactName: value("contactName") ?? "",
+      phoneNumber: value("phoneNumber") ?? "",
+      objective: value("objective") ?? defaults.objective ?? "",
+      scriptStyle: value("scriptStyle")?.toLowerCase() ?? defaults.scriptStyle,
+      notes: value("notes"),
+      // Without a consent column, a campaign-wide consent source applies to every row.
+      consentGranted: mapping.consentGranted
+        ? /^(y|yes|true|1)$/i.test(consentColumn ?? "")
+        : Boolean(defaults.consentSource),
+      consentSource: value("consentSource") ?? defaults.consentSource,
+      timezone: value("timezone")
+    });
+
+    if (parsed.success) {
+      contacts.push({ ...parsed.data, row: index + 1 });
+      return;
+    }
+    for (const issue of parsed.error.issues) {
+      errors.push({ row: index + 1, field: String(issue.path[0] ?? "row"), message: issue.message });
+    }
+  });
+
+  return { contacts, errors };
+}
@@ -0,0 +1,37 @@
+export const blockReasonCodes = [
+  "do_not_call",
+  "outside_calling_hours",
+  "consent_missing",
+  "budget_exceeded",
+  "rate_limited"
+] as const;
+
+export type BlockReasonCode = (typeof blockReasonCodes)[number];
+
+export type BlockReason = {
+  code: BlockReasonCode;
+  message: string;
+  /** For `outside_calling_hours` and `rate_limited`, the next moment the callee may be dialed. */
+  nextAllowedAt?: string;
+  timeZone?: string;
+};
+
+export type DoNotCallEntry = {
+  phoneNumber: string;
+  reason?: string;
+  source?: string;
+  addedAt: string;
+};
+
+export const consentSources = [
+  "web form",
+  "verbal",
+  "written",
+  "existing customer",
+  "inbound inquiry"
+] as const;
+
+/** Canonical key for comparing numbers: digits only with a leading `+`. */
+export function normalizeDialNumber(value: string) {
+  return `+${value.replace(/\D/g, "")}`;
+}
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { CallRecord } from "./calls";
+import { parseCsv } from "./csv";
+import { phoneNumberSchema } from "./phone";
+import { isValidTimezone } from "./phone-timezone";
+import type { SmsMessage } from "./sms";
+
+export type Contact = {
+  id: string;
+  name: string;
+  /** E.164; unique within a workspace. */
+  phoneNumber: string;
+  company?: string;
+  timezone?: string;
+  tags: string[];
+  customFields: Record<string, string>;
+  teamId?: string;
+  /** Ids of contacts folded into this one as duplicates. */
+  mergedIds?: string[];
+  /** Pool number this contact is always called from, so callbacks reach the same line. */
+  callerId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Numbers without a country code are read in `defaultCountry` and stored as E.164. */
+export function contactInputSchemaFor(defaultCountry: string) {
+  return z.object({
+    name: z.string().trim().min(2, "Contact name is required"),
+    phoneNumber: phoneNumberSchema(defaultCountry),
+    company: z.string().trim().max(200).optional(),
+    timezone: z
+      .string()
+      .optional()
+      .refine(value => !value || isValidTimezone(value), "Unknown timezone (use an IANA name)"),
+    tags: z.array(z.string().trim().min(1).max(50)).max(50).optional(),
+    customFields: z
+      .record(z.string().max(500, "Keep custom fields under 500 characters"))
+      .optional()
+  });
+}
+
+export type ContactInput = z.output<ReturnType<typeof contactInputSchemaFor>>;
+
+export type ContactDetail = {
+  success: true;
+  contact: Contact;
+  /** Every call to the contact, newest first. */
+  calls: CallRecord[];
+  /** Texts to and from the contact, newest first. */
+  messages: SmsMessage[];
+};
+
+/** Trimmed, lower-cased and de-duplicated, so tag filters match regardless of case. */
+export function normalizeTags(tags: string[] = []) {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+const columnAliases: Record<"name" | "phoneNumber" | "company" | "timezone" | "tags", string[]> = {
+  name: ["name", "contact", "contactname", "full name"],
+  phoneNumber: ["phone", "phonenumber", "phone number", "number", "mobile"],
+  company: ["company", "organization", "account"],
+  timezone: ["timezone", "time zone", "tz"],
+  tags: ["tags", "labels"]
+};
+
+/**
+ * Reads contacts from a CSV export. Known columns are matched by common
+ * header names, tags are split on `;` or `|`, and every other column becomes
+ * a custom field.
+ */
+export function parseContactsCsv(text: string) {
+  const { headers, rows } = parseCsv(text);
+  const known = new Map<string, keyof typeof columnAliases>();
+  for (const header of headers) {
+    const key = (Object.keys(columnAliases) as (keyof typeof columnAliases)[]).find(field =>
+      columnAliases[field].includes(header.toLowerCase())
+    );
+    if (key && ![...known.values()].includes(key)) known.set(header, key);
+  }
+
+  return rows.map(row => {
+    const input: Record<string, unknown> = { customFields: {} };
+    for (const [header, value] of Object.entries(row)) {
+      if (!value) continue;
+      const key = known.get(header);
+      if (key === "tags") input.tags = value.split(/[;|]/);
+      else if (key) input[key] = value;
+      else (input.customFields as Record<string, string>)[header] = value;
+    }
+    return input;
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Parses RFC 4180 style CSV: quoted fields, escaped quotes ("") and
+ * embedded newlines. The first row is treated as the header.
+ */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...body] = rows.filter(cells => cells.some(cell => cell.trim()));
+  const headers = header.map(cell => cell.trim());
+
+  return {
+    headers,
+    rows: body.map(cells =>
+      Object.fromEntries(headers.map((name, column) => [name, (cells[column] ?? "").trim()]))
+    )
+  };
+}
+
+/**
+ * Formats rows as CSV, quoting fields that contain commas, quotes or newlines.
+ * Text that a spreadsheet would read as a formula gets a leading `'`.
+ */
+export function formatCsv(rows: (string | number | undefined)[][]) {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          const raw = value === undefined ? "" : String(value);
+          const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
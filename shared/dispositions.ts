@@ -0,0 +1,174 @@
+import { z } from "zod";
+import type { Actor } from "./auth";
+import type { CallStatus } from "./call-status";
+import type { CallRecord } from "./calls";
+
+export const dispositionSentiments = ["positive", "neutral", "negative"] as const;
+
+export type DispositionSentiment = (typeof dispositionSentiments)[number];
+
+const unansweredStatuses: CallStatus[] = ["busy", "no-answer", "failed", "canceled"];
+
+/**
+ * A business outcome a call can be marked with. `keywords` are phrases in the
+ * callee's replies that suggest the code; the longest match wins.
+ */
+export type DispositionCode = {
+  id: string;
+  label: string;
+  sentiment: DispositionSentiment;
+  keywords: string[];
+};
+
+/** Used when nobody answered, so there is nothing to read the outcome from. */
+export const noContactCode = "no-contact";
+
+/** Saving this code puts the callee on the do-not-call list. */
+export const doNotCallCode = "do-not-call";
+
+export const defaultDispositionCodes: DispositionCode[] = [
+  {
+    id: "meeting-booked",
+    label: "Booked a meeting",
+    sentiment: "positive",
+    keywords: ["book", "booked", "meeting", "schedule", "calendar", "appointment", "demo"]
+  },
+  {
+    id: "interested",
+    label: "Interested",
+    sentiment: "positive",
+    keywords: ["yes", "yeah", "sure", "interested", "sounds good", "tell me more"]
+  },
+  {
+    id: "call-back",
+    label: "Call back later",
+    sentiment: "neutral",
+    keywords: ["call me back", "call back", "later", "busy", "not a good time"]
+  },
+  {
+    id: "not-interested",
+    label: "Not interested",
+    sentiment: "negative",
+    keywords: ["no", "nope", "not interested", "no thanks"]
+  },
+  {
+    id: doNotCallCode,
+    label: "Asked not to be called",
+    sentiment: "negative",
+    keywords: ["stop", "remove me", "do not call", "don't call", "unsubscribe"]
+  },
+  {
+    id: "wrong-number",
+    label: "Wrong number",
+    sentiment: "negative",
+    keywords: ["wrong number", "nobody by that name", "no one by that name"]
+  },
+  { id: noContactCode, label: "No contact", sentiment: "neutral", keywords: [] }
+];
+
+/** People tasks can be assigned to. */
+export type Assignee = { id: string; name: string };
+
+export type CallTask = {
+  id: string;
+  title: string;
+  dueAt?: string;
+  assignee?: Assignee;
+  done: boolean;
+};
+
+/**
+ * The outcome recorded for a call. The code's label is copied so renaming
+ * or removing a code later doesn't change what past calls say.
+ */
+export type CallDisposition = {
+  code: string;
+  label: string;
+  notes?: string;
+  tasks: CallTask[];
+  updatedAt: string;
+  updatedBy: Actor;
+};
+
+export type DispositionSettings = {
+  success: true;
+  codes: DispositionCode[];
+  assignees: Assignee[];
+};
+
+export const dispositionCodeSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9-]{0,39}$/, "Codes use lowercase letters, digits and dashes"),
+  label: z.string().trim().min(1, "Label every disposition").max(60),
+  sentiment: z.enum(dispositionSentiments),
+  keywords: z.array(z.string().trim().toLowerCase().min(1).max(60)).max(30).default([])
+});
+
+export const dispositionCodesSchema = z
+  .array(dispositionCodeSchema)
+  .min(1, "Keep at least one disposition")
+  .max(50)
+  .refine(
+    codes => new Set(codes.map(code => code.id)).size === codes.length,
+    "Each disposition needs its own code"
+  );
+
+export const callTaskSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().trim().min(1, "Describe the task").max(200),
+  dueAt: z.string().datetime().optional(),
+  assigneeId: z.string().optional(),
+  done: z.boolean().optional()
+});
+
+export const callDispositionSchema = z.object({
+  code: z.string().min(1, "Pick a disposition"),
+  notes: z.string().trim().max(2000, "Keep notes under 2000 characters").optional(),
+  tasks: z.array(callTaskSchema).max(20, "Add at most 20 tasks").default([])
+});
+
+export type CallDispositionInput = z.infer<typeof callDispositionSchema>;
+
+/**
+ * The code the call's outcome most likely fits: the latest callee reply that
+ * matches a keyword, or "no contact" for calls nobody answered.
+ */
+export function suggestDisposition(
+  call: Pick<CallRecord, "status" | "transcript" | "reached">,
+  codes: DispositionCode[]
+): DispositionCode | undefined {
+  const replies = (call.transcript ?? []).filter(turn => turn.speaker === "callee");
+
+  for (const reply of [...replies].reverse()) {
+    const text = reply.text.toLowerCase();
+    let best: { code: DispositionCode; length: number } | undefined;
+    for (const code of codes) {
+      for (const keyword of code.keywords) {
+        if (keyword.length > (best?.length ?? 0) && containsPhrase(text, keyword)) {
+          best = { code, length: keyword.length };
+        }
+      }
+    }
+    if (best) return best.code;
+  }
+
+  const unanswered = unansweredStatuses.includes(call.status) || call.reached === "machine";
+  return replies.length === 0 && unanswered
+    ? codes.find(code => code.id === noContactCode)
+    : undefined;
+}
+
+/** Tasks still to do, soonest due first; tasks without a due date come last. */
+export function openTasks(disposition: CallDisposition | undefined) {
+  const due = (task: CallTask) => (task.dueAt ? Date.parse(task.dueAt) : Infinity);
+  return (disposition?.tasks ?? [])
+    .filter(task => !task.done)
+    .sort((a, b) => (due(a) === due(b) ? 0 : due(a) - due(b)));
+}
+
+function containsPhrase(text: string, phrase: string) {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z'])${escaped}($|[^a-z'])`).test(text);
+}
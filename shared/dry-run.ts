@@ -0,0 +1,73 @@
+export const dryRunCheckNames = [
+  "provider",
+  "compliance",
+  "budget",
+  "rate-limit",
+  "schedule"
+] as const;
+
+export type DryRunCheckName = (typeof dryRunCheckNames)[number];
+
+export const dryRunCheckLabels: Record<DryRunCheckName, string> = {
+  provider: "Telephony",
+  compliance: "Compliance",
+  budget: "Budget",
+  "rate-limit": "Rate limits",
+  schedule: "Schedule"
+};
+
+export type DryRunCheck = {
+  name: DryRunCheckName;
+  ok: boolean;
+  message: string;
+};
+
+/**
+ * One thing said on a simulated call. Agent steps carry the TwiML the call
+ * would be sent at that point; `next` is what the call does afterwards.
+ */
+export type DryRunStep = {
+  speaker: "agent" | "callee";
+  text: string;
+  twiml?: string;
+  next?: "listen" | "end" | "transfer";
+};
+
+export type DryRunBranch = {
+  id: string;
+  label: string;
+  steps: DryRunStep[];
+  estimatedSeconds: number;
+};
+
+export type DryRunResult = {
+  /** False when a check would stop the call from being placed or scheduled. */
+  wouldDial: boolean;
+  checks: DryRunCheck[];
+  /** When the call would be placed; unset for immediate calls. */
+  runAt?: string;
+  /** The TwiML sent when the call connects. */
+  twiml: string;
+  /** The opening lines without markup, as they appear in the transcript. */
+  utterances: string[];
+  /** False when the call reads its message and hangs up without waiting for a reply. */
+  listens: boolean;
+  /** Length of the call if the callee answers and agrees. */
+  estimatedSeconds: number;
+  branches: DryRunBranch[];
+};
+
+/** Replies every dry run plays through, one answered branch each. */
+export const sampleReplies = [
+  { id: "accept", label: "Says yes", speech: "Yes, that works for me." },
+  { id: "decline", label: "Says no", speech: "No thanks, I'm not interested." },
+  { id: "question", label: "Asks a question", speech: "What is this about?" },
+  { id: "callback", label: "Asks for a callback", speech: "Can you call me back later?" },
+  { id: "human", label: "Asks for a person", speech: "Can I talk to a real person?" },
+  { id: "silence", label: "Stays silent", speech: "" }
+] as const;
+
+export function formatSeconds(seconds: number) {
+  const rounded = Math.round(seconds);
+  return rounded < 60 ? `${rounded}s` : `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+}
@@ -0,0 +1,21 @@
+/**
+ * How calls to the caller ID are answered: a keypad menu, straight to the
+ * agent line while it is staffed, or straight to voicemail.
+ */
+export const inboundModes = ["ivr", "agent", "voicemail"] as const;
+
+export type InboundMode = (typeof inboundModes)[number];
+
+export const inboundRoutes = ["menu", "agent", "voicemail", "opt-out"] as const;
+
+export type InboundRoute = (typeof inboundRoutes)[number];
+
+export const inboundRouteLabels: Record<InboundRoute, string> = {
+  menu: "Heard the menu",
+  agent: "Sent to the agent line",
+  voicemail: "Sent to voicemail",
+  "opt-out": "Opted out"
+};
+
+/** Keypad choices read out by the inbound menu. */
+export const menuChoices = { agent: "1", voicemail: "2", optOut: "3" } as const;
@@ -0,0 +1,18 @@
+import type { CallRecord } from "./calls";
+
+export const jobStatuses = ["pending", "dispatching", "dispatched", "canceled", "failed"] as const;
+
+export type JobStatus = (typeof jobStatuses)[number];
+
+export type ScheduledJob = {
+  id: string;
+  callId: string;
+  runAt: string;
+  status: JobStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+};
+
+export type ScheduledJobWithCall = ScheduledJob & { call?: CallRecord };
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import type { CallRecord, ConversationTurn } from "./calls";
+import { checkSpeech } from "./speech";
+
+export const transferStatuses = ["connecting", "connected", "completed", "failed"] as const;
+
+export type TransferStatus = (typeof transferStatuses)[number];
+
+/** A hand-off of the callee to the human agent line. */
+export type CallTransfer = {
+  to: string;
+  status: TransferStatus;
+  /** The operator who pressed Transfer, or "callee" when they asked for a person. */
+  requestedBy: string;
+  requestedAt: string;
+  answeredAt?: string;
+  endedAt?: string;
+  /** Provider outcome when the agent line did not pick up, e.g. "busy". */
+  error?: string;
+};
+
+export type LiveCallsSnapshot = {
+  calls: CallRecord[];
+  /** False when no human agent number is configured. */
+  transferAvailable: boolean;
+};
+
+export const injectMessageSchema = z.object({
+  text: z.string().trim().min(1, "Enter a message to say").max(500).superRefine(checkSpeech)
+});
+
+const transferLabels: Record<TransferStatus, string> = {
+  connecting: "Connecting to",
+  connected: "Talking with",
+  completed: "Handed to",
+  failed: "Could not reach"
+};
+
+export function describeTransfer(transfer: CallTransfer) {
+  const by =
+    transfer.requestedBy === "callee"
+      ? "the callee asked for a person"
+      : `requested by ${transfer.requestedBy}`;
+  const error = transfer.error ? ` (${transfer.error.replace(/-/g, " ")})` : "";
+  return `${transferLabels[transfer.status]} the agent line ${transfer.to}${error} · ${by}`;
+}
+
+/** Transcript label; turns an operator typed in name them. */
+export function speakerLabel(turn: ConversationTurn) {
+  if (turn.speaker === "callee") return "Callee";
+  return turn.operator ? `Agent (${turn.operator})` : "Agent";
+}
@@ -0,0 +1,128 @@
+/**
+ * Best-effort timezone inference from an E.164 number using offline tables.
+ * Countries spanning several zones map to their most populous one, so a
+ * per-contact timezone should be set where precision matters.
+ */
+
+const nanpZones: Record<string, string> = {};
+
+function assign(zone: string, areaCodes: string) {
+  for (const code of areaCodes.split(/\s+/).filter(Boolean)) nanpZones[code] = zone;
+}
+
+assign(
+  "America/New_York",
+  `201 202 203 207 212 215 216 220 223 226 229 231 234 239 240 248 249 252 260 267 269 272
+   276 289 301 302 304 305 313 315 317 321 326 330 332 336 339 343 347 351 352 365 380 386
+   401 404 407 410 412 413 416 418 419 423 434 438 440 443 445 450 470 475 478 484 502 508
+   513 514 516 517 518 519 540 551 561 567 570 571 574 585 586 603 607 609 610 613 614 616
+   617 631 646 647 667 678 680 681 689 703 704 705 706 716 717 718 724 727 732 734 740 743
+   754 757 762 765 770 772 774 781 786 802 803 804 810 813 814 819 828 835 839 843 845 848
+   854 856 857 859 860 862 863 864 865 878 904 905 908 910 912 914 917 919 929 934 937 941
+   947 954 959 973 978 980 984 989`
+);
+assign(
+  "America/Chicago",
+  `204 205 210 214 217 218 219 224 225 228 251 254 256 262 270 281 309 312 314 316 318 319
+   320 325 331 334 337 346 361 364 402 405 409 414 417 430 432 469 479 501 504 507 512 515
+   531 563 573 580 601 605 608 612 615 618 620 629 630 636 641 651 660 662 682 708 712 713
+   715 726 731 737 763 769 773 779 785 806 815 816 817 830 832 847 870 872 901 903 913 918
+   920 931 936 940 952 956 972 979 985`
+);
+assign("America/Regina", "306 639");
+assign("America/Denver", "208 303 307 385 406 435 505 575 719 720 801 915 970");
+assign("America/Edmonton", "403 587 780 825");
+assign("America/Phoenix", "480 520 602 623 928");
+assign(
+  "America/Los_Angeles",
+  `206 209 213 253 279 310 323 341 350 360 408 415 424 425 442 503 509 510 530 541 559 562
+   564 619 626 628 650 657 661 669 702 707 714 725 747 760 775 805 818 820 831 858 909 916
+   925 949 951 971`
+);
+assign("America/Vancouver", "236 250 604 672 778");
+assign("America/Anchorage", "907");
+assign("Pacific/Honolulu", "808");
+assign("America/Puerto_Rico", "787 939");
+assign("America/Halifax", "782 902");
+assign("America/Moncton", "506");
+assign("America/St_Johns", "709");
+
+const countryZones: Record<string, string> = {
+  "7": "Europe/Moscow",
+  "20": "Africa/Cairo",
+  "27": "Africa/Johannesburg",
+  "30": "Europe/Athens",
+  "31": "Europe/Amsterdam",
+  "32": "Europe/Brussels",
+  "33": "Europe/Paris",
+  "34": "Europe/Madrid",
+  "36": "Europe/Budapest",
+  "39": "Europe/Rome",
+  "40": "Europe/Bucharest",
+  "41": "Europe/Zurich",
+  "43": "Europe/Vienna",
+  "44": "Europe/London",
+  "45": "Europe/Copenhagen",
+  "46": "Europe/Stockholm",
+  "47": "Europe/Oslo",
+  "48": "Europe/Warsaw",
+  "49": "Europe/Berlin",
+  "51": "America/Lima",
+  "52": "America/Mexico_City",
+  "54": "America/Argentina/Buenos_Aires",
+  "55": "America/Sao_Paulo",
+  "56": "America/Santiago",
+  "57": "America/Bogota",
+  "58": "America/Caracas",
+  "60": "Asia/Kuala_Lumpur",
+  "61": "Australia/Sydney",
+  "62": "Asia/Jakarta",
+  "63": "Asia/Manila",
+  "64": "Pacific/Auckland",
+  "65": "Asia/Singapore",
+  "66": "Asia/Bangkok",
+  "81": "Asia/Tokyo",
+  "82": "Asia/Seoul",
+  "84": "Asia/Ho_Chi_Minh",
+  "86": "Asia/Shanghai",
+  "90": "Europe/Istanbul",
+  "91": "Asia/Kolkata",
+  "92": "Asia/Karachi",
+  "212": "Africa/Casablanca",
+  "234": "Africa/Lagos",
+  "254": "Africa/Nairobi",
+  "351": "Europe/Lisbon",
+  "353": "Europe/Dublin",
+  "358": "Europe/Helsinki",
+  "380": "Europe/Kyiv",
+  "420": "Europe/Prague",
+  "852": "Asia/Hong_Kong",
+  "880": "Asia/Dhaka",
+  "886": "Asia/Taipei",
+  "966": "Asia/Riyadh",
+  "971": "Asia/Dubai",
+  "972": "Asia/Jerusalem"
+};
+
+export function inferTimezone(phoneNumber: string): string | undefined {
+  const digits = phoneNumber.replace(/\D/g, "");
+
+  if (digits.startsWith("1") && digits.length === 11) {
+    return nanpZones[digits.slice(1, 4)];
+  }
+
+  for (const length of [3, 2, 1]) {
+    const zone = countryZones[digits.slice(0, length)];
+    if (zone) return zone;
+  }
+  return undefined;
+}
+
+export function isValidTimezone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
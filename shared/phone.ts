@@ -0,0 +1,1020 @@
+import { z } from "zod";
+import { inferTimezone } from "./phone-timezone";
+
+/**
+ * Phone number parsing against offline numbering-plan metadata. Input may be
+ * formatted (`(415) 555-0123`), national with a trunk prefix (`020 7946
+ * 0958`) or international (`+44 20 7946 0958`, `0044…`); national numbers
+ * are read in the default country. The tables cover common ranges only, so
+ * numbers are checked for a plausible length and prefix rather than
+ * against carrier allocations.
+ */
+
+export const lineTypes = [
+  "mobile",
+  "fixed-line",
+  "fixed-line-or-mobile",
+  "toll-free",
+  "premium-rate",
+  "voip",
+  "unknown"
+] as const;
+
+export type LineType = (typeof lineTypes)[number];
+
+export const lineTypeLabels: Record<LineType, string> = {
+  mobile: "Mobile",
+  "fixed-line": "Landline",
+  "fixed-line-or-mobile": "Landline or mobile",
+  "toll-free": "Toll-free",
+  "premium-rate": "Premium rate",
+  voip: "VoIP",
+  unknown: "Unknown line type"
+};
+
+export type PhoneDetails = {
+  /** `+` followed by the country code and national number. */
+  e164: string;
+  /** ISO 3166-1 alpha-2 code. */
+  country: string;
+  countryName: string;
+  /** State, province or city for geographic numbers, when the tables know it. */
+  region?: string;
+  lineType: LineType;
+  timezone?: string;
+};
+
+type NumberingPlan = {
+  country: string;
+  name: string;
+  callingCode: string;
+  trunkPrefix?: string;
+  /** National number patterns, checked in order; the first match decides the line type. */
+  lines: [LineType, RegExp][];
+  /** Geographic area codes; the longest matching prefix wins. */
+  regions?: Record<string, string>;
+};
+
+// Every NANP country shares one plan: NXX area code, NXX exchange, four digits.
+const nanpLines: [LineType, RegExp][] = [
+  ["toll-free", /^8(00|33|44|55|66|77|88)[2-9]\d{6}$/],
+  ["premium-rate", /^900[2-9]\d{6}$/],
+  ["fixed-line-or-mobile", /^[2-9](?!11)\d{2}[2-9]\d{6}$/]
+];
+
+function nanp(country: string, name: string): NumberingPlan {
+  return { country, name, callingCode: "1", lines: nanpLines };
+}
+
+const plans: NumberingPlan[] = [
+  nanp("US", "United States"),
+  nanp("CA", "Canada"),
+  nanp("PR", "Puerto Rico"),
+  nanp("DO", "Dominican Republic"),
+  nanp("JM", "Jamaica"),
+  nanp("BS", "Bahamas"),
+  nanp("BB", "Barbados"),
+  nanp("TT", "Trinidad and Tobago"),
+  nanp("BM", "Bermuda"),
+  {
+    country: "RU",
+    name: "Russia",
+    callingCode: "7",
+    trunkPrefix: "8",
+    lines: [
+      ["toll-free", /^800\d{7}$/],
+      ["mobile", /^9\d{9}$/],
+      ["fixed-line", /^[3-8]\d{9}$/]
+    ],
+    regions: { "495": "Moscow", "499": "Moscow", "812": "Saint Petersburg" }
+  },
+  {
+    country: "EG",
+    name: "Egypt",
+    callingCode: "20",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^1[0125]\d{8}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["fixed-line", /^(2\d{8}|[3-9]\d{7})$/]
+    ],
+    regions: { "2": "Cairo", "3": "Alexandria" }
+  },
+  {
+    country: "ZA",
+    name: "South Africa",
+    callingCode: "27",
+    trunkPrefix: "0",
+    lines: [
+      ["toll-free", /^80\d{7}$/],
+      ["premium-rate", /^86\d{7}$/],
+      ["mobile", /^(6|7|8[1-4])\d{7,8}$/],
+      ["fixed-line", /^[1-5]\d{8}$/]
+    ],
+    regions: { "11": "Johannesburg", "12": "Pretoria", "21": "Cape Town", "31": "Durban" }
+  },
+  {
+    country: "GR",
+    name: "Greece",
+    callingCode: "30",
+    lines: [
+      ["mobile", /^69\d{8}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["fixed-line", /^2\d{9}$/]
+    ],
+    regions: { "21": "Athens", "231": "Thessaloniki" }
+  },
+  {
+    country: "NL",
+    name: "Netherlands",
+    callingCode: "31",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^6[1-9]\d{7}$/],
+      ["toll-free", /^800\d{4,7}$/],
+      ["premium-rate", /^90[069]\d{4,7}$/],
+      ["voip", /^(85|88)\d{7}$/],
+      ["fixed-line", /^[1-57]\d{8}$/]
+    ],
+    regions: { "10": "Rotterdam", "20": "Amsterdam", "30": "Utrecht", "70": "The Hague" }
+  },
+  {
+    country: "BE",
+    name: "Belgium",
+    callingCode: "32",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^4[5-9]\d{7}$/],
+      ["toll-free", /^800\d{5}$/],
+      ["premium-rate", /^90\d{6}$/],
+      ["fixed-line", /^[1-9]\d{7}$/]
+    ],
+    regions: { "2": "Brussels", "3": "Antwerp", "9": "Ghent" }
+  },
+  {
+    country: "FR",
+    name: "France",
+    callingCode: "33",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[67]\d{8}$/],
+      ["toll-free", /^80\d{7}$/],
+      ["premium-rate", /^89\d{7}$/],
+      ["voip", /^9\d{8}$/],
+      ["fixed-line", /^[1-5]\d{8}$/]
+    ],
+    regions: {
+      "1": "Île-de-France",
+      "2": "Northwest France",
+      "3": "Northeast France",
+      "4": "Southeast France",
+      "5": "Southwest France"
+    }
+  },
+  {
+    country: "ES",
+    name: "Spain",
+    callingCode: "34",
+    lines: [
+      ["mobile", /^(6\d|7[1-4])\d{7}$/],
+      ["toll-free", /^(800|900)\d{6}$/],
+      ["premium-rate", /^(80[367]|90[5-7])\d{6}$/],
+      ["fixed-line", /^[89]\d{8}$/]
+    ],
+    regions: { "91": "Madrid", "93": "Barcelona", "95": "Andalusia", "96": "Valencia" }
+  },
+  {
+    country: "HU",
+    name: "Hungary",
+    callingCode: "36",
+    trunkPrefix: "06",
+    lines: [
+      ["mobile", /^(20|30|31|50|70)\d{7}$/],
+      ["toll-free", /^80\d{6}$/],
+      ["fixed-line", /^[1-9]\d{7}$/]
+    ],
+    regions: { "1": "Budapest" }
+  },
+  {
+    country: "IT",
+    name: "Italy",
+    callingCode: "39",
+    lines: [
+      ["mobile", /^3\d{8,9}$/],
+      ["toll-free", /^80[03]\d{3,6}$/],
+      ["fixed-line", /^0\d{5,10}$/]
+    ],
+    regions: { "02": "Milan", "06": "Rome", "011": "Turin", "055": "Florence", "081": "Naples" }
+  },
+  {
+    country: "RO",
+    name: "Romania",
+    callingCode: "40",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^7\d{8}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["fixed-line", /^[23]\d{8}$/]
+    ],
+    regions: { "21": "Bucharest", "31": "Bucharest" }
+  },
+  {
+    country: "CH",
+    name: "Switzerland",
+    callingCode: "41",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^7[5-9]\d{7}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["premium-rate", /^90\d{7}$/],
+      ["fixed-line", /^[2-68]\d{8}$/]
+    ],
+    regions: { "22": "Geneva", "31": "Bern", "44": "Zurich", "61": "Basel" }
+  },
+  {
+    country: "AT",
+    name: "Austria",
+    callingCode: "43",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^6(5[0-5]|6[04-9]|7[6-8]|8[018]|99)\d{6,10}$/],
+      ["toll-free", /^800\d{6,10}$/],
+      ["premium-rate", /^9[03]\d{6,10}$/],
+      ["fixed-line", /^[1-7]\d{3,12}$/]
+    ],
+    regions: { "1": "Vienna", "316": "Graz", "512": "Innsbruck", "662": "Salzburg" }
+  },
+  {
+    country: "GB",
+    name: "United Kingdom",
+    callingCode: "44",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^7[1-57-9]\d{8}$/],
+      ["toll-free", /^80(0\d{6,7}|8\d{7})$/],
+      ["premium-rate", /^9[018]\d{8}$/],
+      ["voip", /^56\d{8}$/],
+      ["fixed-line", /^([12]\d{8,9}|3\d{9})$/]
+    ],
+    regions: {
+      "20": "London",
+      "28": "Northern Ireland",
+      "29": "Cardiff",
+      "113": "Leeds",
+      "114": "Sheffield",
+      "117": "Bristol",
+      "121": "Birmingham",
+      "131": "Edinburgh",
+      "141": "Glasgow",
+      "151": "Liverpool",
+      "161": "Manchester"
+    }
+  },
+  {
+    country: "DK",
+    name: "Denmark",
+    callingCode: "45",
+    lines: [
+      ["mobile", /^(2\d|3[01]|4[0-2]|5[0-3]|6[01]|71|81|9[1-3])\d{6}$/],
+      ["toll-free", /^80\d{6}$/],
+      ["premium-rate", /^90\d{6}$/],
+      ["fixed-line", /^[2-9]\d{7}$/]
+    ]
+  },
+  {
+    country: "SE",
+    name: "Sweden",
+    callingCode: "46",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^7[02369]\d{7}$/],
+      ["toll-free", /^20\d{5,7}$/],
+      ["premium-rate", /^9[0-4]\d{5,7}$/],
+      ["fixed-line", /^[1-68]\d{6,8}$/]
+    ],
+    regions: { "8": "Stockholm", "31": "Gothenburg", "40": "Malmö" }
+  },
+  {
+    country: "NO",
+    name: "Norway",
+    callingCode: "47",
+    lines: [
+      ["mobile", /^[49]\d{7}$/],
+      ["toll-free", /^80\d{6}$/],
+      ["fixed-line", /^[2-7]\d{7}$/]
+    ],
+    regions: { "2": "Oslo", "5": "Western Norway", "7": "Central Norway" }
+  },
+  {
+    country: "PL",
+    name: "Poland",
+    callingCode: "48",
+    lines: [
+      ["mobile", /^(45|5[0137]|6[069]|7[2389]|88)\d{7}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["premium-rate", /^70\d{7}$/],
+      ["fixed-line", /^[1-9]\d{8}$/]
+    ],
+    regions: { "12": "Kraków", "22": "Warsaw", "58": "Gdańsk", "61": "Poznań", "71": "Wrocław" }
+  },
+  {
+    country: "DE",
+    name: "Germany",
+    callingCode: "49",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^1(5\d|6[0-9]|7[0-9])\d{7,8}$/],
+      ["toll-free", /^800\d{7,8}$/],
+      ["premium-rate", /^900\d{7,8}$/],
+      ["fixed-line", /^[2-9]\d{5,10}$/]
+    ],
+    regions: {
+      "30": "Berlin",
+      "40": "Hamburg",
+      "69": "Frankfurt",
+      "89": "Munich",
+      "211": "Düsseldorf",
+      "221": "Cologne",
+      "711": "Stuttgart"
+    }
+  },
+  {
+    country: "PE",
+    name: "Peru",
+    callingCode: "51",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^9\d{8}$/],
+      ["toll-free", /^800\d{5}$/],
+      ["fixed-line", /^[1-8]\d{6,7}$/]
+    ],
+    regions: { "1": "Lima" }
+  },
+  {
+    country: "MX",
+    name: "Mexico",
+    callingCode: "52",
+    lines: [
+      ["toll-free", /^800\d{7}$/],
+      ["premium-rate", /^900\d{7}$/],
+      // Mexico stopped distinguishing mobile numbers in 2019.
+      ["fixed-line-or-mobile", /^[1-9]\d{9}$/]
+    ],
+    regions: { "33": "Guadalajara", "55": "Mexico City", "81": "Monterrey" }
+  },
+  {
+    country: "AR",
+    name: "Argentina",
+    callingCode: "54",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^9[1-9]\d{9}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["fixed-line", /^[1-8]\d{9}$/]
+    ],
+    regions: { "11": "Buenos Aires", "341": "Rosario", "351": "Córdoba" }
+  },
+  {
+    country: "BR",
+    name: "Brazil",
+    callingCode: "55",
+    trunkPrefix: "0",
+    lines: [
+      ["toll-free", /^800\d{6,7}$/],
+      ["mobile", /^[1-9]{2}9\d{8}$/],
+      ["fixed-line", /^[1-9]{2}[2-5]\d{7}$/]
+    ],
+    regions: {
+      "11": "São Paulo",
+      "21": "Rio de Janeiro",
+      "31": "Belo Horizonte",
+      "61": "Brasília"
+    }
+  },
+  {
+    country: "CL",
+    name: "Chile",
+    callingCode: "56",
+    lines: [
+      ["mobile", /^9\d{8}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["fixed-line", /^[2-8]\d{8}$/]
+    ],
+    regions: { "2": "Santiago" }
+  },
+  {
+    country: "CO",
+    name: "Colombia",
+    callingCode: "57",
+    lines: [
+      ["mobile", /^3\d{9}$/],
+      ["toll-free", /^1800\d{6,7}$/],
+      ["fixed-line", /^60[1-8]\d{7}$/]
+    ],
+    regions: { "601": "Bogotá", "602": "Cali", "604": "Medellín" }
+  },
+  {
+    country: "VE",
+    name: "Venezuela",
+    callingCode: "58",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^4(12|14|16|24|26)\d{7}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["fixed-line", /^2\d{9}$/]
+    ],
+    regions: { "212": "Caracas" }
+  },
+  {
+    country: "MY",
+    name: "Malaysia",
+    callingCode: "60",
+    trunkPrefix: "0",
+    lines: [
+      ["toll-free", /^1[38]00\d{6}$/],
+      ["mobile", /^1\d{8,9}$/],
+      ["fixed-line", /^[3-9]\d{7,8}$/]
+    ],
+    regions: { "3": "Kuala Lumpur", "4": "Penang" }
+  },
+  {
+    country: "AU",
+    name: "Australia",
+    callingCode: "61",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^4\d{8}$/],
+      ["toll-free", /^180\d{6,7}$/],
+      ["premium-rate", /^190\d{7}$/],
+      ["fixed-line", /^[2378]\d{8}$/],
+      ["unknown", /^13(00\d{6}|\d{4})$/]
+    ],
+    regions: {
+      "2": "New South Wales and ACT",
+      "3": "Victoria and Tasmania",
+      "7": "Queensland",
+      "8": "South, Western and Northern Australia"
+    }
+  },
+  {
+    country: "ID",
+    name: "Indonesia",
+    callingCode: "62",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^8\d{8,11}$/],
+      ["toll-free", /^(800|177)\d{6,7}$/],
+      ["fixed-line", /^[2-7]\d{6,10}$/]
+    ],
+    regions: { "21": "Jakarta", "22": "Bandung", "31": "Surabaya" }
+  },
+  {
+    country: "PH",
+    name: "Philippines",
+    callingCode: "63",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^9\d{9}$/],
+      ["toll-free", /^1800\d{7}$/],
+      ["fixed-line", /^(2\d{8}|[3-8]\d{7,8})$/]
+    ],
+    regions: { "2": "Metro Manila", "32": "Cebu" }
+  },
+  {
+    country: "NZ",
+    name: "New Zealand",
+    callingCode: "64",
+    trunkPrefix: "0",
+    lines: [
+      ["toll-free", /^(800|508)\d{6}$/],
+      ["premium-rate", /^900\d{5}$/],
+      ["mobile", /^2\d{7,9}$/],
+      ["fixed-line", /^[3-79]\d{7}$/]
+    ],
+    regions: { "3": "South Island", "4": "Wellington", "7": "Waikato", "9": "Auckland" }
+  },
+  {
+    country: "SG",
+    name: "Singapore",
+    callingCode: "65",
+    lines: [
+      ["mobile", /^[89]\d{7}$/],
+      ["toll-free", /^1800\d{7}$/],
+      ["fixed-line", /^6\d{7}$/]
+    ]
+  },
+  {
+    country: "TH",
+    name: "Thailand",
+    callingCode: "66",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[689]\d{8}$/],
+      ["toll-free", /^1800\d{6}$/],
+      ["fixed-line", /^[2-7]\d{7}$/]
+    ],
+    regions: { "2": "Bangkok" }
+  },
+  {
+    country: "JP",
+    name: "Japan",
+    callingCode: "81",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[789]0\d{8}$/],
+      ["toll-free", /^(120\d{6}|800\d{7})$/],
+      ["voip", /^50\d{8}$/],
+      ["fixed-line", /^[1-9]\d{8}$/]
+    ],
+    regions: { "3": "Tokyo", "6": "Osaka", "52": "Nagoya", "75": "Kyoto", "92": "Fukuoka" }
+  },
+  {
+    country: "KR",
+    name: "South Korea",
+    callingCode: "82",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^1[016-9]\d{7,8}$/],
+      ["toll-free", /^80\d{7,8}$/],
+      ["fixed-line", /^[2-6]\d{7,9}$/]
+    ],
+    regions: { "2": "Seoul", "31": "Gyeonggi", "51": "Busan" }
+  },
+  {
+    country: "VN",
+    name: "Vietnam",
+    callingCode: "84",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[35789]\d{8}$/],
+      ["toll-free", /^1800\d{4,6}$/],
+      ["fixed-line", /^2\d{9}$/]
+    ],
+    regions: { "24": "Hanoi", "28": "Ho Chi Minh City" }
+  },
+  {
+    country: "CN",
+    name: "China",
+    callingCode: "86",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^1[3-9]\d{9}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["unknown", /^400\d{7}$/],
+      ["fixed-line", /^[2-9]\d{8,10}$/]
+    ],
+    regions: { "10": "Beijing", "20": "Guangzhou", "21": "Shanghai", "755": "Shenzhen" }
+  },
+  {
+    country: "TR",
+    name: "Turkey",
+    callingCode: "90",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^5\d{9}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["premium-rate", /^900\d{7}$/],
+      ["fixed-line", /^[2-4]\d{9}$/]
+    ],
+    regions: { "212": "Istanbul", "216": "Istanbul", "312": "Ankara", "232": "İzmir" }
+  },
+  {
+    country: "IN",
+    name: "India",
+    callingCode: "91",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[6-9]\d{9}$/],
+      ["toll-free", /^1800\d{6,7}$/],
+      ["fixed-line", /^[1-5]\d{9}$/]
+    ],
+    regions: { "11": "Delhi", "22": "Mumbai", "33": "Kolkata", "40": "Hyderabad", "44": "Chennai" }
+  },
+  {
+    country: "PK",
+    name: "Pakistan",
+    callingCode: "92",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^3\d{9}$/],
+      ["toll-free", /^800\d{5}$/],
+      ["fixed-line", /^[2-9]\d{8,9}$/]
+    ],
+    regions: { "21": "Karachi", "42": "Lahore", "51": "Islamabad" }
+  },
+  {
+    country: "MA",
+    name: "Morocco",
+    callingCode: "212",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[67]\d{8}$/],
+      ["toll-free", /^80\d{7}$/],
+      ["fixed-line", /^5\d{8}$/]
+    ],
+    regions: { "522": "Casablanca", "537": "Rabat" }
+  },
+  {
+    country: "NG",
+    name: "Nigeria",
+    callingCode: "234",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[789][01]\d{8}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["fixed-line", /^[1-6]\d{6,7}$/]
+    ],
+    regions: { "1": "Lagos", "9": "Abuja" }
+  },
+  {
+    country: "KE",
+    name: "Kenya",
+    callingCode: "254",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^[17]\d{8}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["fixed-line", /^[2-6]\d{6,8}$/]
+    ],
+    regions: { "20": "Nairobi", "41": "Mombasa" }
+  },
+  {
+    country: "PT",
+    name: "Portugal",
+    callingCode: "351",
+    lines: [
+      ["mobile", /^9[1236]\d{7}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["fixed-line", /^2\d{8}$/]
+    ],
+    regions: { "21": "Lisbon", "22": "Porto" }
+  },
+  {
+    country: "IE",
+    name: "Ireland",
+    callingCode: "353",
+    trunkPrefix: "0",
+    lines: [
+      ["toll-free", /^1800\d{6}$/],
+      ["mobile", /^8[35-9]\d{7}$/],
+      ["fixed-line", /^[1-9]\d{6,8}$/]
+    ],
+    regions: { "1": "Dublin", "21": "Cork", "91": "Galway" }
+  },
+  {
+    country: "FI",
+    name: "Finland",
+    callingCode: "358",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^(4\d|50)\d{4,8}$/],
+      ["toll-free", /^800\d{4,6}$/],
+      ["fixed-line", /^[1-35689]\d{4,8}$/]
+    ],
+    regions: { "9": "Helsinki" }
+  },
+  {
+    country: "UA",
+    name: "Ukraine",
+    callingCode: "380",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^(39|50|6[3678]|73|9[1-9])\d{7}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["fixed-line", /^[3-6]\d{8}$/]
+    ],
+    regions: { "44": "Kyiv", "48": "Odesa", "57": "Kharkiv" }
+  },
+  {
+    country: "CZ",
+    name: "Czechia",
+    callingCode: "420",
+    lines: [
+      ["mobile", /^[67]\d{8}$/],
+      ["toll-free", /^800\d{6}$/],
+      ["premium-rate", /^90\d{7}$/],
+      ["fixed-line", /^[2-5]\d{8}$/]
+    ],
+    regions: { "2": "Prague", "5": "Moravia" }
+  },
+  {
+    country: "HK",
+    name: "Hong Kong",
+    callingCode: "852",
+    lines: [
+      ["toll-free", /^800\d{6}$/],
+      ["fixed-line", /^[23]\d{7}$/],
+      ["mobile", /^[4-9]\d{7}$/]
+    ]
+  },
+  {
+    country: "BD",
+    name: "Bangladesh",
+    callingCode: "880",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^1[3-9]\d{8}$/],
+      ["fixed-line", /^[2-9]\d{5,9}$/]
+    ],
+    regions: { "2": "Dhaka", "31": "Chittagong" }
+  },
+  {
+    country: "TW",
+    name: "Taiwan",
+    callingCode: "886",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^9\d{8}$/],
+      ["toll-free", /^80\d{7}$/],
+      ["fixed-line", /^[2-8]\d{7,8}$/]
+    ],
+    regions: { "2": "Taipei", "4": "Taichung", "7": "Kaohsiung" }
+  },
+  {
+    country: "SA",
+    name: "Saudi Arabia",
+    callingCode: "966",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^5\d{8}$/],
+      ["toll-free", /^800\d{7}$/],
+      ["fixed-line", /^1\d{7}$/]
+    ],
+    regions: { "11": "Riyadh", "12": "Jeddah", "13": "Dammam" }
+  },
+  {
+    country: "AE",
+    name: "United Arab Emirates",
+    callingCode: "971",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^5[024568]\d{7}$/],
+      ["toll-free", /^800\d{2,9}$/],
+      ["fixed-line", /^[2-479]\d{7}$/]
+    ],
+    regions: { "2": "Abu Dhabi", "4": "Dubai", "6": "Sharjah" }
+  },
+  {
+    country: "IL",
+    name: "Israel",
+    callingCode: "972",
+    trunkPrefix: "0",
+    lines: [
+      ["mobile", /^5\d{8}$/],
+      ["toll-free", /^1800\d{6}$/],
+      ["voip", /^7\d{8}$/],
+      ["fixed-line", /^[2-489]\d{7}$/]
+    ],
+    regions: { "2": "Jerusalem", "3": "Tel Aviv", "4": "Haifa" }
+  }
+];
+
+/** Countries the tables know, for the default-country setting. */
+export const phoneCountries = plans
+  .map(plan => ({ code: plan.country, name: plan.name, callingCode: plan.callingCode }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export const defaultPhoneCountry = "US";
+
+/** Country of numbers whose calling code the tables do not cover. */
+export const unknownCountry = "ZZ";
+
+export function isPhoneCountry(code: string) {
+  return plans.some(plan => plan.country === code);
+}
+
+// NANP area codes by country and state or province. Codes not listed are
+// still dialable and count as US numbers without a region.
+const nanpAreas: Record<string, { country: string; region?: string }> = {};
+
+function area(country: string, region: string | undefined, codes: string) {
+  for (const code of codes.split(/\s+/).filter(Boolean)) nanpAreas[code] = { country, region };
+}
+
+area("US", "Alabama", "205 251 256 334 659 938");
+area("US", "Alaska", "907");
+area("US", "Arizona", "480 520 602 623 928");
+area("US", "Arkansas", "327 479 501 870");
+area(
+  "US",
+  "California",
+  `209 213 279 310 323 341 350 369 408 415 424 442 510 530 559 562 619 626 628 650 657 661
+   669 707 714 747 760 805 818 820 831 837 840 858 909 916 925 949 951`
+);
+area("US", "Colorado", "303 719 720 970 983");
+area("US", "Connecticut", "203 475 860 959");
+area("US", "Delaware", "302");
+area("US", "District of Columbia", "202 771");
+area(
+  "US",
+  "Florida",
+  "239 305 321 324 352 386 407 448 561 645 656 689 727 728 754 772 786 813 850 863 904 941 954"
+);
+area("US", "Georgia", "229 404 470 478 678 706 762 770 912 943");
+area("US", "Hawaii", "808");
+area("US", "Idaho", "208 986");
+area("US", "Illinois", "217 224 309 312 331 447 464 618 630 708 730 773 779 815 847 861 872");
+area("US", "Indiana", "219 260 317 463 574 765 812 930");
+area("US", "Iowa", "319 515 563 641 712");
+area("US", "Kansas", "316 620 785 913");
+area("US", "Kentucky", "270 364 502 606 859");
+area("US", "Louisiana", "225 318 337 504 985");
+area("US", "Maine", "207");
+area("US", "Maryland", "227 240 301 410 443 667");
+area("US", "Massachusetts", "339 351 413 508 617 774 781 857 978");
+area("US", "Michigan", "231 248 269 313 517 586 616 679 734 810 906 947 989");
+area("US", "Minnesota", "218 320 507 612 651 763 952");
+area("US", "Mississippi", "228 601 662 769");
+area("US", "Missouri", "314 417 557 573 636 660 816 975");
+area("US", "Montana", "406");
+area("US", "Nebraska", "308 402 531");
+area("US", "Nevada", "702 725 775");
+area("US", "New Hampshire", "603");
+area("US", "New Jersey", "201 551 609 640 732 848 856 862 908 973");
+area("US", "New Mexico", "505 575");
+area(
+  "US",
+  "New York",
+  "212 315 329 332 347 363 516 518 585 607 624 631 646 680 716 718 838 845 914 917 929 934"
+);
+area("US", "North Carolina", "252 336 472 704 743 828 910 919 980 984");
+area("US", "North Dakota", "701");
+area("US", "Ohio", "216 220 234 283 326 330 380 419 436 440 513 567 614 740 937");
+area("US", "Oklahoma", "405 539 572 580 918");
+area("US", "Oregon", "458 503 541 971");
+area("US", "Pennsylvania", "215 223 267 272 412 445 484 570 582 610 717 724 814 835 878");
+area("US", "Rhode Island", "401");
+area("US", "South Carolina", "803 821 839 843 854 864");
+area("US", "South Dakota", "605");
+area("US", "Tennessee", "423 615 629 731 865 901 931");
+area(
+  "US",
+  "Texas",
+  `210 214 254 281 325 346 361 409 430 432 469 512 682 713 726 737 806 817 830 832 903 915
+   936 940 945 956 972 979`
+);
+area("US", "Utah", "385 435 801");
+area("US", "Vermont", "802");
+area("US", "Virginia", "276 434 540 571 686 703 757 804 826 948");
+area("US", "Washington", "206 253 360 425 509 564");
+area("US", "West Virginia", "304 681");
+area("US", "Wisconsin", "262 274 353 414 534 608 715 920");
+area("US", "Wyoming", "307");
+area("CA", "Alberta", "368 403 587 780 825");
+area("CA", "British Columbia", "236 250 257 604 672 778");
+area("CA", "Manitoba", "204 431 584");
+area("CA", "New Brunswick", "428 506");
+area("CA", "Newfoundland and Labrador", "709 879");
+area("CA", "Nova Scotia and PEI", "782 902");
+area(
+  "CA",
+  "Ontario",
+  "226 249 289 343 365 382 416 437 519 548 613 647 683 705 742 753 807 905 942"
+);
+area("CA", "Quebec", "263 354 367 418 438 450 468 514 579 581 819 873");
+area("CA", "Saskatchewan", "306 474 639");
+area("CA", "Northern Canada", "867");
+area("PR", undefined, "787 939");
+area("DO", undefined, "809 829 849");
+area("JM", undefined, "658 876");
+area("BS", undefined, "242");
+area("BB", undefined, "246");
+area("TT", undefined, "868");
+area("BM", undefined, "441");
+
+/**
+ * Reads a number typed in any common format. National numbers are taken to
+ * be in `defaultCountry`; without one, only international input is accepted.
+ * Returns undefined when the number does not fit the numbering plan.
+ */
+export function parsePhoneNumber(
+  input: string,
+  defaultCountry?: string
+): PhoneDetails | undefined {
+  const value = input.trim();
+  if (!/^\+?[\d\s().\-/]+$/.test(value)) return undefined;
+  const digits = value.replace(/\D/g, "");
+  const home = plans.find(plan => plan.country === defaultCountry);
+
+  if (value.startsWith("+")) return parseInternational(digits);
+  // Dialed with an international access code.
+  if (digits.startsWith("00")) return parseInternational(digits.slice(2));
+  if (home?.callingCode === "1" && digits.startsWith("011")) {
+    return parseInternational(digits.slice(3));
+  }
+  if (!home) return undefined;
+
+  const national =
+    home.trunkPrefix && digits.startsWith(home.trunkPrefix)
+      ? digits.slice(home.trunkPrefix.length)
+      : digits;
+  // Also accept the country code typed without a plus, e.g. 14155550123.
+  const withCode = digits.startsWith(home.callingCode) ? parseInternational(digits) : undefined;
+  return describe(home, national) ?? withCode;
+}
+
+/** Why `input` is not a usable number, for form and API messages. */
+export function phoneIssue(input: string, defaultCountry?: string) {
+  const value = input.trim();
+  const home = plans.find(plan => plan.country === defaultCountry);
+  if (!value) return "Enter a phone number";
+  if (parsePhoneNumber(value, defaultCountry)) return undefined;
+  if (!/^\+?[\d\s().\-/]+$/.test(value)) return "Use digits, spaces, dashes or brackets only";
+  if (value.startsWith("+") || value.startsWith("00")) {
+    return "That is not a valid number for its country code";
+  }
+  return home
+    ? `That is not a valid ${home.name} number; start with + and the country code for others`
+    : "Include the country code, e.g. +14155550123";
+}
+
+/**
+ * A phone number field that accepts any format `parsePhoneNumber` reads and
+ * outputs E.164.
+ */
+export function phoneNumberSchema(defaultCountry?: string) {
+  return z.string().transform((value, context) => toE164(value, defaultCountry, context));
+}
+
+/** Like `phoneNumberSchema`, but a missing or blank value is left out. */
+export function optionalPhoneNumberSchema(defaultCountry?: string) {
+  return z
+    .string()
+    .optional()
+    .transform((value, context) =>
+      value?.trim() ? toE164(value, defaultCountry, context) : undefined
+    );
+}
+
+/** E.g. "United States · California · Landline or mobile". */
+export function describePhone(details: PhoneDetails) {
+  return [details.countryName, details.region, lineTypeLabels[details.lineType]]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function toE164(value: string, defaultCountry: string | undefined, context: z.RefinementCtx) {
+  const parsed = parsePhoneNumber(value, defaultCountry);
+  if (parsed) return parsed.e164;
+  context.addIssue({
+    code: "custom",
+    message: phoneIssue(value, defaultCountry) ?? "Invalid phone number"
+  });
+  return z.NEVER;
+}
+
+function parseInternational(digits: string): PhoneDetails | undefined {
+  for (const length of [1, 2, 3]) {
+    const code = digits.slice(0, length);
+    const national = digits.slice(length);
+    // Calling codes never prefix one another, so the first plan found is the only one.
+    // NANP countries share a code; `describe` tells them apart by area code.
+    const plan = plans.find(entry => entry.callingCode === code);
+    if (plan) return describe(plan, national);
+  }
+  // Countries missing from the tables stay dialable; only the E.164 length is checked.
+  if (!/^[1-9]\d{7,14}$/.test(digits)) return undefined;
+  const e164 = `+${digits}`;
+  return {
+    e164,
+    country: unknownCountry,
+    countryName: "Other country",
+    lineType: "unknown",
+    timezone: inferTimezone(e164)
+  };
+}
+
+function describe(plan: NumberingPlan, national: string): PhoneDetails | undefined {
+  const line = plan.lines.find(([, pattern]) => pattern.test(national));
+  if (!line) return undefined;
+  const [lineType] = line;
+
+  let country = plan;
+  let region: string | undefined;
+  if (plan.callingCode === "1") {
+    const known = nanpAreas[national.slice(0, 3)];
+    country = plans.find(entry => entry.country === (known?.country ?? "US")) ?? plan;
+    region = known?.region;
+  } else if (lineType === "fixed-line" || lineType === "fixed-line-or-mobile") {
+    region = longestPrefix(plan.regions, national);
+  }
+
+  const e164 = `+${plan.callingCode}${national}`;
+  return {
+    e164,
+    country: country.country,
+    countryName: country.name,
+    region,
+    lineType,
+    timezone: inferTimezone(e164)
+  };
+}
+
+function longestPrefix(regions: Record<string, string> | undefined, national: string) {
+  if (!regions) return undefined;
+  for (let length = Math.min(4, national.length); length > 0; length -= 1) {
+    const region = regions[national.slice(0, length)];
+    if (region) return region;
+  }
+  return undefined;
+}
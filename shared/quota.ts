@@ -0,0 +1,47 @@
+export const budgetPeriods = ["day", "month"] as const;
+export const budgetMetrics = ["calls", "minutes"] as const;
+export const rateLimitScopes = ["user", "destination", "global"] as const;
+
+export type BudgetPeriod = (typeof budgetPeriods)[number];
+export type BudgetMetric = (typeof budgetMetrics)[number];
+export type RateLimitScope = (typeof rateLimitScopes)[number];
+
+export type BudgetUsage = {
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+};
+
+export type RateLimitUsage = {
+  scope: RateLimitScope;
+  limit: number;
+  windowSeconds: number;
+  remaining: number;
+};
+
+export type QuotaSnapshot = {
+  success: true;
+  budgets: BudgetUsage[];
+  rateLimits: RateLimitUsage[];
+};
+
+const periodLabels: Record<BudgetPeriod, string> = { day: "Daily", month: "Monthly" };
+
+export function describeBudget(budget: Pick<BudgetUsage, "period" | "metric">) {
+  return `${periodLabels[budget.period]} ${budget.metric === "calls" ? "call" : "minute"} budget`;
+}
+
+export function describeWindow(seconds: number) {
+  const units = [
+    ["day", 86_400],
+    ["hour", 3600],
+    ["minute", 60]
+  ] as const;
+  for (const [label, size] of units) {
+    if (seconds % size === 0) return seconds === size ? label : `${seconds / size} ${label}s`;
+  }
+  return `${seconds} seconds`;
+}
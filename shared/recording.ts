@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { defaultPhoneCountry, isPhoneCountry } from "./phone";
+import type { RenderedScript } from "./script-template";
+
+export const recordingStatuses = ["in-progress", "completed", "absent", "failed"] as const;
+
+export type RecordingStatus = (typeof recordingStatuses)[number];
+
+export type Transcription = {
+  status: "pending" | "completed" | "failed";
+  transcriber: string;
+  text?: string;
+  error?: string;
+  completedAt?: string;
+};
+
+export type CallRecording = {
+  recordingSid: string;
+  status: RecordingStatus;
+  /** Provider media URL; playback goes through `/api/calls/:id/recording`. */
+  mediaUrl?: string;
+  duration?: number;
+  updatedAt: string;
+  transcription?: Transcription;
+};
+
+export type TeamSettings = {
+  recordCallsByDefault: boolean;
+  recordingDisclosure: string;
+  /** Country that numbers entered without a country code are read in. */
+  defaultCountry: string;
+};
+
+export const defaultTeamSettings: TeamSettings = {
+  recordCallsByDefault: false,
+  recordingDisclosure: "Just so you know, this call is being recorded for quality and training.",
+  defaultCountry: defaultPhoneCountry
+};
+
+export const teamSettingsSchema = z.object({
+  recordCallsByDefault: z.boolean(),
+  recordingDisclosure: z
+    .string()
+    .trim()
+    .min(10, "The recording disclosure must be at least 10 characters")
+    .max(300, "Keep the recording disclosure under 300 characters"),
+  defaultCountry: z.string().refine(isPhoneCountry, "Pick a supported country")
+});
+
+/** Adds the disclosure right after the greeting, before anything else is said. */
+export function withRecordingDisclosure(script: RenderedScript, disclosure: string): RenderedScript {
+  const [greeting, ...rest] = script.opening;
+  return {
+    ...script,
+    opening: greeting === undefined ? [disclosure] : [greeting, disclosure, ...rest]
+  };
+}
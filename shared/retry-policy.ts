@@ -0,0 +1,68 @@
+import { z } from "zod";
+import type { CallRecord } from "./calls";
+import { phoneNumberSchema } from "./phone";
+
+export const retryOutcomes = ["busy", "no-answer", "voicemail", "failed"] as const;
+
+export type RetryOutcome = (typeof retryOutcomes)[number];
+
+/**
+ * When and how to try a call again. `maxAttempts` counts the original call.
+ * Each wait is `backoffMinutes` times `backoffMultiplier` to the power of the
+ * retries so far. With an `alternateNumber`, attempts after the first
+ * `switchAfterAttempts` dial it instead of the original number.
+ */
+export const retryPolicySchema = z.object({
+  maxAttempts: z
+    .number()
+    .int()
+    .min(2, "Allow at least two attempts")
+    .max(10, "Allow at most ten attempts"),
+  backoffMinutes: z
+    .number()
+    .min(1, "Wait at least a minute between attempts")
+    .max(7 * 24 * 60, "Wait at most a week between attempts"),
+  backoffMultiplier: z.number().min(1).max(10).optional(),
+  retryOn: z.array(z.enum(retryOutcomes)).min(1, "Pick at least one outcome to retry"),
+  // Policies are saved on templates used across countries, so the country code is required.
+  alternateNumber: phoneNumberSchema().optional(),
+  switchAfterAttempts: z.number().int().min(1).optional()
+});
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMinutes: 30,
+  retryOn: ["busy", "no-answer"]
+};
+
+/** The retryable outcome of a finished call, if it ended in one. */
+export function retryOutcome(call: Pick<CallRecord, "status" | "reached">): RetryOutcome | undefined {
+  if (call.status === "busy" || call.status === "no-answer" || call.status === "failed") {
+    return call.status;
+  }
+  if (call.status === "completed" && call.reached === "machine") return "voicemail";
+  return undefined;
+}
+
+/** Minutes to wait after attempt `attempt` (1-based) before the next one. */
+export function retryDelayMinutes(policy: RetryPolicy, attempt: number) {
+  return policy.backoffMinutes * (policy.backoffMultiplier ?? 1) ** (attempt - 1);
+}
+
+/** The number attempt `attempt` (1-based) should dial. */
+export function attemptPhoneNumber(policy: RetryPolicy, attempt: number, primary: string) {
+  if (!policy.alternateNumber) return primary;
+  return attempt > (policy.switchAfterAttempts ?? 1) ? policy.alternateNumber : primary;
+}
+
+export function describeRetryPolicy(policy: RetryPolicy) {
+  const outcomes = policy.retryOn.map(outcome => outcome.replace("-", " ")).join(", ");
+  const growth =
+    policy.backoffMultiplier && policy.backoffMultiplier > 1
+      ? `, ×${policy.backoffMultiplier} each time`
+      : "";
+  const alternate = policy.alternateNumber ? `, then ${policy.alternateNumber}` : "";
+  return `Up to ${policy.maxAttempts} attempts on ${outcomes}, ${policy.backoffMinutes} min apart${growth}${alternate}`;
+}
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import type { ScriptStyle } from "./calls";
+import type { RetryPolicy } from "./retry-policy";
+import { speechIssue, type VoiceSettings } from "./speech";
+
+/**
+ * The three parts of a spoken script. `opening` is split into one utterance
+ * per line; `question` is asked while listening for a reply; `closing` ends
+ * the call.
+ */
+export type ScriptTemplateBody = {
+  opening: string;
+  question: string;
+  closing: string;
+};
+
+export type RenderedScript = {
+  opening: string[];
+  question: string;
+  closing: string;
+};
+
+export type ScriptVariables = {
+  contactName: string;
+  objective: string;
+  notes?: string;
+  customFields?: Record<string, string>;
+};
+
+export type TemplateVersion = {
+  version: number;
+  body: ScriptTemplateBody;
+  createdAt: string;
+};
+
+export type ScriptTemplate = {
+  id: string;
+  name: string;
+  versions: TemplateVersion[];
+  teamId?: string;
+  /** Default retry policy for calls launched from this template. */
+  retryPolicy?: RetryPolicy;
+  /** Default voice for calls launched from this template. */
+  voice?: VoiceSettings;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const builtInVariables = ["contactName", "objective", "notes"] as const;
+
+export const defaultTemplates: Record<ScriptStyle, ScriptTemplateBody> = {
+  friendly: {
+    opening: [
+      "Hi {{contactName}}, this is your automated outreach agent calling from our team.",
+      "Objective for today: {{objective}}.",
+      "{{#if notes}}Notes from the team: {{notes}}.{{/if}}"
+    ].join("\n"),
+    question: "Would you be open to a quick chat about it? You can say yes or no, or press 1 or 2.",
+    closing: "Thanks again for taking the time today. Looking forward to connecting soon!"
+  },
+  direct: {
+    opening: [
+      "Hi {{contactName}}, this is your automated outreach agent calling from our team.",
+      "Objective for today: {{objective}}.",
+      "{{#if notes}}Notes from the team: {{notes}}.{{/if}}"
+    ].join("\n"),
+    question: "Can we move forward with this? Say yes or no, or press 1 or 2.",
+    closing:
+      "Please confirm if we can proceed, or let me know the best decision maker to engage."
+  },
+  consultative: {
+    opening: [
+      "Hi {{contactName}}, this is your automated outreach agent calling from our team.",
+      "Objective for today: {{objective}}.",
+      "{{#if notes}}Notes from the team: {{notes}}.{{/if}}"
+    ].join("\n"),
+    question:
+      "How does that fit with what you're working on right now? Feel free to answer in your own words.",
+    closing: "I appreciate your insights. Let's align on the best path forward together."
+  }
+};
+
+// Innermost sections first: the body may not open another section.
+const blockPattern = /\{\{#(if|unless) ([\w.]+)\}\}((?:(?!\{\{#)[\s\S])*?)\{\{\/\1\}\}/g;
+const variablePattern = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function renderTemplateText(text: string, variables: ScriptVariables) {
+  const lookup = (name: string) => {
+    const key = name.startsWith("custom.") ? name.slice("custom.".length) : name;
+    if (key === "contactName" || key === "objective" || key === "notes") {
+      return variables[key]?.trim() ?? "";
+    }
+    return variables.customFields?.[key]?.trim() ?? "";
+  };
+
+  let rendered = text;
+  let previous: string | undefined;
+  // Repeat so sections nested inside other sections are resolved too.
+  while (rendered !== previous) {
+    previous = rendered;
+    rendered = rendered.replace(blockPattern, (_match, kind: string, name: string, inner: string) =>
+      Boolean(lookup(name)) === (kind === "if") ? inner : ""
+    );
+  }
+
+  return rendered.replace(variablePattern, (_match, name: string) => lookup(name));
+}
+
+export function renderScript(body: ScriptTemplateBody, variables: ScriptVariables): RenderedScript {
+  return {
+    opening: renderTemplateText(body.opening, variables)
+      .split("\n")
+      .map(line => line.trim())
+      .filter(Boolean),
+    question: renderTemplateText(body.question, variables).trim(),
+    closing: renderTemplateText(body.closing, variables).trim()
+  };
+}
+
+/** Placeholders a template uses beyond the built-in call fields. */
+export function customFieldNames(body: ScriptTemplateBody) {
+  const text = [body.opening, body.question, body.closing].join("\n");
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\{\{(?:#(?:if|unless) )?\s*([\w.]+)\s*\}\}/g)) {
+    const name = match[1].replace(/^custom\./, "");
+    if (!(builtInVariables as readonly string[]).includes(name)) names.add(name);
+  }
+  return Array.from(names);
+}
+
+/** Whether every `{{#if}}` and `{{#unless}}` section is closed. */
+export function sectionsBalanced(text: string) {
+  const opens = text.match(/\{\{#(if|unless) [\w.]+\}\}/g)?.length ?? 0;
+  const closes = text.match(/\{\{\/(if|unless)\}\}/g)?.length ?? 0;
+  return opens === closes;
+}
+
+const templateText = (label: string) =>
+  z
+    .string()
+    .max(2000)
+    .refine(sectionsBalanced, `${label} has an unclosed {{#if}} or {{#unless}} section`)
+    .superRefine((value, context) => {
+      const issue = speechIssue(value);
+      if (issue) context.addIssue({ code: "custom", message: `${label}: ${issue}` });
+    });
+
+export const templateBodySchema = z.object({
+  opening: templateText("Opening").refine(value => value.trim().length > 0, "Opening is required"),
+  question: templateText("Question"),
+  closing: templateText("Closing").refine(value => value.trim().length > 0, "Closing is required")
+});
+
+export function latestVersion(template: ScriptTemplate) {
+  return template.versions[template.versions.length - 1];
+}
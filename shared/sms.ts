@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { CallRecord } from "./calls";
+import { sectionsBalanced } from "./script-template";
+
+export const followUpOutcomes = ["answered", "voicemail", "no-answer"] as const;
+
+export type FollowUpOutcome = (typeof followUpOutcomes)[number];
+
+export const followUpOutcomeLabels: Record<FollowUpOutcome, string> = {
+  answered: "Answered",
+  voicemail: "Voicemail",
+  "no-answer": "No answer"
+};
+
+export const smsStatuses = [
+  "scheduled",
+  "sent",
+  "delivered",
+  "failed",
+  "canceled",
+  "received"
+] as const;
+
+export type SmsStatus = (typeof smsStatuses)[number];
+
+/**
+ * A follow-up text. The body uses the same placeholders as script templates
+ * and is rendered with the variables of the call it follows. With a
+ * `trigger`, it is sent automatically after calls that end that way.
+ */
+export type SmsTemplate = {
+  id: string;
+  name: string;
+  body: string;
+  trigger?: FollowUpOutcome;
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SmsMessage = {
+  id: string;
+  direction: "outbound" | "inbound";
+  phoneNumber: string;
+  body: string;
+  status: SmsStatus;
+  /** Provider message id once handed to the carrier. */
+  sid?: string;
+  /** For scheduled messages, when they go out. */
+  sendAt?: string;
+  error?: string;
+  teamId?: string;
+  contactId?: string;
+  /** The call a follow-up was sent after. */
+  callId?: string;
+  templateId?: string;
+  sequenceRunId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * One step after the call that starts a sequence. `delayMinutes` counts from
+ * the step before; a step with `onlyAfter` is skipped unless the latest call
+ * ended in one of those outcomes.
+ */
+export type SequenceStep =
+  | { type: "sms"; templateId: string; delayMinutes: number; onlyAfter?: FollowUpOutcome[] }
+  | { type: "call"; delayMinutes: number; onlyAfter?: FollowUpOutcome[] };
+
+export type Sequence = {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const sequenceRunStatuses = ["active", "waiting", "completed", "stopped"] as const;
+
+export type SequenceRunStatus = (typeof sequenceRunStatuses)[number];
+
+/**
+ * A sequence in progress for one callee. `waiting` runs are on a call step
+ * and resume when that call ends.
+ */
+export type SequenceRun = {
+  id: string;
+  sequenceId: string;
+  /** The call that started the run; follow-ups render with its variables. */
+  callId: string;
+  phoneNumber: string;
+  status: SequenceRunStatus;
+  /** Index of the next step to run. */
+  step: number;
+  nextRunAt?: string;
+  lastOutcome?: FollowUpOutcome;
+  pendingCallId?: string;
+  stopReason?: string;
+  teamId?: string;
+  contactId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Replies carriers treat as opt-outs.
+const stopKeywords = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"];
+
+export function isStopKeyword(body: string) {
+  return stopKeywords.includes(body.trim().replace(/[.!]+$/, "").toUpperCase());
+}
+
+/** How a finished outbound call ended, for picking its follow-up. */
+export function followUpOutcome(
+  call: Pick<CallRecord, "status" | "reached" | "voicemailLeft">
+): FollowUpOutcome | undefined {
+  if (call.status === "busy" || call.status === "no-answer") return "no-answer";
+  if (call.status !== "completed") return undefined;
+  return call.reached === "machine" || call.voicemailLeft ? "voicemail" : "answered";
+}
+
+const smsBody = z
+  .string()
+  .trim()
+  .min(1, "Write the message")
+  .max(640, "Keep messages under 640 characters (four SMS segments)")
+  .refine(sectionsBalanced, "The message has an unclosed {{#if}} or {{#unless}} section");
+
+export const smsTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name the template"),
+  body: smsBody,
+  trigger: z.enum(followUpOutcomes).optional()
+});
+
+export type SmsTemplateInput = z.infer<typeof smsTemplateSchema>;
+
+const delayMinutes = z
+  .number()
+  .int()
+  .min(0)
+  .max(30 * 24 * 60, "Wait at most 30 days between steps");
+const onlyAfter = z.array(z.enum(followUpOutcomes)).min(1).optional();
+
+export const sequenceStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("sms"),
+    templateId: z.string().min(1, "Pick a message for each SMS step"),
+    delayMinutes,
+    onlyAfter
+  }),
+  z.object({ type: z.literal("call"), delayMinutes, onlyAfter })
+]);
+
+export const sequenceSchema = z.object({
+  name: z.string().trim().min(1, "Name the sequence"),
+  steps: z.array(sequenceStepSchema).min(1, "Add at least one step").max(10)
+});
+
+export type SequenceInput = z.infer<typeof sequenceSchema>;
+
+/** E.g. "SMS after 1h (no answer only)". */
+export function describeStep(step: SequenceStep, templates: Pick<SmsTemplate, "id" | "name">[]) {
+  const name =
+    step.type === "sms"
+      ? templates.find(template => template.id === step.templateId)?.name ?? "deleted message"
+      : undefined;
+  const action = name ? `SMS “${name}”` : "Call";
+  const when = step.delayMinutes ? `after ${formatDelay(step.delayMinutes)}` : "right away";
+  const outcomes = step.onlyAfter?.map(outcome => followUpOutcomeLabels[outcome].toLowerCase());
+  return `${action} ${when}${outcomes?.length ? ` (${outcomes.join(" or ")} only)` : ""}`;
+}
+
+export function formatDelay(minutes: number) {
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
@@ -0,0 +1,295 @@
+import { z } from "zod";
+
+/**
+ * Markup that script text may use, rendered as SSML by providers that
+ * support it. Anything else in angle brackets is rejected on save and
+ * dropped when speaking.
+ */
+export const speechFeatures = ["break", "emphasis", "say-as", "rate"] as const;
+
+export type SpeechFeature = (typeof speechFeatures)[number];
+
+export const speechFeatureLabels: Record<SpeechFeature, string> = {
+  break: "Pauses",
+  emphasis: "Emphasis",
+  "say-as": "Say-as",
+  rate: "Speaking rate"
+};
+
+export const speechLanguages = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "es-US", label: "Spanish (US)" },
+  { code: "es-MX", label: "Spanish (Mexico)" },
+  { code: "es-ES", label: "Spanish (Spain)" },
+  { code: "fr-FR", label: "French" },
+  { code: "de-DE", label: "German" }
+] as const;
+
+export type VoiceOption = {
+  id: string;
+  label: string;
+  languages: string[];
+  features: SpeechFeature[];
+};
+
+const allFeatures: SpeechFeature[] = ["break", "emphasis", "say-as", "rate"];
+// Neural voices ignore <emphasis>.
+const neuralFeatures: SpeechFeature[] = ["break", "say-as", "rate"];
+
+export const voiceOptions: VoiceOption[] = [
+  { id: "Polly.Joanna", label: "Joanna", languages: ["en-US"], features: allFeatures },
+  { id: "Polly.Joanna-Neural", label: "Joanna (neural)", languages: ["en-US"], features: neuralFeatures },
+  { id: "Polly.Matthew", label: "Matthew", languages: ["en-US"], features: allFeatures },
+  { id: "Polly.Amy", label: "Amy", languages: ["en-GB"], features: allFeatures },
+  { id: "Polly.Lupe", label: "Lupe", languages: ["es-US"], features: allFeatures },
+  { id: "Polly.Lupe-Neural", label: "Lupe (neural)", languages: ["es-US"], features: neuralFeatures },
+  { id: "Polly.Mia", label: "Mia", languages: ["es-MX"], features: allFeatures },
+  { id: "Polly.Conchita", label: "Conchita", languages: ["es-ES"], features: allFeatures },
+  { id: "Polly.Celine", label: "Céline", languages: ["fr-FR"], features: allFeatures },
+  { id: "Polly.Vicki", label: "Vicki", languages: ["de-DE"], features: allFeatures },
+  {
+    id: "alice",
+    label: "Alice (basic, no SSML)",
+    languages: ["en-US", "en-GB", "es-US", "es-MX", "es-ES", "fr-FR", "de-DE"],
+    features: []
+  }
+];
+
+export const speechRates = ["x-slow", "slow", "medium", "fast", "x-fast"] as const;
+
+export type SpeechRate = (typeof speechRates)[number];
+
+export const voiceSettingsSchema = z
+  .object({
+    voice: z.string(),
+    language: z.string(),
+    rate: z.enum(speechRates).default("medium")
+  })
+  .superRefine((value, context) => {
+    const voice = findVoice(value.voice);
+    if (!voice) {
+      context.addIssue({ code: "custom", message: `Unknown voice "${value.voice}"` });
+    } else if (!voice.languages.includes(value.language)) {
+      context.addIssue({
+        code: "custom",
+        message: `${voice.label} does not speak ${value.language}`
+      });
+    }
+  });
+
+export type VoiceSettings = z.infer<typeof voiceSettingsSchema>;
+
+export const defaultVoiceSettings: VoiceSettings = {
+  voice: "Polly.Joanna",
+  language: "en-US",
+  rate: "medium"
+};
+
+export function findVoice(id: string) {
+  return voiceOptions.find(voice => voice.id === id);
+}
+
+export function voicesFor(language: string) {
+  return voiceOptions.filter(voice => voice.languages.includes(language));
+}
+
+const emphasisLevels = ["strong", "moderate", "reduced"] as const;
+const breakStrengths = ["none", "x-weak", "weak", "medium", "strong", "x-strong"] as const;
+const sayAsKinds = ["telephone", "date", "time", "digits", "characters", "cardinal", "ordinal"] as const;
+const dateFormats = ["mdy", "dmy", "ymd", "md", "dm", "ym", "my", "d", "m", "y"] as const;
+
+export type SpeechNode =
+  | { type: "text"; text: string }
+  | { type: "break"; time?: string; strength?: (typeof breakStrengths)[number] }
+  | { type: "emphasis"; level: (typeof emphasisLevels)[number]; text: string }
+  | { type: "say-as"; interpretAs: (typeof sayAsKinds)[number]; format?: string; text: string };
+
+const tagPattern = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[\w-]+\s*=\s*"[^"<>]*")*)\s*(\/?)>/g;
+
+/**
+ * Splits script text into plain text and the supported SSML tags, checking
+ * every tag and attribute. Invalid markup is reported in `errors` and left
+ * out of `nodes`, so rendering the nodes is always safe.
+ */
+export function parseSpeech(text: string) {
+  const nodes: SpeechNode[] = [];
+  const errors: string[] = [];
+  let position = 0;
+
+  const pushText = (value: string) => {
+    if (value) nodes.push({ type: "text", text: value });
+  };
+
+  tagPattern.lastIndex = 0;
+  for (let match = tagPattern.exec(text); match; match = tagPattern.exec(text)) {
+    const [raw, closing, rawName, rawAttributes, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    pushText(text.slice(position, match.index));
+    position = match.index + raw.length;
+
+    const attributes = readAttributes(rawAttributes);
+    if (closing) {
+      errors.push(`</${name}> has no matching opening tag`);
+      continue;
+    }
+
+    if (name === "break") {
+      const node = breakNode(attributes);
+      if (typeof node === "string") errors.push(node);
+      else nodes.push(node);
+      continue;
+    }
+
+    if (name !== "emphasis" && name !== "say-as") {
+      errors.push(`<${name}> is not supported; use <break>, <emphasis> or <say-as>`);
+      continue;
+    }
+    if (selfClosing) {
+      errors.push(`<${name}> needs text inside it`);
+      continue;
+    }
+
+    const end = text.toLowerCase().indexOf(`</${name}>`, position);
+    if (end === -1) {
+      errors.push(`<${name}> is not closed`);
+      continue;
+    }
+    const inner = text.slice(position, end);
+    position = end + name.length + 3;
+    tagPattern.lastIndex = position;
+
+    if (/<[a-zA-Z/]/.test(inner)) {
+      errors.push(`Tags cannot be nested inside <${name}>`);
+      pushText(inner.replace(/<[^>]*>/g, ""));
+      continue;
+    }
+
+    const node = name === "emphasis" ? emphasisNode(attributes, inner) : sayAsNode(attributes, inner);
+    if (typeof node === "string") {
+      errors.push(node);
+      pushText(inner);
+    } else {
+      nodes.push(node);
+    }
+  }
+
+  pushText(text.slice(position));
+  // Tag-like text the pattern could not read, e.g. single-quoted attributes.
+  for (const node of nodes) {
+    const stray = node.type === "text" ? node.text.match(/<\/?[a-zA-Z][^\s>/]*/) : null;
+    if (stray) errors.push(`Could not read the markup at "${stray[0]}"; quote attributes with "`);
+  }
+  return { nodes, errors };
+}
+
+/** The first problem with the markup in `text`, if any. */
+export function speechIssue(text: string) {
+  return parseSpeech(text).errors[0];
+}
+
+/** Zod refinement for fields that end up spoken on a call. */
+export function checkSpeech(value: string | undefined, context: z.RefinementCtx) {
+  const issue = value ? speechIssue(value) : undefined;
+  if (issue) context.addIssue({ code: "custom", message: issue });
+}
+
+/** What a line sounds like without markup: for transcripts, previews and timing. */
+export function plainSpeech(text: string) {
+  return parseSpeech(text)
+    .nodes.map(node => ("text" in node ? node.text : " "))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Rough speaking pace of the phone voices, in words per second.
+const wordsPerSecond: Record<SpeechRate, number> = {
+  "x-slow": 1.5,
+  slow: 2,
+  medium: 2.5,
+  fast: 3,
+  "x-fast": 3.5
+};
+
+const breakSeconds: Record<(typeof breakStrengths)[number], number> = {
+  none: 0,
+  "x-weak": 0.1,
+  weak: 0.25,
+  medium: 0.5,
+  strong: 0.75,
+  "x-strong": 1
+};
+
+/** About how long a line takes to say, counting words at `rate` and its pauses. */
+export function speakingSeconds(text: string, rate: SpeechRate = "medium") {
+  return parseSpeech(text).nodes.reduce((total, node) => {
+    if (node.type !== "break") {
+      return total + node.text.split(/\s+/).filter(Boolean).length / wordsPerSecond[rate];
+    }
+    if (!node.time) return total + breakSeconds[node.strength ?? "medium"];
+    const milliseconds = parseFloat(node.time) * (node.time.endsWith("ms") ? 1 : 1000);
+    return total + milliseconds / 1000;
+  }, 0);
+}
+
+/** Markup features the lines use, plus `rate` when the settings change the pace. */
+export function usedSpeechFeatures(lines: string[], settings: VoiceSettings) {
+  const used = new Set<SpeechFeature>();
+  for (const line of lines) {
+    for (const node of parseSpeech(line).nodes) {
+      if (node.type !== "text") used.add(node.type);
+    }
+  }
+  if (settings.rate !== "medium") used.add("rate");
+  return speechFeatures.filter(feature => used.has(feature));
+}
+
+function readAttributes(raw: string) {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1].toLowerCase()] = match[2];
+  }
+  return attributes;
+}
+
+function breakNode(attributes: Record<string, string>): SpeechNode | string {
+  const { time, strength } = attributes;
+  if (time !== undefined) {
+    const parsed = time.match(/^(\d+(?:\.\d+)?)(ms|s)$/);
+    const milliseconds = parsed ? Number(parsed[1]) * (parsed[2] === "s" ? 1000 : 1) : NaN;
+    if (!(milliseconds > 0 && milliseconds <= 10_000)) {
+      return `<break time="${time}"> must be between 1ms and 10s, like "500ms" or "2s"`;
+    }
+    return { type: "break", time };
+  }
+  if (strength !== undefined) {
+    if (!isOneOf(breakStrengths, strength)) return `<break strength="${strength}"> is not valid`;
+    return { type: "break", strength };
+  }
+  return { type: "break", strength: "medium" };
+}
+
+function emphasisNode(attributes: Record<string, string>, text: string): SpeechNode | string {
+  const level = attributes.level ?? "moderate";
+  if (!isOneOf(emphasisLevels, level)) {
+    return `<emphasis level="${level}"> must be strong, moderate or reduced`;
+  }
+  return { type: "emphasis", level, text };
+}
+
+function sayAsNode(attributes: Record<string, string>, text: string): SpeechNode | string {
+  const interpretAs = attributes["interpret-as"];
+  if (!interpretAs || !isOneOf(sayAsKinds, interpretAs)) {
+    return `<say-as> needs interpret-as set to one of ${sayAsKinds.join(", ")}`;
+  }
+  const format = attributes.format;
+  if (format !== undefined && (interpretAs !== "date" || !isOneOf(dateFormats, format))) {
+    return `<say-as format="${format}"> is only valid for dates (${dateFormats.join(", ")})`;
+  }
+  return { type: "say-as", interpretAs, format, text };
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: string): value is T {
+  return (values as readonly string[]).includes(value);
+}
@@ -0,0 +1,35 @@
+export type VoicemailInput = {
+  contactName: string;
+  objective: string;
+  callbackNumber?: string;
+};
+
+export const reachedOutcomes = ["human", "machine", "fax", "unknown"] as const;
+
+export type ReachedOutcome = (typeof reachedOutcomes)[number];
+
+/**
+ * Maps Twilio's `AnsweredBy` values onto the outcome recorded on a call.
+ * `machine_*` covers every voicemail greeting variant.
+ */
+export function reachedFromAnsweredBy(answeredBy: string): ReachedOutcome {
+  if (answeredBy === "human") return "human";
+  if (answeredBy.startsWith("machine")) return "machine";
+  if (answeredBy === "fax") return "fax";
+  return "unknown";
+}
+
+export function defaultVoicemailScript({ contactName, objective, callbackNumber }: VoicemailInput) {
+  const name = contactName.trim() || "there";
+  const reason = objective.trim() || "a quick follow-up from our team";
+  const callback = callbackNumber?.trim()
+    ? `You can reach us at ${spellOutNumber(callbackNumber.trim())}.`
+    : "You can reach us by returning this call.";
+
+  return `Hi ${name}, this is your outreach agent calling from our team about ${reason.replace(/[.!?]+$/, "")}. ${callback} Thanks, and talk soon.`;
+}
+
+// Read digits individually so text-to-speech doesn't voice a large number.
+function spellOutNumber(value: string) {
+  return value.replace(/\D/g, "").split("").join(" ");
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+
+export const webhookEvents = [
+  "call.created",
+  "call.completed",
+  "call.failed",
+  "call.dispositioned",
+  "transcript.ready"
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+/**
+ * `event` posts the standard envelope; `activity` posts the result of the
+ * endpoint's field mapping, for CRMs that expect their own shape.
+ */
+export const webhookFormats = ["event", "activity"] as const;
+
+export type WebhookFormat = (typeof webhookFormats)[number];
+
+/** Target field path (`activity.subject`) to a template over the event (`{{call.contactName}}`). */
+export type FieldMapping = Record<string, string>;
+
+export type WebhookEndpoint = {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  format: WebhookFormat;
+  mapping?: FieldMapping;
+  active: boolean;
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const deliveryStatuses = ["pending", "succeeded", "failed"] as const;
+
+export type DeliveryStatus = (typeof deliveryStatuses)[number];
+
+export type WebhookDelivery = {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: WebhookEvent;
+  /** The exact body that is signed and sent on every attempt. */
+  body: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+  /** The delivery this one re-sent from the log. */
+  replayOf?: string;
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const webhookEndpointSchema = z.object({
+  url: z.string().url("Provide the full URL of the receiver"),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(webhookEvents)).min(1, "Pick at least one event"),
+  format: z.enum(webhookFormats).default("event"),
+  mapping: z.record(z.string().max(500)).optional(),
+  active: z.boolean().default(true)
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+
+export const webhookEndpointPatchSchema = webhookEndpointSchema
+  .partial()
+  .extend({ mapping: z.record(z.string().max(500)).nullable().optional() })
+  .refine(value => Object.keys(value).length > 0, "Provide at least one field to change");
+
+export type WebhookEndpointPatch = z.infer<typeof webhookEndpointPatchSchema>;
+
+/** A starting point for pushing a finished call to a CRM as an activity. */
+export const defaultActivityMapping: FieldMapping = {
+  "activity.type": "call",
+  "activity.subject": "Call with {{call.contactName}}: {{call.objective}}",
+  "activity.phone": "{{call.phoneNumber}}",
+  "activity.status": "{{call.status}}",
+  "activity.durationSeconds": "{{call.duration}}",
+  "activity.notes": "{{call.notes}}",
+  "activity.transcript": "{{transcript}}",
+  "activity.occurredAt": "{{occurredAt}}",
+  "activity.externalId": "{{call.id}}"
+};
+
+const placeholder = /\{\{\s*([\w.]+)\s*\}\}/g;
+const wholePlaceholder = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+/**
+ * Builds a payload from a field mapping. A template that is a single
+ * placeholder keeps the source value's type; anything else is rendered as
+ * text, with missing values left empty.
+ */
+export function applyMapping(mapping: FieldMapping, source: Record<string, unknown>) {
+  const result: Record<string, unknown> = {};
+
+  for (const [target, template] of Object.entries(mapping)) {
+    const whole = template.trim().match(wholePlaceholder);
+    const value = whole
+      ? lookup(source, whole[1])
+      : template.replace(placeholder, (_, path: string) => {
+          const found = lookup(source, path);
+          return found === undefined || found === null ? "" : String(found);
+        });
+    if (value !== undefined) assign(result, target, value);
+  }
+
+  return result;
+}
+
+/** Parses `target = template` lines as typed in the dashboard. */
+export function parseMapping(text: string): FieldMapping {
+  const mapping: FieldMapping = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator <= 0) continue;
+    const target = line.slice(0, separator).trim();
+    if (target) mapping[target] = line.slice(separator + 1).trim();
+  }
+  return mapping;
+}
+
+export function formatMapping(mapping: FieldMapping) {
+  return Object.entries(mapping)
+    .map(([target, template]) => `${target} = ${template}`)
+    .join("\n");
+}
+
+function lookup(source: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== "object") return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function assign(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}